@@ -1,5 +1,20 @@
-import React, { useEffect, useRef, useState, FormEvent } from "react";
-import { motion, AnimatePresence } from "framer-motion";
+import React, {
+  createContext,
+  lazy,
+  Suspense,
+  useCallback,
+  useContext,
+  useEffect,
+  useId,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+  FormEvent,
+} from "react";
+import { createPortal } from "react-dom";
+import { Root, createRoot, hydrateRoot } from "react-dom/client";
+import { motion, AnimatePresence, MotionConfig } from "framer-motion";
 import {
   Menu,
   X,
@@ -13,56 +28,1400 @@ import {
   Coffee,
   Home,
   Monitor,
+  Tablet,
+  Smartphone,
+  ArrowLeft,
+  RotateCw,
+  Lock,
+  LucideIcon,
+  Moon,
+  Sun,
+  Download,
+  LogOut,
 } from "lucide-react";
+import {
+  IconName,
+  LocalizedSiteContent,
+  SiteContent,
+  resolveSiteContent,
+  validateLocalizedSiteContent,
+} from "./content/schema";
+import { realEstateCopy, restaurantCopy, saasCopy } from "./content/miniSites";
+import vortexContent from "./content/vortex";
+import { I18nProvider, Locale, LOCALES, MessageKey, MessageValues, detectLocale, useI18n } from "./i18n";
+import { Analytics, AnalyticsEventName, EventProps, beaconTransport, consoleTransport, createAnalytics, newSessionId } from "./lib/analytics";
+import {
+  ALL_DENIED,
+  ALL_GRANTED,
+  CONSENT_CATEGORIES,
+  CONSENT_STORAGE_KEY,
+  ConsentCategory,
+  ConsentPreferences,
+  ConsentRecord,
+  consentAllows,
+  makeConsentRecord,
+  parseConsentRecord,
+} from "./lib/consent";
+import {
+  ADMIN_SECTION,
+  LEAD_STATUSES,
+  LeadFilter,
+  LeadRecord,
+  LeadStatus,
+  LeadUpdate,
+  NOTE_MAX_LENGTH,
+  countByStatus,
+  fetchLeads,
+  fetchLeadsCsv,
+  filterLeads,
+  leadFilterQuery,
+  updateLead,
+} from "./lib/admin";
+import { CALL_SCHEMA, CallBooking, CallService, CallSlots, httpCallService } from "./lib/calls";
+import { Availability, fetchAvailability } from "./lib/capacity";
+import { ContentEntry, applyContentEntries, fetchContentEntries } from "./lib/cms";
+import { CONTACT_SCHEMA, ContactErrors, ContactSubmission, postContact } from "./lib/contact";
+import { Assignments, ExperimentContext, SITE_EXPERIMENTS, assignVariant } from "./lib/experiments";
+import { MiniSite, listMiniSites, registerMiniSite } from "./lib/miniSites";
+import {
+  MOTION_STORAGE_KEY,
+  MotionPreference,
+  createFrameGovernor,
+  initialMotionBudget,
+  motionReduced,
+  parseMotionPreference,
+} from "./lib/motion";
+import { RetryQueue, createRetryQueue, localStorageQueue } from "./lib/offlineQueue";
+import {
+  DEADLINES,
+  Deadline,
+  FEATURES,
+  Feature,
+  PAGE_RANGES,
+  PageRange,
+  ProjectType,
+  Qualification,
+} from "./lib/qualification";
+import { DEFAULT_QUOTE, PricedQuote, QUOTE_LIMITS, QuoteConfig, QuoteLine, priceQuote, renderQuoteDocument } from "./lib/quote";
+import { EMPTY_ROUTE, Route, formatRoute, parseRoute, sameRoute } from "./lib/router";
+import { HeadTag, PageMeta, headTags } from "./lib/seo";
+import {
+  ColorScheme,
+  DEFAULT_THEME,
+  THEME_STORAGE_KEY,
+  Theme,
+  ThemePreference,
+  hexToChannels,
+  parseThemePreference,
+  themeVariables,
+} from "./lib/theme";
+import { nowIn } from "./lib/time";
+import { FieldError, FieldErrors, Schema, checkEmail, hasErrors, validateSchema } from "./lib/validation";
 
 /**
  * App.tsx
  * VORTEX — Single-file React + Tailwind + Framer Motion "Ultra-Premium Dark Mode" site
  *
  * Notes:
- * - Single file containing ALL components (as requested).
+ * - Single file containing ALL components (as requested), except the portfolio demos (minisites/), which
+ *   are loaded on demand as chunks of their own.
  * - Uses Tailwind CSS utility classes (assumes Tailwind is configured in the host project).
  * - Uses framer-motion for animations.
  * - Uses lucide-react for icons.
  *
  * Design decisions:
- * - Ultra-premium dark radial gradient background with cyan accents (#00f2ff).
- * - Border-radius minimum 24px for cards (rounded-[24px]).
+ * - Ultra-premium dark radial gradient background with an accent color; colors, radii and glow are
+ *   design tokens (lib/theme.ts, `--vx-*` CSS variables) so client themes and a light mode apply everywhere.
+ * - Border-radius minimum 24px for cards (rounded-[var(--vx-radius-card)]).
  * - Sticky glassmorphism navigation with scroll progress bar.
  * - Hero with massive italic title and particle animation on canvas.
- * - Portfolio contains interactive simulated mini-browsers for 3 vertical industries.
+ * - Portfolio contains interactive simulated mini-browsers, one per demo registered with
+ *   `registerMiniSite` (lib/miniSites.ts); the client content picks which ones to show. Demos render in
+ *   an iframe inside a desktop/tablet/mobile frame, so their breakpoints reflow. The restaurant
+ *   books tables through the real booking engine (lib/booking.ts) on an in-memory store; the
+ *   real-estate agency searches a listings feed (lib/listings.ts) with its filters kept in the URL.
+ * - The open demo is part of the URL (`#portfolio/saas`, or `/portfolio/saas` when the host rewrites
+ *   paths to the app) so it can be linked to, and back/forward move between demos (lib/router.ts).
+ *   The Nav highlights the section in view.
  * - Comparison section with detailed feature comparison table.
- * - Offer section with psychological nudges and maintenance upsell.
- * - Contact form wired to Web3Forms API (example payload).
+ * - Offer section with a live quote configurator (add-ons, maintenance term, HT/TVA/TTC, printable
+ *   quote) whose configuration can be attached to the contact submission (lib/quote.ts).
+ * - Contact is a multi-step qualification wizard (project, pages, features, deadline, budget, details);
+ *   the server scores the lead from the answers.
+ * - Submissions post to /api/contact (server/), which holds the delivery credentials. Drafts are
+ *   autosaved and failed submissions are queued and retried when the browser is back online.
+ * - All client-facing copy and prices come from a validated SiteContent module (content/), so a new
+ *   client is a content file, not a fork of this one.
+ * - UI strings go through the i18n layer (i18n/): FR/EN/DE catalogs, ICU plurals, Intl formatting.
+ * - First-party analytics (lib/analytics.ts): section views, CTA clicks (`data-cta`), portfolio tabs and
+ *   form start/abandon/submit, feeding the funnel report of server/analytics.ts. No cookies; nothing is
+ *   sent before consent or when Do-Not-Track is on.
+ * - Consent manager (lib/consent.ts): banner + preferences dialog (necessary / analytics / marketing),
+ *   versioned choice kept on the device, `useConsent()` to gate optional features. Contact forms carry
+ *   their own explicit consent box, timestamped on the lead.
+ * - A/B tests on the hero headline, offer price framing and CTA copy (lib/experiments.ts): sticky weighted
+ *   assignment, exposures through analytics, conversions attributed to contact submissions.
+ * - The CTA box shows genuine availability (next start dates, projects that can still start this month)
+ *   computed from the studio's project calendar (lib/capacity.ts), and neutral copy when it's unknown.
+ * - Pages are prerendered to static HTML (server/prerender.ts) and hydrated by `mountApp`; `useHead`
+ *   keeps title, description, canonical, social cards and JSON-LD (lib/seo.ts) in step with the route.
+ *   Browser-only state (drafts, consent, A/B variant) is read after hydration (`useClientState`).
+ * - Accessibility (WCAG 2.2 AA): skip link, visible labels on every field (`Field`), live regions for form
+ *   status, text alternatives on spinners, focus trapped in the mobile menu and dialogs (`useFocusTrap`,
+ *   Escape closes), real buttons for in-page actions.
+ * - Motion policy (lib/motion.ts): `prefers-reduced-motion` or the footer toggle turn entrance animations
+ *   and the particle background off; the background pauses when hidden and adapts its particle count and
+ *   frame rate to measured frame times.
  *
  * Disclaimer: This is a self-contained UI file; for production some concerns (fonts, image assets,
- * SVGs, accessibility details) should be externalized and refined.
+ * SVGs) should be externalized and refined.
  */
 
 /* ---------------------------
    Utilities & Types
    --------------------------- */
 
-type MiniSiteKey = "restaurant" | "realestate" | "saas";
+/** Theme accent for inline styles (the `--vx-*` tokens are set by ThemeProvider, see lib/theme.ts). */
+const ACCENT = "rgb(var(--vx-accent))";
+
+const clamp = (v: number, a = 0, b = 1) => Math.max(a, Math.min(b, v));
+
+const ICONS: Record<IconName, LucideIcon> = {
+  zap: Zap,
+  check: CheckCircle,
+  arrow: ArrowRight,
+  coffee: Coffee,
+  home: Home,
+  monitor: Monitor,
+  globe: Globe,
+  mail: Mail,
+  phone: Phone,
+};
+
+/* ---------------------------
+   Site content
+   --------------------------- */
+
+const SiteContentContext = createContext<SiteContent>(vortexContent.fr);
+
+const useSiteContent = () => useContext(SiteContentContext);
+
+/**
+ * Returns a function formatting a content string in the active locale, with `{launch}`,
+ * `{maintenance}` and `{year}` pre-filled.
+ */
+const useFill = () => {
+  const { pricing } = useSiteContent();
+  const { format, formatCurrency } = useI18n();
+  return (template: string, extra: MessageValues = {}) =>
+    format(template, {
+      launch: formatCurrency(pricing.launch, pricing.currency),
+      maintenance: formatCurrency(pricing.maintenance, pricing.currency),
+      year: new Date().getFullYear(),
+      currency: pricing.currency,
+      ...extra,
+    });
+};
+
+/* ---------------------------
+   Server rendering & hydration (pages are prerendered by server/prerender.ts)
+   --------------------------- */
+
+/**
+ * True while React hydrates prerendered markup (`mountApp`). The first render must then match the
+ * server's, so state read from the browser (storage, visitor id) starts from its server value.
+ */
+let hydrating = false;
+
+/** `useState(read)`, except on the server and during hydration: starts at `serverValue`, reads once mounted. */
+function useClientState<T>(read: () => T, serverValue: T): [T, React.Dispatch<React.SetStateAction<T>>] {
+  const deferred = useRef(hydrating || typeof window === "undefined");
+  const [value, setValue] = useState<T>(() => (deferred.current ? serverValue : read()));
+  useEffect(() => {
+    if (deferred.current) setValue(read());
+  }, []);
+  return [value, setValue];
+}
+
+/** False on the server and in the first client render: for UI that must not be in the static HTML. */
+function useMounted() {
+  const [mounted, setMounted] = useState(false);
+  useEffect(() => setMounted(true), []);
+  return mounted;
+}
+
+/** Written into prerendered pages (`window.__VORTEX_SSR__`): what the markup was rendered with. */
+export type SsrPayload = {
+  locale: Locale;
+  route: Route;
+  /** CMS entries the page was built with (lib/cms.ts), so hydration starts from the same copy. */
+  entries?: ContentEntry[];
+};
+
+export const SSR_GLOBAL = "__VORTEX_SSR__";
+
+/** Route the page was rendered for; the server snapshot of `useRoute` (the URL isn't readable there). */
+const ServerRouteContext = createContext<Route>(EMPTY_ROUTE);
+
+/** Filled by the server render with the page's head tags (see lib/seo.ts). */
+export type HeadCollector = { tags: HeadTag[] };
+
+const HeadContext = createContext<HeadCollector | null>(null);
+
+/** Replaces the managed tags of `document.head` (prerendered ones carry `data-head` too). */
+function applyHead(tags: HeadTag[]) {
+  document.head.querySelectorAll("[data-head]").forEach((el) => el.remove());
+  for (const t of tags) {
+    if (t.tag === "title") document.title = t.text;
+    const el = document.createElement(t.tag);
+    if ("attrs" in t) for (const [k, v] of Object.entries(t.attrs)) el.setAttribute(k, v);
+    if ("text" in t) el.textContent = t.text;
+    el.setAttribute("data-head", "");
+    document.head.appendChild(el);
+  }
+}
+
+/** Head manager: the tags of the current page, collected on the server, applied in the browser. */
+function useHead(tags: HeadTag[]) {
+  const collector = useContext(HeadContext);
+  if (collector) collector.tags = tags;
+  const key = JSON.stringify(tags);
+  useEffect(() => applyHead(tags), [key]);
+}
+
+/* ---------------------------
+   Persistence hooks
+   --------------------------- */
+
+/**
+ * Form state autosaved to localStorage (debounced), so a reload doesn't lose what was typed.
+ * Returns the draft, a patch function and a reset that also forgets the saved copy.
+ */
+function useDraft<T extends object>(key: string, initial: T): [T, (patch: Partial<T>) => void, () => void] {
+  const initialRef = useRef(initial);
+  const [draft, setDraft] = useClientState<T>(() => {
+    try {
+      const raw = window.localStorage.getItem(key);
+      return raw ? { ...initial, ...JSON.parse(raw) } : initial;
+    } catch {
+      return initial;
+    }
+  }, initial);
+
+  useEffect(() => {
+    const t = setTimeout(() => {
+      try {
+        if (JSON.stringify(draft) === JSON.stringify(initialRef.current)) window.localStorage.removeItem(key);
+        else window.localStorage.setItem(key, JSON.stringify(draft));
+      } catch {
+        // storage unavailable: autosave silently disabled
+      }
+    }, 300);
+    return () => clearTimeout(t);
+  }, [key, draft]);
+
+  const update = useCallback((patch: Partial<T>) => setDraft((d) => ({ ...d, ...patch })), []);
+  const reset = useCallback(() => setDraft(initialRef.current), []);
+  return [draft, update, reset];
+}
+
+let contactQueue: RetryQueue<ContactSubmission> | null = null;
+
+const getContactQueue = () =>
+  (contactQueue ??= createRetryQueue<ContactSubmission>({
+    storage: localStorageQueue("vortex.contact.queue"),
+    send: postContact,
+  }));
+
+/**
+ * Runs the contact retry queue while mounted and exposes the number of pending submissions. The queue is
+ * shared by every contact form on the page: each one tags what it queues and only hears about its own.
+ */
+function useContactQueue(tag: string, onEvent?: (type: "sent" | "rejected") => void) {
+  const [pending, setPending] = useState(0);
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  useEffect(() => {
+    const queue = getContactQueue();
+    setPending(queue.size(tag));
+    const unsubscribe = queue.subscribe((e) => {
+      if (e.type === "change") setPending(queue.size(tag));
+      else if (e.item.tag === tag) onEventRef.current?.(e.type);
+    });
+    const stop = queue.start();
+    return () => {
+      unsubscribe();
+      stop();
+    };
+  }, [tag]);
+
+  return { pending, enqueue: (payload: ContactSubmission) => getContactQueue().enqueue(payload, tag) };
+}
+
+/* ---------------------------
+   Quote state (OfferCard configurator ↔ contact wizard)
+   --------------------------- */
+
+type QuoteState = {
+  config: QuoteConfig;
+  quote: PricedQuote;
+  setConfig: (patch: Partial<QuoteConfig>) => void;
+  /** Whether the configured quote goes along with the next contact submission. */
+  attached: boolean;
+  setAttached: (attached: boolean) => void;
+};
+
+const QuoteContext = createContext<QuoteState | null>(null);
+
+const QuoteProvider: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
+  const { pricing } = useSiteContent();
+  const [draft, setDraft] = useDraft<QuoteConfig & { attached: boolean }>("vortex.quote", { ...DEFAULT_QUOTE, attached: false });
+  const { attached, ...config } = draft;
+  const quote = useMemo(() => priceQuote(config, pricing), [JSON.stringify(config), pricing]);
+  const value: QuoteState = { config, quote, setConfig: setDraft, attached, setAttached: (a) => setDraft({ attached: a }) };
+  return <QuoteContext.Provider value={value}>{children}</QuoteContext.Provider>;
+};
+
+function useQuote(): QuoteState {
+  const ctx = useContext(QuoteContext);
+  if (!ctx) throw new Error("useQuote must be used inside <QuoteProvider>");
+  return ctx;
+}
+
+/* ---------------------------
+   Routing (section + sub-path in the URL, see lib/router.ts)
+   --------------------------- */
+
+/** Fired on `window` after `navigate`, since pushState itself emits nothing. */
+const NAVIGATE_EVENT = "vortex:navigate";
+
+let routeSnapshot: Route = EMPTY_ROUTE;
+
+/** Same object while the route is unchanged, as useSyncExternalStore requires. */
+const readRoute = () => {
+  const next = parseRoute(window.location);
+  if (!sameRoute(next, routeSnapshot)) routeSnapshot = next;
+  return routeSnapshot;
+};
+
+const subscribeRoute = (onChange: () => void) => {
+  const events = ["popstate", "hashchange", NAVIGATE_EVENT];
+  events.forEach((e) => window.addEventListener(e, onChange));
+  return () => events.forEach((e) => window.removeEventListener(e, onChange));
+};
+
+function useRoute() {
+  const serverRoute = useContext(ServerRouteContext);
+  return useSyncExternalStore(subscribeRoute, readRoute, () => serverRoute);
+}
+
+/** Adds a history entry for `route` (back returns to the previous one) without scrolling. */
+function navigate(route: Route, { replace = false } = {}) {
+  const url = formatRoute(route, window.location);
+  if (replace) window.history.replaceState(window.history.state, "", url);
+  else window.history.pushState(window.history.state, "", url);
+  window.dispatchEvent(new Event(NAVIGATE_EVENT));
+}
+
+/**
+ * Scrolls to the section of a deep link (`#portfolio/saas`, `/portfolio/saas`) on load and when such a
+ * link is followed; the browser only does it by itself for plain anchors.
+ */
+function useDeepLinkScroll() {
+  useEffect(() => {
+    const scroll = () => {
+      const { section, sub } = readRoute();
+      if (section && (sub || !window.location.hash)) document.getElementById(section)?.scrollIntoView();
+    };
+    scroll();
+    window.addEventListener("hashchange", scroll);
+    return () => window.removeEventListener("hashchange", scroll);
+  }, []);
+}
+
+/** Id of the section currently in the middle of the viewport, among `ids` (first one wins on ties). */
+function useActiveSection(ids: string[]): string | null {
+  const [active, setActive] = useState<string | null>(null);
+  const key = ids.join(" ");
+  useEffect(() => {
+    if (typeof IntersectionObserver === "undefined") return;
+    const visible = new Set<string>();
+    const observer = new IntersectionObserver(
+      (entries) => {
+        for (const e of entries) {
+          if (e.isIntersecting) visible.add(e.target.id);
+          else visible.delete(e.target.id);
+        }
+        setActive(ids.find((id) => visible.has(id)) ?? null);
+      },
+      // a thin band across the middle of the screen
+      { rootMargin: "-45% 0px -50% 0px" }
+    );
+    for (const id of ids) {
+      const el = document.getElementById(id);
+      if (el) observer.observe(el);
+    }
+    return () => observer.disconnect();
+  }, [key]);
+  return active;
+}
+
+/* ---------------------------
+   Analytics (events and transports in lib/analytics.ts)
+   --------------------------- */
+
+let analytics: Analytics | null = null;
+
+/**
+ * Beacons to /api/analytics in production, logs in dev. Consent starts "unknown": events wait in memory
+ * (the last 100) and only leave once the visitor accepts analytics in the consent banner; ConsentProvider
+ * is the only caller of `setConsent`, so without it nothing is ever sent.
+ */
+const getAnalytics = () =>
+  (analytics ??= createAnalytics({ transport: process.env.NODE_ENV === "production" ? beaconTransport() : consoleTransport() }));
+
+const track = (name: AnalyticsEventName, props?: EventProps) => {
+  if (typeof window !== "undefined") getAnalytics().track(name, props);
+};
+
+/** Sections reported by `section_view`. */
+const TRACKED_SECTIONS = ["home", "portfolio", "offres", "contact", "footer"];
+
+/** section_view once per section and page view, cta_click for every `data-cta` element, flush when the page is hidden. */
+function usePageTracking() {
+  useEffect(() => {
+    const onClick = (e: MouseEvent) => {
+      const cta = e.target instanceof Element ? e.target.closest("[data-cta]") : null;
+      if (cta) track("cta_click", { cta: cta.getAttribute("data-cta") ?? "" });
+    };
+    const onHide = () => {
+      if (document.visibilityState === "hidden") getAnalytics().flush();
+    };
+    document.addEventListener("click", onClick);
+    document.addEventListener("visibilitychange", onHide);
+
+    const seen = new Set<string>();
+    const observer =
+      typeof IntersectionObserver === "undefined"
+        ? null
+        : new IntersectionObserver(
+            (entries) => {
+              for (const e of entries) {
+                if (!e.isIntersecting || seen.has(e.target.id)) continue;
+                seen.add(e.target.id);
+                track("section_view", { section: e.target.id });
+              }
+            },
+            // same middle band as the Nav highlighting
+            { rootMargin: "-45% 0px -50% 0px" }
+          );
+    for (const id of TRACKED_SECTIONS) {
+      const el = document.getElementById(id);
+      if (el) observer?.observe(el);
+    }
+
+    return () => {
+      document.removeEventListener("click", onClick);
+      document.removeEventListener("visibilitychange", onHide);
+      observer?.disconnect();
+    };
+  }, []);
+}
+
+/**
+ * form_start on the first interaction with a form, form_submit once it went through, form_abandon if the
+ * visitor leaves (or the form unmounts) in between. `context` (e.g. the wizard step) goes with the abandon.
+ */
+function useFormTracking(form: string, context: EventProps = {}) {
+  const state = useRef<"idle" | "started" | "done">("idle");
+  const contextRef = useRef(context);
+  contextRef.current = context;
+
+  useEffect(() => {
+    const abandon = () => {
+      if (state.current !== "started") return;
+      state.current = "idle";
+      track("form_abandon", { form, ...contextRef.current });
+      getAnalytics().flush();
+    };
+    window.addEventListener("pagehide", abandon);
+    return () => {
+      window.removeEventListener("pagehide", abandon);
+      abandon();
+    };
+  }, [form]);
+
+  return {
+    start: () => {
+      if (state.current !== "idle") return;
+      state.current = "started";
+      track("form_start", { form });
+    },
+    submitted: () => {
+      state.current = "done";
+      track("form_submit", { form });
+    },
+  };
+}
+
+/* ---------------------------
+   Experiments (A/B tests, see lib/experiments.ts)
+   --------------------------- */
+
+const VISITOR_STORAGE_KEY = "vortex.visitor";
+
+let visitorId: string | null = null;
+
+/**
+ * Id the variants are hashed from. Kept on the device only once analytics is accepted (`rememberVisitor`);
+ * until then it lasts for the page view, so assignments are sticky only for visitors who agreed.
+ */
+const getVisitorId = () =>
+  (visitorId ??= (() => {
+    try {
+      const stored = window.localStorage.getItem(VISITOR_STORAGE_KEY);
+      if (stored && /^[0-9a-f]{16}$/.test(stored)) return stored;
+    } catch {
+      // storage unavailable: a fresh id per page view
+    }
+    return newSessionId();
+  })());
+
+function rememberVisitor(keep: boolean) {
+  try {
+    if (keep) window.localStorage.setItem(VISITOR_STORAGE_KEY, getVisitorId());
+    else window.localStorage.removeItem(VISITOR_STORAGE_KEY);
+  } catch {
+    // storage unavailable
+  }
+}
+
+/** Variants shown during this page view, by experiment (what a conversion is attributed to). */
+const shownVariants: Assignments = {};
+
+/**
+ * Variant of experiment `id` for this visitor, logged as an exposure the first time it's shown. A variant
+ * `hasCopy` rejects (the client's content has no text for it) is shown, and counted, as the control.
+ */
+function useVariant(id: string, hasCopy: (variant: string) => boolean = () => true): string {
+  const experiment = SITE_EXPERIMENTS.find((e) => e.id === id);
+  const control = experiment?.variants[0].id ?? "control";
+  const pick = () => {
+    const assigned = experiment ? assignVariant(experiment, getVisitorId()) : control;
+    return assigned === control || hasCopy(assigned) ? assigned : control;
+  };
+  // prerendered pages show the control; the visitor's variant replaces it once hydrated
+  const [variant] = useClientState(pick, control);
+
+  useEffect(() => {
+    if (!experiment || shownVariants[id]) return;
+    // from the assignment itself: the first commit of a hydration still shows the server's control
+    const shown = pick();
+    shownVariants[id] = shown;
+    track("experiment_exposure", { experiment: id, variant: shown, visitor: getVisitorId() });
+  }, [id]);
+
+  return variant;
+}
+
+/** Attribution for a contact submission: the variants this visitor saw. */
+const experimentContext = (): ExperimentContext | null =>
+  Object.keys(shownVariants).length ? { visitor: getVisitorId(), variants: { ...shownVariants } } : null;
+
+/* ---------------------------
+   Focus management (dialogs, mobile menu)
+   --------------------------- */
+
+const FOCUSABLE = 'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+/**
+ * While `active`, keeps keyboard focus inside `ref`: focus moves in (to the container when it is itself
+ * focusable, else to its first control), Tab and Shift+Tab wrap around, Escape calls `onClose`. Focus
+ * goes back to where it was once inactive.
+ */
+function useFocusTrap(ref: React.RefObject<HTMLElement>, active: boolean, onClose: () => void) {
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  useEffect(() => {
+    const container = ref.current;
+    if (!active || !container) return;
+    const previous = document.activeElement as HTMLElement | null;
+    const focusables = () => Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE));
+    (container.hasAttribute("tabindex") ? container : focusables()[0] ?? container).focus();
+
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") return onCloseRef.current();
+      if (e.key !== "Tab") return;
+      const items = focusables();
+      if (!items.length) return e.preventDefault();
+      const first = items[0];
+      const last = items[items.length - 1];
+      const current = document.activeElement;
+      if (e.shiftKey && (current === first || !container.contains(current))) {
+        e.preventDefault();
+        last.focus();
+      } else if (!e.shiftKey && (current === last || !container.contains(current))) {
+        e.preventDefault();
+        first.focus();
+      }
+    };
+    document.addEventListener("keydown", onKey);
+    return () => {
+      document.removeEventListener("keydown", onKey);
+      previous?.focus();
+    };
+  }, [active]);
+}
+
+/* ---------------------------
+   Consent (banner + preferences, choices in lib/consent.ts)
+   --------------------------- */
+
+type ConsentState = {
+  /** Current choice, null until the visitor makes one (or after CONSENT_VERSION changed). */
+  record: ConsentRecord | null;
+  /** Gate for anything optional: `if (allowed("marketing")) loadPixel()`. */
+  allowed: (category: ConsentCategory) => boolean;
+  save: (categories: ConsentPreferences) => void;
+  preferencesOpen: boolean;
+  openPreferences: () => void;
+  closePreferences: () => void;
+};
+
+const ConsentContext = createContext<ConsentState | null>(null);
+
+const readStoredConsent = () => {
+  try {
+    return parseConsentRecord(window.localStorage.getItem(CONSENT_STORAGE_KEY));
+  } catch {
+    return null;
+  }
+};
+
+const ConsentProvider: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
+  const [record, setRecord] = useClientState<ConsentRecord | null>(readStoredConsent, null);
+  const [preferencesOpen, setPreferencesOpen] = useState(false);
+
+  // analytics events wait in memory until the choice; a refusal drops them. No record (none yet, or
+  // cleared in another tab) is no consent: events are held again, not sent
+  useEffect(() => {
+    if (!record) return getAnalytics().setConsent("unknown");
+    getAnalytics().setConsent(record.categories.analytics ? "granted" : "denied");
+    rememberVisitor(record.categories.analytics);
+  }, [record]);
+
+  // a choice made in another tab applies here too
+  useEffect(() => {
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === CONSENT_STORAGE_KEY) setRecord(parseConsentRecord(e.newValue));
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, []);
+
+  const save = useCallback((categories: ConsentPreferences) => {
+    const next = makeConsentRecord(categories);
+    try {
+      window.localStorage.setItem(CONSENT_STORAGE_KEY, JSON.stringify(next));
+    } catch {
+      // storage unavailable: the choice holds for this page view only
+    }
+    setRecord(next);
+    setPreferencesOpen(false);
+  }, []);
+
+  const value: ConsentState = {
+    record,
+    allowed: (category) => consentAllows(record, category),
+    save,
+    preferencesOpen,
+    openPreferences: () => setPreferencesOpen(true),
+    closePreferences: () => setPreferencesOpen(false),
+  };
+  return (
+    <ConsentContext.Provider value={value}>
+      {children}
+      <ConsentBanner />
+      <ConsentPreferencesDialog />
+    </ConsentContext.Provider>
+  );
+};
+
+function useConsent(): ConsentState {
+  const ctx = useContext(ConsentContext);
+  if (!ctx) throw new Error("useConsent must be used inside <ConsentProvider>");
+  return ctx;
+}
+
+/** Shown until a choice is made; refusing is as easy as accepting. */
+const ConsentBanner: React.FC = () => {
+  const { t } = useI18n();
+  const { record, save, preferencesOpen, openPreferences } = useConsent();
+  // never part of the static HTML: it would flash for visitors who already chose
+  const mounted = useMounted();
+  if (!mounted || record || preferencesOpen) return null;
+  const buttonClass = "px-4 py-2 rounded-[var(--vx-radius-control)] text-sm font-bold border border-[rgb(var(--vx-fg)/10%)] bg-[rgb(var(--vx-fg)/5%)] hover:bg-[rgb(var(--vx-fg)/10%)]";
+  return (
+    <div role="region" aria-label={t("consent.banner.title")} className="fixed bottom-4 inset-x-4 z-[60]">
+      <div className="max-w-3xl mx-auto rounded-[var(--vx-radius-card)] p-5 bg-[rgb(var(--vx-surface)/85%)] backdrop-blur border border-[rgb(var(--vx-fg)/10%)] shadow-2xl">
+        <div className="font-bold">{t("consent.banner.title")}</div>
+        <p className="mt-1 text-sm text-[rgb(var(--vx-fg)/70%)]">{t("consent.banner.text")}</p>
+        <div className="mt-4 flex flex-wrap items-center justify-end gap-2">
+          <button type="button" onClick={openPreferences} className="px-4 py-2 text-sm text-[rgb(var(--vx-fg)/70%)] hover:text-[rgb(var(--vx-fg))] underline underline-offset-4">
+            {t("consent.customize")}
+          </button>
+          <button type="button" onClick={() => save(ALL_DENIED)} className={buttonClass}>
+            {t("consent.rejectAll")}
+          </button>
+          <button type="button" onClick={() => save(ALL_GRANTED)} className={buttonClass}>
+            {t("consent.acceptAll")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const ConsentPreferencesDialog: React.FC = () => {
+  const { t } = useI18n();
+  const { record, save, preferencesOpen, closePreferences } = useConsent();
+  const [choices, setChoices] = useState<ConsentPreferences>(ALL_DENIED);
+  const dialogRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (preferencesOpen) setChoices(record?.categories ?? ALL_DENIED);
+  }, [preferencesOpen]);
+  useFocusTrap(dialogRef, preferencesOpen, closePreferences);
+
+  if (!preferencesOpen) return null;
+  const buttonClass = "px-4 py-2 rounded-[var(--vx-radius-control)] text-sm font-bold border border-[rgb(var(--vx-fg)/10%)] bg-[rgb(var(--vx-fg)/5%)] hover:bg-[rgb(var(--vx-fg)/10%)]";
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center p-4 bg-[rgb(var(--vx-surface)/70%)]" onClick={closePreferences}>
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="consent-title"
+        tabIndex={-1}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-lg rounded-[var(--vx-radius-card)] p-6 bg-[rgb(var(--vx-bg))] border border-[rgb(var(--vx-fg)/10%)] outline-none"
+      >
+        <div className="flex items-center justify-between">
+          <h2 id="consent-title" className="text-lg font-bold">
+            {t("consent.dialogTitle")}
+          </h2>
+          <button type="button" onClick={closePreferences} aria-label={t("consent.close")} className="p-2 rounded-md text-[rgb(var(--vx-fg)/60%)] hover:text-[rgb(var(--vx-fg))]">
+            <X size={18} />
+          </button>
+        </div>
+
+        <ul className="mt-4 space-y-3">
+          {CONSENT_CATEGORIES.map((c) => (
+            <li key={c} className="rounded-[var(--vx-radius-control)] p-3 bg-[rgb(var(--vx-surface)/20%)] border border-[rgb(var(--vx-fg)/6%)]">
+              <label className="flex items-start gap-3">
+                <input
+                  type="checkbox"
+                  className="mt-1"
+                  checked={c === "necessary" || choices[c]}
+                  disabled={c === "necessary"}
+                  onChange={(e) => c !== "necessary" && setChoices({ ...choices, [c]: e.target.checked })}
+                />
+                <span>
+                  <span className="text-sm font-bold">{t(`consent.category.${c}.label`)}</span>
+                  {c === "necessary" && <span className="ml-2 text-xs text-[rgb(var(--vx-fg)/50%)]">{t("consent.alwaysOn")}</span>}
+                  <span className="block text-sm text-[rgb(var(--vx-fg)/60%)]">{t(`consent.category.${c}.desc`)}</span>
+                </span>
+              </label>
+            </li>
+          ))}
+        </ul>
+
+        <div className="mt-5 flex flex-wrap justify-end gap-2">
+          <button type="button" onClick={() => save(ALL_DENIED)} className={buttonClass}>
+            {t("consent.rejectAll")}
+          </button>
+          <button type="button" onClick={() => save(ALL_GRANTED)} className={buttonClass}>
+            {t("consent.acceptAll")}
+          </button>
+          <button type="button" onClick={() => save(choices)} className="px-4 py-2 rounded-[var(--vx-radius-control)] text-sm font-bold bg-gradient-to-r from-[rgb(var(--vx-accent))] to-[rgb(var(--vx-accent-soft))] text-[rgb(var(--vx-on-accent))]">
+            {t("consent.save")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+/* ---------------------------
+   Theme (design tokens as CSS variables, light/dark; see lib/theme.ts)
+   --------------------------- */
+
+/** Whether a media query matches, following its changes; false on the server. */
+function useMediaQuery(query: string): boolean {
+  const subscribe = useCallback(
+    (onChange: () => void) => {
+      const list = window.matchMedia(query);
+      list.addEventListener("change", onChange);
+      return () => list.removeEventListener("change", onChange);
+    },
+    [query]
+  );
+  return useSyncExternalStore(subscribe, () => window.matchMedia(query).matches, () => false);
+}
+
+type ThemeState = {
+  theme: Theme;
+  /** Scheme in use: the visitor's choice, else the system's, else dark. */
+  scheme: ColorScheme;
+  preference: ThemePreference;
+  setPreference: (preference: ThemePreference) => void;
+};
+
+const ThemeContext = createContext<ThemeState>({ theme: DEFAULT_THEME, scheme: "dark", preference: "system", setPreference: () => {} });
+
+const useTheme = () => useContext(ThemeContext);
+
+function readThemePreference(): ThemePreference {
+  try {
+    return parseThemePreference(window.localStorage.getItem(THEME_STORAGE_KEY));
+  } catch {
+    return "system";
+  }
+}
+
+/**
+ * Sets the theme's tokens on a wrapper element, so they are part of the prerendered HTML and reach
+ * everything the app renders, fixed overlays included.
+ */
+const ThemeProvider: React.FC<{ theme: Theme; children?: React.ReactNode }> = ({ theme, children }) => {
+  const systemLight = useMediaQuery("(prefers-color-scheme: light)");
+  const [preference, setStored] = useClientState<ThemePreference>(readThemePreference, "system");
+  const setPreference = (next: ThemePreference) => {
+    setStored(next);
+    try {
+      if (next === "system") window.localStorage.removeItem(THEME_STORAGE_KEY);
+      else window.localStorage.setItem(THEME_STORAGE_KEY, next);
+    } catch {
+      // storage unavailable: the choice holds for this page view
+    }
+  };
+  const scheme: ColorScheme = preference === "system" ? (systemLight ? "light" : "dark") : preference;
+
+  // native controls and scrollbars follow the scheme too
+  useEffect(() => {
+    document.documentElement.style.colorScheme = scheme;
+  }, [scheme]);
+
+  return (
+    <ThemeContext.Provider value={{ theme, scheme, preference, setPreference }}>
+      <div data-theme={theme.name} data-scheme={scheme} style={{ ...themeVariables(theme, scheme), colorScheme: scheme } as React.CSSProperties}>
+        {children}
+      </div>
+    </ThemeContext.Provider>
+  );
+};
+
+const ThemeToggle: React.FC = () => {
+  const { t } = useI18n();
+  const { scheme, setPreference } = useTheme();
+  const next: ColorScheme = scheme === "dark" ? "light" : "dark";
+  return (
+    <button
+      type="button"
+      onClick={() => setPreference(next)}
+      aria-label={t(`theme.switch.${next}`)}
+      title={t(`theme.switch.${next}`)}
+      className="p-2 rounded-lg bg-[rgb(var(--vx-fg)/4%)] hover:bg-[rgb(var(--vx-fg)/6%)]"
+    >
+      {scheme === "dark" ? <Sun size={16} aria-hidden /> : <Moon size={16} aria-hidden />}
+    </button>
+  );
+};
+
+/* ---------------------------
+   Motion policy (reduced motion, effects toggle; see lib/motion.ts)
+   --------------------------- */
+
+type MotionState = {
+  /** True when animations should be skipped: the visitor's choice, else the system setting. */
+  reduced: boolean;
+  preference: MotionPreference;
+  setPreference: (preference: MotionPreference) => void;
+};
+
+const MotionContext = createContext<MotionState>({ reduced: false, preference: "system", setPreference: () => {} });
+
+const useMotion = () => useContext(MotionContext);
+
+function readMotionPreference(): MotionPreference {
+  try {
+    return parseMotionPreference(window.localStorage.getItem(MOTION_STORAGE_KEY));
+  } catch {
+    return "system";
+  }
+}
+
+/** Also sets framer-motion's policy, so every `motion.*` entrance follows it. */
+const MotionProvider: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
+  const systemReduced = useMediaQuery("(prefers-reduced-motion: reduce)");
+  const [preference, setStored] = useClientState<MotionPreference>(readMotionPreference, "system");
+  const setPreference = (next: MotionPreference) => {
+    setStored(next);
+    try {
+      if (next === "system") window.localStorage.removeItem(MOTION_STORAGE_KEY);
+      else window.localStorage.setItem(MOTION_STORAGE_KEY, next);
+    } catch {
+      // storage unavailable: the choice holds for this page view
+    }
+  };
+  const reduced = motionReduced(preference, systemReduced);
+  return (
+    <MotionContext.Provider value={{ reduced, preference, setPreference }}>
+      <MotionConfig reducedMotion={reduced ? "always" : "never"}>{children}</MotionConfig>
+    </MotionContext.Provider>
+  );
+};
+
+/** Footer switch: effects on/off, remembered on the device. */
+const MotionToggle: React.FC = () => {
+  const { t } = useI18n();
+  const { reduced, setPreference } = useMotion();
+  return (
+    <button type="button" aria-pressed={reduced} onClick={() => setPreference(reduced ? "full" : "reduced")} className="underline underline-offset-4 hover:text-[rgb(var(--vx-fg))]">
+      {t("motion.reduce")}
+    </button>
+  );
+};
+
+/* ---------------------------
+   Editable content (lib/cms.ts)
+   --------------------------- */
+
+/** Token of a preview link (`?preview=<token>`), sent by the team to review drafts. */
+const readPreviewToken = () => new URLSearchParams(window.location.search).get("preview") ?? undefined;
+
+/**
+ * CMS entries to lay over the content: the ones the page was built with, then the current ones once
+ * /api/content answers (drafts included on a preview link). Without the API, the built ones stay.
+ */
+function useContentEntries(initial: ContentEntry[]): { entries: ContentEntry[]; preview: boolean } {
+  const [state, setState] = useState({ entries: initial, preview: false });
+  useEffect(() => {
+    let live = true;
+    fetchContentEntries({ previewToken: readPreviewToken() }).then((r) => live && r && setState(r));
+    return () => {
+      live = false;
+    };
+  }, []);
+  return state;
+}
+
+/** Edited copy that doesn't fit the schema is dropped with a warning: the built-in copy still renders. */
+function withEntries(content: LocalizedSiteContent, entries: ContentEntry[], preview: boolean): LocalizedSiteContent {
+  if (!entries.length) return content;
+  try {
+    return validateLocalizedSiteContent(applyContentEntries(content, entries, { preview }));
+  } catch (err) {
+    console.warn(`[cms] edited copy ignored: ${err instanceof Error ? err.message : err}`);
+    return content;
+  }
+}
+
+/** Reminds the reviewer that drafts are shown. */
+const PreviewBadge: React.FC = () => {
+  const { t } = useI18n();
+  return (
+    <div role="status" className="fixed top-4 left-1/2 -translate-x-1/2 z-[60] px-4 py-1.5 rounded-full text-xs font-bold bg-[rgb(var(--vx-warning))] text-[rgb(var(--vx-on-accent))] shadow-lg">
+      {t("cms.preview")}
+    </div>
+  );
+};
+
+/* ---------------------------
+   Admin: leads dashboard (lib/admin.ts)
+   --------------------------- */
+
+/** The admin password, for this browser session only. */
+const ADMIN_SESSION_KEY = "vortex.admin";
+
+const adminInputClass = "w-full rounded-[var(--vx-radius-control)] p-3 bg-[rgb(var(--vx-surface)/10%)] border border-[rgb(var(--vx-fg)/6%)]";
+
+/** Shown at /admin instead of the site; never indexed, never prerendered. */
+const AdminPage: React.FC<{ content: LocalizedSiteContent }> = ({ content }) => {
+  const { t, locale } = useI18n();
+  const [password, setPassword] = useClientState<string | null>(() => window.sessionStorage.getItem(ADMIN_SESSION_KEY), null);
+  useHead([
+    { tag: "title", text: t("admin.title") },
+    { tag: "meta", attrs: { name: "robots", content: "noindex, nofollow" } },
+  ]);
+
+  const signIn = (value: string) => {
+    window.sessionStorage.setItem(ADMIN_SESSION_KEY, value);
+    setPassword(value);
+  };
+  const signOut = () => {
+    window.sessionStorage.removeItem(ADMIN_SESSION_KEY);
+    setPassword(null);
+  };
+
+  return (
+    <SiteContentContext.Provider value={resolveSiteContent(content, locale)}>
+      <main id="main" className="min-h-screen bg-[rgb(var(--vx-bg))] text-[rgb(var(--vx-fg))] antialiased px-6 py-10">
+        <div className="max-w-screen-xl mx-auto">
+          <h1 className="text-2xl font-black">{t("admin.title")}</h1>
+          {password ? <LeadsDashboard password={password} onSignOut={signOut} /> : <AdminSignIn onSignIn={signIn} />}
+        </div>
+      </main>
+    </SiteContentContext.Provider>
+  );
+};
+
+const AdminSignIn: React.FC<{ onSignIn: (password: string) => void }> = ({ onSignIn }) => {
+  const { t } = useI18n();
+  const [password, setPassword] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError("");
+    try {
+      const res = await fetchLeads(password);
+      if (res.ok) return onSignIn(password);
+      setError(res.error === "rate_limited" ? t("admin.rateLimited", { seconds: res.retryAfter ?? 60 }) : t("admin.wrongPassword"));
+    } catch {
+      setError(t("admin.unavailable"));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={submit} className="mt-8 max-w-sm space-y-4">
+      <Field label={t("admin.passwordLabel")}>
+        <input type="password" autoComplete="current-password" required value={password} onChange={(e) => setPassword(e.target.value)} className={adminInputClass} />
+      </Field>
+      <button
+        type="submit"
+        disabled={loading || !password}
+        className="px-5 py-3 rounded-[var(--vx-radius-control)] font-bold bg-[rgb(var(--vx-accent))] text-[rgb(var(--vx-on-accent))] disabled:opacity-50 flex items-center gap-2"
+      >
+        {loading && <Spinner label={t("admin.loading")} />}
+        {t("admin.signIn")}
+      </button>
+      <div role="alert" className="text-sm text-[rgb(var(--vx-danger))] empty:hidden">
+        {error}
+      </div>
+    </form>
+  );
+};
+
+const LeadsDashboard: React.FC<{ password: string; onSignOut: () => void }> = ({ password, onSignOut }) => {
+  const { t, formatCurrency } = useI18n();
+  const { contact } = useSiteContent();
+  const fill = useFill();
+  // budget and maintenance are filtered by the API; the status is a tab over what it returned
+  const [filter, setFilter] = useState<Omit<LeadFilter, "status">>({});
+  const [status, setStatus] = useState<LeadStatus | undefined>();
+  const [records, setRecords] = useState<LeadRecord[] | null>(null);
+  const [error, setError] = useState("");
+
+  const query = leadFilterQuery(filter);
+  useEffect(() => {
+    let live = true;
+    setRecords(null);
+    setError("");
+    fetchLeads(password, filter).then(
+      (res) => {
+        if (!live) return;
+        if (res.ok && "leads" in res) setRecords(res.leads);
+        else if (!res.ok && res.error === "unauthorized") onSignOut();
+        else setError(t("admin.unavailable"));
+      },
+      () => live && setError(t("admin.unavailable"))
+    );
+    return () => {
+      live = false;
+    };
+  }, [password, query]);
+
+  /** Whether the update was saved; the error is shown above the list otherwise. */
+  const save = async (update: LeadUpdate) => {
+    setError("");
+    const res = await updateLead(password, update).catch(() => null);
+    if (!(res?.ok && "lead" in res)) {
+      setError(t("admin.updateFailed"));
+      return false;
+    }
+    setRecords((all) => all && all.map((r) => (r.lead.id === update.id ? res.lead : r)));
+    return true;
+  };
+
+  const exportCsv = async () => {
+    const blob = await fetchLeadsCsv(password, { ...filter, status }).catch(() => null);
+    if (!blob) return setError(t("admin.unavailable"));
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `leads-${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const counts = records ? countByStatus(records) : null;
+  const shown = records ? filterLeads(records, { status }) : [];
+  const tabClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-full text-sm border ${active ? "border-[rgb(var(--vx-accent-soft)/40%)] bg-[rgb(var(--vx-fg)/6%)]" : "border-[rgb(var(--vx-fg)/10%)] text-[rgb(var(--vx-fg)/70%)] hover:text-[rgb(var(--vx-fg))]"}`;
+
+  return (
+    <div className="mt-6 space-y-6">
+      <div className="flex flex-wrap items-end gap-4">
+        <Field label={t("admin.filter.budget")}>
+          <select
+            value={filter.budget === undefined ? "" : String(filter.budget)}
+            onChange={(e) => setFilter({ ...filter, budget: e.target.value === "" ? undefined : e.target.value === "none" ? "none" : Number(e.target.value) })}
+            className={adminInputClass}
+          >
+            <option value="">{t("admin.filter.any")}</option>
+            {contact.budgets.map((b) => (
+              <option key={b.value} value={b.value}>
+                {fill(b.label, { amount: formatCurrency(Number(b.value)) })}
+              </option>
+            ))}
+            <option value="none">{t("admin.filter.noBudget")}</option>
+          </select>
+        </Field>
+        <Field label={t("admin.filter.maintenance")}>
+          <select
+            value={filter.maintenance === undefined ? "" : filter.maintenance ? "1" : "0"}
+            onChange={(e) => setFilter({ ...filter, maintenance: e.target.value === "" ? undefined : e.target.value === "1" })}
+            className={adminInputClass}
+          >
+            <option value="">{t("admin.filter.any")}</option>
+            <option value="1">{t("admin.yes")}</option>
+            <option value="0">{t("admin.no")}</option>
+          </select>
+        </Field>
+        <div className="ml-auto flex gap-2">
+          <button type="button" onClick={exportCsv} disabled={!shown.length} className={`${tabClass(false)} disabled:opacity-50 flex items-center gap-2`}>
+            <Download size={14} aria-hidden />
+            {t("admin.export")}
+          </button>
+          <button type="button" onClick={onSignOut} className={`${tabClass(false)} flex items-center gap-2`}>
+            <LogOut size={14} aria-hidden />
+            {t("admin.signOut")}
+          </button>
+        </div>
+      </div>
+
+      <div role="group" aria-label={t("admin.filter.status")} className="flex flex-wrap gap-2">
+        <button type="button" aria-pressed={!status} onClick={() => setStatus(undefined)} className={tabClass(!status)}>
+          {t("admin.filter.any")} {records && `(${records.length})`}
+        </button>
+        {LEAD_STATUSES.map((s) => (
+          <button key={s} type="button" aria-pressed={status === s} onClick={() => setStatus(s)} className={tabClass(status === s)}>
+            {t(`admin.status.${s}`)} {counts && `(${counts[s]})`}
+          </button>
+        ))}
+      </div>
+
+      <div role="alert" className="text-sm text-[rgb(var(--vx-danger))] empty:hidden">
+        {error}
+      </div>
+      {!records && !error && <Spinner label={t("admin.loading")} size={20} />}
+      {records && !shown.length && <p className="text-sm text-[rgb(var(--vx-fg)/60%)]">{t("admin.empty")}</p>}
+
+      <ul className="space-y-4">
+        {shown.map((record) => (
+          <LeadCard key={record.lead.id} record={record} onSave={save} />
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+const LeadFact: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div>
+    <dt className="text-xs text-[rgb(var(--vx-fg)/60%)]">{label}</dt>
+    <dd>{value}</dd>
+  </div>
+);
+
+const LeadCard: React.FC<{ record: LeadRecord; onSave: (update: LeadUpdate) => Promise<boolean> }> = ({ record, onSave }) => {
+  const { t, locale, formatCurrency } = useI18n();
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { lead } = record;
+  const when = (iso: string) => new Intl.DateTimeFormat(locale, { dateStyle: "medium", timeStyle: "short" }).format(new Date(iso));
+
+  const update = async (change: Omit<LeadUpdate, "id">) => {
+    setSaving(true);
+    const saved = await onSave({ id: lead.id, ...change });
+    setSaving(false);
+    return saved;
+  };
+
+  return (
+    <li className="rounded-[var(--vx-radius-card)] p-5 bg-[rgb(var(--vx-surface)/30%)] border border-[rgb(var(--vx-fg)/8%)]">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <div className="font-bold">
+            {lead.name}
+            {lead.company && <span className="font-normal text-[rgb(var(--vx-fg)/60%)]"> — {lead.company}</span>}
+          </div>
+          <a href={`mailto:${lead.email}`} className="text-sm text-[rgb(var(--vx-accent-soft))] underline underline-offset-4">
+            {lead.email}
+          </a>
+          {lead.phone && (
+            <a href={`tel:${lead.phone}`} className="block text-sm text-[rgb(var(--vx-accent-soft))] underline underline-offset-4">
+              {lead.phone}
+            </a>
+          )}
+          <div className="mt-1 text-xs text-[rgb(var(--vx-fg)/50%)]">{t("admin.received", { date: when(lead.createdAt), source: lead.source })}</div>
+        </div>
+        <Field label={t("admin.filter.status")}>
+          <select value={record.status} disabled={saving} onChange={(e) => update({ status: e.target.value as LeadStatus })} className={adminInputClass}>
+            {LEAD_STATUSES.map((s) => (
+              <option key={s} value={s}>
+                {t(`admin.status.${s}`)}
+              </option>
+            ))}
+          </select>
+        </Field>
+      </div>
+
+      <dl className="mt-3 flex flex-wrap gap-x-8 gap-y-2 text-sm">
+        <LeadFact label={t("admin.filter.budget")} value={lead.budget === null ? t("admin.filter.noBudget") : formatCurrency(lead.budget, lead.currency)} />
+        <LeadFact label={t("admin.filter.maintenance")} value={lead.maintenance ? t("admin.yes") : t("admin.no")} />
+        {lead.score && <LeadFact label={t("admin.score")} value={`${lead.score.score} · ${t(`admin.tier.${lead.score.tier}`)}`} />}
+        {lead.quote && <LeadFact label={t("admin.quote")} value={formatCurrency(lead.quote.oneOff.ht, lead.quote.currency)} />}
+      </dl>
+      {lead.message && <p className="mt-3 text-sm text-[rgb(var(--vx-fg)/80%)] whitespace-pre-line">{lead.message}</p>}
+
+      <div className="mt-4 border-t border-[rgb(var(--vx-fg)/8%)] pt-3">
+        <div className="text-xs font-bold text-[rgb(var(--vx-fg)/60%)]">{t("admin.notes")}</div>
+        {record.notes.length > 0 && (
+          <ul className="mt-2 space-y-1 text-sm">
+            {record.notes.map((n) => (
+              <li key={n.at}>
+                <span className="text-xs text-[rgb(var(--vx-fg)/50%)]">{when(n.at)}</span> {n.text}
+              </li>
+            ))}
+          </ul>
+        )}
+        <form
+          className="mt-2 flex gap-2 items-end"
+          onSubmit={async (e) => {
+            e.preventDefault();
+            // kept in the field when the save failed, to try again
+            if (await update({ note })) setNote("");
+          }}
+        >
+          <Field label={t("admin.noteLabel")} className="flex-1">
+            <input value={note} maxLength={NOTE_MAX_LENGTH} onChange={(e) => setNote(e.target.value)} className={adminInputClass} />
+          </Field>
+          <button
+            type="submit"
+            disabled={saving || !note.trim()}
+            className="px-4 py-3 rounded-[var(--vx-radius-control)] text-sm font-bold border border-[rgb(var(--vx-fg)/10%)] bg-[rgb(var(--vx-fg)/5%)] hover:bg-[rgb(var(--vx-fg)/10%)] disabled:opacity-50"
+          >
+            {t("admin.addNote")}
+          </button>
+        </form>
+      </div>
+    </li>
+  );
+};
+
+/* ---------------------------
+   Root App
+   --------------------------- */
+
+type AppProps = {
+  content?: LocalizedSiteContent;
+  locale?: Locale;
+  /** Server render and hydration: the route the page is rendered for. */
+  route?: Route;
+  /** Server render: receives the page's head tags. */
+  head?: HeadCollector;
+  /** The client's brand theme (lib/theme.ts `createTheme`). */
+  theme?: Theme;
+  /** CMS-edited copy laid over `content` (lib/cms.ts): the build's entries, refreshed in the browser. */
+  entries?: ContentEntry[];
+};
+
+const NO_ENTRIES: ContentEntry[] = [];
+
+const App: React.FC<AppProps> = ({ content = vortexContent, locale, route = EMPTY_ROUTE, head, theme = DEFAULT_THEME, entries = NO_ENTRIES }) => {
+  // Validate once per content object so a broken client config fails loudly
+  const validated = useMemo(() => validateLocalizedSiteContent(content), [content]);
+  const edited = useContentEntries(entries);
+  const site = useMemo(() => withEntries(validated, edited.entries, edited.preview), [validated, edited]);
+  useEffect(() => {
+    // effects run once the tree is committed: hydration is over
+    hydrating = false;
+  }, []);
+  return (
+    <ServerRouteContext.Provider value={route}>
+      <HeadContext.Provider value={head ?? null}>
+        <I18nProvider initialLocale={locale}>
+          <ThemeProvider theme={theme}>
+            <ConsentProvider>
+              <MotionProvider>
+                <Page content={site} />
+                {edited.preview && <PreviewBadge />}
+              </MotionProvider>
+            </ConsentProvider>
+          </ThemeProvider>
+        </I18nProvider>
+      </HeadContext.Provider>
+    </ServerRouteContext.Provider>
+  );
+};
 
-const CYAN = "#00f2ff";
+/** /admin is the leads dashboard; every other route is the site. */
+const Page: React.FC<{ content: LocalizedSiteContent }> = ({ content }) =>
+  useRoute().section === ADMIN_SECTION ? <AdminPage content={content} /> : <Site content={content} />;
 
-const clamp = (v: number, a = 0, b = 1) => Math.max(a, Math.min(b, v));
+/**
+ * Title, description, canonical URL and social cards of the current route. Sections share the home
+ * page's canonical URL (they're anchors of it); a portfolio demo is a page of its own.
+ */
+const PageHead: React.FC = () => {
+  const content = useSiteContent();
+  const { locale } = useI18n();
+  const fill = useFill();
+  const route = useRoute();
+  const { seo, brand, portfolio, offer, contact } = content;
+  const mini = route.section === "portfolio" ? listMiniSites(portfolio.minis, locale, portfolio.copy).find((m) => m.key === route.sub) : undefined;
+  const titled = (title: string) => `${title} — ${brand.name}`;
+
+  let meta: PageMeta = { title: fill(seo.title), description: fill(seo.description), path: "/" };
+  if (mini) meta = { title: titled(mini.title), description: fill(mini.desc), path: `/portfolio/${mini.key}` };
+  else if (route.section === "portfolio") meta = { ...meta, title: titled(portfolio.title), description: portfolio.subtitle };
+  else if (route.section === "offres") meta = { ...meta, title: titled(fill(offer.title)) };
+  else if (route.section === "contact") meta = { ...meta, title: titled(contact.title), description: contact.subtitle };
+
+  useHead(headTags(meta, content, locale, (s) => fill(s)));
+  return null;
+};
 
-/* ---------------------------
-   Root App
-   --------------------------- */
+const Site: React.FC<{ content: LocalizedSiteContent }> = ({ content }) => {
+  const { locale } = useI18n();
+  const siteContent = resolveSiteContent(content, locale);
 
-const App: React.FC = () => {
   // Mobile nav state
   const [navOpen, setNavOpen] = useState(false);
 
+  useDeepLinkScroll();
+  usePageTracking();
+
   // Scroll progress
   const [progress, setProgress] = useState(0);
 
-  // Active portfolio sample
-  const [activeMini, setActiveMini] = useState<MiniSiteKey>("restaurant");
-
   // Smooth page title change
   useEffect(() => {
     const handleScroll = () => {
@@ -88,52 +1447,51 @@ const App: React.FC = () => {
   }, [navOpen]);
 
   return (
-    <div
-      className="min-h-screen text-white antialiased"
-      style={{
-        background:
-          "radial-gradient(60% 40% at 10% 10%, rgba(0,242,255,0.06), transparent 8%), radial-gradient(50% 60% at 90% 80%, rgba(0,242,255,0.02), transparent 12%), linear-gradient(180deg,#05060b 0%, #000000 100%)",
-        fontFamily:
-          "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, 'Noto Sans', 'Liberation Sans', sans-serif",
-      }}
-    >
-      <ScrollProgressBar progress={progress} color={CYAN} />
-      <header className="sticky top-4 z-50 px-6">
-        <Nav
-          navOpen={navOpen}
-          setNavOpen={setNavOpen}
-          activeMini={activeMini}
-          setActiveMini={setActiveMini}
-        />
-      </header>
-
-      <main className="max-w-screen-2xl mx-auto px-6 pb-32">
-        <Hero />
-        <div className="mt-16 grid grid-cols-1 lg:grid-cols-12 gap-12">
-          <section className="lg:col-span-7">
-            <Portfolio
-              activeMini={activeMini}
-              setActiveMini={setActiveMini}
-            />
-            <Comparison />
-            <FAQ />
-          </section>
-
-          <aside className="lg:col-span-5 space-y-8">
-            <OfferCard />
-            <ContactCard />
-            <Testimonials />
-            <CTABox />
-          </aside>
-        </div>
+    <SiteContentContext.Provider value={siteContent}>
+      <PageHead />
+      <QuoteProvider>
+        <div
+          className="min-h-screen text-[rgb(var(--vx-fg))] antialiased"
+          style={{
+            background:
+              "radial-gradient(60% 40% at 10% 10%, rgb(var(--vx-accent) / 0.06), transparent 8%), radial-gradient(50% 60% at 90% 80%, rgb(var(--vx-accent) / 0.02), transparent 12%), linear-gradient(180deg, rgb(var(--vx-bg)) 0%, rgb(var(--vx-bg-deep)) 100%)",
+            fontFamily:
+              "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, 'Noto Sans', 'Liberation Sans', sans-serif",
+          }}
+        >
+          <SkipLink />
+          <ScrollProgressBar progress={progress} />
+          <header className="sticky top-4 z-50 px-6">
+            <Nav navOpen={navOpen} setNavOpen={setNavOpen} />
+          </header>
+
+          <main id="main" tabIndex={-1} className="max-w-screen-2xl mx-auto px-6 outline-none">
+            <Hero />
+            <div className="mt-16 grid grid-cols-1 lg:grid-cols-12 gap-12">
+              <section className="lg:col-span-7">
+                <Portfolio />
+                <Comparison />
+                <FAQ />
+              </section>
+
+              <aside className="lg:col-span-5 space-y-8">
+                <OfferCard />
+                <ContactCard />
+                <DiscoveryCallCard />
+                <Testimonials />
+                <CTABox />
+              </aside>
+            </div>
+          </main>
 
-        <section id="footer" className="mt-20">
-          <Footer />
-        </section>
-      </main>
+          <div id="footer" className="max-w-screen-2xl mx-auto px-6 pb-32 mt-20">
+            <Footer />
+          </div>
 
-      <CanvasParticles />
-    </div>
+          <CanvasParticles />
+        </div>
+      </QuoteProvider>
+    </SiteContentContext.Provider>
   );
 };
 
@@ -143,13 +1501,14 @@ const App: React.FC = () => {
 
 const ScrollProgressBar: React.FC<{ progress: number; color?: string }> = ({
   progress,
-  color = CYAN,
+  color = ACCENT,
 }) => {
+  const { reduced } = useMotion();
   return (
     <div className="relative h-1 w-full pointer-events-none">
       <div
         aria-hidden
-        className="absolute left-0 top-0 h-1 w-full bg-white/2 rounded-full"
+        className="absolute left-0 top-0 h-1 w-full bg-[rgb(var(--vx-fg)/2%)] rounded-full"
         style={{ opacity: 0.04 }}
       />
       <div
@@ -157,9 +1516,9 @@ const ScrollProgressBar: React.FC<{ progress: number; color?: string }> = ({
         className="absolute left-0 top-0 h-1 rounded-full"
         style={{
           width: `${Math.round(progress * 100)}%`,
-          background: `linear-gradient(90deg, ${color}, rgba(0,242,255,0.55))`,
+          background: `linear-gradient(90deg, ${color}, rgb(var(--vx-accent) / 0.55))`,
           boxShadow: `0 0 20px ${color}`,
-          transition: "width 0.12s linear",
+          transition: reduced ? undefined : "width 0.12s linear",
         }}
       />
     </div>
@@ -173,26 +1532,31 @@ const ScrollProgressBar: React.FC<{ progress: number; color?: string }> = ({
 const Nav: React.FC<{
   navOpen: boolean;
   setNavOpen: (v: boolean) => void;
-  activeMini: MiniSiteKey;
-  setActiveMini: (k: MiniSiteKey) => void;
-}> = ({ navOpen, setNavOpen, activeMini, setActiveMini }) => {
+}> = ({ navOpen, setNavOpen }) => {
+  const { brand, nav } = useSiteContent();
+  const { t } = useI18n();
+  const menuRef = useRef<HTMLDivElement>(null);
+  useFocusTrap(menuRef, navOpen, () => setNavOpen(false));
+  const fill = useFill();
+  const activeSection = useActiveSection(nav.links.filter((l) => l.href.startsWith("#")).map((l) => l.href.slice(1)));
+  const isActive = (href: string) => href === `#${activeSection}`;
   return (
     <nav
-      className="backdrop-blur-md bg-black/30 border border-white/6 rounded-[28px] px-6 py-3 flex items-center justify-between shadow-xl"
+      className="backdrop-blur-md bg-[rgb(var(--vx-surface)/30%)] border border-[rgb(var(--vx-fg)/6%)] rounded-[28px] px-6 py-3 flex items-center justify-between shadow-xl"
       role="navigation"
-      aria-label="Main Navigation"
+      aria-label={t("nav.ariaLabel")}
     >
       <div className="flex items-center gap-4">
         <a href="#home" className="flex items-center gap-3">
           <div
-            className="w-12 h-12 rounded-[12px] flex items-center justify-center bg-gradient-to-br from-cyan-400/20 to-cyan-600/10 border border-white/6"
-            style={{ boxShadow: "0 8px 30px rgba(0,242,255,0.06)" }}
+            className="w-12 h-12 rounded-[var(--vx-radius-control)] flex items-center justify-center bg-gradient-to-br from-[rgb(var(--vx-accent)/20%)] to-[rgb(var(--vx-accent-deep)/10%)] border border-[rgb(var(--vx-fg)/6%)]"
+            style={{ boxShadow: "var(--vx-shadow-glow)" }}
           >
             <svg width="28" height="28" viewBox="0 0 24 24" fill="none">
               <defs>
                 <linearGradient id="g1" x1="0" x2="1" y1="0" y2="1">
-                  <stop offset="0" stopColor="#00f2ff" stopOpacity="1" />
-                  <stop offset="1" stopColor="#00a6ff" stopOpacity="0.7" />
+                  <stop offset="0" style={{ stopColor: ACCENT }} stopOpacity="1" />
+                  <stop offset="1" style={{ stopColor: "rgb(var(--vx-accent-deep))" }} stopOpacity="0.7" />
                 </linearGradient>
               </defs>
               <rect x="2" y="2" width="20" height="20" rx="5" stroke="url(#g1)" strokeWidth="1.5" />
@@ -200,42 +1564,44 @@ const Nav: React.FC<{
             </svg>
           </div>
           <div className="leading-tight">
-            <div className="text-sm font-extrabold tracking-wide">VORTEX</div>
-            <div className="text-[11px] text-white/60 -mt-0.5">Ultra-Premium Digital</div>
+            <div className="text-sm font-extrabold tracking-wide">{brand.name}</div>
+            <div className="text-[11px] text-[rgb(var(--vx-fg)/60%)] -mt-0.5">{brand.tagline}</div>
           </div>
         </a>
 
         <div className="hidden md:flex items-center gap-4 ml-6">
-          <a
-            href="#portfolio"
-            className={`px-3 py-2 rounded-lg text-sm font-semibold ${activeMini === "restaurant" ? "bg-white/4" : "hover:bg-white/3"}`}
-            onClick={() => setActiveMini("restaurant")}
-          >
-            Portfolio
-          </a>
-          <a href="#offres" className="px-3 py-2 rounded-lg text-sm font-semibold hover:bg-white/3">
-            Offres
-          </a>
-          <a href="#contact" className="px-3 py-2 rounded-lg text-sm font-semibold hover:bg-white/3">
-            Contact
-          </a>
+          {nav.links.map((l) => (
+            <a
+              key={l.href}
+              href={l.href}
+              aria-current={isActive(l.href) ? "location" : undefined}
+              className={`px-3 py-2 rounded-lg text-sm font-semibold ${isActive(l.href) ? "bg-[rgb(var(--vx-fg)/4%)]" : "hover:bg-[rgb(var(--vx-fg)/3%)]"}`}
+            >
+              {l.label}
+            </a>
+          ))}
         </div>
       </div>
 
       <div className="flex items-center gap-4">
         <div className="hidden md:flex items-center gap-3">
-          <a href="mailto:hello@vortex.agency" className="text-sm text-white/70 hover:text-white flex items-center gap-2">
-            <Mail size={14} /> hello@vortex.agency
+          <a href={`mailto:${brand.email}`} className="text-sm text-[rgb(var(--vx-fg)/70%)] hover:text-[rgb(var(--vx-fg))] flex items-center gap-2">
+            <Mail size={14} /> {brand.email}
           </a>
-          <a href="tel:+330123456789" className="text-sm text-white/70 hover:text-white flex items-center gap-2">
-            <Phone size={14} /> +33 1 23 45 67 89
+          <a href={`tel:${brand.phoneHref}`} className="text-sm text-[rgb(var(--vx-fg)/70%)] hover:text-[rgb(var(--vx-fg))] flex items-center gap-2">
+            <Phone size={14} /> {brand.phone}
           </a>
         </div>
 
+        <LocaleSwitcher />
+        <ThemeToggle />
+
         <div className="md:hidden">
           <button
-            className="p-2 rounded-lg bg-white/4 hover:bg-white/6"
-            aria-label="Toggle menu"
+            className="p-2 rounded-lg bg-[rgb(var(--vx-fg)/4%)] hover:bg-[rgb(var(--vx-fg)/6%)]"
+            aria-label={t("nav.toggleMenu")}
+            aria-expanded={navOpen}
+            aria-controls="mobile-menu"
             onClick={() => setNavOpen(!navOpen)}
           >
             {navOpen ? <X size={20} /> : <Menu size={20} />}
@@ -245,9 +1611,10 @@ const Nav: React.FC<{
         <div className="hidden md:block">
           <a
             href="#contact"
-            className="ml-2 inline-flex items-center gap-2 px-4 py-2 rounded-[12px] bg-gradient-to-r from-cyan-400 to-cyan-300 text-black font-bold shadow-lg"
+            data-cta="nav"
+            className="ml-2 inline-flex items-center gap-2 px-4 py-2 rounded-[var(--vx-radius-control)] bg-gradient-to-r from-[rgb(var(--vx-accent))] to-[rgb(var(--vx-accent-soft))] text-[rgb(var(--vx-on-accent))] font-bold shadow-lg"
           >
-            Démarrer — 749€
+            {fill(nav.cta)}
             <ArrowRight size={16} />
           </a>
         </div>
@@ -257,27 +1624,31 @@ const Nav: React.FC<{
       <AnimatePresence>
         {navOpen && (
           <motion.div
+            ref={menuRef}
+            id="mobile-menu"
             initial={{ opacity: 0, y: -8 }}
             animate={{ opacity: 1, y: 6 }}
             exit={{ opacity: 0, y: -8 }}
-            className="absolute left-6 right-6 top-20 z-40 bg-black/60 border border-white/6 rounded-[20px] p-4 md:hidden backdrop-blur"
+            className="absolute left-6 right-6 top-20 z-40 bg-[rgb(var(--vx-surface)/60%)] border border-[rgb(var(--vx-fg)/6%)] rounded-[20px] p-4 md:hidden backdrop-blur"
           >
             <div className="flex flex-col gap-2">
-              <a href="#portfolio" className="px-3 py-2 rounded-lg font-semibold" onClick={() => setNavOpen(false)}>
-                Portfolio
-              </a>
-              <a href="#offres" className="px-3 py-2 rounded-lg font-semibold" onClick={() => setNavOpen(false)}>
-                Offres
-              </a>
-              <a href="#contact" className="px-3 py-2 rounded-lg font-semibold" onClick={() => setNavOpen(false)}>
-                Contact
-              </a>
-              <div className="pt-2 border-t border-white/6 mt-2">
-                <a href="mailto:hello@vortex.agency" className="flex items-center gap-2 py-2 text-white/70 hover:text-white">
-                  <Mail size={16} /> hello@vortex.agency
+              {nav.links.map((l) => (
+                <a
+                  key={l.href}
+                  href={l.href}
+                  aria-current={isActive(l.href) ? "location" : undefined}
+                  className={`px-3 py-2 rounded-lg font-semibold ${isActive(l.href) ? "bg-[rgb(var(--vx-fg)/4%)]" : ""}`}
+                  onClick={() => setNavOpen(false)}
+                >
+                  {l.label}
                 </a>
-                <a href="tel:+330123456789" className="flex items-center gap-2 py-2 text-white/70 hover:text-white">
-                  <Phone size={16} /> +33 1 23 45 67 89
+              ))}
+              <div className="pt-2 border-t border-[rgb(var(--vx-fg)/6%)] mt-2">
+                <a href={`mailto:${brand.email}`} className="flex items-center gap-2 py-2 text-[rgb(var(--vx-fg)/70%)] hover:text-[rgb(var(--vx-fg))]">
+                  <Mail size={16} /> {brand.email}
+                </a>
+                <a href={`tel:${brand.phoneHref}`} className="flex items-center gap-2 py-2 text-[rgb(var(--vx-fg)/70%)] hover:text-[rgb(var(--vx-fg))]">
+                  <Phone size={16} /> {brand.phone}
                 </a>
               </div>
             </div>
@@ -288,11 +1659,38 @@ const Nav: React.FC<{
   );
 };
 
+/* ---------------------------
+   Locale switcher (Nav)
+   --------------------------- */
+
+const LocaleSwitcher: React.FC = () => {
+  const { locale, setLocale, t } = useI18n();
+  return (
+    <div role="group" aria-label={t("locale.switcher")} className="flex items-center gap-1 rounded-[10px] bg-[rgb(var(--vx-fg)/4%)] p-1">
+      {LOCALES.map((l: Locale) => (
+        <button
+          key={l}
+          lang={l}
+          aria-pressed={locale === l}
+          onClick={() => setLocale(l)}
+          className={`px-2 py-1 rounded-[8px] text-[11px] font-bold uppercase ${locale === l ? "bg-[rgb(var(--vx-fg)/10%)] text-[rgb(var(--vx-fg))]" : "text-[rgb(var(--vx-fg)/60%)] hover:text-[rgb(var(--vx-fg))]"}`}
+        >
+          {l}
+        </button>
+      ))}
+    </div>
+  );
+};
+
 /* ---------------------------
    Hero Section
    --------------------------- */
 
 const Hero: React.FC = () => {
+  const { hero, pricing } = useSiteContent();
+  const { formatCurrency } = useI18n();
+  const fill = useFill();
+  const headline = useVariant("hero-headline", (v) => Boolean(hero.titleVariants?.[v]));
   return (
     <section id="home" className="mt-8">
       <div className="grid grid-cols-1 lg:grid-cols-12 gap-8 items-center">
@@ -309,30 +1707,30 @@ const Hero: React.FC = () => {
               WebkitFontSmoothing: "antialiased",
             }}
           >
-            VORTEX — Agence digitale Ultra‑Premium
+            {hero.titleVariants?.[headline] ?? hero.title}
           </motion.h1>
 
           <motion.p
             initial={{ opacity: 0, y: 10 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ delay: 0.12, duration: 0.6 }}
-            className="text-lg text-white/70 max-w-2xl"
+            className="text-lg text-[rgb(var(--vx-fg)/70%)] max-w-2xl"
           >
-            Nous concevons des sites rapides, optimisés pour le SEO et pensés pour convertir. Prix
-            fixe : 749€ HT — un résultat studio, une exécution d'expert.
+            {fill(hero.subtitle)}
           </motion.p>
 
           <div className="flex gap-4 items-center">
             <a
               href="#contact"
-              className="inline-flex items-center gap-3 px-6 py-3 rounded-[12px] bg-gradient-to-r from-cyan-400 to-cyan-300 text-black font-bold shadow-2xl"
+              data-cta="hero"
+              className="inline-flex items-center gap-3 px-6 py-3 rounded-[var(--vx-radius-control)] bg-gradient-to-r from-[rgb(var(--vx-accent))] to-[rgb(var(--vx-accent-soft))] text-[rgb(var(--vx-on-accent))] font-bold shadow-2xl"
             >
-              Démarrer maintenant — 749€
+              {fill(hero.primaryCta)}
               <ArrowRight size={16} />
             </a>
 
-            <a href="#portfolio" className="text-sm text-white/70 hover:text-white flex items-center gap-2">
-              Voir le portfolio
+            <a href="#portfolio" data-cta="hero_portfolio" className="text-sm text-[rgb(var(--vx-fg)/70%)] hover:text-[rgb(var(--vx-fg))] flex items-center gap-2">
+              {hero.secondaryCta}
               <ArrowRight size={14} />
             </a>
           </div>
@@ -347,32 +1745,30 @@ const Hero: React.FC = () => {
             initial={{ scale: 0.98, opacity: 0 }}
             animate={{ scale: 1, opacity: 1 }}
             transition={{ duration: 0.7 }}
-            className="rounded-[24px] bg-black/30 border border-white/6 p-5 shadow-xl"
+            className="rounded-[var(--vx-radius-card)] bg-[rgb(var(--vx-surface)/30%)] border border-[rgb(var(--vx-fg)/6%)] p-5 shadow-xl"
             style={{ minHeight: 220 }}
           >
             <div className="flex items-start justify-between gap-4">
               <div>
-                <div className="text-sm text-white/60">Package</div>
-                <div className="text-2xl font-extrabold tracking-tight">VORTEX Launch</div>
-                <div className="mt-3 text-white/70">Site complet, responsive, SEO friendly, 1 page premium.</div>
+                <div className="text-sm text-[rgb(var(--vx-fg)/60%)]">{hero.package.eyebrow}</div>
+                <div className="text-2xl font-extrabold tracking-tight">{hero.package.name}</div>
+                <div className="mt-3 text-[rgb(var(--vx-fg)/70%)]">{hero.package.summary}</div>
               </div>
 
               <div className="text-right">
-                <div className="text-xs text-white/50">Prix spécial</div>
-                <div className="text-3xl font-extrabold" style={{ color: CYAN }}>749€</div>
-                <div className="text-xs text-white/50">HT — Maintenance 49€/mois</div>
+                <div className="text-xs text-[rgb(var(--vx-fg)/50%)]">{hero.package.priceEyebrow}</div>
+                <div className="text-3xl font-extrabold" style={{ color: ACCENT }}>{formatCurrency(pricing.launch, pricing.currency)}</div>
+                <div className="text-xs text-[rgb(var(--vx-fg)/50%)]">{fill(hero.package.priceNote)}</div>
               </div>
             </div>
 
             <div className="mt-6 grid grid-cols-2 gap-3">
-              <div className="rounded-[18px] p-3 bg-white/2 border border-white/6">
-                <div className="text-[10px] text-white/60">Livraison</div>
-                <div className="text-sm font-bold">7–10 jours</div>
-              </div>
-              <div className="rounded-[18px] p-3 bg-white/2 border border-white/6">
-                <div className="text-[10px] text-white/60">SEO</div>
-                <div className="text-sm font-bold">Optimisé</div>
-              </div>
+              {hero.package.stats.map((st) => (
+                <div key={st.label} className="rounded-[18px] p-3 bg-[rgb(var(--vx-fg)/2%)] border border-[rgb(var(--vx-fg)/6%)]">
+                  <div className="text-[10px] text-[rgb(var(--vx-fg)/60%)]">{st.label}</div>
+                  <div className="text-sm font-bold">{st.value}</div>
+                </div>
+              ))}
             </div>
           </motion.div>
         </div>
@@ -386,27 +1782,26 @@ const Hero: React.FC = () => {
    --------------------------- */
 
 const KeyMetrics: React.FC = () => {
-  const metrics = [
-    { label: "Pages optimisées", value: "1", accent: CYAN, icon: Zap },
-    { label: "Performance", value: "A++", accent: CYAN, icon: CheckCircle },
-    { label: "Conversion target", value: "+18%", accent: CYAN, icon: ArrowRight },
-  ];
+  const { metrics } = useSiteContent();
   return (
     <div className="grid grid-cols-3 gap-3 max-w-md">
-      {metrics.map((m, i) => (
-        <div
-          key={i}
-          className="rounded-[18px] p-3 bg-black/30 border border-white/6 flex items-center gap-3"
-        >
-          <div className="w-10 h-10 rounded-lg flex items-center justify-center bg-gradient-to-br from-cyan-400/10 to-cyan-600/6">
-            <m.icon size={18} color={CYAN} />
-          </div>
-          <div>
-            <div className="text-xs text-white/60">{m.label}</div>
-            <div className="text-sm font-bold">{m.value}</div>
+      {metrics.map((m, i) => {
+        const Icon = ICONS[m.icon];
+        return (
+          <div
+            key={i}
+            className="rounded-[18px] p-3 bg-[rgb(var(--vx-surface)/30%)] border border-[rgb(var(--vx-fg)/6%)] flex items-center gap-3"
+          >
+            <div className="w-10 h-10 rounded-lg flex items-center justify-center bg-gradient-to-br from-[rgb(var(--vx-accent)/10%)] to-[rgb(var(--vx-accent-deep)/6%)]">
+              <Icon size={18} className="text-[rgb(var(--vx-accent))]" />
+            </div>
+            <div>
+              <div className="text-xs text-[rgb(var(--vx-fg)/60%)]">{m.label}</div>
+              <div className="text-sm font-bold">{m.value}</div>
+            </div>
           </div>
-        </div>
-      ))}
+        );
+      })}
     </div>
   );
 };
@@ -415,8 +1810,16 @@ const KeyMetrics: React.FC = () => {
    Canvas Particles (Background)
    --------------------------- */
 
+/**
+ * Drifting glow particles behind the page. Follows the motion policy: a single still frame when motion is
+ * reduced; otherwise animated within the frame governor's budget (lib/motion.ts), and paused whenever the
+ * tab is hidden or the canvas is off-screen.
+ */
 const CanvasParticles: React.FC = () => {
   const ref = useRef<HTMLCanvasElement | null>(null);
+  const { reduced } = useMotion();
+  const { theme, scheme } = useTheme();
+  const accent = hexToChannels(theme[scheme].accent);
 
   useEffect(() => {
     const canvas = ref.current;
@@ -426,13 +1829,28 @@ const CanvasParticles: React.FC = () => {
 
     let width = (canvas.width = window.innerWidth);
     let height = (canvas.height = window.innerHeight);
-    const particleCount = Math.round((width * height) / 45000); // density scaling
+    const device = navigator as Navigator & { deviceMemory?: number };
+    const governor = createFrameGovernor(
+      initialMotionBudget({ width, height, deviceMemory: device.deviceMemory, cores: device.hardwareConcurrency })
+    );
     const particles: Particle[] = [];
 
     function rand(min: number, max: number) {
       return Math.random() * (max - min) + min;
     }
 
+    // One glow, rendered once and stamped for every particle: a gradient per particle per frame was the cost
+    const sprite = document.createElement("canvas");
+    sprite.width = sprite.height = 64;
+    const spriteCtx = sprite.getContext("2d");
+    if (spriteCtx) {
+      const g = spriteCtx.createRadialGradient(32, 32, 0, 32, 32, 32);
+      g.addColorStop(0, `rgb(${accent} / 1)`);
+      g.addColorStop(1, `rgb(${accent} / 0)`);
+      spriteCtx.fillStyle = g;
+      spriteCtx.fillRect(0, 0, 64, 64);
+    }
+
     class Particle {
       x: number;
       y: number;
@@ -465,145 +1883,225 @@ const CanvasParticles: React.FC = () => {
         if (this.x < -10 || this.x > width + 10 || this.y < -10 || this.y > height + 10) this.reset();
       }
       draw(c: CanvasRenderingContext2D) {
-        c.beginPath();
-        const g = c.createRadialGradient(this.x, this.y, 0, this.x, this.y, this.r * 6);
-        g.addColorStop(0, `rgba(0,242,255,${this.alpha})`);
-        g.addColorStop(1, `rgba(0,242,255,0)`);
-        c.fillStyle = g;
-        c.arc(this.x, this.y, this.r * 6, 0, Math.PI * 2);
-        c.fill();
+        const size = this.r * 6;
+        c.globalAlpha = this.alpha;
+        c.drawImage(sprite, this.x - size, this.y - size, size * 2, size * 2);
       }
     }
 
-    for (let i = 0; i < particleCount; i++) particles.push(new Particle());
+    const populate = () => {
+      particles.length = 0;
+      const count = governor.budget().particles;
+      for (let i = 0; i < count; i++) particles.push(new Particle());
+    };
 
-    let raf = 0;
-    function frame() {
+    function drawAll() {
       if (!ctx) return;
       ctx.clearRect(0, 0, width, height);
-      ctx.globalCompositeOperation = "lighter";
-      for (const p of particles) {
-        p.step();
-        p.draw(ctx);
-      }
+      // additive glow only shows on a dark background
+      ctx.globalCompositeOperation = scheme === "dark" ? "lighter" : "source-over";
+      for (const p of particles) p.draw(ctx);
+      ctx.globalAlpha = 1;
+    }
+
+    let raf = 0;
+    function frame(now: number) {
       raf = requestAnimationFrame(frame);
+      if (!governor.due(now)) return;
+      const start = performance.now();
+      for (const p of particles) p.step();
+      drawAll();
+      governor.record(performance.now() - start);
+      // the governor may have lowered the budget
+      particles.length = Math.min(particles.length, governor.budget().particles);
     }
-    frame();
+
+    let tabVisible = !document.hidden;
+    let onScreen = true;
+    const update = () => {
+      if (!reduced && tabVisible && onScreen) {
+        if (!raf) raf = requestAnimationFrame(frame);
+      } else if (raf) {
+        cancelAnimationFrame(raf);
+        raf = 0;
+      }
+    };
+
+    populate();
+    if (reduced) drawAll();
+    update();
+
+    const onVisibility = () => {
+      tabVisible = !document.hidden;
+      update();
+    };
+    const observer =
+      typeof IntersectionObserver === "undefined"
+        ? null
+        : new IntersectionObserver(([entry]) => {
+            onScreen = entry.isIntersecting;
+            update();
+          });
+    observer?.observe(canvas);
 
     const onResize = () => {
       width = canvas.width = window.innerWidth;
       height = canvas.height = window.innerHeight;
-      // adjust particles if necessary
-      particles.length = 0;
-      const newCount = Math.round((width * height) / 45000);
-      for (let i = 0; i < newCount; i++) particles.push(new Particle());
+      populate();
+      if (reduced) drawAll();
     };
+    document.addEventListener("visibilitychange", onVisibility);
     window.addEventListener("resize", onResize);
     return () => {
       cancelAnimationFrame(raf);
+      observer?.disconnect();
+      document.removeEventListener("visibilitychange", onVisibility);
       window.removeEventListener("resize", onResize);
     };
-  }, []);
+  }, [reduced, accent, scheme]);
 
-  return <canvas ref={ref} className="fixed inset-0 -z-10 pointer-events-none" />;
+  return <canvas ref={ref} aria-hidden className="fixed inset-0 -z-10 pointer-events-none" />;
 };
 
 /* ---------------------------
    Portfolio (Interactive mini-sites)
    --------------------------- */
 
-const Portfolio: React.FC<{
-  activeMini: MiniSiteKey;
-  setActiveMini: (k: MiniSiteKey) => void;
-}> = ({ activeMini, setActiveMini }) => {
-  const minis: { key: MiniSiteKey; title: string; icon: any; desc: string }[] = [
-    { key: "restaurant", title: "Restaurant Gastronomique", icon: Coffee, desc: "Réservation, menu, ambiance." },
-    { key: "realestate", title: "Agence Immobilière", icon: Home, desc: "Listings, filtres, leadgen." },
-    { key: "saas", title: "SaaS B2B", icon: Monitor, desc: "Onboarding, pricing, trial." },
-  ];
+// each demo is a chunk of its own (minisites/), fetched the first time it's shown
+registerMiniSite({
+  key: "restaurant",
+  icon: "coffee",
+  origin: "https://comptoir.vortex.example",
+  copy: restaurantCopy,
+  load: () => import("./minisites/restaurant"),
+});
+
+registerMiniSite({
+  key: "realestate",
+  icon: "home",
+  origin: "https://immo.vortex.example",
+  copy: realEstateCopy,
+  load: () => import("./minisites/realEstate"),
+});
+
+registerMiniSite({
+  key: "saas",
+  icon: "monitor",
+  origin: "https://crm.vortex.example",
+  copy: saasCopy,
+  load: () => import("./minisites/saas"),
+});
+
+/** One lazy component per demo, created on first display and kept across tab switches. */
+const lazyMiniSites = new Map<string, React.LazyExoticComponent<React.ComponentType>>();
+
+const MiniSitePreview: React.FC<{ site: MiniSite }> = ({ site }) => {
+  const { t } = useI18n();
+  let Demo = lazyMiniSites.get(site.key);
+  if (!Demo) lazyMiniSites.set(site.key, (Demo = lazy(site.load)));
+  return (
+    <Suspense
+      fallback={
+        <div role="status" className="py-16 flex justify-center text-[rgb(var(--vx-fg)/60%)]">
+          <Spinner label={t("browser.loading")} size={20} />
+        </div>
+      }
+    >
+      <Demo />
+    </Suspense>
+  );
+};
+
+const Portfolio: React.FC = () => {
+  const { portfolio } = useSiteContent();
+  const { locale } = useI18n();
+  const fill = useFill();
+  const minis = useMemo(() => listMiniSites(portfolio.minis, locale, portfolio.copy), [portfolio.minis, portfolio.copy, locale]);
+  const route = useRoute();
+  // `#portfolio/<key>` opens a demo; a plain `#portfolio` keeps the one last opened
+  const routed = route.section === "portfolio" ? minis.find((m) => m.key === route.sub) : undefined;
+  const [lastMini, setLastMini] = useState(routed?.key);
+  useEffect(() => {
+    if (routed) setLastMini(routed.key);
+  }, [routed?.key]);
+  const active = routed ?? minis.find((m) => m.key === lastMini) ?? minis[0];
+  const activeMini = active?.key;
+  const setActiveMini = (key: string) => {
+    navigate({ section: "portfolio", sub: key });
+    track("portfolio_tab", { demo: key });
+  };
 
   return (
     <section id="portfolio" className="mt-6">
       <div className="flex items-center justify-between">
         <div>
-          <h2 className="text-2xl font-extrabold">Portfolio interactif</h2>
-          <div className="text-white/60 mt-1">Explorez des maquettes interactives, naviguez et testez.</div>
+          <h2 className="text-2xl font-extrabold">{portfolio.title}</h2>
+          <div className="text-[rgb(var(--vx-fg)/60%)] mt-1">{portfolio.subtitle}</div>
         </div>
 
         <div className="flex gap-2">
-          {minis.map((m) => (
-            <button
-              key={m.key}
-              onClick={() => setActiveMini(m.key)}
-              className={`flex items-center gap-2 px-3 py-2 rounded-[12px] border ${
-                activeMini === m.key ? "bg-white/6 border-white/20" : "bg-white/3 border-white/6"
-              }`}
-            >
-              <m.icon size={16} color={CYAN} />
-              <span className="text-sm font-semibold">{m.title.split(" ")[0]}</span>
-            </button>
-          ))}
+          {minis.map((m) => {
+            const Icon = ICONS[m.icon];
+            return (
+              <button
+                key={m.key}
+                type="button"
+                aria-pressed={activeMini === m.key}
+                onClick={() => setActiveMini(m.key)}
+                title={m.desc}
+                className={`flex items-center gap-2 px-3 py-2 rounded-[var(--vx-radius-control)] border ${
+                  activeMini === m.key ? "bg-[rgb(var(--vx-fg)/6%)] border-[rgb(var(--vx-fg)/20%)]" : "bg-[rgb(var(--vx-fg)/3%)] border-[rgb(var(--vx-fg)/6%)]"
+                }`}
+              >
+                <Icon size={16} className="text-[rgb(var(--vx-accent))]" aria-hidden />
+                <span className="text-sm font-semibold">{m.title.split(" ")[0]}</span>
+              </button>
+            );
+          })}
         </div>
       </div>
 
       <div className="mt-6 grid grid-cols-1 lg:grid-cols-3 gap-6">
-        <MiniBrowserCard title="Aperçu" subtitle="Simulateur" className="lg:col-span-2">
+        <MiniBrowserCard title={portfolio.previewTitle} subtitle={portfolio.previewSubtitle} className="lg:col-span-2">
           <div className="space-y-3">
-            <div className="grid grid-cols-3 gap-3">
-              <button
-                className={`col-span-1 rounded-[12px] py-2 px-3 text-sm font-semibold ${activeMini === "restaurant" ? "bg-white/6" : "bg-black/20"}`}
-                onClick={() => setActiveMini("restaurant")}
-              >
-                Restaurant
-              </button>
-              <button
-                className={`col-span-1 rounded-[12px] py-2 px-3 text-sm font-semibold ${activeMini === "realestate" ? "bg-white/6" : "bg-black/20"}`}
-                onClick={() => setActiveMini("realestate")}
-              >
-                Immobilier
-              </button>
-              <button
-                className={`col-span-1 rounded-[12px] py-2 px-3 text-sm font-semibold ${activeMini === "saas" ? "bg-white/6" : "bg-black/20"}`}
-                onClick={() => setActiveMini("saas")}
-              >
-                SaaS
-              </button>
+            <div className="grid gap-3" style={{ gridTemplateColumns: `repeat(${minis.length}, minmax(0, 1fr))` }}>
+              {minis.map((m) => (
+                <button
+                  key={m.key}
+                  type="button"
+                  aria-pressed={activeMini === m.key}
+                  className={`rounded-[var(--vx-radius-control)] py-2 px-3 text-sm font-semibold ${activeMini === m.key ? "bg-[rgb(var(--vx-fg)/6%)]" : "bg-[rgb(var(--vx-surface)/20%)]"}`}
+                  onClick={() => setActiveMini(m.key)}
+                >
+                  {m.tab}
+                </button>
+              ))}
             </div>
 
-            <div>
-              {activeMini === "restaurant" && <RestaurantMiniSite />}
-              {activeMini === "realestate" && <RealEstateMiniSite />}
-              {activeMini === "saas" && <SaaSMiniSite />}
-            </div>
+            {active && (
+              <DevicePreview site={active}>
+                <MiniSitePreview key={active.key} site={active} />
+              </DevicePreview>
+            )}
           </div>
         </MiniBrowserCard>
 
-        <MiniBrowserCard title="Détails" subtitle="Caractéristiques" className="lg:col-span-1">
+        <MiniBrowserCard title={portfolio.detailsTitle} subtitle={portfolio.detailsSubtitle} className="lg:col-span-1">
           <div className="space-y-3">
-            <div className="rounded-[18px] p-4 bg-black/30 border border-white/6">
-              <div className="text-sm font-bold">Technique</div>
-              <ul className="mt-2 text-sm text-white/70 space-y-1">
-                <li>React + Tailwind</li>
-                <li>Animations Framer Motion</li>
-                <li>Images optimisées & lazy-loading</li>
-                <li>SEO on-page & structured data</li>
-              </ul>
-            </div>
-
-            <div className="rounded-[18px] p-4 bg-black/30 border border-white/6">
-              <div className="text-sm font-bold">Résultats</div>
-              <ul className="mt-2 text-sm text-white/70 space-y-1">
-                <li>Temps de chargement <strong>≤ 1.8s</strong> (test simulé)</li>
-                <li>Score Lighthouse optimisé</li>
-                <li>Conversion: CTA visibles, formulaires courts</li>
-              </ul>
-            </div>
-
-            <div className="rounded-[18px] p-4 bg-black/30 border border-white/6">
-              <div className="text-sm font-bold">Support</div>
-              <div className="text-sm text-white/70 mt-2">
-                30 jours d'assistance incluse + option maintenance 49€/mois.
+            {active?.details.map((d) => (
+              <div key={d.title} className="rounded-[18px] p-4 bg-[rgb(var(--vx-surface)/30%)] border border-[rgb(var(--vx-fg)/6%)]">
+                <div className="text-sm font-bold">{d.title}</div>
+                <ul className="mt-2 text-sm text-[rgb(var(--vx-fg)/70%)] space-y-1">
+                  {d.items.map((item) => (
+                    <li key={item}>{fill(item)}</li>
+                  ))}
+                </ul>
               </div>
+            ))}
+
+            <div className="rounded-[18px] p-4 bg-[rgb(var(--vx-surface)/30%)] border border-[rgb(var(--vx-fg)/6%)]">
+              <div className="text-sm font-bold">{portfolio.support.title}</div>
+              <div className="text-sm text-[rgb(var(--vx-fg)/70%)] mt-2">{fill(portfolio.support.text)}</div>
             </div>
           </div>
         </MiniBrowserCard>
@@ -623,11 +2121,11 @@ const MiniBrowserCard: React.FC<{
   className?: string;
 }> = ({ title, subtitle, children, className = "" }) => {
   return (
-    <div className={`rounded-[24px] bg-black/30 border border-white/6 p-4 ${className}`}>
+    <div className={`rounded-[var(--vx-radius-card)] bg-[rgb(var(--vx-surface)/30%)] border border-[rgb(var(--vx-fg)/6%)] p-4 ${className}`}>
       <div className="flex items-center justify-between mb-3">
         <div>
           <div className="text-sm font-bold">{title}</div>
-          {subtitle && <div className="text-xs text-white/60">{subtitle}</div>}
+          {subtitle && <div className="text-xs text-[rgb(var(--vx-fg)/60%)]">{subtitle}</div>}
         </div>
         <div className="flex items-center gap-2">
           <div className="w-2 h-2 rounded-full bg-red-400/80" />
@@ -635,265 +2133,207 @@ const MiniBrowserCard: React.FC<{
           <div className="w-2 h-2 rounded-full bg-green-400/50" />
         </div>
       </div>
-      <div className="rounded-[18px] overflow-hidden border border-white/4">{children}</div>
+      <div className="rounded-[18px] overflow-hidden border border-[rgb(var(--vx-fg)/4%)]">{children}</div>
     </div>
   );
 };
 
 /* ---------------------------
-   Restaurant MiniSite
-   - Simulated scrollable site with reservation form
+   Device preview (inside MiniBrowserCard)
+   - Desktop/tablet/mobile frames and a URL bar with the demo's own history; the demo renders in an
+     iframe, so its breakpoints follow the frame width instead of the page's
    --------------------------- */
 
-const RestaurantMiniSite: React.FC = () => {
-  return (
-    <div className="bg-[#071018] text-white" style={{ minHeight: 360 }}>
-      <div className="p-4">
-        <div className="flex items-center justify-between">
-          <div>
-            <div className="text-lg font-extrabold">Le Comptoir Vortex</div>
-            <div className="text-xs text-white/60">Restaurant gastronomique • Paris</div>
-          </div>
-          <div className="text-sm text-white/70">Ouvert aujourd'hui • 12:00 - 23:00</div>
-        </div>
-
-        <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-3">
-          <div className="md:col-span-2 rounded-[16px] overflow-hidden bg-gradient-to-b from-black/40 to-black/10 p-3">
-            <div className="h-36 bg-[linear-gradient(90deg,#001219,transparent)] rounded-[12px] flex items-end p-4">
-              <div>
-                <div className="text-xl font-bold">Menu dégustation</div>
-                <div className="text-sm text-white/60">6 plats • 65€</div>
-              </div>
-            </div>
-
-            <div className="mt-4 text-sm">
-              <div className="text-white/70">Expérience signée VORTEX — mise en scène, call to action et microcopy pour convertir.</div>
-              <ul className="mt-3 space-y-1 text-white/60">
-                <li>• Photo immersive</li>
-                <li>• Réservation en 2 clics</li>
-                <li>• CTA fixe en bas pour mobile</li>
-              </ul>
-            </div>
-          </div>
-
-          <div className="rounded-[16px] p-3 bg-black/25 border border-white/6">
-            <ReservationSimulator />
-          </div>
-        </div>
+type Device = "desktop" | "tablet" | "mobile";
 
-        <div className="mt-4 flex gap-3">
-          <a className="px-4 py-2 rounded-lg bg-cyan-400/10 border border-cyan-400/20 text-cyan-300 font-bold">Voir menu</a>
-          <a className="px-4 py-2 rounded-lg bg-white/3">Galerie</a>
-        </div>
-      </div>
-    </div>
-  );
+/** Viewport of each frame in CSS pixels (scaled down to fit the card), and the bezel drawn around it. */
+const DEVICES: Record<Device, { width: number; height: number; bezel: number; icon: LucideIcon }> = {
+  desktop: { width: 1280, height: 800, bezel: 0, icon: Monitor },
+  tablet: { width: 768, height: 1024, bezel: 12, icon: Tablet },
+  mobile: { width: 390, height: 844, bezel: 10, icon: Smartphone },
 };
 
-/* ---------------------------
-   Reservation Simulator (inside mini-site)
-   --------------------------- */
+/** Tallest a frame is drawn on the page. */
+const MAX_FRAME_HEIGHT = 640;
 
-const ReservationSimulator: React.FC = () => {
-  const [name, setName] = useState("");
-  const [people, setPeople] = useState(2);
-  const [time, setTime] = useState("20:00");
-  const [confirmed, setConfirmed] = useState(false);
+type MiniBrowserState = { path: string; navigate: (path: string, opts?: { replace?: boolean }) => void };
 
-  return (
-    <div>
-      {!confirmed ? (
-        <>
-          <div className="text-sm text-white/70 mb-2">Réservez une table</div>
-          <div className="space-y-2">
-            <input
-              className="w-full rounded-[12px] p-2 bg-black/10 border border-white/6 text-white"
-              placeholder="Votre nom"
-              value={name}
-              onChange={(e) => setName(e.target.value)}
-            />
-            <div className="flex gap-2">
-              <select className="flex-1 rounded-[12px] p-2 bg-black/10 border border-white/6" value={people} onChange={(e) => setPeople(Number(e.target.value))}>
-                {[1, 2, 3, 4, 5, 6].map((n) => (
-                  <option value={n} key={n}>
-                    {n} personne{n > 1 ? "s" : ""}
-                  </option>
-                ))}
-              </select>
-              <input
-                type="time"
-                className="w-28 rounded-[12px] p-2 bg-black/10 border border-white/6"
-                value={time}
-                onChange={(e) => setTime(e.target.value)}
-              />
-            </div>
+/** Lets a demo put its pages in the URL bar; outside a preview it does nothing. */
+const MiniBrowserContext = createContext<MiniBrowserState>({ path: "/", navigate: () => {} });
 
-            <button
-              onClick={() => {
-                if (!name) return alert("Veuillez entrer votre nom.");
-                setConfirmed(true);
-              }}
-              className="w-full rounded-[12px] py-2 bg-gradient-to-r from-cyan-400 to-cyan-300 text-black font-bold"
-            >
-              Réserver
-            </button>
-          </div>
-        </>
-      ) : (
-        <div className="text-center">
-          <CheckCircle size={40} color={CYAN} />
-          <div className="mt-2 font-bold">Réservation confirmée</div>
-          <div className="text-sm text-white/70 mt-1">Merci {name} — Table pour {people} à {time}.</div>
-        </div>
-      )}
-    </div>
-  );
-};
+const useMiniBrowser = () => useContext(MiniBrowserContext);
 
-/* ---------------------------
-   Real-Estate MiniSite
-   --------------------------- */
+type BrowserHistory = { entries: string[]; index: number };
 
-const RealEstateMiniSite: React.FC = () => {
-  const [query, setQuery] = useState("");
-  const [filters, setFilters] = useState({ beds: 2, maxPrice: 500000 });
-  const sampleHouses = [
-    { id: 1, title: "Loft lumineux — 3 pièces", price: 420000, beds: 2, img: null },
-    { id: 2, title: "Maison familiale — Jardin", price: 680000, beds: 4, img: null },
-    { id: 3, title: "Studio centre-ville", price: 210000, beds: 0, img: null },
-  ];
+const NEW_HISTORY: BrowserHistory = { entries: ["/"], index: 0 };
 
-  const results = sampleHouses.filter((h) => h.price <= filters.maxPrice && h.beds >= filters.beds && h.title.toLowerCase().includes(query.toLowerCase()));
+const FRAME_DOCUMENT = "<!doctype html><html><head><meta charset=\"utf-8\"></head><body style=\"margin:0\"></body></html>";
 
-  return (
-    <div className="bg-[#06151a] text-white" style={{ minHeight: 360 }}>
-      <div className="p-4">
-        <div className="flex items-center justify-between">
-          <div>
-            <div className="text-lg font-extrabold">Agence VORTEX Immo</div>
-            <div className="text-xs text-white/60">Trouvons le bien idéal.</div>
-          </div>
-          <div className="text-sm text-white/70">+120 biens</div>
-        </div>
+/** Keeps copies of the page's stylesheets (and <html> lang/class) in a frame, so Tailwind applies in there too. */
+function mirrorStyles(target: Document) {
+  const copy = () => {
+    target.head.querySelectorAll("[data-mirrored]").forEach((n) => n.remove());
+    document.head.querySelectorAll('style, link[rel="stylesheet"]').forEach((n) => {
+      const clone = n.cloneNode(true) as Element;
+      clone.setAttribute("data-mirrored", "");
+      target.head.appendChild(clone);
+    });
+    target.documentElement.lang = document.documentElement.lang;
+    target.documentElement.className = document.documentElement.className;
+  };
+  copy();
+  // dev servers inject styles on hot reload; the locale switcher changes <html lang>
+  const observer = new MutationObserver(copy);
+  observer.observe(document.head, { childList: true, subtree: true, characterData: true });
+  observer.observe(document.documentElement, { attributes: true, attributeFilter: ["lang", "class"] });
+  return () => observer.disconnect();
+}
+
+/** Renders its children into a same-origin iframe (through a portal, so React context still flows in). */
+const IsolatedFrame: React.FC<{ title: string; width: number; height: number; children?: React.ReactNode }> = ({
+  title,
+  width,
+  height,
+  children,
+}) => {
+  const ref = useRef<HTMLIFrameElement>(null);
+  const [doc, setDoc] = useState<Document | null>(null);
+  const { theme } = useTheme();
 
-        <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-3">
-          <div className="md:col-span-2 p-2">
-            <div className="flex gap-3 items-center">
-              <input
-                className="flex-1 rounded-[12px] p-2 bg-black/10 border border-white/6"
-                placeholder="Rechercher (ex: 'loft')"
-                value={query}
-                onChange={(e) => setQuery(e.target.value)}
-              />
-              <select
-                className="rounded-[12px] p-2 bg-black/10 border border-white/6"
-                value={filters.beds}
-                onChange={(e) => setFilters((s) => ({ ...s, beds: Number(e.target.value) }))}
-              >
-                <option value={0}>Studio</option>
-                <option value={1}>1+</option>
-                <option value={2}>2+</option>
-                <option value={3}>3+</option>
-              </select>
-            </div>
+  useEffect(() => (doc ? mirrorStyles(doc) : undefined), [doc]);
 
-            <div className="mt-3 space-y-3">
-              {results.map((r) => (
-                <div key={r.id} className="rounded-[12px] p-3 bg-black/20 border border-white/6 flex items-center justify-between">
-                  <div>
-                    <div className="font-bold">{r.title}</div>
-                    <div className="text-sm text-white/60">{r.beds} chambres • {r.price.toLocaleString()}€</div>
-                  </div>
-                  <div className="text-right">
-                    <div className="text-sm text-cyan-300 font-bold">{Math.round((r.price / 1000))}k€</div>
-                    <div className="text-xs text-white/60">Contact</div>
-                  </div>
-                </div>
-              ))}
-              {results.length === 0 && <div className="text-white/60">Aucun résultat — élargissez votre recherche.</div>}
-            </div>
-          </div>
+  // The demos are dark sites whatever the page's scheme: the tokens don't cross into the frame, so it
+  // gets the dark ones of the current theme
+  useEffect(() => {
+    if (!doc) return;
+    for (const [name, value] of Object.entries(themeVariables(theme, "dark"))) doc.body.style.setProperty(name, value);
+    doc.body.style.color = "rgb(var(--vx-fg))";
+  }, [doc, theme]);
+
+  const onLoad = () => {
+    const frame = ref.current;
+    const loaded = frame?.contentDocument;
+    if (!frame || !loaded) return;
+    loaded.body.style.fontFamily = getComputedStyle(frame).fontFamily;
+    setDoc(loaded);
+  };
 
-          <div className="rounded-[12px] p-3 bg-black/25 border border-white/6">
-            <div className="text-sm text-white/60">Budget maximum</div>
-            <input
-              type="range"
-              min={50000}
-              max={2000000}
-              step={10000}
-              value={filters.maxPrice}
-              onChange={(e) => setFilters((s) => ({ ...s, maxPrice: Number(e.target.value) }))}
-              className="w-full mt-2 accent-cyan-300"
-            />
-            <div className="text-sm font-bold mt-2">{filters.maxPrice.toLocaleString()}€</div>
-          </div>
-        </div>
-      </div>
-    </div>
+  return (
+    <>
+      <iframe ref={ref} title={title} srcDoc={FRAME_DOCUMENT} onLoad={onLoad} className="block bg-[rgb(var(--vx-surface))]" style={{ width, height, border: 0 }} />
+      {doc && createPortal(children, doc.body)}
+    </>
   );
 };
 
-/* ---------------------------
-   SaaS MiniSite
-   --------------------------- */
+const DevicePreview: React.FC<{ site: MiniSite; children?: React.ReactNode }> = ({ site, children }) => {
+  const { t } = useI18n();
+  const [device, setDevice] = useState<Device>("desktop");
+  const [histories, setHistories] = useState<Record<string, BrowserHistory>>({});
+  const [reloads, setReloads] = useState(0);
+  const history = histories[site.key] ?? NEW_HISTORY;
+  const path = history.entries[history.index];
+
+  const update = useCallback(
+    (change: (h: BrowserHistory) => BrowserHistory) =>
+      setHistories((all) => ({ ...all, [site.key]: change(all[site.key] ?? NEW_HISTORY) })),
+    [site.key]
+  );
+  const navigate = useCallback(
+    (to: string, { replace = false } = {}) =>
+      update((h) => {
+        if (h.entries[h.index] === to) return h;
+        if (replace) return { entries: h.entries.map((e, i) => (i === h.index ? to : e)), index: h.index };
+        return { entries: [...h.entries.slice(0, h.index + 1), to], index: h.index + 1 };
+      }),
+    [update]
+  );
+  const browser = useMemo(() => ({ path, navigate }), [path, navigate]);
 
-const SaaSMiniSite: React.FC = () => {
-  const [plan, setPlan] = useState<"free" | "pro" | "enterprise">("pro");
-  const [trial, setTrial] = useState(false);
+  // Fit the frame to the card width (and MAX_FRAME_HEIGHT)
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const [available, setAvailable] = useState(0);
+  useEffect(() => {
+    const el = viewportRef.current;
+    if (!el || typeof ResizeObserver === "undefined") return;
+    const observer = new ResizeObserver(([entry]) => setAvailable(entry.contentRect.width));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+  const { width, height, bezel } = DEVICES[device];
+  const scale = Math.min(1, (available - 2 * bezel) / width, (MAX_FRAME_HEIGHT - 2 * bezel) / height);
 
-  return (
-    <div className="bg-[#08111a] text-white" style={{ minHeight: 360 }}>
-      <div className="p-4">
-        <div className="flex items-center justify-between">
-          <div>
-            <div className="text-lg font-extrabold">VORTEX CRM</div>
-            <div className="text-xs text-white/60">Essai gratuit • Onboarding optimisé</div>
-          </div>
+  const navButton = "p-1.5 rounded-lg bg-[rgb(var(--vx-fg)/4%)] hover:bg-[rgb(var(--vx-fg)/6%)] disabled:opacity-30 disabled:hover:bg-[rgb(var(--vx-fg)/4%)]";
 
-          <div className="text-sm">
-            <div className="text-sm text-white/70">Satisfaction B2B</div>
-            <div className="text-xs text-white/50">Trial: {trial ? "activé" : "non"}</div>
-          </div>
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          className={navButton}
+          aria-label={t("browser.back")}
+          disabled={history.index === 0}
+          onClick={() => update((h) => ({ ...h, index: Math.max(0, h.index - 1) }))}
+        >
+          <ArrowLeft size={14} />
+        </button>
+        <button
+          type="button"
+          className={navButton}
+          aria-label={t("browser.forward")}
+          disabled={history.index === history.entries.length - 1}
+          onClick={() => update((h) => ({ ...h, index: Math.min(h.entries.length - 1, h.index + 1) }))}
+        >
+          <ArrowRight size={14} />
+        </button>
+        <button type="button" className={navButton} aria-label={t("browser.reload")} onClick={() => setReloads((n) => n + 1)}>
+          <RotateCw size={14} />
+        </button>
+        <div
+          className="flex-1 min-w-0 flex items-center gap-2 rounded-[10px] bg-[rgb(var(--vx-surface)/30%)] border border-[rgb(var(--vx-fg)/6%)] px-3 py-1.5 text-xs text-[rgb(var(--vx-fg)/70%)]"
+          role="status"
+          aria-label={t("browser.address")}
+        >
+          <Lock size={12} className="flex-shrink-0 text-[rgb(var(--vx-fg)/40%)]" />
+          <span className="truncate">{site.origin.replace(/^https?:\/\//, "") + (path === "/" ? "" : path)}</span>
         </div>
-
-        <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-3">
-          <div className="md:col-span-2 rounded-[12px] p-3 bg-black/20 border border-white/6">
-            <div className="flex items-center gap-3">
-              <button onClick={() => setPlan("free")} className={`px-3 py-2 rounded-[10px] ${plan === "free" ? "bg-white/6" : "bg-black/10"}`}>
-                Free
-              </button>
-              <button onClick={() => setPlan("pro")} className={`px-3 py-2 rounded-[10px] ${plan === "pro" ? "bg-white/6" : "bg-black/10"}`}>
-                Pro
-              </button>
-              <button onClick={() => setPlan("enterprise")} className={`px-3 py-2 rounded-[10px] ${plan === "enterprise" ? "bg-white/6" : "bg-black/10"}`}>
-                Enterprise
+        <div className="flex rounded-[10px] bg-[rgb(var(--vx-surface)/20%)] p-1" role="group" aria-label={t("browser.devices")}>
+          {(Object.keys(DEVICES) as Device[]).map((d) => {
+            const Icon = DEVICES[d].icon;
+            return (
+              <button
+                key={d}
+                type="button"
+                aria-pressed={device === d}
+                aria-label={t(`browser.device.${d}`)}
+                title={t(`browser.device.${d}`)}
+                onClick={() => setDevice(d)}
+                className={`p-1.5 rounded-lg ${device === d ? "bg-[rgb(var(--vx-fg)/10%)]" : "text-[rgb(var(--vx-fg)/50%)] hover:text-[rgb(var(--vx-fg))]"}`}
+              >
+                <Icon size={14} />
               </button>
-            </div>
-
-            <div className="mt-3">
-              <div className="text-sm text-white/70">Plan sélectionné: <strong>{plan}</strong></div>
-              <ul className="mt-2 text-sm text-white/60">
-                <li>• Onboarding step-by-step</li>
-                <li>• 99.9% uptime</li>
-                <li>• API & webhooks</li>
-              </ul>
-            </div>
-          </div>
-
-          <div className="rounded-[12px] p-3 bg-black/25 border border-white/6">
-            <div className="text-sm">Essai gratuit</div>
-            <div className="mt-2">
-              <label className="flex items-center gap-2">
-                <input type="checkbox" checked={trial} onChange={(e) => setTrial(e.target.checked)} />
-                <span className="text-sm text-white/70">Activer l'essai 14 jours</span>
-              </label>
-            </div>
+            );
+          })}
+        </div>
+      </div>
 
-            <div className="mt-3">
-              <a className="px-3 py-2 rounded-lg bg-cyan-400/10 border border-cyan-400/20 text-cyan-300 font-bold">Commencer</a>
+      <div ref={viewportRef} className="flex justify-center">
+        {scale > 0 && (
+          <div
+            className={bezel ? "bg-[rgb(var(--vx-surface))] border border-[rgb(var(--vx-fg)/10%)] shadow-xl" : ""}
+            style={{ padding: bezel, borderRadius: bezel ? bezel * 3 : 18 }}
+          >
+            <div className="overflow-hidden" style={{ width: width * scale, height: height * scale, borderRadius: bezel ? bezel * 2 : 18 }}>
+              <div style={{ width, height, transform: `scale(${scale})`, transformOrigin: "top left" }}>
+                <IsolatedFrame title={t("browser.frameTitle", { title: site.title })} width={width} height={height}>
+                  <MiniBrowserContext.Provider value={browser}>
+                    <React.Fragment key={reloads}>{children}</React.Fragment>
+                  </MiniBrowserContext.Provider>
+                </IsolatedFrame>
+              </div>
             </div>
           </div>
-        </div>
+        )}
       </div>
     </div>
   );
@@ -904,59 +2344,30 @@ const SaaSMiniSite: React.FC = () => {
    --------------------------- */
 
 const Comparison: React.FC = () => {
-  const rows = [
-    {
-      feature: "Vitesse",
-      vortex: "Pages pré-optimisées, livraison performante, lazy-loading et CDN.",
-      wix: "Constructeur trop lourd — scripts tiers impactent perf.",
-      freelance: "Dépend des connaissances; souvent non-optimisé.",
-    },
-    {
-      feature: "SEO",
-      vortex: "Balises optimisées, données structurées, sitemap, performance.",
-      wix: "Difficulté à contrôler certains aspects du SEO.",
-      freelance: "Variable — souvent basique ou absent.",
-    },
-    {
-      feature: "Code",
-      vortex: "Code propre, maintenable, accessible.",
-      wix: "Propriétaire, difficile à migrer.",
-      freelance: "Qualité variable — souvent non-scalable.",
-    },
-    {
-      feature: "Support",
-      vortex: "30 jours inclus + maintenance 49€/mois.",
-      wix: "Support central mais option payante.",
-      freelance: "Souvent limité, dépend du freelance.",
-    },
-    {
-      feature: "ROI",
-      vortex: "Conçu pour convertir — ROI mesurable.",
-      wix: "Temps de conversion moyen, dépend du template.",
-      freelance: "Peut nécessiter itérations couteuses.",
-    },
-  ];
+  const { comparison } = useSiteContent();
+  const fill = useFill();
+  const { rows, columns } = comparison;
 
   return (
-    <section className="mt-10 rounded-[24px] p-6 bg-black/30 border border-white/6">
-      <h3 className="text-xl font-extrabold">Comparaison — VORTEX vs WIX/DIY vs Freelance débutant</h3>
+    <section className="mt-10 rounded-[var(--vx-radius-card)] p-6 bg-[rgb(var(--vx-surface)/30%)] border border-[rgb(var(--vx-fg)/6%)]">
+      <h3 className="text-xl font-extrabold">{comparison.title}</h3>
       <div className="mt-4 overflow-x-auto">
         <table className="w-full table-auto border-collapse text-sm">
           <thead>
-            <tr className="text-left text-white/60">
-              <th className="pb-3 pr-6">Critère</th>
-              <th className="pb-3 pr-6">VORTEX</th>
-              <th className="pb-3 pr-6">WIX / DIY</th>
-              <th className="pb-3">Freelance débutant</th>
+            <tr className="text-left text-[rgb(var(--vx-fg)/60%)]">
+              <th className="pb-3 pr-6">{columns.feature}</th>
+              <th className="pb-3 pr-6">{columns.vortex}</th>
+              <th className="pb-3 pr-6">{columns.wix}</th>
+              <th className="pb-3">{columns.freelance}</th>
             </tr>
           </thead>
           <tbody>
             {rows.map((r, i) => (
-              <tr key={i} className={`${i % 2 === 0 ? "bg-white/2" : ""} align-top`}>
+              <tr key={i} className={`${i % 2 === 0 ? "bg-[rgb(var(--vx-fg)/2%)]" : ""} align-top`}>
                 <td className="py-4 pr-6 font-semibold">{r.feature}</td>
-                <td className="py-4 pr-6 text-white/70">{r.vortex}</td>
-                <td className="py-4 pr-6 text-white/70">{r.wix}</td>
-                <td className="py-4 text-white/70">{r.freelance}</td>
+                <td className="py-4 pr-6 text-[rgb(var(--vx-fg)/70%)]">{fill(r.vortex)}</td>
+                <td className="py-4 pr-6 text-[rgb(var(--vx-fg)/70%)]">{fill(r.wix)}</td>
+                <td className="py-4 text-[rgb(var(--vx-fg)/70%)]">{fill(r.freelance)}</td>
               </tr>
             ))}
           </tbody>
@@ -964,62 +2375,295 @@ const Comparison: React.FC = () => {
       </div>
 
       <div className="mt-4 flex items-center justify-between">
-        <div className="text-white/60">Conclusion: VORTEX propose un équilibre performance/SEO/support à prix fixe pour minimiser le risque et maximiser le ROI.</div>
-        <a href="#contact" className="px-4 py-2 rounded-[12px] bg-cyan-400/10 border border-cyan-300/20 text-cyan-300">Me contacter</a>
+        <div className="text-[rgb(var(--vx-fg)/60%)]">{comparison.conclusion}</div>
+        <a href="#contact" data-cta="comparison" className="px-4 py-2 rounded-[var(--vx-radius-control)] bg-[rgb(var(--vx-accent)/10%)] border border-[rgb(var(--vx-accent-soft)/20%)] text-[rgb(var(--vx-accent-soft))]">
+          {comparison.cta}
+        </a>
       </div>
     </section>
   );
 };
 
 /* ---------------------------
-   Offer Card & Pricing
+   Offer Card & Pricing
+   --------------------------- */
+
+const OfferCard: React.FC = () => {
+  const { offer, pricing } = useSiteContent();
+  const { t, formatCurrency } = useI18n();
+  const { quote } = useQuote();
+  const fill = useFill();
+  const framing = useVariant("offer-price");
+  return (
+    <div id="offres" className="rounded-[var(--vx-radius-card)] p-6 bg-[rgb(var(--vx-surface)/30%)] border border-[rgb(var(--vx-fg)/6%)] sticky top-28">
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="text-sm text-[rgb(var(--vx-fg)/60%)]">{offer.eyebrow}</div>
+          <div className="text-2xl font-extrabold">{fill(offer.title)}</div>
+        </div>
+        <div className="text-right">
+          <div className="text-xs text-[rgb(var(--vx-fg)/50%)]">{offer.paymentNote}</div>
+          {framing === "ttc" ? (
+            <>
+              <div className="text-3xl font-black" style={{ color: ACCENT }} aria-live="polite">{formatCurrency(quote.oneOff.ttc, pricing.currency)}</div>
+              <div className="text-xs text-[rgb(var(--vx-fg)/60%)]">{t("offer.framing.ttc", { ht: formatCurrency(quote.oneOff.ht, pricing.currency) })}</div>
+            </>
+          ) : (
+            <>
+              <div className="text-3xl font-black" style={{ color: ACCENT }} aria-live="polite">{formatCurrency(quote.oneOff.ht, pricing.currency)}</div>
+              <div className="text-xs text-[rgb(var(--vx-fg)/60%)]">{fill(offer.priceNote)}</div>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="mt-4 grid grid-cols-1 gap-3">
+        <div className="rounded-[18px] p-4 bg-[rgb(var(--vx-surface)/25%)] border border-[rgb(var(--vx-fg)/6%)]">
+          <ul className="text-[rgb(var(--vx-fg)/70%)] space-y-1 text-sm">
+            {offer.bullets.map((b) => (
+              <li key={b}>• {fill(b)}</li>
+            ))}
+          </ul>
+        </div>
+
+        <QuoteConfigurator />
+
+        <div className="rounded-[18px] p-4 bg-[rgb(var(--vx-surface)/25%)] border border-[rgb(var(--vx-fg)/6%)]">
+          <div className="text-sm text-[rgb(var(--vx-fg)/60%)]">{offer.guarantee.title}</div>
+          <div className="text-sm text-[rgb(var(--vx-fg)/70%)] mt-2">{fill(offer.guarantee.text)}</div>
+        </div>
+      </div>
+
+      <div className="mt-4 flex gap-3">
+        <a href="#contact" data-cta="offer" className="px-4 py-2 rounded-[var(--vx-radius-control)] bg-gradient-to-r from-[rgb(var(--vx-accent))] to-[rgb(var(--vx-accent-soft))] text-[rgb(var(--vx-on-accent))] font-bold">
+          {fill(offer.primaryCta)}
+        </a>
+        <a href="#contact" data-cta="offer_secondary" className="px-4 py-2 rounded-[var(--vx-radius-control)] border border-[rgb(var(--vx-fg)/6%)]">
+          {offer.secondaryCta}
+        </a>
+      </div>
+    </div>
+  );
+};
+
+/* ---------------------------
+   Quote Configurator (add-ons, HT/TVA/TTC, printable quote)
    --------------------------- */
 
-const OfferCard: React.FC = () => {
+const MAINTENANCE_TERMS = [0, 3, 6, 12, 24, 36];
+
+const Stepper: React.FC<{ label: string; value: number; min?: number; max: number; onChange: (v: number) => void }> = ({
+  label,
+  value,
+  min = 0,
+  max,
+  onChange,
+}) => {
+  const { t } = useI18n();
   return (
-    <div id="offres" className="rounded-[24px] p-6 bg-black/30 border border-white/6 sticky top-28">
-      <div className="flex items-center justify-between">
-        <div>
-          <div className="text-sm text-white/60">Offre tout-en-un</div>
-          <div className="text-2xl font-extrabold">VORTEX Launch — 749€ HT</div>
-        </div>
-        <div className="text-right">
-          <div className="text-xs text-white/50">Paiement unique</div>
-          <div className="text-3xl font-black" style={{ color: CYAN }}>749€</div>
-          <div className="text-xs text-white/60">HT — Maintenance 49€/mois</div>
-        </div>
-      </div>
+    <div className="flex items-center gap-2" role="group" aria-label={label}>
+      <button
+        type="button"
+        onClick={() => onChange(clamp(value - 1, min, max))}
+        disabled={value <= min}
+        aria-label={t("quote.decrease", { label })}
+        className="w-7 h-7 rounded-md border border-[rgb(var(--vx-fg)/6%)] disabled:opacity-40"
+      >
+        −
+      </button>
+      <span className="w-6 text-center font-bold" aria-live="polite">{value}</span>
+      <button
+        type="button"
+        onClick={() => onChange(clamp(value + 1, min, max))}
+        disabled={value >= max}
+        aria-label={t("quote.increase", { label })}
+        className="w-7 h-7 rounded-md border border-[rgb(var(--vx-fg)/6%)] disabled:opacity-40"
+      >
+        +
+      </button>
+    </div>
+  );
+};
 
-      <div className="mt-4 grid grid-cols-1 gap-3">
-        <div className="rounded-[18px] p-4 bg-black/25 border border-white/6">
-          <ul className="text-white/70 space-y-1 text-sm">
-            <li>• Design Ultra‑Premium Dark Mode (Cyan accents)</li>
-            <li>• Page principale + sections supplémentaires (Portfolio, Contact, Offres)</li>
-            <li>• Responsive & accessible</li>
-            <li>• SEO on-page + structured data</li>
-            <li>• 30 jours support + 7–10 jours de livraison</li>
-          </ul>
+/** Translated label of a quote line, shared by the configurator and the printable quote. */
+function useQuoteLineLabel() {
+  const { pricing } = useSiteContent();
+  const { t } = useI18n();
+  return (line: QuoteLine) =>
+    line.key === "base" ? t("quote.line.base", { count: pricing.includedPages }) : t(`quote.line.${line.key}`);
+}
+
+const QuoteConfigurator: React.FC = () => {
+  const { brand, offer, pricing } = useSiteContent();
+  const { t, locale, formatCurrency } = useI18n();
+  const { config, quote, setConfig, attached, setAttached } = useQuote();
+  const lineLabel = useQuoteLineLabel();
+  const fill = useFill();
+  const money = (amount: number) => formatCurrency(amount, pricing.currency);
+  const vat = `${t("quote.vat")} ${Math.round(pricing.vatRate * 1000) / 10} %`;
+
+  const printQuote = () => {
+    const now = new Date();
+    const html = renderQuoteDocument(quote, {
+      title: t("quote.doc.title"),
+      brand,
+      meta: [
+        t("quote.doc.date", { date: new Intl.DateTimeFormat(locale, { dateStyle: "long" }).format(now) }),
+        t("quote.doc.ref", { ref: `Q-${now.getFullYear()}-${now.getTime().toString(36).toUpperCase()}` }),
+        t("quote.doc.validity"),
+      ],
+      lineLabel,
+      money,
+      labels: {
+        description: t("quote.doc.description"),
+        quantity: t("quote.doc.quantity"),
+        unitPrice: t("quote.doc.unitPrice"),
+        amount: t("quote.doc.amount"),
+        oneOff: t("quote.oneOff"),
+        monthly: t("quote.monthly"),
+        total: t("quote.total"),
+        ht: t("quote.ht"),
+        vat: t("quote.vat"),
+        ttc: t("quote.ttc"),
+      },
+    });
+    // The browser's print dialog doubles as "Save as PDF"
+    const win = window.open("", "_blank");
+    if (!win) return;
+    win.document.write(html);
+    win.document.close();
+    win.focus();
+    win.print();
+  };
+
+  return (
+    <div className="rounded-[18px] p-4 bg-[rgb(var(--vx-surface)/25%)] border border-[rgb(var(--vx-fg)/6%)] space-y-3">
+      <div className="text-sm font-bold">{t("quote.title")}</div>
+
+      <div className="space-y-2 text-sm">
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <div>{t("quote.line.extraPages")}</div>
+            <div className="text-xs text-[rgb(var(--vx-fg)/50%)]">{t("quote.unit.perPage", { amount: money(pricing.addOns.extraPage) })}</div>
+          </div>
+          <Stepper label={t("quote.line.extraPages")} value={config.extraPages} max={QUOTE_LIMITS.extraPages} onChange={(v) => setConfig({ extraPages: v })} />
         </div>
 
-        <div className="rounded-[18px] p-4 bg-black/25 border border-white/6 flex items-center justify-between">
+        <div className="flex items-center justify-between gap-3">
           <div>
-            <div className="text-sm text-white/60">Maintenance (option)</div>
-            <div className="text-lg font-bold">49€ / mois</div>
+            <div>{t("quote.line.languages")}</div>
+            <div className="text-xs text-[rgb(var(--vx-fg)/50%)]">{t("quote.unit.perLanguage", { amount: money(pricing.addOns.language) })}</div>
           </div>
+          <Stepper
+            label={t("quote.line.languages")}
+            value={config.extraLanguages}
+            max={QUOTE_LIMITS.extraLanguages}
+            onChange={(v) => setConfig({ extraLanguages: v })}
+          />
+        </div>
+
+        <label className="flex items-center justify-between gap-3">
+          <span>
+            <span className="block">{t("quote.line.ecommerce")}</span>
+            <span className="block text-xs text-[rgb(var(--vx-fg)/50%)]">{money(pricing.addOns.ecommerce)}</span>
+          </span>
+          <input type="checkbox" checked={config.ecommerce} onChange={(e) => setConfig({ ecommerce: e.target.checked })} />
+        </label>
+
+        <label className="flex items-center justify-between gap-3">
+          <span>
+            <span className="block">{t("quote.line.copywriting")}</span>
+            <span className="block text-xs text-[rgb(var(--vx-fg)/50%)]">{t("quote.unit.perPage", { amount: money(pricing.addOns.copywriting) })}</span>
+          </span>
+          <input type="checkbox" checked={config.copywriting} onChange={(e) => setConfig({ copywriting: e.target.checked })} />
+        </label>
+
+        <div className="flex items-center justify-between gap-3">
           <div>
-            <a href="#contact" className="px-4 py-2 rounded-[12px] bg-cyan-400/10 border border-cyan-400/20 text-cyan-300">Ajouter la maintenance</a>
+            <div>{offer.maintenance.label}</div>
+            <div className="text-xs text-[rgb(var(--vx-fg)/50%)]">{fill(offer.maintenance.price)}</div>
           </div>
+          {config.maintenanceMonths === 0 ? (
+            <button
+              type="button"
+              onClick={() => setConfig({ maintenanceMonths: 12 })}
+              className="px-3 py-1 rounded-[var(--vx-radius-control)] bg-[rgb(var(--vx-accent)/10%)] border border-[rgb(var(--vx-accent)/20%)] text-[rgb(var(--vx-accent-soft))] text-xs"
+            >
+              {offer.maintenance.cta}
+            </button>
+          ) : (
+            <select
+              aria-label={offer.maintenance.label}
+              value={config.maintenanceMonths}
+              onChange={(e) => setConfig({ maintenanceMonths: Number(e.target.value) })}
+              className="rounded-[var(--vx-radius-control)] p-1 bg-[rgb(var(--vx-surface)/10%)] border border-[rgb(var(--vx-fg)/6%)]"
+            >
+              {MAINTENANCE_TERMS.map((m) => (
+                <option key={m} value={m}>
+                  {t("quote.months", { count: m })}
+                </option>
+              ))}
+            </select>
+          )}
         </div>
+      </div>
+
+      <div className="border-t border-[rgb(var(--vx-fg)/6%)] pt-3 space-y-1 text-sm" aria-live="polite">
+        {quote.lines
+          .filter((l) => !l.recurring)
+          .map((l) => (
+            <div key={l.key} className="flex justify-between text-[rgb(var(--vx-fg)/70%)]">
+              <span>
+                {lineLabel(l)}
+                {l.quantity > 1 ? ` × ${l.quantity}` : ""}
+              </span>
+              <span>{money(l.amount)}</span>
+            </div>
+          ))}
 
-        <div className="rounded-[18px] p-4 bg-black/25 border border-white/6">
-          <div className="text-sm text-white/60">Garantie satisfaction</div>
-          <div className="text-sm text-white/70 mt-2">Révisions incluses — nous peaufinons jusqu'à satisfaction (limité à scope convenu).</div>
+        <div className="pt-2 font-bold">{t("quote.oneOff")}</div>
+        <div className="flex justify-between text-[rgb(var(--vx-fg)/70%)]">
+          <span>{t("quote.ht")}</span>
+          <span>{money(quote.oneOff.ht)}</span>
+        </div>
+        <div className="flex justify-between text-[rgb(var(--vx-fg)/70%)]">
+          <span>{vat}</span>
+          <span>{money(quote.oneOff.vat)}</span>
         </div>
+        <div className="flex justify-between font-bold">
+          <span>{t("quote.ttc")}</span>
+          <span>{money(quote.oneOff.ttc)}</span>
+        </div>
+
+        {config.maintenanceMonths > 0 && (
+          <>
+            <div className="pt-2 font-bold">{t("quote.monthly")}</div>
+            <div className="flex justify-between text-[rgb(var(--vx-fg)/70%)]">
+              <span>{t("quote.perMonth", { ht: money(quote.monthly.ht), ttc: money(quote.monthly.ttc) })}</span>
+              <span>× {config.maintenanceMonths}</span>
+            </div>
+            <div className="flex justify-between font-bold">
+              <span>{t("quote.total")}</span>
+              <span>
+                {money(quote.total.ttc)} {t("quote.ttc")}
+              </span>
+            </div>
+          </>
+        )}
       </div>
 
-      <div className="mt-4 flex gap-3">
-        <a href="#contact" className="px-4 py-2 rounded-[12px] bg-gradient-to-r from-cyan-400 to-cyan-300 text-black font-bold">Commander — 749€</a>
-        <a href="#contact" className="px-4 py-2 rounded-[12px] border border-white/6">Demander un devis personnalisé</a>
+      <div className="flex flex-wrap gap-2">
+        <a
+          href="#contact"
+          data-cta="quote"
+          onClick={() => setAttached(true)}
+          className="px-3 py-2 rounded-[var(--vx-radius-control)] bg-[rgb(var(--vx-accent)/10%)] border border-[rgb(var(--vx-accent)/20%)] text-[rgb(var(--vx-accent-soft))] text-sm"
+        >
+          {attached ? t("quote.attached") : t("quote.attach")}
+        </a>
+        <button type="button" onClick={printQuote} className="px-3 py-2 rounded-[var(--vx-radius-control)] border border-[rgb(var(--vx-fg)/6%)] text-sm">
+          {t("quote.print")}
+        </button>
       </div>
     </div>
   );
@@ -1030,172 +2674,760 @@ const OfferCard: React.FC = () => {
    --------------------------- */
 
 const ContactCard: React.FC = () => {
+  const { contact } = useSiteContent();
   return (
-    <div id="contact" className="rounded-[24px] p-6 bg-black/30 border border-white/6">
+    <div id="contact" className="rounded-[var(--vx-radius-card)] p-6 bg-[rgb(var(--vx-surface)/30%)] border border-[rgb(var(--vx-fg)/6%)]">
       <div className="flex items-start gap-3">
-        <div className="w-12 h-12 rounded-lg bg-gradient-to-br from-cyan-400/10 to-cyan-600/6 flex items-center justify-center">
-          <Mail size={20} color={CYAN} />
+        <div className="w-12 h-12 rounded-lg bg-gradient-to-br from-[rgb(var(--vx-accent)/10%)] to-[rgb(var(--vx-accent-deep)/6%)] flex items-center justify-center">
+          <Mail size={20} className="text-[rgb(var(--vx-accent))]" />
         </div>
         <div>
-          <div className="text-lg font-extrabold">Contactez-nous</div>
-          <div className="text-sm text-white/60">Remplissez le formulaire pour démarrer — intégré à Web3Forms.</div>
+          <div className="text-lg font-extrabold">{contact.title}</div>
+          <div className="text-sm text-[rgb(var(--vx-fg)/60%)]">{contact.subtitle}</div>
         </div>
       </div>
 
       <div className="mt-4">
-        <ContactForm />
+        <ContactWizard />
       </div>
     </div>
   );
 };
 
 /* ---------------------------
-   Contact Form (complex, validation, Web3Forms)
+   Form validation (lib/validation.ts) - one message per field, next to its input
+   --------------------------- */
+
+// Where a field has wording of its own; any other error falls back to `validation.<code>`
+const FIELD_MESSAGES: Record<string, Partial<Record<FieldError, MessageKey>>> = {
+  name: { required: "contact.error.nameRequired" },
+  email: { required: "contact.error.emailInvalid", invalid: "contact.error.emailInvalid" },
+  // only the trial signup requires it
+  company: { required: "saas.error.company" },
+  phone: { invalid: "validation.phone" },
+  // the reservation demo's slot list
+  time: { required: "reservation.error.time" },
+};
+
+const fieldMessageKey = (field: string, error: FieldError): MessageKey => FIELD_MESSAGES[field]?.[error] ?? `validation.${error}`;
+
+/**
+ * Per-field errors of a form checked against `schema`. A field in error is checked again as the visitor
+ * edits it, so its message goes away with the mistake; the other fields wait for the next submit.
+ */
+function useFieldErrors<K extends string>(schema: Schema<K>, values: Partial<Record<K, string>>) {
+  const { t } = useI18n();
+  const [errors, setErrors] = useState<FieldErrors<K>>({});
+  const previous = useRef(values);
+
+  useEffect(() => {
+    const changed = (Object.keys(schema) as K[]).filter((k) => values[k] !== previous.current[k]);
+    previous.current = values;
+    setErrors((current) => {
+      const shown = changed.filter((k) => current[k]);
+      if (!shown.length) return current;
+      const next = { ...current };
+      shown.forEach((k) => delete next[k]);
+      return { ...next, ...validateSchema(schema, values, shown) };
+    });
+  });
+
+  /** Checks `fields` (all of the schema by default); true when they all pass. */
+  const validate = (fields?: readonly K[]) => {
+    const found = validateSchema(schema, values, fields);
+    setErrors(found);
+    return !hasErrors(found);
+  };
+
+  /** Errors the endpoint answered with (422), for the fields this form shows. */
+  const showErrors = (fields: Partial<Record<string, FieldError>>) =>
+    setErrors(Object.fromEntries(Object.entries(fields).filter(([k]) => k in schema)) as FieldErrors<K>);
+
+  // Disposable addresses and domains without mail are only known to the server: asked when the visitor
+  // leaves the field, and dropped if the address changed in the meantime
+  const checkEmailField = async (field: K) => {
+    const address = values[field]?.trim() ?? "";
+    if (errors[field] || !address) return;
+    const error = await checkEmail(address);
+    if (error && previous.current[field]?.trim() === address) setErrors((current) => ({ ...current, [field]: error }));
+  };
+
+  const message = (field: K) => {
+    const error = errors[field];
+    return error ? t(fieldMessageKey(field, error)) : null;
+  };
+
+  return { errors, validate, showErrors, checkEmailField, message };
+}
+
+/* ---------------------------
+   Discovery calls (lib/calls.ts) - next to the contact form
    --------------------------- */
 
-const ContactForm: React.FC = () => {
+let callService: CallService | null = null;
+const getCallService = () => (callService ??= httpCallService());
+
+const readVisitorZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+/** Every IANA zone the browser knows (the visitor may be planning from elsewhere), else the two that matter. */
+const timeZoneOptions = (...zones: string[]) => {
+  const all = (Intl as { supportedValuesOf?: (key: "timeZone") => string[] }).supportedValuesOf?.("timeZone") ?? [];
+  return [...new Set([...zones, ...all])].sort();
+};
+
+const DiscoveryCallCard: React.FC = () => {
+  const { t, locale } = useI18n();
+  const { brand } = useSiteContent();
+  const [zone, setZone] = useClientState(readVisitorZone, "UTC");
+  const [available, setAvailable] = useState<CallSlots | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [day, setDay] = useState("");
+  const [start, setStart] = useState("");
   const [name, setName] = useState("");
-  const [company, setCompany] = useState("");
   const [email, setEmail] = useState("");
-  const [budget, setBudget] = useState<string>("749");
-  const [message, setMessage] = useState("");
-  const [maintenance, setMaintenance] = useState(false);
+  const [topic, setTopic] = useState("");
+  const fields = useFieldErrors(CALL_SCHEMA, { name, email, topic });
+  // given for this booking, as on the contact forms
+  const [consentAt, setConsentAt] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
-  const [success, setSuccess] = useState<string | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const [confirmed, setConfirmed] = useState<{ booking: CallBooking; ics: string; emailed: boolean } | null>(null);
 
-  // Honeypot for bots
-  const [hp, setHp] = useState("");
+  const loadSlots = () =>
+    getCallService()
+      .slots()
+      .then(setAvailable, () => setFailed(true));
+  useEffect(() => {
+    loadSlots();
+  }, [confirmed]);
+
+  const icsUrl = useMemo(() => (confirmed ? URL.createObjectURL(new Blob([confirmed.ics], { type: "text/calendar" })) : null), [confirmed]);
+  useEffect(() => () => void (icsUrl && URL.revokeObjectURL(icsUrl)), [icsUrl]);
+
+  // slots grouped by their date in the chosen zone
+  const days = useMemo(() => {
+    const byDay = new Map<string, string[]>();
+    for (const s of available?.slots ?? []) {
+      const date = nowIn(zone, new Date(s)).date;
+      byDay.set(date, [...(byDay.get(date) ?? []), s]);
+    }
+    return byDay;
+  }, [available, zone]);
+  const selectedDay = days.has(day) ? day : [...days.keys()][0] ?? "";
 
-  const validateEmail = (e: string) => /\S+@\S+\.\S+/.test(e);
+  const formatTime = (iso: string, timeZone = zone) => new Intl.DateTimeFormat(locale, { timeStyle: "short", timeZone }).format(new Date(iso));
+  const formatDay = (date: string, style: "short" | "long" = "short") =>
+    new Intl.DateTimeFormat(locale, style === "short" ? { weekday: "short", day: "numeric", month: "short", timeZone: "UTC" } : { dateStyle: "full", timeZone: "UTC" }).format(
+      new Date(`${date}T00:00:00Z`)
+    );
 
-  const handleSubmit = async (e: FormEvent) => {
+  const handleBook = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (!fields.validate()) return setError(t("contact.error.fields"));
+    if (!start) return setError(t("calls.error.slot"));
+    if (!consentAt) return setError(t("contact.error.consentRequired"));
+    setError("");
+    setLoading(true);
+    try {
+      const result = await getCallService().book({ start, name, email, topic, timeZone: zone, consentAt });
+      if (result.ok) return setConfirmed({ booking: result.booking, ics: result.ics, emailed: result.emailed });
+      if (result.error === "validation") fields.showErrors(result.fields);
+      setError(
+        result.error === "taken" ? t("calls.error.taken") : t(result.error === "validation" && result.fields.consentAt ? "contact.error.consentRequired" : "contact.error.fields")
+      );
+      if (result.error === "taken") {
+        // someone else took it first: refresh the list
+        setStart("");
+        await loadSlots();
+      }
+    } catch {
+      setError(t("calls.error.generic"));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const control = "w-full rounded-[var(--vx-radius-control)] p-3 bg-[rgb(var(--vx-surface)/10%)] border border-[rgb(var(--vx-fg)/6%)]";
+  const chip = (selected: boolean) =>
+    `rounded-md px-2 py-1.5 text-xs border ${selected ? "bg-[rgb(var(--vx-accent)/20%)] border-[rgb(var(--vx-accent-soft)/40%)]" : "border-[rgb(var(--vx-fg)/6%)] hover:border-[rgb(var(--vx-fg)/20%)]"}`;
+  const mailto = (
+    <a href={`mailto:${brand.email}`} className="text-[rgb(var(--vx-accent-soft))] underline underline-offset-4">
+      {brand.email}
+    </a>
+  );
+
+  return (
+    <div id="appel" className="rounded-[var(--vx-radius-card)] p-6 bg-[rgb(var(--vx-surface)/30%)] border border-[rgb(var(--vx-fg)/6%)]">
+      <div className="flex items-start gap-3">
+        <div className="w-12 h-12 rounded-lg bg-gradient-to-br from-[rgb(var(--vx-accent)/10%)] to-[rgb(var(--vx-accent-deep)/6%)] flex items-center justify-center">
+          <Phone size={20} className="text-[rgb(var(--vx-accent))]" />
+        </div>
+        <div>
+          <div className="text-lg font-extrabold">{t("calls.title")}</div>
+          <div className="text-sm text-[rgb(var(--vx-fg)/60%)]">{t("calls.subtitle", { minutes: available?.durationMinutes ?? 20 })}</div>
+        </div>
+      </div>
+
+      {confirmed ? (
+        <div className="mt-4 text-center" role="status">
+          <CheckCircle size={40} className="mx-auto text-[rgb(var(--vx-accent))]" />
+          <div className="mt-2 font-bold">{t("calls.confirmed")}</div>
+          <div className="text-sm text-[rgb(var(--vx-fg)/70%)] mt-1">
+            {t("calls.summary", { date: formatDay(nowIn(zone, new Date(confirmed.booking.start)).date, "long"), time: formatTime(confirmed.booking.start), zone })}
+          </div>
+          {confirmed.emailed && <div className="text-xs text-[rgb(var(--vx-fg)/50%)] mt-1">{t("calls.emailed", { email: confirmed.booking.email })}</div>}
+          <div className="mt-3 flex flex-col gap-2">
+            {icsUrl && (
+              <a href={icsUrl} download={`appel-${confirmed.booking.id}.ics`} className="text-sm text-[rgb(var(--vx-accent-soft))] underline">
+                {t("calls.addToCalendar")}
+              </a>
+            )}
+            <button
+              type="button"
+              onClick={() => {
+                setConfirmed(null);
+                setStart("");
+                setConsentAt(null);
+              }}
+              className="text-xs text-[rgb(var(--vx-fg)/60%)] hover:text-[rgb(var(--vx-fg))]"
+            >
+              {t("calls.another")}
+            </button>
+          </div>
+        </div>
+      ) : failed ? (
+        <p className="mt-4 text-sm text-[rgb(var(--vx-fg)/70%)]">
+          {t("calls.unavailable")} {mailto}
+        </p>
+      ) : !available ? (
+        <div className="mt-4">
+          <Spinner label={t("calls.loading")} />
+        </div>
+      ) : days.size === 0 ? (
+        <p className="mt-4 text-sm text-[rgb(var(--vx-fg)/70%)]">
+          {t("calls.noSlots")} {mailto}
+        </p>
+      ) : (
+        <form onSubmit={handleBook} className="mt-4 space-y-3" noValidate>
+          <Field label={t("calls.zoneLabel")}>
+            <select value={zone} onChange={(e) => setZone(e.target.value)} className={control}>
+              {timeZoneOptions(zone, available.timeZone).map((z) => (
+                <option key={z} value={z}>
+                  {z.replace(/_/g, " ")}
+                </option>
+              ))}
+            </select>
+          </Field>
+
+          <div role="radiogroup" aria-label={t("calls.dayLabel")} className="flex gap-1 overflow-x-auto pb-1">
+            {[...days.keys()].map((d) => (
+              <button
+                key={d}
+                type="button"
+                role="radio"
+                aria-checked={d === selectedDay}
+                onClick={() => {
+                  setDay(d);
+                  setStart("");
+                }}
+                className={`${chip(d === selectedDay)} whitespace-nowrap`}
+              >
+                {formatDay(d)}
+              </button>
+            ))}
+          </div>
+
+          <div role="radiogroup" aria-label={t("calls.slotsLabel")} className="grid grid-cols-4 gap-1">
+            {(days.get(selectedDay) ?? []).map((s) => (
+              <button key={s} type="button" role="radio" aria-checked={start === s} onClick={() => setStart(s)} className={chip(start === s)}>
+                {formatTime(s)}
+              </button>
+            ))}
+          </div>
+          {start && zone !== available.timeZone && (
+            <div className="text-xs text-[rgb(var(--vx-fg)/50%)]">{t("calls.studioTime", { time: formatTime(start, available.timeZone), zone: available.timeZone })}</div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <Field label={t("contact.nameLabel")} error={fields.message("name")}>
+              <input autoComplete="name" required value={name} onChange={(e) => setName(e.target.value)} className={control} />
+            </Field>
+            <Field label={t("contact.emailLabel")} error={fields.message("email")}>
+              <input
+                type="email"
+                autoComplete="email"
+                required
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                onBlur={() => fields.checkEmailField("email")}
+                className={control}
+              />
+            </Field>
+          </div>
+          <Field label={t("calls.topicLabel")} error={fields.message("topic")}>
+            <input value={topic} maxLength={1000} onChange={(e) => setTopic(e.target.value)} className={control} />
+          </Field>
+          <ContactConsent consentAt={consentAt} onChange={setConsentAt} />
+
+          <div role="alert" className="text-sm text-[rgb(var(--vx-danger))] empty:hidden">
+            {error}
+          </div>
+          <button
+            type="submit"
+            disabled={loading}
+            className="w-full rounded-[var(--vx-radius-control)] py-3 bg-gradient-to-r from-[rgb(var(--vx-accent))] to-[rgb(var(--vx-accent-soft))] text-[rgb(var(--vx-on-accent))] font-bold flex items-center justify-center gap-2 disabled:opacity-60"
+          >
+            {loading && <Spinner label={t("calls.submitting")} />}
+            {t("calls.submit")}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+/* ---------------------------
+   Contact submission pipeline (posts to /api/contact, queues on network failure)
+   --------------------------- */
+
+type SubmitStatus = { loading: boolean; success: string | null; error: string | null; pending: number };
+
+/**
+ * Sends a ContactSubmission and reports user-facing status. Network failures and server hiccups go
+ * to the retry queue instead of surfacing as errors. Resolves to true when the draft can be cleared.
+ * Fields the endpoint refuses are handed to `onInvalid`, for the form to show next to each input.
+ * `form` names the form in the shared retry queue, so a background send is reported where it was made.
+ */
+function useContactSubmission(form: string, onInvalid?: (fields: ContactErrors) => void) {
+  const { t } = useI18n();
+  const [loading, setLoading] = useState(false);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Submissions that failed for network reasons are retried in the background
+  const { pending, enqueue } = useContactQueue(form, (type) => {
+    if (type === "sent") setSuccess(t("contact.pendingSent"));
+    else setError(t("contact.error.send"));
+  });
+
+  const submit = async (payload: ContactSubmission): Promise<boolean> => {
     setError(null);
     setSuccess(null);
 
-    // Basic validations
-    if (!name.trim()) return setError("Nom requis.");
-    if (!validateEmail(email)) return setError("Email invalide.");
-    if (hp) return setError("Bot détecté.");
+    // Offline: queue straight away, it goes out when the connection is back
+    if (typeof navigator !== "undefined" && navigator.onLine === false) {
+      enqueue(payload);
+      return true;
+    }
 
     setLoading(true);
-
     try {
-      // Web3Forms expects: { api_key, name, email, message, subject, ... }
-      const payload = {
-        api_key: "WEB3FORMS_API_KEY_PLACEHOLDER", // <-- Remplacer par clé réelle côté serveur/env
-        subject: `Nouveau lead — VORTEX (${company || "sans entreprise"})`,
-        name,
-        email,
-        company,
-        message: `${message}\n\nMaintenance: ${maintenance ? "Oui" : "Non"}\nBudget présumé: ${budget}€`,
-        // redirect: "https://vortex.agency/merci" // optional
-      };
-
-      const res = await fetch("https://api.web3forms.com/submit", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(payload),
-      });
-
-      if (!res.ok) {
-        const text = await res.text();
-        console.error("Web3Forms error", text);
-        setError("Erreur d'envoi — veuillez réessayer plus tard.");
-      } else {
-        setSuccess("Merci ! Votre demande a été envoyée. Nous vous contactons sous 24h.");
-        setName("");
-        setCompany("");
-        setEmail("");
-        setMessage("");
-        setMaintenance(false);
-        setBudget("749");
+      const outcome = await postContact(payload);
+
+      if (outcome.status === "sent") {
+        setSuccess(t("contact.success"));
+        return true;
       }
-    } catch (err) {
-      console.error(err);
-      setError("Erreur de réseau — vérifiez votre connexion.");
+      if (outcome.status === "retry" && outcome.response?.ok === false && outcome.response.error === "rate_limited") {
+        setError(t("contact.error.rateLimited"));
+        return false;
+      }
+      if (outcome.status === "retry") {
+        // network error or server hiccup: keep the lead safe and retry with backoff
+        enqueue(payload);
+        return true;
+      }
+      const body = outcome.reason;
+      console.error("Contact endpoint error", body);
+      if (body?.ok === false && body.error === "validation") {
+        onInvalid?.(body.fields);
+        setError(t(body.fields.consentAt ? "contact.error.consentRequired" : "contact.error.fields"));
+      } else setError(t("contact.error.send"));
+      return false;
     } finally {
       setLoading(false);
     }
   };
 
+  const status: SubmitStatus = { loading, success, error, pending };
+  return { submit, status, setError };
+}
+
+const SubmitStatusMessages: React.FC<{ status: SubmitStatus }> = ({ status }) => {
+  const { t } = useI18n();
+  // The regions stay mounted, empty when there's nothing to say: screen readers only announce changes
+  // to a live region that already existed
   return (
-    <form onSubmit={handleSubmit} className="space-y-3">
-      {/* Honeypot hidden */}
-      <div style={{ display: "none" }}>
-        <label>HP</label>
-        <input name="hp" value={hp} onChange={(e) => setHp(e.target.value)} />
+    <>
+      <div role="alert" className="text-sm text-[rgb(var(--vx-danger))] empty:hidden">
+        {status.error}
       </div>
-
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-        <input
-          aria-label="Nom complet"
-          placeholder="Nom complet"
-          className="rounded-[12px] p-3 bg-black/10 border border-white/6"
-          value={name}
-          onChange={(e) => setName(e.target.value)}
-        />
-        <input
-          aria-label="Adresse email"
-          placeholder="Email"
-          className="rounded-[12px] p-3 bg-black/10 border border-white/6"
-          value={email}
-          onChange={(e) => setEmail(e.target.value)}
-        />
-        <input
-          placeholder="Entreprise (optionnel)"
-          className="rounded-[12px] p-3 bg-black/10 border border-white/6 md:col-span-2"
-          value={company}
-          onChange={(e) => setCompany(e.target.value)}
-        />
+      <div role="status" className="text-sm text-[rgb(var(--vx-success))] empty:hidden">
+        {status.success}
       </div>
+      <div role="status" className="text-sm text-[rgb(var(--vx-warning))] empty:hidden">
+        {status.pending > 0 && (
+          <span className="flex items-center gap-2">
+            <Loader2 size={14} className="animate-spin" aria-hidden />
+            {t("contact.pending", { count: status.pending })}
+          </span>
+        )}
+      </div>
+    </>
+  );
+};
+
+/**
+ * Explicit, unticked-by-default agreement to be contacted. The time it was ticked goes with the lead
+ * (`consentAt`), so there's a record of when the visitor agreed.
+ */
+const ContactConsent: React.FC<{ consentAt: string | null; onChange: (consentAt: string | null) => void }> = ({ consentAt, onChange }) => {
+  const { brand } = useSiteContent();
+  const { t } = useI18n();
+  return (
+    <label className="flex items-start gap-2 text-sm">
+      <input
+        type="checkbox"
+        className="mt-1"
+        required
+        checked={consentAt !== null}
+        onChange={(e) => onChange(e.target.checked ? new Date().toISOString() : null)}
+      />
+      <span className="text-[rgb(var(--vx-fg)/70%)]">{t("contact.consentLabel", { brand: brand.name })}</span>
+    </label>
+  );
+};
+
+/* ---------------------------
+   Contact Wizard (multi-step qualified lead)
+   --------------------------- */
+
+const WIZARD_STEPS = ["project", "pages", "features", "deadline", "budget", "contact"] as const;
+
+type WizardStep = (typeof WIZARD_STEPS)[number];
+
+type WizardDraft = {
+  step: number;
+  projectType: ProjectType | "";
+  pages: PageRange | "";
+  features: Feature[];
+  deadline: Deadline | "";
+  budget: string;
+  maintenance: boolean;
+  name: string;
+  company: string;
+  email: string;
+  phone: string;
+  message: string;
+};
 
+/** The contact step's fields, checked against CONTACT_SCHEMA next to each input. */
+const WIZARD_CONTACT_FIELDS = ["name", "email", "phone", "company", "message"] as const;
+
+/** Returns the translation key of the first problem on a step, or null when it can be left. */
+function validateWizardStep(step: WizardStep, d: WizardDraft): MessageKey | null {
+  switch (step) {
+    case "project":
+      return d.projectType ? null : "wizard.error.required";
+    case "pages":
+      return d.pages ? null : "wizard.error.required";
+    case "features":
+      return null;
+    case "deadline":
+      return d.deadline ? null : "wizard.error.required";
+    case "budget":
+      return d.budget ? null : "wizard.error.required";
+    case "contact":
+      return hasErrors(validateSchema(CONTACT_SCHEMA, d, WIZARD_CONTACT_FIELDS)) ? "contact.error.fields" : null;
+  }
+}
+
+const ChoiceButton: React.FC<{ selected: boolean; onClick: () => void; role?: "radio" | "checkbox"; children?: React.ReactNode }> = ({
+  selected,
+  onClick,
+  role = "radio",
+  children,
+}) => (
+  <button
+    type="button"
+    role={role}
+    aria-checked={selected}
+    onClick={onClick}
+    className={`rounded-[var(--vx-radius-control)] p-3 text-left text-sm border ${selected ? "bg-[rgb(var(--vx-fg)/6%)] border-[rgb(var(--vx-accent-soft)/40%)] text-[rgb(var(--vx-fg))]" : "bg-[rgb(var(--vx-surface)/10%)] border-[rgb(var(--vx-fg)/6%)] text-[rgb(var(--vx-fg)/70%)] hover:text-[rgb(var(--vx-fg))]"}`}
+  >
+    {children}
+  </button>
+);
+
+const ContactWizard: React.FC<{ source?: string }> = ({ source = "contact" }) => {
+  const { brand, contact, portfolio } = useSiteContent();
+  const { t, locale, formatCurrency } = useI18n();
+  const fill = useFill();
+  const defaultBudget = contact.budgets[0].value;
+  const [draft, setDraft, resetDraft] = useDraft<WizardDraft>(`vortex.contact.wizard.${source}`, {
+    step: 0,
+    projectType: "",
+    pages: "",
+    features: [],
+    deadline: "",
+    budget: defaultBudget,
+    maintenance: false,
+    name: "",
+    company: "",
+    email: "",
+    phone: "",
+    message: "",
+  });
+  const { name, company, email, phone, budget, message, maintenance } = draft;
+  const stepIndex = clamp(draft.step, 0, WIZARD_STEPS.length - 1);
+  const step = WIZARD_STEPS[stepIndex];
+  const isLast = stepIndex === WIZARD_STEPS.length - 1;
+  const fields = useFieldErrors(CONTACT_SCHEMA, draft);
+  const { submit, status, setError } = useContactSubmission(`wizard:${source}`, fields.showErrors);
+  const { config: quoteConfig, quote, attached: quoteAttached, setAttached: setQuoteAttached } = useQuote();
+  const { allowed } = useConsent();
+
+  // Honeypot for bots (never persisted)
+  const [hp, setHp] = useState("");
+  // Not part of the draft either: consent is given for this submission, not remembered
+  const [consentAt, setConsentAt] = useState<string | null>(null);
+
+  const tracking = useFormTracking(source, { step });
+  const questionId = useId();
+
+  const goTo = (next: number) => {
+    setError(null);
+    setDraft({ step: clamp(next, 0, WIZARD_STEPS.length - 1) });
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    if (step === "contact") fields.validate(WIZARD_CONTACT_FIELDS);
+    const problem = validateWizardStep(step, draft);
+    if (problem) return setError(t(problem));
+    if (!isLast) return goTo(stepIndex + 1);
+    if (!consentAt) return setError(t("contact.error.consentRequired"));
+
+    // Every step was validated on the way; the endpoint re-validates, the honeypot is only checked server-side
+    const qualification: Qualification = {
+      projectType: draft.projectType as ProjectType,
+      pages: draft.pages as PageRange,
+      features: draft.features,
+      deadline: draft.deadline as Deadline,
+    };
+    const quoteToSend = quoteAttached ? quoteConfig : null;
+    const payload: ContactSubmission = {
+      name,
+      email,
+      phone,
+      company,
+      message,
+      budget,
+      maintenance,
+      locale,
+      source,
+      qualification,
+      quote: quoteToSend,
+      consentAt,
+      // A/B attribution is analytics: only with the visitor's consent
+      experiments: allowed("analytics") ? experimentContext() : null,
+      hp,
+    };
+    if (await submit(payload)) {
+      tracking.submitted();
+      resetDraft();
+      setConsentAt(null);
+      setQuoteAttached(false);
+    }
+  };
+
+  const toggleFeature = (f: Feature) =>
+    setDraft({ features: draft.features.includes(f) ? draft.features.filter((x) => x !== f) : [...draft.features, f] });
+
+  return (
+    <form onSubmit={handleSubmit} onInput={tracking.start} onClickCapture={tracking.start} className="space-y-4" noValidate>
+      <Honeypot value={hp} onChange={setHp} />
+
+      {/* Progress */}
       <div>
-        <label className="text-sm text-white/60">Budget souhaité</label>
-        <select
-          value={budget}
-          onChange={(e) => setBudget(e.target.value)}
-          className="mt-2 w-full rounded-[12px] p-3 bg-black/10 border border-white/6"
+        <div className="flex items-center justify-between text-xs text-[rgb(var(--vx-fg)/60%)]" aria-live="polite">
+          <span>{t("wizard.progress", { current: stepIndex + 1, total: WIZARD_STEPS.length })}</span>
+          <span>{t(`wizard.step.${step}`)}</span>
+        </div>
+        <div
+          className="mt-2 h-1 rounded-full bg-[rgb(var(--vx-fg)/6%)] overflow-hidden"
+          role="progressbar"
+          aria-valuemin={1}
+          aria-valuemax={WIZARD_STEPS.length}
+          aria-valuenow={stepIndex + 1}
+          aria-label={t("wizard.progress", { current: stepIndex + 1, total: WIZARD_STEPS.length })}
         >
-          <option value="749">749€ — VORTEX Launch</option>
-          <option value="1500">1500€ — Package avancé</option>
-          <option value="3000">3000€ — Package complet</option>
-        </select>
+          <div className="h-full bg-gradient-to-r from-[rgb(var(--vx-accent))] to-[rgb(var(--vx-accent-soft))]" style={{ width: `${((stepIndex + 1) / WIZARD_STEPS.length) * 100}%` }} />
+        </div>
       </div>
 
-      <textarea
-        placeholder="Message — parlez-nous de votre projet, objectifs, contraintes."
-        className="w-full rounded-[12px] p-3 bg-black/10 border border-white/6 min-h-[120px]"
-        value={message}
-        onChange={(e) => setMessage(e.target.value)}
-      />
+      <fieldset className="space-y-3">
+        <legend id={questionId} className="text-sm font-bold mb-2">
+          {t(`wizard.question.${step}`)}
+        </legend>
+
+        {step === "project" && (
+          <div role="radiogroup" aria-labelledby={questionId} className="grid grid-cols-2 gap-2">
+            {[...listMiniSites(portfolio.minis, locale).map((m) => ({ key: m.key, label: m.title })), { key: "other", label: t("wizard.project.other") }].map(
+              (o) => (
+                <ChoiceButton key={o.key} selected={draft.projectType === o.key} onClick={() => setDraft({ projectType: o.key })}>
+                  {o.label}
+                </ChoiceButton>
+              )
+            )}
+          </div>
+        )}
 
-      <div className="flex items-center justify-between">
-        <label className="flex items-center gap-2 text-sm">
-          <input type="checkbox" checked={maintenance} onChange={(e) => setMaintenance(e.target.checked)} />
-          <span className="text-white/70">Ajouter la maintenance 49€/mois</span>
-        </label>
+        {step === "pages" && (
+          <div role="radiogroup" aria-labelledby={questionId} className="grid grid-cols-2 gap-2">
+            {PAGE_RANGES.map((p) => (
+              <ChoiceButton key={p} selected={draft.pages === p} onClick={() => setDraft({ pages: p })}>
+                {t(`wizard.pages.${p}`)}
+              </ChoiceButton>
+            ))}
+          </div>
+        )}
 
-        <div className="text-sm text-white/60">Politique de confidentialité & données sécurisées</div>
-      </div>
+        {step === "features" && (
+          <>
+            <div className="text-xs text-[rgb(var(--vx-fg)/60%)]">{t("wizard.features.hint")}</div>
+            <div role="group" aria-labelledby={questionId} className="grid grid-cols-2 gap-2">
+              {FEATURES.map((f) => (
+                <ChoiceButton key={f} role="checkbox" selected={draft.features.includes(f)} onClick={() => toggleFeature(f)}>
+                  {t(`wizard.feature.${f}`)}
+                </ChoiceButton>
+              ))}
+            </div>
+          </>
+        )}
 
-      {error && <div className="text-sm text-red-400">{error}</div>}
-      {success && <div className="text-sm text-green-300">{success}</div>}
+        {step === "deadline" && (
+          <div role="radiogroup" aria-labelledby={questionId} className="grid grid-cols-2 gap-2">
+            {DEADLINES.map((d) => (
+              <ChoiceButton key={d} selected={draft.deadline === d} onClick={() => setDraft({ deadline: d })}>
+                {t(`wizard.deadline.${d}`)}
+              </ChoiceButton>
+            ))}
+          </div>
+        )}
+
+        {step === "budget" && (
+          <>
+            <label className="block">
+              <span className="text-sm text-[rgb(var(--vx-fg)/60%)]">{contact.budgetLabel}</span>
+              <select
+                value={budget}
+                onChange={(e) => setDraft({ budget: e.target.value })}
+                className="mt-2 w-full rounded-[var(--vx-radius-control)] p-3 bg-[rgb(var(--vx-surface)/10%)] border border-[rgb(var(--vx-fg)/6%)]"
+              >
+                {contact.budgets.map((b) => (
+                  <option key={b.value} value={b.value}>
+                    {fill(b.label, { amount: formatCurrency(Number(b.value)) })}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={maintenance} onChange={(e) => setDraft({ maintenance: e.target.checked })} />
+              <span className="text-[rgb(var(--vx-fg)/70%)]">{fill(contact.maintenanceLabel)}</span>
+            </label>
+          </>
+        )}
+
+        {step === "contact" && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <Field label={t("contact.nameLabel")} error={fields.message("name")}>
+                <input
+                  autoComplete="name"
+                  className="w-full rounded-[var(--vx-radius-control)] p-3 bg-[rgb(var(--vx-surface)/10%)] border border-[rgb(var(--vx-fg)/6%)]"
+                  value={name}
+                  onChange={(e) => setDraft({ name: e.target.value })}
+                />
+              </Field>
+              <Field label={t("contact.emailLabel")} error={fields.message("email")}>
+                <input
+                  type="email"
+                  autoComplete="email"
+                  className="w-full rounded-[var(--vx-radius-control)] p-3 bg-[rgb(var(--vx-surface)/10%)] border border-[rgb(var(--vx-fg)/6%)]"
+                  value={email}
+                  onChange={(e) => setDraft({ email: e.target.value })}
+                  onBlur={() => fields.checkEmailField("email")}
+                />
+              </Field>
+              <Field label={t("contact.phoneLabel")} error={fields.message("phone")}>
+                <input
+                  type="tel"
+                  autoComplete="tel"
+                  className="w-full rounded-[var(--vx-radius-control)] p-3 bg-[rgb(var(--vx-surface)/10%)] border border-[rgb(var(--vx-fg)/6%)]"
+                  value={phone}
+                  onChange={(e) => setDraft({ phone: e.target.value })}
+                />
+              </Field>
+              <Field label={t("contact.companyLabel")} error={fields.message("company")}>
+                <input
+                  autoComplete="organization"
+                  className="w-full rounded-[var(--vx-radius-control)] p-3 bg-[rgb(var(--vx-surface)/10%)] border border-[rgb(var(--vx-fg)/6%)]"
+                  value={company}
+                  onChange={(e) => setDraft({ company: e.target.value })}
+                />
+              </Field>
+            </div>
+
+            <Field label={t("contact.messageLabel")} error={fields.message("message")}>
+              <textarea
+                placeholder={t("contact.messagePlaceholder")}
+                className="w-full rounded-[var(--vx-radius-control)] p-3 bg-[rgb(var(--vx-surface)/10%)] border border-[rgb(var(--vx-fg)/6%)] min-h-[120px]"
+                value={message}
+                onChange={(e) => setDraft({ message: e.target.value })}
+              />
+            </Field>
+
+            <ContactConsent consentAt={consentAt} onChange={setConsentAt} />
+            <div className="text-sm text-[rgb(var(--vx-fg)/60%)]">{contact.privacyNote}</div>
+          </>
+        )}
+      </fieldset>
+
+      {quoteAttached && (step === "budget" || step === "contact") && (
+        <div className="rounded-[var(--vx-radius-control)] p-3 bg-[rgb(var(--vx-accent)/5%)] border border-[rgb(var(--vx-accent-soft)/20%)] text-sm flex items-center justify-between gap-3">
+          <span>
+            {t("quote.attachedSummary", {
+              amount: formatCurrency(quote.oneOff.ht, quote.currency),
+              monthly: quote.config.maintenanceMonths ? formatCurrency(quote.monthly.ht, quote.currency) : "",
+              months: quote.config.maintenanceMonths,
+            })}
+          </span>
+          <button type="button" onClick={() => setQuoteAttached(false)} className="text-[rgb(var(--vx-fg)/60%)] hover:text-[rgb(var(--vx-fg))]">
+            {t("quote.detach")}
+          </button>
+        </div>
+      )}
+
+      <SubmitStatusMessages status={status} />
 
       <div className="flex items-center gap-3">
+        {stepIndex > 0 && (
+          <button type="button" onClick={() => goTo(stepIndex - 1)} className="px-4 py-2 rounded-[var(--vx-radius-control)] border border-[rgb(var(--vx-fg)/6%)] text-sm">
+            {t("wizard.back")}
+          </button>
+        )}
         <button
           type="submit"
-          disabled={loading}
-          className="inline-flex items-center gap-2 px-4 py-2 rounded-[12px] bg-gradient-to-r from-cyan-400 to-cyan-300 text-black font-bold"
+          disabled={status.loading}
+          className="inline-flex items-center gap-2 px-4 py-2 rounded-[var(--vx-radius-control)] bg-gradient-to-r from-[rgb(var(--vx-accent))] to-[rgb(var(--vx-accent-soft))] text-[rgb(var(--vx-on-accent))] font-bold"
         >
-          {loading ? <Loader2 size={16} /> : "Envoyer la demande"}
+          {status.loading ? <Spinner label={t("contact.sending")} /> : isLast ? t("contact.submit") : t("wizard.next")}
         </button>
 
-        <a className="text-sm text-white/70 hover:text-white" href="mailto:hello@vortex.agency">
-          Ou envoyez un email
+        <a className="text-sm text-[rgb(var(--vx-fg)/70%)] hover:text-[rgb(var(--vx-fg))]" href={`mailto:${brand.email}`}>
+          {contact.mailtoLabel}
         </a>
       </div>
     </form>
@@ -1207,29 +3439,19 @@ const ContactForm: React.FC = () => {
    --------------------------- */
 
 const Testimonials: React.FC = () => {
-  const items = [
-    {
-      quote: "VORTEX a transformé notre trafic en clients — site livré en 7 jours.",
-      author: "Clara — Le Comptoir",
-      avatarColor: "#00f2ff",
-    },
-    {
-      quote: "Design professionnel, gain de temps et support réactif.",
-      author: "Marc — Agence Immo",
-      avatarColor: "#00bcd4",
-    },
-  ];
+  const { testimonials } = useSiteContent();
+  const items = testimonials.items;
 
   return (
-    <div className="rounded-[24px] p-6 bg-black/30 border border-white/6">
-      <div className="text-lg font-extrabold">Témoignages</div>
+    <div className="rounded-[var(--vx-radius-card)] p-6 bg-[rgb(var(--vx-surface)/30%)] border border-[rgb(var(--vx-fg)/6%)]">
+      <div className="text-lg font-extrabold">{testimonials.title}</div>
       <div className="mt-4 space-y-3">
         {items.map((t, i) => (
           <div key={i} className="flex items-start gap-3">
             <div className="w-12 h-12 rounded-full" style={{ background: t.avatarColor }} />
             <div>
-              <div className="text-sm text-white/70">“{t.quote}”</div>
-              <div className="text-xs text-white/50 mt-1">{t.author}</div>
+              <div className="text-sm text-[rgb(var(--vx-fg)/70%)]">“{t.quote}”</div>
+              <div className="text-xs text-[rgb(var(--vx-fg)/50%)] mt-1">{t.author}</div>
             </div>
           </div>
         ))}
@@ -1239,33 +3461,52 @@ const Testimonials: React.FC = () => {
 };
 
 /* ---------------------------
-   CTA Box - urgency + limited slots
+   CTA Box - availability from the studio's project calendar (lib/capacity.ts)
    --------------------------- */
 
-const CTABox: React.FC = () => {
-  const [slots, setSlots] = useState(6);
-
+/** Genuine availability, or null while loading and whenever the calendar can't be trusted. */
+function useAvailability(): Availability | null {
+  const [availability, setAvailability] = useState<Availability | null>(null);
   useEffect(() => {
-    // Simulate dynamic slot decrement for urgency (purely visual)
-    const t = setInterval(() => {
-      setSlots((s) => (s > 2 ? s - (Math.random() > 0.8 ? 1 : 0) : s));
-    }, 4000);
-    return () => clearInterval(t);
+    let live = true;
+    fetchAvailability().then((a) => live && setAvailability(a));
+    return () => {
+      live = false;
+    };
   }, []);
+  return availability;
+}
+
+const CTABox: React.FC = () => {
+  const { cta } = useSiteContent();
+  const { locale } = useI18n();
+  const fill = useFill();
+  const variant = useVariant("cta-urgency", (v) => Boolean(cta.variants?.[v]));
+  const availability = useAvailability();
+  // no figures without real data: the neutral title until (unless) the calendar answers
+  const copy = cta.variants?.[variant] ?? { ...cta, title: availability ? cta.title : cta.fallbackTitle };
+  const formatStart = (d: string) => new Intl.DateTimeFormat(locale, { day: "numeric", month: "long", timeZone: "UTC" }).format(new Date(`${d}T00:00:00Z`));
 
   return (
-    <div className="rounded-[24px] p-6 bg-gradient-to-br from-black/40 to-black/20 border border-white/6">
+    <div className="rounded-[var(--vx-radius-card)] p-6 bg-gradient-to-br from-[rgb(var(--vx-surface)/40%)] to-[rgb(var(--vx-surface)/20%)] border border-[rgb(var(--vx-fg)/6%)]">
       <div className="flex items-center justify-between">
         <div>
-          <div className="text-sm text-white/60">Slots limités</div>
-          <div className="text-2xl font-extrabold">Prochaines disponibilités — {slots} places</div>
+          <div className="text-sm text-[rgb(var(--vx-fg)/60%)]">{copy.eyebrow}</div>
+          <div className="text-2xl font-extrabold">
+            {fill(copy.title, { slots: availability?.slots, days: availability?.windowDays })}
+          </div>
         </div>
         <div>
-          <a href="#contact" className="px-4 py-2 rounded-[12px] bg-cyan-400/10 border border-cyan-300/20 text-cyan-300">Réserver</a>
+          <a href="#contact" data-cta="cta_box" className="px-4 py-2 rounded-[var(--vx-radius-control)] bg-[rgb(var(--vx-accent)/10%)] border border-[rgb(var(--vx-accent-soft)/20%)] text-[rgb(var(--vx-accent-soft))]">
+            {cta.button}
+          </a>
         </div>
       </div>
 
-      <div className="mt-3 text-sm text-white/70">Prix fixe, livrable rapide, valeur studio — idéal pour entrepreneurs exigeants.</div>
+      {availability && availability.startDates.length > 0 && (
+        <div className="mt-3 text-sm text-[rgb(var(--vx-fg)/80%)]">{fill(cta.nextStarts, { dates: availability.startDates.map(formatStart).join(", ") })}</div>
+      )}
+      <div className="mt-3 text-sm text-[rgb(var(--vx-fg)/70%)]">{fill(copy.text)}</div>
     </div>
   );
 };
@@ -1275,19 +3516,17 @@ const CTABox: React.FC = () => {
    --------------------------- */
 
 const FAQ: React.FC = () => {
-  const faqs = [
-    { q: "Qu'est-ce qui est inclus dans 749€ ?", a: "Design premium 1 page, SEO on-page, optimisation performance, 30 jours de support." },
-    { q: "Combien de révisions sont incluses ?", a: "Nous incluons 2 révisions principales durant la phase de validation." },
-    { q: "Comment fonctionne la maintenance ?", a: "49€/mois inclut mises à jour mineures, backups et monitoring de performance." },
-  ];
+  const { faq } = useSiteContent();
+  const fill = useFill();
+  const faqs = faq.items;
   return (
-    <section className="mt-8 rounded-[24px] p-6 bg-black/30 border border-white/6">
-      <h3 className="text-xl font-extrabold">Questions fréquentes</h3>
+    <section className="mt-8 rounded-[var(--vx-radius-card)] p-6 bg-[rgb(var(--vx-surface)/30%)] border border-[rgb(var(--vx-fg)/6%)]">
+      <h3 className="text-xl font-extrabold">{faq.title}</h3>
       <div className="mt-4 space-y-3">
         {faqs.map((f, i) => (
-          <div key={i} className="rounded-[12px] p-4 bg-black/25 border border-white/6">
-            <div className="font-semibold">{f.q}</div>
-            <div className="text-sm text-white/70 mt-2">{f.a}</div>
+          <div key={i} className="rounded-[var(--vx-radius-control)] p-4 bg-[rgb(var(--vx-surface)/25%)] border border-[rgb(var(--vx-fg)/6%)]">
+            <div className="font-semibold">{fill(f.q)}</div>
+            <div className="text-sm text-[rgb(var(--vx-fg)/70%)] mt-2">{fill(f.a)}</div>
           </div>
         ))}
       </div>
@@ -1300,49 +3539,58 @@ const FAQ: React.FC = () => {
    --------------------------- */
 
 const Footer: React.FC = () => {
+  const { brand, footer } = useSiteContent();
+  const { t } = useI18n();
+  const fill = useFill();
+  const { openPreferences } = useConsent();
   return (
-    <footer className="mt-8 rounded-[24px] p-8 bg-black/30 border border-white/6">
+    <footer className="mt-8 rounded-[var(--vx-radius-card)] p-8 bg-[rgb(var(--vx-surface)/30%)] border border-[rgb(var(--vx-fg)/6%)]">
       <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
         <div>
-          <div className="text-2xl font-extrabold">VORTEX</div>
-          <div className="text-sm text-white/60 mt-2">Agence digitale Ultra‑Premium — design, dev & conversion.</div>
+          <div className="text-2xl font-extrabold">{brand.name}</div>
+          <div className="text-sm text-[rgb(var(--vx-fg)/60%)] mt-2">{footer.tagline}</div>
           <div className="mt-4 flex items-center gap-3 text-sm">
-            <Mail size={14} /> hello@vortex.agency
+            <Mail size={14} /> {brand.email}
           </div>
           <div className="mt-2 flex items-center gap-3 text-sm">
-            <Phone size={14} /> +33 1 23 45 67 89
+            <Phone size={14} /> {brand.phone}
           </div>
         </div>
 
         <div>
-          <div className="font-bold">Services</div>
-          <ul className="mt-2 text-sm text-white/70 space-y-1">
-            <li>Design & UX</li>
-            <li>Développement React</li>
-            <li>SEO & Performance</li>
-            <li>Maintenance</li>
+          <div className="font-bold">{footer.services.title}</div>
+          <ul className="mt-2 text-sm text-[rgb(var(--vx-fg)/70%)] space-y-1">
+            {footer.services.items.map((item) => (
+              <li key={item}>{item}</li>
+            ))}
           </ul>
         </div>
 
         <div>
-          <div className="font-bold">Liens rapides</div>
-          <ul className="mt-2 text-sm text-white/70 space-y-1">
-            <li><a href="#portfolio" className="hover:text-white">Portfolio</a></li>
-            <li><a href="#offres" className="hover:text-white">Offres</a></li>
-            <li><a href="#contact" className="hover:text-white">Contact</a></li>
+          <div className="font-bold">{footer.quickLinks.title}</div>
+          <ul className="mt-2 text-sm text-[rgb(var(--vx-fg)/70%)] space-y-1">
+            {footer.quickLinks.links.map((l) => (
+              <li key={l.href}><a href={l.href} className="hover:text-[rgb(var(--vx-fg))]">{l.label}</a></li>
+            ))}
           </ul>
         </div>
 
         <div>
-          <div className="font-bold">Mentions légales</div>
-          <div className="text-sm text-white/60 mt-2">VORTEX — Société fictive • SIRET 000 000 000 • TVA intracommunautaire FR00 000000000</div>
-          <div className="mt-2 text-sm text-white/50">© {new Date().getFullYear()} VORTEX. Tous droits réservés.</div>
+          <div className="font-bold">{footer.legal.title}</div>
+          <div className="text-sm text-[rgb(var(--vx-fg)/60%)] mt-2">{footer.legal.text}</div>
+          <div className="mt-2 text-sm text-[rgb(var(--vx-fg)/50%)]">{fill(footer.legal.rights)}</div>
         </div>
       </div>
 
-      <div className="mt-6 border-t border-white/6 pt-4 text-sm text-white/60 flex items-center justify-between">
-        <div>Politique de confidentialité • Conditions générales — version simulée</div>
-        <div>Made with <span style={{ color: CYAN }}>❤</span> by VORTEX</div>
+      <div className="mt-6 border-t border-[rgb(var(--vx-fg)/6%)] pt-4 text-sm text-[rgb(var(--vx-fg)/60%)] flex items-center justify-between">
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+          <span>{footer.policies}</span>
+          <button type="button" onClick={openPreferences} className="underline underline-offset-4 hover:text-[rgb(var(--vx-fg))]">
+            {t("consent.manage")}
+          </button>
+          <MotionToggle />
+        </div>
+        <div>{t("footer.madeWith")} <span style={{ color: ACCENT }}>❤</span> {footer.madeWith}</div>
       </div>
     </footer>
   );
@@ -1356,6 +3604,72 @@ const Footer: React.FC = () => {
    Loader / Micro components
    --------------------------- */
 
+/** Loading icon with a text alternative (the icon alone says nothing to a screen reader). */
+const Spinner: React.FC<{ label: string; size?: number }> = ({ label, size = 16 }) => (
+  <>
+    <Loader2 size={size} className="animate-spin" aria-hidden />
+    <span className="sr-only">{label}</span>
+  </>
+);
+
+/**
+ * Visible label around its control: placeholders vanish on input and aren't a label. An `error` shows
+ * under the control, which is marked invalid and described by it (outside the label, so it isn't read
+ * as part of the field's name).
+ */
+const Field: React.FC<{ label: string; className?: string; error?: string | null; children?: React.ReactNode }> = ({ label, className = "", error, children }) => {
+  const errorId = useId();
+  const control =
+    error && React.isValidElement<React.AriaAttributes>(children) ? React.cloneElement(children, { "aria-invalid": true, "aria-describedby": errorId }) : children;
+  return (
+    <div className={className}>
+      <label className="block">
+        <span className="block mb-1 text-xs text-[rgb(var(--vx-fg)/60%)]">{label}</span>
+        {control}
+      </label>
+      {error && (
+        <p id={errorId} className="mt-1 text-xs text-[rgb(var(--vx-danger))]">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Bot trap: off-screen rather than `display: none` (which bots learn to skip), and out of the tab order
+ * and the accessibility tree so no visitor meets it. The server drops submissions that fill it.
+ */
+const Honeypot: React.FC<{ value: string; onChange: (value: string) => void }> = ({ value, onChange }) => {
+  const { t } = useI18n();
+  return (
+    <div aria-hidden="true" className="absolute -left-[10000px] top-auto w-px h-px overflow-hidden">
+      <label>
+        {t("contact.honeypotLabel")}
+        <input name="hp" tabIndex={-1} autoComplete="off" value={value} onChange={(e) => onChange(e.target.value)} />
+      </label>
+    </div>
+  );
+};
+
+/** First stop of the Tab order: jumps past the navigation to the content. */
+const SkipLink: React.FC = () => {
+  const { t } = useI18n();
+  return (
+    <a
+      href="#main"
+      onClick={(e) => {
+        // focus without putting "#main" in the URL (the hash is the router's)
+        e.preventDefault();
+        document.getElementById("main")?.focus();
+      }}
+      className="sr-only focus:not-sr-only focus:fixed focus:top-4 focus:left-4 focus:z-[80] focus:px-4 focus:py-2 focus:rounded-[var(--vx-radius-control)] focus:bg-[rgb(var(--vx-fg))] focus:text-[rgb(var(--vx-bg))] focus:font-bold"
+    >
+      {t("nav.skipToContent")}
+    </a>
+  );
+};
+
 /* ---------------------------
    Types for Particle
    --------------------------- */
@@ -1379,4 +3693,35 @@ type Particle = {
    EXPORT
    --------------------------- */
 
+/** What the portfolio demos (minisites/) share with the page: they load as separate chunks. */
+export {
+  ContactConsent,
+  Field,
+  Honeypot,
+  Spinner,
+  Stepper,
+  SubmitStatusMessages,
+  useContactSubmission,
+  useFieldErrors,
+  useFormTracking,
+  useMiniBrowser,
+  useMotion,
+};
+
+/**
+ * Client entry. Hydrates the prerendered markup when it was rendered in the visitor's language;
+ * otherwise (another language, no prerender) renders from scratch over it.
+ */
+export function mountApp(container: HTMLElement, props: Pick<AppProps, "content" | "theme"> = {}): Root {
+  const ssr = (window as unknown as Record<string, SsrPayload | undefined>)[SSR_GLOBAL];
+  if (ssr && container.firstElementChild && ssr.locale === detectLocale()) {
+    hydrating = true;
+    return hydrateRoot(container, <App {...props} locale={ssr.locale} route={ssr.route} entries={ssr.entries} />);
+  }
+  container.textContent = "";
+  const root = createRoot(container);
+  root.render(<App {...props} entries={ssr?.entries} />);
+  return root;
+}
+
 export default App;
\ No newline at end of file
@@ -0,0 +1,204 @@
+/**
+ * content/listings.ts
+ * Demo feed of the "Agence VORTEX Immo" mini-site, in the JSON feed format read by
+ * lib/listingFeeds.ts. A real agency plugs its own feed (JSON or Kyero XML) instead.
+ *
+ * Photos are generated SVG placeholders so the demo ships without third-party images.
+ */
+
+const photo = (hue: number, label: string) =>
+  "data:image/svg+xml;utf8," +
+  encodeURIComponent(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="640" height="400" viewBox="0 0 640 400">` +
+      `<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="hsl(${hue},45%,28%)"/><stop offset="1" stop-color="hsl(${hue + 40},35%,12%)"/></linearGradient></defs>` +
+      `<rect width="640" height="400" fill="url(#g)"/>` +
+      `<path d="M220 260 L320 170 L420 260 L420 330 L220 330 Z" fill="none" stroke="rgba(255,255,255,.35)" stroke-width="6"/>` +
+      `<text x="320" y="372" font-family="sans-serif" font-size="22" fill="rgba(255,255,255,.7)" text-anchor="middle">${label}</text>` +
+      `</svg>`
+  );
+
+const gallery = (hue: number) => [photo(hue, "Séjour"), photo(hue + 25, "Cuisine"), photo(hue + 50, "Chambre"), photo(hue + 75, "Extérieur")];
+
+export const demoListingsFeed = {
+  agent: { name: "Camille Martin", email: "immo@vortex.example", phone: "+33 1 23 45 67 89" },
+  listings: [
+    {
+      id: "vx-1001",
+      ref: "VX-1001",
+      title: "Loft lumineux — 3 pièces",
+      type: "loft",
+      price: 420000,
+      city: "Paris",
+      postcode: "75011",
+      surface: 78,
+      beds: 2,
+      baths: 1,
+      description: "Ancien atelier rénové, verrière plein sud, hauteur sous plafond de 4 m. Proche métro Parmentier.",
+      images: gallery(190),
+      publishedAt: "2026-10-02",
+    },
+    {
+      id: "vx-1002",
+      ref: "VX-1002",
+      title: "Maison familiale — Jardin",
+      type: "house",
+      price: 680000,
+      city: "Nantes",
+      postcode: "44300",
+      surface: 145,
+      beds: 4,
+      baths: 2,
+      description: "Maison de 2005 sur 600 m² de jardin arboré, garage double, écoles à pied.",
+      images: gallery(120),
+      publishedAt: "2026-09-18",
+    },
+    {
+      id: "vx-1003",
+      ref: "VX-1003",
+      title: "Studio centre-ville",
+      type: "studio",
+      price: 210000,
+      city: "Lyon",
+      postcode: "69002",
+      surface: 24,
+      beds: 0,
+      baths: 1,
+      description: "Studio refait à neuf entre Bellecour et les quais, idéal investissement locatif.",
+      images: gallery(30),
+      publishedAt: "2026-10-11",
+    },
+    {
+      id: "vx-1004",
+      ref: "VX-1004",
+      title: "Appartement haussmannien — Balcon",
+      type: "apartment",
+      price: 1150000,
+      city: "Paris",
+      postcode: "75008",
+      surface: 132,
+      beds: 3,
+      baths: 2,
+      description: "Étage élevé avec ascenseur, parquet, moulures, balcon filant. Cave et chambre de service.",
+      images: gallery(220),
+      publishedAt: "2026-08-27",
+    },
+    {
+      id: "vx-1005",
+      ref: "VX-1005",
+      title: "T2 avec terrasse — Chartrons",
+      type: "apartment",
+      price: 315000,
+      city: "Bordeaux",
+      postcode: "33300",
+      surface: 48,
+      beds: 1,
+      baths: 1,
+      description: "Dernier étage, terrasse de 20 m² sans vis-à-vis, parking en sous-sol.",
+      images: gallery(10),
+      publishedAt: "2026-10-06",
+    },
+    {
+      id: "vx-1006",
+      ref: "VX-1006",
+      title: "Échoppe rénovée — Patio",
+      type: "house",
+      price: 545000,
+      city: "Bordeaux",
+      postcode: "33800",
+      surface: 104,
+      beds: 3,
+      baths: 1,
+      description: "Échoppe double en pierre, patio végétalisé, rénovation complète 2024.",
+      images: gallery(45),
+      publishedAt: "2026-07-30",
+    },
+    {
+      id: "vx-1007",
+      ref: "VX-1007",
+      title: "Local commercial — Vieux-Lille",
+      type: "commercial",
+      price: 390000,
+      city: "Lille",
+      postcode: "59800",
+      surface: 95,
+      beds: 0,
+      description: "Boutique en angle, double vitrine, réserve au sous-sol. Forte fréquentation piétonne.",
+      images: gallery(280),
+      publishedAt: "2026-09-05",
+    },
+    {
+      id: "vx-1008",
+      ref: "VX-1008",
+      title: "T4 familial — Croix-Rousse",
+      type: "apartment",
+      price: 495000,
+      city: "Lyon",
+      postcode: "69004",
+      surface: 92,
+      beds: 3,
+      baths: 1,
+      description: "Traversant, vue dégagée sur la Saône, proche marché et écoles.",
+      images: gallery(160),
+      publishedAt: "2026-10-14",
+    },
+    {
+      id: "vx-1009",
+      ref: "VX-1009",
+      title: "Terrain constructible — 850 m²",
+      type: "land",
+      price: 160000,
+      city: "Nantes",
+      postcode: "44240",
+      surface: 0,
+      beds: 0,
+      description: "Terrain viabilisé hors lotissement, exposition sud-ouest, CU positif.",
+      images: gallery(90),
+      publishedAt: "2026-06-21",
+    },
+    {
+      id: "vx-1010",
+      ref: "VX-1010",
+      title: "Maison de ville — 5 pièces",
+      type: "house",
+      price: 459000,
+      city: "Lille",
+      postcode: "59000",
+      surface: 128,
+      beds: 4,
+      baths: 2,
+      description: "Maison 1930 rénovée, jardin de ville, combles aménagés, proche gare.",
+      images: gallery(330),
+      publishedAt: "2026-09-29",
+    },
+    {
+      id: "vx-1011",
+      ref: "VX-1011",
+      title: "Studio étudiant — Meublé",
+      type: "studio",
+      price: 129000,
+      city: "Lille",
+      postcode: "59000",
+      surface: 19,
+      beds: 0,
+      baths: 1,
+      description: "Vendu meublé et loué, rendement 5,8 %, à deux pas de l'université.",
+      images: gallery(250),
+      publishedAt: "2026-10-09",
+    },
+    {
+      id: "vx-1012",
+      ref: "VX-1012",
+      title: "Penthouse — Vue Loire",
+      type: "apartment",
+      price: 890000,
+      city: "Nantes",
+      postcode: "44000",
+      surface: 118,
+      beds: 3,
+      baths: 2,
+      description: "Dernier étage d'une résidence récente, 60 m² de terrasses, vue panoramique sur la Loire.",
+      images: gallery(200),
+      publishedAt: "2026-10-16",
+    },
+  ],
+};
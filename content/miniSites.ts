@@ -0,0 +1,99 @@
+import type { MiniSiteDefinition } from "../lib/miniSites";
+
+/**
+ * content/miniSites.ts
+ * Copy of the built-in portfolio demos (registered in App.tsx), per locale. A new vertical brings its
+ * own copy with its registration.
+ */
+
+type Copy = MiniSiteDefinition["copy"];
+
+export const restaurantCopy: Copy = {
+  fr: {
+    title: "Restaurant Gastronomique",
+    tab: "Restaurant",
+    desc: "Réservation, menu, ambiance.",
+    details: [
+      { title: "Technique", items: ["Moteur de réservation (créneaux, capacité, fuseau horaire)", "Invitation .ics à la confirmation", "React + Tailwind, animations Framer Motion"] },
+      { title: "Résultats", items: ["Réservations sans appel téléphonique", "Moins d'oublis grâce au rappel agenda", "Temps de chargement ≤ 1.8s (test simulé)"] },
+    ],
+  },
+  en: {
+    title: "Fine Dining Restaurant",
+    tab: "Restaurant",
+    desc: "Booking, menu, atmosphere.",
+    details: [
+      { title: "Tech", items: ["Booking engine (slots, capacity, time zone)", ".ics invite on confirmation", "React + Tailwind, Framer Motion animations"] },
+      { title: "Results", items: ["Bookings without a phone call", "Fewer no-shows thanks to the calendar reminder", "Load time ≤ 1.8s (simulated test)"] },
+    ],
+  },
+  de: {
+    title: "Gourmet Restaurant",
+    tab: "Restaurant",
+    desc: "Reservierung, Speisekarte, Ambiente.",
+    details: [
+      { title: "Technik", items: ["Reservierungssystem (Zeitfenster, Kapazität, Zeitzone)", ".ics-Einladung bei Bestätigung", "React + Tailwind, Framer-Motion-Animationen"] },
+      { title: "Ergebnisse", items: ["Reservierungen ohne Anruf", "Weniger No-Shows dank Kalendererinnerung", "Ladezeit ≤ 1,8 s (simulierter Test)"] },
+    ],
+  },
+};
+
+export const realEstateCopy: Copy = {
+  fr: {
+    title: "Agence Immobilière",
+    tab: "Immobilier",
+    desc: "Listings, filtres, leadgen.",
+    details: [
+      { title: "Technique", items: ["Import de flux JSON & Kyero XML", "Filtres multicritères partageables par URL", "Images optimisées & lazy-loading"] },
+      { title: "Résultats", items: ["Demandes qualifiées avec la référence du bien", "SEO on-page & structured data", "Conversion: CTA visibles, formulaires courts"] },
+    ],
+  },
+  en: {
+    title: "Real Estate Agency",
+    tab: "Real estate",
+    desc: "Listings, filters, lead generation.",
+    details: [
+      { title: "Tech", items: ["JSON & Kyero XML feed import", "Multi-criteria filters shareable by URL", "Optimised & lazy-loaded images"] },
+      { title: "Results", items: ["Qualified enquiries quoting the listing reference", "On-page SEO & structured data", "Conversion: visible CTAs, short forms"] },
+    ],
+  },
+  de: {
+    title: "Immobilienagentur",
+    tab: "Immobilien",
+    desc: "Angebote, Filter, Leadgenerierung.",
+    details: [
+      { title: "Technik", items: ["Import von JSON- & Kyero-XML-Feeds", "Teilbare Filter per URL", "Optimierte Bilder & Lazy Loading"] },
+      { title: "Ergebnisse", items: ["Qualifizierte Anfragen mit Objektreferenz", "On-Page-SEO & strukturierte Daten", "Conversion: sichtbare CTAs, kurze Formulare"] },
+    ],
+  },
+};
+
+export const saasCopy: Copy = {
+  fr: {
+    title: "SaaS B2B",
+    tab: "SaaS",
+    desc: "Onboarding, pricing, trial.",
+    details: [
+      { title: "Technique", items: ["Grille tarifaire pilotée par les données", "Inscription à l'essai via API", "Facturation mensuelle ou annuelle par siège"] },
+      { title: "Résultats", items: ["Prix lisibles, remise annuelle visible", "Essai gratuit sans friction", "Score Lighthouse optimisé"] },
+    ],
+  },
+  en: {
+    title: "B2B SaaS",
+    tab: "SaaS",
+    desc: "Onboarding, pricing, trial.",
+    details: [
+      { title: "Tech", items: ["Data-driven pricing table", "Trial signup through an API", "Monthly or annual per-seat billing"] },
+      { title: "Results", items: ["Clear prices, visible annual discount", "Frictionless free trial", "Optimised Lighthouse score"] },
+    ],
+  },
+  de: {
+    title: "B2B SaaS",
+    tab: "SaaS",
+    desc: "Onboarding, Preise, Testphase.",
+    details: [
+      { title: "Technik", items: ["Datengetriebene Preistabelle", "Testanmeldung per API", "Monatliche oder jährliche Abrechnung pro Platz"] },
+      { title: "Ergebnisse", items: ["Klare Preise, sichtbarer Jahresrabatt", "Reibungslose Testphase", "Optimierter Lighthouse-Score"] },
+    ],
+  },
+};
@@ -0,0 +1,389 @@
+/**
+ * content/schema.ts
+ * Typed site-content schema + runtime validation.
+ *
+ * Every piece of client-facing copy rendered by App.tsx comes from a `SiteContent` object, so a new
+ * client is a new content module (see content/vortex/) instead of a fork of the components.
+ *
+ * Copy strings are ICU messages (see i18n/format.ts). They may reference prices with `{launch}` and
+ * `{maintenance}` placeholders, filled from `pricing` at render time (formatted for the active locale)
+ * so the amounts live in one place.
+ */
+
+import { DEFAULT_LOCALE, Locale, LOCALES, reportMissing } from "../i18n/locales";
+
+/* ---------------------------
+   Types
+   --------------------------- */
+
+/** Portfolio demos are registered in code (lib/miniSites.ts); content refers to them by key. */
+export const MINI_SITE_KEY_RE = /^[a-z][a-z0-9-]{0,31}$/;
+
+/** Icons available to content authors (mapped to lucide-react components in App.tsx). */
+export type IconName = "zap" | "check" | "arrow" | "coffee" | "home" | "monitor" | "globe" | "mail" | "phone";
+
+export const ICON_NAMES: readonly IconName[] = ["zap", "check", "arrow", "coffee", "home", "monitor", "globe", "mail", "phone"];
+
+export type Link = { label: string; href: string };
+
+export type Stat = { label: string; value: string };
+
+export type Metric = Stat & { icon: IconName };
+
+export type DetailBlock = { title: string; items: string[] };
+
+export type ComparisonRow = { feature: string; vortex: string; wix: string; freelance: string };
+
+export type BudgetOption = { value: string; label: string };
+
+export type Testimonial = { quote: string; author: string; avatarColor: string };
+
+/** Description of a demo as edited in the CMS (lib/cms.ts), replacing the copy it was registered with. */
+export type PortfolioCopy = { desc: string; details?: DetailBlock[] };
+
+export type FaqEntry = { q: string; a: string };
+
+export type CtaCopy = { eyebrow: string; title: string; text: string };
+
+/** All amounts excl. VAT, in whole or decimal currency units. */
+export type Pricing = {
+  currency: string;
+  /** VAT rate applied on quotes, e.g. 0.2 for 20%. */
+  vatRate: number;
+  /** One-off launch package price. */
+  launch: number;
+  /** Pages included in the launch package. */
+  includedPages: number;
+  /** Monthly maintenance price. */
+  maintenance: number;
+  /** Add-on prices used by the quote configurator (lib/quote.ts). */
+  addOns: {
+    /** Per page beyond `includedPages`. */
+    extraPage: number;
+    /** Per additional language. */
+    language: number;
+    ecommerce: number;
+    /** Copywriting, per page. */
+    copywriting: number;
+  };
+};
+
+export interface SiteContent {
+  brand: {
+    name: string;
+    tagline: string;
+    email: string;
+    phone: string;
+    /** Dialable form of `phone`, used for the tel: link. */
+    phoneHref: string;
+  };
+  pricing: Pricing;
+  /** Search and social metadata of the home page (lib/seo.ts); section pages reuse their own copy. */
+  seo: {
+    /** Public origin, e.g. "https://vortex.agency": canonical URLs, sitemap and structured data. */
+    siteUrl: string;
+    title: string;
+    description: string;
+    /** Share image (1200×630), absolute URL or path on `siteUrl`. */
+    image: string;
+    /** Twitter/X account of the site, e.g. "@vortex". */
+    twitter?: string;
+  };
+  nav: {
+    links: Link[];
+    cta: string;
+  };
+  hero: {
+    title: string;
+    subtitle: string;
+    primaryCta: string;
+    secondaryCta: string;
+    package: {
+      eyebrow: string;
+      name: string;
+      summary: string;
+      priceEyebrow: string;
+      priceNote: string;
+      stats: Stat[];
+    };
+    /** Alternative titles for the "hero-headline" A/B test, by variant id (lib/experiments.ts). */
+    titleVariants?: Record<string, string>;
+  };
+  metrics: Metric[];
+  portfolio: {
+    title: string;
+    subtitle: string;
+    previewTitle: string;
+    previewSubtitle: string;
+    detailsTitle: string;
+    detailsSubtitle: string;
+    /** Keys of the registered demos to show, in order (titles and details come with each demo). */
+    minis: string[];
+    /** Per demo key: description and details overriding the registered copy (set from the CMS). */
+    copy?: Record<string, PortfolioCopy>;
+    support: { title: string; text: string };
+  };
+  comparison: {
+    title: string;
+    columns: ComparisonRow;
+    rows: ComparisonRow[];
+    conclusion: string;
+    cta: string;
+  };
+  offer: {
+    eyebrow: string;
+    title: string;
+    paymentNote: string;
+    priceNote: string;
+    bullets: string[];
+    maintenance: { label: string; price: string; cta: string };
+    guarantee: { title: string; text: string };
+    primaryCta: string;
+    secondaryCta: string;
+  };
+  contact: {
+    title: string;
+    subtitle: string;
+    budgetLabel: string;
+    budgets: BudgetOption[];
+    maintenanceLabel: string;
+    privacyNote: string;
+    mailtoLabel: string;
+  };
+  testimonials: {
+    title: string;
+    items: Testimonial[];
+  };
+  cta: {
+    eyebrow: string;
+    /** Shown when the project calendar is available (lib/capacity.ts); may use `{slots}` and `{days}`. */
+    title: string;
+    /** Line listing the next genuine start dates, `{dates}`. */
+    nextStarts: string;
+    /** Neutral title when availability is unknown; it must not suggest any scarcity. */
+    fallbackTitle: string;
+    text: string;
+    button: string;
+    /** Alternative copy for the "cta-urgency" A/B test, by variant id (lib/experiments.ts). */
+    variants?: Record<string, CtaCopy>;
+  };
+  faq: {
+    title: string;
+    items: FaqEntry[];
+  };
+  footer: {
+    tagline: string;
+    services: DetailBlock;
+    quickLinks: { title: string; links: Link[] };
+    legal: { title: string; text: string; rights: string };
+    policies: string;
+    madeWith: string;
+  };
+}
+
+/** One SiteContent per locale; French is required and used as fallback for the others. */
+export type LocalizedSiteContent = { fr: SiteContent } & Partial<Record<Locale, SiteContent>>;
+
+/* ---------------------------
+   Runtime validation
+   --------------------------- */
+
+export class SiteContentError extends Error {
+  issues: string[];
+  constructor(issues: string[]) {
+    super(`Invalid site content:\n- ${issues.join("\n- ")}`);
+    this.name = "SiteContentError";
+    this.issues = issues;
+  }
+}
+
+type Check = (value: unknown, path: string, issues: string[]) => void;
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+
+const str: Check = (v, path, issues) => {
+  if (typeof v !== "string" || !v.trim()) issues.push(`${path}: expected a non-empty string`);
+};
+
+const num: Check = (v, path, issues) => {
+  if (typeof v !== "number" || !Number.isFinite(v) || v < 0) issues.push(`${path}: expected a positive number`);
+};
+
+const oneOf =
+  (allowed: readonly string[]): Check =>
+  (v, path, issues) => {
+    if (typeof v !== "string" || !allowed.includes(v)) issues.push(`${path}: expected one of ${allowed.join(", ")}`);
+  };
+
+const arr =
+  (item: Check, min = 1): Check =>
+  (v, path, issues) => {
+    if (!Array.isArray(v)) return void issues.push(`${path}: expected an array`);
+    if (v.length < min) issues.push(`${path}: expected at least ${min} item(s)`);
+    v.forEach((x, i) => item(x, `${path}[${i}]`, issues));
+  };
+
+const obj =
+  (shape: Record<string, Check>): Check =>
+  (v, path, issues) => {
+    if (!isObject(v)) return void issues.push(`${path}: expected an object`);
+    for (const [key, check] of Object.entries(shape)) check(v[key], path ? `${path}.${key}` : key, issues);
+  };
+
+const optional =
+  (check: Check): Check =>
+  (v, path, issues) => {
+    if (v !== undefined) check(v, path, issues);
+  };
+
+/** Object keyed by A/B variant id (lib/experiments.ts). */
+const byVariant =
+  (item: Check): Check =>
+  (v, path, issues) => {
+    if (!isObject(v)) return void issues.push(`${path}: expected an object`);
+    for (const [key, value] of Object.entries(v)) {
+      if (!MINI_SITE_KEY_RE.test(key)) issues.push(`${path}.${key}: expected a variant id (lowercase, digits, dashes)`);
+      item(value, `${path}.${key}`, issues);
+    }
+  };
+
+/** Object keyed by mini-site key. */
+const byMiniSite =
+  (item: Check): Check =>
+  (v, path, issues) => {
+    if (!isObject(v)) return void issues.push(`${path}: expected an object`);
+    for (const [key, value] of Object.entries(v)) {
+      if (!MINI_SITE_KEY_RE.test(key)) issues.push(`${path}.${key}: expected a mini-site key (lowercase, digits, dashes)`);
+      item(value, `${path}.${key}`, issues);
+    }
+  };
+
+const link = obj({ label: str, href: str });
+const stat = obj({ label: str, value: str });
+const miniSiteKey: Check = (v, path, issues) => {
+  if (typeof v !== "string" || !MINI_SITE_KEY_RE.test(v)) issues.push(`${path}: expected a mini-site key (lowercase, digits, dashes)`);
+};
+const detailBlock = obj({ title: str, items: arr(str) });
+const comparisonRow = obj({ feature: str, vortex: str, wix: str, freelance: str });
+
+const siteUrl: Check = (v, path, issues) => {
+  if (typeof v !== "string" || !/^https?:\/\/[^/\s]+$/.test(v)) issues.push(`${path}: expected an origin like https://example.com (no trailing slash)`);
+};
+
+const siteContentShape = obj({
+  brand: obj({ name: str, tagline: str, email: str, phone: str, phoneHref: str }),
+  pricing: obj({
+    currency: str,
+    vatRate: num,
+    launch: num,
+    includedPages: num,
+    maintenance: num,
+    addOns: obj({ extraPage: num, language: num, ecommerce: num, copywriting: num }),
+  }),
+  seo: obj({ siteUrl, title: str, description: str, image: str, twitter: optional(str) }),
+  nav: obj({ links: arr(link), cta: str }),
+  hero: obj({
+    title: str,
+    subtitle: str,
+    primaryCta: str,
+    secondaryCta: str,
+    package: obj({ eyebrow: str, name: str, summary: str, priceEyebrow: str, priceNote: str, stats: arr(stat) }),
+    titleVariants: optional(byVariant(str)),
+  }),
+  metrics: arr(obj({ label: str, value: str, icon: oneOf(ICON_NAMES) })),
+  portfolio: obj({
+    title: str,
+    subtitle: str,
+    previewTitle: str,
+    previewSubtitle: str,
+    detailsTitle: str,
+    detailsSubtitle: str,
+    minis: arr(miniSiteKey),
+    copy: optional(byMiniSite(obj({ desc: str, details: optional(arr(detailBlock)) }))),
+    support: obj({ title: str, text: str }),
+  }),
+  comparison: obj({ title: str, columns: comparisonRow, rows: arr(comparisonRow), conclusion: str, cta: str }),
+  offer: obj({
+    eyebrow: str,
+    title: str,
+    paymentNote: str,
+    priceNote: str,
+    bullets: arr(str),
+    maintenance: obj({ label: str, price: str, cta: str }),
+    guarantee: obj({ title: str, text: str }),
+    primaryCta: str,
+    secondaryCta: str,
+  }),
+  contact: obj({
+    title: str,
+    subtitle: str,
+    budgetLabel: str,
+    budgets: arr(obj({ value: str, label: str })),
+    maintenanceLabel: str,
+    privacyNote: str,
+    mailtoLabel: str,
+  }),
+  testimonials: obj({ title: str, items: arr(obj({ quote: str, author: str, avatarColor: str }), 0) }),
+  cta: obj({
+    eyebrow: str,
+    title: str,
+    nextStarts: str,
+    fallbackTitle: str,
+    text: str,
+    button: str,
+    variants: optional(byVariant(obj({ eyebrow: str, title: str, text: str }))),
+  }),
+  faq: obj({ title: str, items: arr(obj({ q: str, a: str }), 0) }),
+  footer: obj({
+    tagline: str,
+    services: detailBlock,
+    quickLinks: obj({ title: str, links: arr(link) }),
+    legal: obj({ title: str, text: str, rights: str }),
+    policies: str,
+    madeWith: str,
+  }),
+});
+
+/**
+ * Validates an unknown value (e.g. parsed JSON) against the SiteContent schema.
+ * Throws a `SiteContentError` listing every problem found, not just the first one.
+ */
+export function validateSiteContent(input: unknown): SiteContent {
+  const issues: string[] = [];
+  siteContentShape(input, "", issues);
+  if (isObject(input) && isObject(input.portfolio) && Array.isArray(input.portfolio.minis)) {
+    const keys = input.portfolio.minis;
+    if (new Set(keys).size !== keys.length) issues.push("portfolio.minis: duplicate keys");
+  }
+  if (issues.length) throw new SiteContentError(issues);
+  return input as SiteContent;
+}
+
+/** Validates every locale of a LocalizedSiteContent; issue paths are prefixed with the locale. */
+export function validateLocalizedSiteContent(input: unknown): LocalizedSiteContent {
+  if (!isObject(input)) throw new SiteContentError(["expected an object keyed by locale"]);
+  const issues: string[] = [];
+  if (!(DEFAULT_LOCALE in input)) issues.push(`${DEFAULT_LOCALE}: required (fallback locale)`);
+  for (const [locale, content] of Object.entries(input)) {
+    if (!(LOCALES as readonly string[]).includes(locale)) {
+      issues.push(`${locale}: unsupported locale`);
+      continue;
+    }
+    try {
+      validateSiteContent(content);
+    } catch (e) {
+      if (!(e instanceof SiteContentError)) throw e;
+      issues.push(...e.issues.map((i) => `${locale}.${i}`));
+    }
+  }
+  if (issues.length) throw new SiteContentError(issues);
+  return input as LocalizedSiteContent;
+}
+
+/** Picks the content for a locale, falling back to French. */
+export function resolveSiteContent(content: LocalizedSiteContent, locale: Locale): SiteContent {
+  const localized = content[locale];
+  if (localized) return localized;
+  reportMissing("site content", locale, "*");
+  return content.fr;
+}
@@ -0,0 +1,201 @@
+import type { SiteContent } from "../schema";
+
+/**
+ * content/vortex/de.ts
+ * Site content for the VORTEX agency, German.
+ */
+
+const de: SiteContent = {
+  brand: {
+    name: "VORTEX",
+    tagline: "Ultra-Premium Digital",
+    email: "hello@vortex.agency",
+    phone: "+33 1 23 45 67 89",
+    phoneHref: "+330123456789",
+  },
+  pricing: {
+    currency: "EUR",
+    vatRate: 0.2,
+    launch: 749,
+    includedPages: 1,
+    maintenance: 49,
+    addOns: { extraPage: 120, language: 290, ecommerce: 990, copywriting: 80 },
+  },
+  seo: {
+    siteUrl: "https://vortex.agency",
+    title: "VORTEX — Premium-Website schlüsselfertig, {launch} zzgl. MwSt.",
+    description: "Digitalagentur: schnelle, SEO-optimierte Websites, die konvertieren. Festpreis {launch} zzgl. MwSt., Lieferung in 7 bis 10 Tagen.",
+    image: "/og-image.png",
+  },
+  nav: {
+    links: [
+      { label: "Portfolio", href: "#portfolio" },
+      { label: "Angebote", href: "#offres" },
+      { label: "Kontakt", href: "#contact" },
+    ],
+    cta: "Jetzt starten — {launch}",
+  },
+  hero: {
+    title: "VORTEX — Ultra‑Premium Digitalagentur",
+    subtitle:
+      "Wir entwickeln schnelle, SEO-optimierte Websites, die konvertieren. Festpreis: {launch} netto — Studioqualität, professionell umgesetzt.",
+    primaryCta: "Jetzt starten — {launch}",
+    secondaryCta: "Portfolio ansehen",
+    package: {
+      eyebrow: "Paket",
+      name: "VORTEX Launch",
+      summary: "Komplette, responsive, SEO-freundliche Website, 1 Premium-Seite.",
+      priceEyebrow: "Sonderpreis",
+      priceNote: "netto — Wartung {maintenance}/Monat",
+      stats: [
+        { label: "Lieferung", value: "7–10 Tage" },
+        { label: "SEO", value: "Optimiert" },
+      ],
+    },
+    titleVariants: { outcome: "Eine Website, die Besucher zu Kunden macht — in 10 Tagen" },
+  },
+  metrics: [
+    { label: "Optimierte Seiten", value: "1", icon: "zap" },
+    { label: "Performance", value: "A++", icon: "check" },
+    { label: "Conversion-Ziel", value: "+18%", icon: "arrow" },
+  ],
+  portfolio: {
+    title: "Interaktives Portfolio",
+    subtitle: "Entdecken Sie interaktive Mock-ups — klicken Sie sich durch und testen Sie.",
+    previewTitle: "Vorschau",
+    previewSubtitle: "Simulator",
+    detailsTitle: "Details",
+    detailsSubtitle: "Merkmale",
+    minis: ["restaurant", "realestate", "saas"],
+    support: { title: "Support", text: "30 Tage Support inklusive + optionale Wartung für {maintenance}/Monat." },
+  },
+  comparison: {
+    title: "Vergleich — VORTEX vs. WIX/DIY vs. Junior-Freelancer",
+    columns: { feature: "Kriterium", vortex: "VORTEX", wix: "WIX / DIY", freelance: "Junior-Freelancer" },
+    rows: [
+      {
+        feature: "Geschwindigkeit",
+        vortex: "Voroptimierte Seiten, schnelle Auslieferung, Lazy Loading und CDN.",
+        wix: "Schwerfälliger Baukasten — Drittanbieter-Skripte bremsen.",
+        freelance: "Abhängig vom Können; oft nicht optimiert.",
+      },
+      {
+        feature: "SEO",
+        vortex: "Optimierte Tags, strukturierte Daten, Sitemap, Performance.",
+        wix: "Manche SEO-Aspekte schwer steuerbar.",
+        freelance: "Unterschiedlich — oft rudimentär oder fehlend.",
+      },
+      {
+        feature: "Code",
+        vortex: "Sauberer, wartbarer, barrierefreier Code.",
+        wix: "Proprietär, schwer zu migrieren.",
+        freelance: "Schwankende Qualität — oft nicht skalierbar.",
+      },
+      {
+        feature: "Support",
+        vortex: "30 Tage inklusive + Wartung {maintenance}/Monat.",
+        wix: "Zentraler Support, aber kostenpflichtig.",
+        freelance: "Oft begrenzt, abhängig vom Freelancer.",
+      },
+      {
+        feature: "ROI",
+        vortex: "Auf Conversion ausgelegt — messbarer ROI.",
+        wix: "Durchschnittliche Conversion, abhängig vom Template.",
+        freelance: "Kann teure Iterationen erfordern.",
+      },
+    ],
+    conclusion:
+      "Fazit: VORTEX vereint Performance, SEO und Support zum Festpreis — minimales Risiko, maximaler ROI.",
+    cta: "Kontakt aufnehmen",
+  },
+  offer: {
+    eyebrow: "Komplettangebot",
+    title: "VORTEX Launch — {launch} netto",
+    paymentNote: "Einmalzahlung",
+    priceNote: "netto — Wartung {maintenance}/Monat",
+    bullets: [
+      "Ultra‑Premium Dark-Mode-Design (Cyan-Akzente)",
+      "Hauptseite + zusätzliche Abschnitte (Portfolio, Kontakt, Angebote)",
+      "Responsive & barrierefrei",
+      "On-Page-SEO + strukturierte Daten",
+      "30 Tage Support + Lieferung in 7–10 Tagen",
+    ],
+    maintenance: { label: "Wartung (optional)", price: "{maintenance} / Monat", cta: "Wartung hinzufügen" },
+    guarantee: {
+      title: "Zufriedenheitsgarantie",
+      text: "Überarbeitungen inklusive — wir feilen, bis Sie zufrieden sind (im vereinbarten Umfang).",
+    },
+    primaryCta: "Bestellen — {launch}",
+    secondaryCta: "Individuelles Angebot anfragen",
+  },
+  contact: {
+    title: "Kontakt",
+    subtitle: "Füllen Sie das Formular aus, um zu starten — über Web3Forms.",
+    budgetLabel: "Gewünschtes Budget",
+    budgets: [
+      { value: "749", label: "{amount} — VORTEX Launch" },
+      { value: "1500", label: "{amount} — Erweitertes Paket" },
+      { value: "3000", label: "{amount} — Komplettpaket" },
+    ],
+    maintenanceLabel: "Wartung für {maintenance}/Monat hinzufügen",
+    privacyNote: "Datenschutz & sichere Daten",
+    mailtoLabel: "Oder schreiben Sie uns eine E-Mail",
+  },
+  testimonials: {
+    title: "Kundenstimmen",
+    items: [
+      { quote: "VORTEX hat unseren Traffic in Kunden verwandelt — Website in 7 Tagen geliefert.", author: "Clara — Le Comptoir", avatarColor: "#00f2ff" },
+      { quote: "Professionelles Design, Zeitersparnis und reaktionsschneller Support.", author: "Marc — Agence Immo", avatarColor: "#00bcd4" },
+    ],
+  },
+  cta: {
+    eyebrow: "Verfügbarkeit",
+    title: "{slots, plural, =0 {In den nächsten {days} Tagen ausgebucht} one {# Projektstart in den nächsten {days} Tagen möglich} other {# Projektstarts in den nächsten {days} Tagen möglich}}",
+    nextStarts: "Nächste Starttermine: {dates}",
+    fallbackTitle: "Planen wir gemeinsam den Start Ihres Projekts",
+    text: "Festpreis, schnelle Lieferung, Studioqualität — ideal für anspruchsvolle Unternehmer.",
+    button: "Reservieren",
+    variants: {
+      reassurance: {
+        eyebrow: "Unverbindlich",
+        title: "Sprechen wir über Ihr Projekt — Antwort innerhalb von 24 Std.",
+        text: "Ein kostenloses Erstgespräch, um Website, Budget und Zeitplan abzustimmen.",
+      },
+    },
+  },
+  faq: {
+    title: "Häufige Fragen",
+    items: [
+      {
+        q: "Was ist für {launch} enthalten?",
+        a: "Premium-Design für 1 Seite, On-Page-SEO, Performance-Optimierung, 30 Tage Support.",
+      },
+      { q: "Wie viele Überarbeitungen sind enthalten?", a: "Wir schließen 2 große Überarbeitungen in der Abnahmephase ein." },
+      {
+        q: "Wie funktioniert die Wartung?",
+        a: "{maintenance}/Monat umfasst kleinere Updates, Backups und Performance-Monitoring.",
+      },
+    ],
+  },
+  footer: {
+    tagline: "Ultra‑Premium Digitalagentur — Design, Entwicklung & Conversion.",
+    services: { title: "Leistungen", items: ["Design & UX", "React-Entwicklung", "SEO & Performance", "Wartung"] },
+    quickLinks: {
+      title: "Schnellzugriff",
+      links: [
+        { label: "Portfolio", href: "#portfolio" },
+        { label: "Angebote", href: "#offres" },
+        { label: "Kontakt", href: "#contact" },
+      ],
+    },
+    legal: {
+      title: "Impressum",
+      text: "VORTEX — Fiktives Unternehmen • SIRET 000 000 000 • USt-IdNr. FR00 000000000",
+      rights: "© {year} VORTEX. Alle Rechte vorbehalten.",
+    },
+    policies: "Datenschutz • AGB — simulierte Version",
+    madeWith: "von VORTEX",
+  },
+};
+
+export default de;
@@ -0,0 +1,201 @@
+import type { SiteContent } from "../schema";
+
+/**
+ * content/vortex/en.ts
+ * Site content for the VORTEX agency, English.
+ */
+
+const en: SiteContent = {
+  brand: {
+    name: "VORTEX",
+    tagline: "Ultra-Premium Digital",
+    email: "hello@vortex.agency",
+    phone: "+33 1 23 45 67 89",
+    phoneHref: "+330123456789",
+  },
+  pricing: {
+    currency: "EUR",
+    vatRate: 0.2,
+    launch: 749,
+    includedPages: 1,
+    maintenance: 49,
+    addOns: { extraPage: 120, language: 290, ecommerce: 990, copywriting: 80 },
+  },
+  seo: {
+    siteUrl: "https://vortex.agency",
+    title: "VORTEX — Premium turnkey website, {launch} excl. VAT",
+    description: "Digital agency: fast, SEO-optimised websites built to convert. Fixed price {launch} excl. VAT, delivered in 7 to 10 days.",
+    image: "/og-image.png",
+  },
+  nav: {
+    links: [
+      { label: "Portfolio", href: "#portfolio" },
+      { label: "Offers", href: "#offres" },
+      { label: "Contact", href: "#contact" },
+    ],
+    cta: "Get started — {launch}",
+  },
+  hero: {
+    title: "VORTEX — Ultra‑Premium digital agency",
+    subtitle:
+      "We build fast, SEO-optimised websites designed to convert. Fixed price: {launch} excl. VAT — studio results, expert execution.",
+    primaryCta: "Get started now — {launch}",
+    secondaryCta: "See the portfolio",
+    package: {
+      eyebrow: "Package",
+      name: "VORTEX Launch",
+      summary: "Complete, responsive, SEO-friendly site, 1 premium page.",
+      priceEyebrow: "Special price",
+      priceNote: "excl. VAT — Maintenance {maintenance}/month",
+      stats: [
+        { label: "Delivery", value: "7–10 days" },
+        { label: "SEO", value: "Optimised" },
+      ],
+    },
+    titleVariants: { outcome: "A website that turns visitors into clients — in 10 days" },
+  },
+  metrics: [
+    { label: "Optimised pages", value: "1", icon: "zap" },
+    { label: "Performance", value: "A++", icon: "check" },
+    { label: "Conversion target", value: "+18%", icon: "arrow" },
+  ],
+  portfolio: {
+    title: "Interactive portfolio",
+    subtitle: "Explore interactive mock-ups, click around and try them out.",
+    previewTitle: "Preview",
+    previewSubtitle: "Simulator",
+    detailsTitle: "Details",
+    detailsSubtitle: "Features",
+    minis: ["restaurant", "realestate", "saas"],
+    support: { title: "Support", text: "30 days of support included + optional maintenance at {maintenance}/month." },
+  },
+  comparison: {
+    title: "Comparison — VORTEX vs WIX/DIY vs junior freelancer",
+    columns: { feature: "Criterion", vortex: "VORTEX", wix: "WIX / DIY", freelance: "Junior freelancer" },
+    rows: [
+      {
+        feature: "Speed",
+        vortex: "Pre-optimised pages, fast delivery, lazy-loading and CDN.",
+        wix: "Heavy builder — third-party scripts hurt performance.",
+        freelance: "Depends on their skills; often not optimised.",
+      },
+      {
+        feature: "SEO",
+        vortex: "Optimised tags, structured data, sitemap, performance.",
+        wix: "Hard to control some SEO aspects.",
+        freelance: "Varies — often basic or missing.",
+      },
+      {
+        feature: "Code",
+        vortex: "Clean, maintainable, accessible code.",
+        wix: "Proprietary, hard to migrate.",
+        freelance: "Variable quality — often not scalable.",
+      },
+      {
+        feature: "Support",
+        vortex: "30 days included + maintenance {maintenance}/month.",
+        wix: "Central support, but as a paid option.",
+        freelance: "Often limited, depends on the freelancer.",
+      },
+      {
+        feature: "ROI",
+        vortex: "Built to convert — measurable ROI.",
+        wix: "Average conversion, depends on the template.",
+        freelance: "May need costly iterations.",
+      },
+    ],
+    conclusion:
+      "Bottom line: VORTEX balances performance, SEO and support at a fixed price to minimise risk and maximise ROI.",
+    cta: "Contact me",
+  },
+  offer: {
+    eyebrow: "All-in-one offer",
+    title: "VORTEX Launch — {launch} excl. VAT",
+    paymentNote: "One-off payment",
+    priceNote: "excl. VAT — Maintenance {maintenance}/month",
+    bullets: [
+      "Ultra‑Premium Dark Mode design (cyan accents)",
+      "Main page + extra sections (Portfolio, Contact, Offers)",
+      "Responsive & accessible",
+      "On-page SEO + structured data",
+      "30 days of support + delivery in 7–10 days",
+    ],
+    maintenance: { label: "Maintenance (optional)", price: "{maintenance} / month", cta: "Add maintenance" },
+    guarantee: {
+      title: "Satisfaction guarantee",
+      text: "Revisions included — we polish until you are happy (within the agreed scope).",
+    },
+    primaryCta: "Order — {launch}",
+    secondaryCta: "Request a custom quote",
+  },
+  contact: {
+    title: "Contact us",
+    subtitle: "Fill in the form to get started — powered by Web3Forms.",
+    budgetLabel: "Desired budget",
+    budgets: [
+      { value: "749", label: "{amount} — VORTEX Launch" },
+      { value: "1500", label: "{amount} — Advanced package" },
+      { value: "3000", label: "{amount} — Complete package" },
+    ],
+    maintenanceLabel: "Add maintenance at {maintenance}/month",
+    privacyNote: "Privacy policy & secure data",
+    mailtoLabel: "Or send us an email",
+  },
+  testimonials: {
+    title: "Testimonials",
+    items: [
+      { quote: "VORTEX turned our traffic into customers — site delivered in 7 days.", author: "Clara — Le Comptoir", avatarColor: "#00f2ff" },
+      { quote: "Professional design, time saved and responsive support.", author: "Marc — Agence Immo", avatarColor: "#00bcd4" },
+    ],
+  },
+  cta: {
+    eyebrow: "Availability",
+    title: "{slots, plural, =0 {Fully booked for the next {days} days} one {# project can start within {days} days} other {# projects can start within {days} days}}",
+    nextStarts: "Next start dates: {dates}",
+    fallbackTitle: "Let's plan when your project starts",
+    text: "Fixed price, fast delivery, studio quality — ideal for demanding entrepreneurs.",
+    button: "Book",
+    variants: {
+      reassurance: {
+        eyebrow: "No commitment",
+        title: "Let's talk about your project — reply within 24h",
+        text: "A free first call to scope your site, its budget and its timeline.",
+      },
+    },
+  },
+  faq: {
+    title: "Frequently asked questions",
+    items: [
+      {
+        q: "What is included for {launch}?",
+        a: "Premium 1-page design, on-page SEO, performance optimisation, 30 days of support.",
+      },
+      { q: "How many revisions are included?", a: "We include 2 major revisions during the validation phase." },
+      {
+        q: "How does maintenance work?",
+        a: "{maintenance}/month covers minor updates, backups and performance monitoring.",
+      },
+    ],
+  },
+  footer: {
+    tagline: "Ultra‑Premium digital agency — design, dev & conversion.",
+    services: { title: "Services", items: ["Design & UX", "React development", "SEO & Performance", "Maintenance"] },
+    quickLinks: {
+      title: "Quick links",
+      links: [
+        { label: "Portfolio", href: "#portfolio" },
+        { label: "Offers", href: "#offres" },
+        { label: "Contact", href: "#contact" },
+      ],
+    },
+    legal: {
+      title: "Legal notice",
+      text: "VORTEX — Fictitious company • SIRET 000 000 000 • EU VAT FR00 000000000",
+      rights: "© {year} VORTEX. All rights reserved.",
+    },
+    policies: "Privacy policy • Terms and conditions — simulated version",
+    madeWith: "by VORTEX",
+  },
+};
+
+export default en;
@@ -0,0 +1,202 @@
+import type { SiteContent } from "../schema";
+
+/**
+ * content/vortex/fr.ts
+ * Site content for the VORTEX agency itself, French (reference locale).
+ * Copy this directory to onboard a new client.
+ */
+
+const fr: SiteContent = {
+  brand: {
+    name: "VORTEX",
+    tagline: "Ultra-Premium Digital",
+    email: "hello@vortex.agency",
+    phone: "+33 1 23 45 67 89",
+    phoneHref: "+330123456789",
+  },
+  pricing: {
+    currency: "EUR",
+    vatRate: 0.2,
+    launch: 749,
+    includedPages: 1,
+    maintenance: 49,
+    addOns: { extraPage: 120, language: 290, ecommerce: 990, copywriting: 80 },
+  },
+  seo: {
+    siteUrl: "https://vortex.agency",
+    title: "VORTEX — Site web premium clé en main, {launch} HT",
+    description: "Agence digitale : sites rapides, optimisés pour le SEO et pensés pour convertir. Prix fixe {launch} HT, livraison en 7 à 10 jours.",
+    image: "/og-image.png",
+  },
+  nav: {
+    links: [
+      { label: "Portfolio", href: "#portfolio" },
+      { label: "Offres", href: "#offres" },
+      { label: "Contact", href: "#contact" },
+    ],
+    cta: "Démarrer — {launch}",
+  },
+  hero: {
+    title: "VORTEX — Agence digitale Ultra‑Premium",
+    subtitle:
+      "Nous concevons des sites rapides, optimisés pour le SEO et pensés pour convertir. Prix fixe : {launch} HT — un résultat studio, une exécution d'expert.",
+    primaryCta: "Démarrer maintenant — {launch}",
+    secondaryCta: "Voir le portfolio",
+    package: {
+      eyebrow: "Package",
+      name: "VORTEX Launch",
+      summary: "Site complet, responsive, SEO friendly, 1 page premium.",
+      priceEyebrow: "Prix spécial",
+      priceNote: "HT — Maintenance {maintenance}/mois",
+      stats: [
+        { label: "Livraison", value: "7–10 jours" },
+        { label: "SEO", value: "Optimisé" },
+      ],
+    },
+    titleVariants: { outcome: "Un site qui transforme vos visiteurs en clients — en 10 jours" },
+  },
+  metrics: [
+    { label: "Pages optimisées", value: "1", icon: "zap" },
+    { label: "Performance", value: "A++", icon: "check" },
+    { label: "Conversion target", value: "+18%", icon: "arrow" },
+  ],
+  portfolio: {
+    title: "Portfolio interactif",
+    subtitle: "Explorez des maquettes interactives, naviguez et testez.",
+    previewTitle: "Aperçu",
+    previewSubtitle: "Simulateur",
+    detailsTitle: "Détails",
+    detailsSubtitle: "Caractéristiques",
+    minis: ["restaurant", "realestate", "saas"],
+    support: { title: "Support", text: "30 jours d'assistance incluse + option maintenance {maintenance}/mois." },
+  },
+  comparison: {
+    title: "Comparaison — VORTEX vs WIX/DIY vs Freelance débutant",
+    columns: { feature: "Critère", vortex: "VORTEX", wix: "WIX / DIY", freelance: "Freelance débutant" },
+    rows: [
+      {
+        feature: "Vitesse",
+        vortex: "Pages pré-optimisées, livraison performante, lazy-loading et CDN.",
+        wix: "Constructeur trop lourd — scripts tiers impactent perf.",
+        freelance: "Dépend des connaissances; souvent non-optimisé.",
+      },
+      {
+        feature: "SEO",
+        vortex: "Balises optimisées, données structurées, sitemap, performance.",
+        wix: "Difficulté à contrôler certains aspects du SEO.",
+        freelance: "Variable — souvent basique ou absent.",
+      },
+      {
+        feature: "Code",
+        vortex: "Code propre, maintenable, accessible.",
+        wix: "Propriétaire, difficile à migrer.",
+        freelance: "Qualité variable — souvent non-scalable.",
+      },
+      {
+        feature: "Support",
+        vortex: "30 jours inclus + maintenance {maintenance}/mois.",
+        wix: "Support central mais option payante.",
+        freelance: "Souvent limité, dépend du freelance.",
+      },
+      {
+        feature: "ROI",
+        vortex: "Conçu pour convertir — ROI mesurable.",
+        wix: "Temps de conversion moyen, dépend du template.",
+        freelance: "Peut nécessiter itérations couteuses.",
+      },
+    ],
+    conclusion:
+      "Conclusion: VORTEX propose un équilibre performance/SEO/support à prix fixe pour minimiser le risque et maximiser le ROI.",
+    cta: "Me contacter",
+  },
+  offer: {
+    eyebrow: "Offre tout-en-un",
+    title: "VORTEX Launch — {launch} HT",
+    paymentNote: "Paiement unique",
+    priceNote: "HT — Maintenance {maintenance}/mois",
+    bullets: [
+      "Design Ultra‑Premium Dark Mode (Cyan accents)",
+      "Page principale + sections supplémentaires (Portfolio, Contact, Offres)",
+      "Responsive & accessible",
+      "SEO on-page + structured data",
+      "30 jours support + 7–10 jours de livraison",
+    ],
+    maintenance: { label: "Maintenance (option)", price: "{maintenance} / mois", cta: "Ajouter la maintenance" },
+    guarantee: {
+      title: "Garantie satisfaction",
+      text: "Révisions incluses — nous peaufinons jusqu'à satisfaction (limité à scope convenu).",
+    },
+    primaryCta: "Commander — {launch}",
+    secondaryCta: "Demander un devis personnalisé",
+  },
+  contact: {
+    title: "Contactez-nous",
+    subtitle: "Remplissez le formulaire pour démarrer — intégré à Web3Forms.",
+    budgetLabel: "Budget souhaité",
+    budgets: [
+      { value: "749", label: "{amount} — VORTEX Launch" },
+      { value: "1500", label: "{amount} — Package avancé" },
+      { value: "3000", label: "{amount} — Package complet" },
+    ],
+    maintenanceLabel: "Ajouter la maintenance {maintenance}/mois",
+    privacyNote: "Politique de confidentialité & données sécurisées",
+    mailtoLabel: "Ou envoyez un email",
+  },
+  testimonials: {
+    title: "Témoignages",
+    items: [
+      { quote: "VORTEX a transformé notre trafic en clients — site livré en 7 jours.", author: "Clara — Le Comptoir", avatarColor: "#00f2ff" },
+      { quote: "Design professionnel, gain de temps et support réactif.", author: "Marc — Agence Immo", avatarColor: "#00bcd4" },
+    ],
+  },
+  cta: {
+    eyebrow: "Disponibilités",
+    title: "{slots, plural, =0 {Complet sur les {days} prochains jours} one {# démarrage possible d'ici {days} jours} other {# démarrages possibles d'ici {days} jours}}",
+    nextStarts: "Prochains démarrages : {dates}",
+    fallbackTitle: "Planifions ensemble le démarrage de votre projet",
+    text: "Prix fixe, livrable rapide, valeur studio — idéal pour entrepreneurs exigeants.",
+    button: "Réserver",
+    variants: {
+      reassurance: {
+        eyebrow: "Sans engagement",
+        title: "Parlons de votre projet — réponse sous 24h",
+        text: "Un premier échange gratuit pour cadrer votre site, son budget et son calendrier.",
+      },
+    },
+  },
+  faq: {
+    title: "Questions fréquentes",
+    items: [
+      {
+        q: "Qu'est-ce qui est inclus dans {launch} ?",
+        a: "Design premium 1 page, SEO on-page, optimisation performance, 30 jours de support.",
+      },
+      { q: "Combien de révisions sont incluses ?", a: "Nous incluons 2 révisions principales durant la phase de validation." },
+      {
+        q: "Comment fonctionne la maintenance ?",
+        a: "{maintenance}/mois inclut mises à jour mineures, backups et monitoring de performance.",
+      },
+    ],
+  },
+  footer: {
+    tagline: "Agence digitale Ultra‑Premium — design, dev & conversion.",
+    services: { title: "Services", items: ["Design & UX", "Développement React", "SEO & Performance", "Maintenance"] },
+    quickLinks: {
+      title: "Liens rapides",
+      links: [
+        { label: "Portfolio", href: "#portfolio" },
+        { label: "Offres", href: "#offres" },
+        { label: "Contact", href: "#contact" },
+      ],
+    },
+    legal: {
+      title: "Mentions légales",
+      text: "VORTEX — Société fictive • SIRET 000 000 000 • TVA intracommunautaire FR00 000000000",
+      rights: "© {year} VORTEX. Tous droits réservés.",
+    },
+    policies: "Politique de confidentialité • Conditions générales — version simulée",
+    madeWith: "par VORTEX",
+  },
+};
+
+export default fr;
@@ -0,0 +1,13 @@
+import type { LocalizedSiteContent } from "../schema";
+import fr from "./fr";
+import en from "./en";
+import de from "./de";
+
+/**
+ * content/vortex/index.ts
+ * VORTEX content for every supported locale (default content rendered by App).
+ */
+
+const vortexContent: LocalizedSiteContent = { fr, en, de };
+
+export default vortexContent;
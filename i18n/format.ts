@@ -0,0 +1,191 @@
+/**
+ * i18n/format.ts
+ * Minimal ICU MessageFormat subset, enough for our catalogs without pulling in a full runtime.
+ *
+ * Supported:
+ * - `{name}` simple arguments
+ * - `{n, number}`, `{n, number, percent}`, `{amount, number, currency}` (ISO code taken from `values.currency`, default EUR)
+ * - `{d, date}` / `{d, time}`
+ * - `{n, plural, =0 {…} one {# item} other {# items}}` with `#` replaced by the formatted number
+ * - `{key, select, a {…} other {…}}`
+ * - ICU quoting: `''` is a literal apostrophe, `'{…}'` is literal text
+ */
+
+export type MessageValues = Record<string, string | number | Date | undefined>;
+
+type Node =
+  | { kind: "text"; value: string }
+  | { kind: "pound" }
+  | { kind: "arg"; name: string; format?: string; style?: string }
+  | { kind: "plural" | "select"; name: string; options: Record<string, Node[]> };
+
+const cache = new Map<string, Node[]>();
+
+function parse(src: string): Node[] {
+  let i = 0;
+
+  const skipSpace = () => {
+    while (i < src.length && /\s/.test(src[i])) i++;
+  };
+
+  const readToken = () => {
+    skipSpace();
+    const start = i;
+    while (i < src.length && !/[\s,{}]/.test(src[i])) i++;
+    return src.slice(start, i);
+  };
+
+  const expect = (c: string) => {
+    skipSpace();
+    if (src[i] !== c) throw new SyntaxError(`Expected "${c}" at ${i} in message: ${src}`);
+    i++;
+  };
+
+  function parseNodes(inPlural: boolean, nested: boolean): Node[] {
+    const nodes: Node[] = [];
+    let text = "";
+    const flush = () => {
+      if (text) nodes.push({ kind: "text", value: text });
+      text = "";
+    };
+
+    while (i < src.length) {
+      const c = src[i];
+      if (c === "'") {
+        const next = src[i + 1];
+        if (next === "'") {
+          text += "'";
+          i += 2;
+          continue;
+        }
+        if (next === "{" || next === "}" || (inPlural && next === "#")) {
+          const end = src.indexOf("'", i + 1);
+          text += src.slice(i + 1, end < 0 ? undefined : end);
+          i = end < 0 ? src.length : end + 1;
+          continue;
+        }
+      }
+      if (c === "}" && nested) break;
+      if (c === "#" && inPlural) {
+        flush();
+        nodes.push({ kind: "pound" });
+        i++;
+        continue;
+      }
+      if (c === "{") {
+        flush();
+        i++;
+        nodes.push(parseArgument());
+        continue;
+      }
+      text += c;
+      i++;
+    }
+    flush();
+    return nodes;
+  }
+
+  function parseArgument(): Node {
+    const name = readToken();
+    skipSpace();
+    if (src[i] === "}") {
+      i++;
+      return { kind: "arg", name };
+    }
+    expect(",");
+    const type = readToken();
+    skipSpace();
+
+    if (type === "plural" || type === "select" || type === "selectordinal") {
+      expect(",");
+      const options: Record<string, Node[]> = {};
+      for (;;) {
+        skipSpace();
+        if (src[i] === "}" || i >= src.length) break;
+        const selector = readToken();
+        expect("{");
+        options[selector] = parseNodes(type !== "select", true);
+        expect("}");
+      }
+      expect("}");
+      return { kind: type === "select" ? "select" : "plural", name, options };
+    }
+
+    let style: string | undefined;
+    if (src[i] === ",") {
+      i++;
+      style = readToken();
+    }
+    expect("}");
+    return { kind: "arg", name, format: type, style };
+  }
+
+  return parseNodes(false, false);
+}
+
+function formatArg(value: MessageValues[string], node: Extract<Node, { kind: "arg" }>, values: MessageValues, locale: string) {
+  if (value === undefined) return `{${node.name}}`;
+  switch (node.format) {
+    case "number": {
+      const n = Number(value);
+      if (node.style === "currency") return formatCurrency(n, String(values.currency ?? "EUR"), locale);
+      if (node.style === "percent") return new Intl.NumberFormat(locale, { style: "percent" }).format(n);
+      return new Intl.NumberFormat(locale).format(n);
+    }
+    case "date":
+      return new Intl.DateTimeFormat(locale, { dateStyle: (node.style as "short" | "medium" | "long") || "medium" }).format(new Date(value));
+    case "time":
+      return new Intl.DateTimeFormat(locale, { timeStyle: "short" }).format(new Date(value));
+    default:
+      return String(value);
+  }
+}
+
+function render(nodes: Node[], values: MessageValues, locale: string, pluralValue?: number): string {
+  let out = "";
+  for (const node of nodes) {
+    switch (node.kind) {
+      case "text":
+        out += node.value;
+        break;
+      case "pound":
+        out += pluralValue === undefined ? "#" : new Intl.NumberFormat(locale).format(pluralValue);
+        break;
+      case "arg":
+        out += formatArg(values[node.name], node, values, locale);
+        break;
+      case "plural": {
+        const n = Number(values[node.name]);
+        const branch = node.options[`=${n}`] ?? node.options[new Intl.PluralRules(locale).select(n)] ?? node.options.other ?? [];
+        out += render(branch, values, locale, n);
+        break;
+      }
+      case "select": {
+        const branch = node.options[String(values[node.name])] ?? node.options.other ?? [];
+        out += render(branch, values, locale, pluralValue);
+        break;
+      }
+    }
+  }
+  return out;
+}
+
+/** Formats an ICU-style message. Parsed messages are cached, so calling this per render is cheap. */
+export function formatMessage(message: string, values: MessageValues = {}, locale = "fr"): string {
+  let nodes = cache.get(message);
+  if (!nodes) {
+    nodes = parse(message);
+    cache.set(message, nodes);
+  }
+  return render(nodes, values, locale);
+}
+
+/** Locale-aware currency formatting; whole amounts are shown without decimals (749 € rather than 749,00 €). */
+export function formatCurrency(amount: number, currency = "EUR", locale = "fr"): string {
+  return new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency,
+    minimumFractionDigits: Number.isInteger(amount) ? 0 : 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+}
@@ -0,0 +1,132 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import { MessageValues, formatCurrency, formatMessage } from "./format";
+import fr, { Catalog, MessageKey } from "./messages/fr";
+import en from "./messages/en";
+import de from "./messages/de";
+import { DEFAULT_LOCALE, Locale, LOCALES, isLocale, reportMissing } from "./locales";
+
+/**
+ * i18n/index.tsx
+ * Locale state, message lookup and formatting helpers.
+ *
+ * - French is the reference locale: a key missing from another catalog falls back to French and is
+ *   reported once in dev.
+ * - The active locale is read from `?lang=`, then localStorage, then the browser languages.
+ * - `<html lang>` and the hreflang alternates in <head> follow the active locale.
+ */
+
+export { DEFAULT_LOCALE, LOCALES, isLocale };
+export type { Locale, MessageKey, MessageValues };
+
+const catalogs: Record<Locale, Catalog> = { fr, en, de };
+
+const STORAGE_KEY = "vortex.locale";
+
+/** Looks up and formats a message outside React (e.g. in event handlers of non-component code). */
+export function translate(locale: Locale, key: MessageKey, values?: MessageValues): string {
+  let message = catalogs[locale][key];
+  if (message === undefined) {
+    reportMissing("message", locale, key);
+    message = fr[key];
+  }
+  return formatMessage(message, values, locale);
+}
+
+/* ---------------------------
+   Locale detection & document sync
+   --------------------------- */
+
+export function detectLocale(): Locale {
+  if (typeof window === "undefined") return DEFAULT_LOCALE;
+  const fromUrl = new URLSearchParams(window.location.search).get("lang");
+  if (isLocale(fromUrl)) return fromUrl;
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (isLocale(stored)) return stored;
+  } catch {
+    // storage may be unavailable (private mode, sandboxed iframe)
+  }
+  for (const lang of window.navigator.languages ?? [window.navigator.language]) {
+    const short = lang?.slice(0, 2).toLowerCase();
+    if (isLocale(short)) return short;
+  }
+  return DEFAULT_LOCALE;
+}
+
+/** URL of the current page in a given locale (used for hreflang alternates). */
+export function localizedUrl(locale: Locale, href = window.location.href): string {
+  const url = new URL(href);
+  if (locale === DEFAULT_LOCALE) url.searchParams.delete("lang");
+  else url.searchParams.set("lang", locale);
+  return url.toString();
+}
+
+function syncDocument(locale: Locale) {
+  document.documentElement.lang = locale;
+
+  document.head.querySelectorAll('link[rel="alternate"][data-i18n]').forEach((el) => el.remove());
+  for (const l of [...LOCALES, "x-default" as const]) {
+    const link = document.createElement("link");
+    link.rel = "alternate";
+    link.hreflang = l;
+    link.href = localizedUrl(l === "x-default" ? DEFAULT_LOCALE : l);
+    link.setAttribute("data-i18n", "");
+    document.head.appendChild(link);
+  }
+
+  const current = localizedUrl(locale);
+  if (current !== window.location.href) window.history.replaceState(window.history.state, "", current);
+}
+
+/* ---------------------------
+   Provider & hook
+   --------------------------- */
+
+export type I18n = {
+  locale: Locale;
+  setLocale: (l: Locale) => void;
+  t: (key: MessageKey, values?: MessageValues) => string;
+  /** Formats an arbitrary ICU message (e.g. site-content copy) in the active locale. */
+  format: (message: string, values?: MessageValues) => string;
+  formatCurrency: (amount: number, currency?: string) => string;
+  formatNumber: (n: number, options?: Intl.NumberFormatOptions) => string;
+};
+
+const I18nContext = createContext<I18n | null>(null);
+
+export const I18nProvider: React.FC<{ initialLocale?: Locale; children?: React.ReactNode }> = ({ initialLocale, children }) => {
+  const [locale, setLocaleState] = useState<Locale>(() => initialLocale ?? detectLocale());
+
+  const setLocale = useCallback((l: Locale) => {
+    setLocaleState(l);
+    try {
+      window.localStorage.setItem(STORAGE_KEY, l);
+    } catch {
+      // ignore, the choice still applies to this page view
+    }
+  }, []);
+
+  useEffect(() => {
+    syncDocument(locale);
+  }, [locale]);
+
+  const value = useMemo<I18n>(
+    () => ({
+      locale,
+      setLocale,
+      t: (key, values) => translate(locale, key, values),
+      format: (message, values) => formatMessage(message, values, locale),
+      formatCurrency: (amount, currency = "EUR") => formatCurrency(amount, currency, locale),
+      formatNumber: (n, options) => new Intl.NumberFormat(locale, options).format(n),
+    }),
+    [locale, setLocale]
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export function useI18n(): I18n {
+  const ctx = useContext(I18nContext);
+  if (!ctx) throw new Error("useI18n must be used inside <I18nProvider>");
+  return ctx;
+}
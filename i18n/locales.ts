@@ -0,0 +1,24 @@
+/**
+ * i18n/locales.ts
+ * Supported locales and fallback reporting (React-free so server code and content modules can use it).
+ */
+
+export type Locale = "fr" | "en" | "de";
+
+export const LOCALES: readonly Locale[] = ["fr", "en", "de"];
+
+/** Reference locale: every message and content entry exists in French. */
+export const DEFAULT_LOCALE: Locale = "fr";
+
+export const isLocale = (v: unknown): v is Locale => typeof v === "string" && (LOCALES as readonly string[]).includes(v);
+
+const reported = new Set<string>();
+
+/** Warns once per missing entry in dev; silent in production builds. */
+export function reportMissing(kind: string, locale: Locale, key: string) {
+  if (process.env.NODE_ENV === "production") return;
+  const id = `${kind}:${locale}:${key}`;
+  if (reported.has(id)) return;
+  reported.add(id);
+  console.warn(`[i18n] missing ${kind} "${key}" for locale "${locale}", falling back to "${DEFAULT_LOCALE}".`);
+}
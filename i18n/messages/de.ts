@@ -0,0 +1,314 @@
+import type { Catalog } from "./fr";
+
+/**
+ * i18n/messages/de.ts
+ * German catalog. Missing keys fall back to French (and are reported in dev).
+ */
+
+const de: Catalog = {
+  "locale.name": "Deutsch",
+  "locale.switcher": "Sprache",
+
+  "nav.ariaLabel": "Hauptnavigation",
+  "nav.toggleMenu": "Menü öffnen oder schließen",
+  "nav.skipToContent": "Zum Inhalt springen",
+  "theme.switch.light": "Zum hellen Modus wechseln",
+  "theme.switch.dark": "Zum dunklen Modus wechseln",
+
+  "browser.back": "Vorherige Seite",
+  "browser.forward": "Nächste Seite",
+  "browser.reload": "Demo neu laden",
+  "browser.address": "Adresse der Demo",
+  "browser.devices": "Gerät",
+  "browser.device.desktop": "Desktop",
+  "browser.device.tablet": "Tablet",
+  "browser.device.mobile": "Mobil",
+  "browser.frameTitle": "Demo: {title}",
+  "browser.loading": "Demo wird geladen…",
+
+  "restaurant.tagline": "Gourmetrestaurant • Paris",
+  "restaurant.hours": "Heute geöffnet • {open} - {close}",
+  "restaurant.closedToday": "Heute geschlossen",
+  "restaurant.menuTitle": "Degustationsmenü",
+  "restaurant.menuDetails": "{courses, plural, one {# Gang} other {# Gänge}} • {price, number, currency}",
+  "restaurant.pitch": "Ein Erlebnis von VORTEX — Inszenierung, Call-to-Actions und Microcopy, die konvertieren.",
+  "restaurant.feature.photo": "Immersive Fotos",
+  "restaurant.feature.booking": "Reservierung mit 2 Klicks",
+  "restaurant.feature.mobileCta": "Fixierter CTA auf Mobilgeräten",
+  "restaurant.viewMenu": "Speisekarte",
+  "restaurant.gallery": "Galerie",
+  "restaurant.galleryPhoto": "Foto {n} des Speisesaals",
+  "restaurant.bookCta": "Tisch reservieren",
+
+  "reservation.title": "Tisch reservieren",
+  "reservation.nameLabel": "Name",
+  "reservation.people": "{count, plural, one {# Person} other {# Personen}}",
+  "reservation.submit": "Reservieren",
+  "reservation.confirmed": "Reservierung bestätigt",
+  "reservation.summary": "Danke {name} — Tisch für {people} am {date} um {time}.",
+  "reservation.partyLabel": "Anzahl der Gäste",
+  "reservation.dateLabel": "Datum",
+  "reservation.slotsLabel": "Freie Uhrzeiten",
+  "reservation.loadingSlots": "Uhrzeiten werden geladen…",
+  "reservation.closed": "An diesem Tag geschlossen — bitte anderes Datum wählen.",
+  "reservation.noSlots": "An diesem Tag ausgebucht — bitte anderes Datum wählen.",
+  "reservation.error.time": "Bitte eine Uhrzeit wählen.",
+  "reservation.error.full": "Diese Uhrzeit wurde gerade vergeben — bitte eine andere wählen.",
+  "reservation.error.generic": "Reservierung nicht möglich — bitte Angaben prüfen.",
+  "reservation.reference": "Ref. {id}",
+  "reservation.addToCalendar": "Zu meinem Kalender hinzufügen (.ics)",
+  "reservation.another": "Neue Reservierung",
+  "calls.title": "Kennenlerngespräch buchen",
+  "calls.subtitle": "{minutes} Minuten über Ihr Projekt sprechen, unverbindlich.",
+  "calls.zoneLabel": "Zeitzone",
+  "calls.dayLabel": "Tag",
+  "calls.slotsLabel": "Verfügbare Zeiten",
+  "calls.loading": "Verfügbarkeit wird geladen…",
+  "calls.unavailable": "Die Online-Buchung ist gerade nicht verfügbar — schreiben Sie uns:",
+  "calls.noSlots": "Keine freien Termine in den nächsten Wochen — schreiben Sie uns:",
+  "calls.studioTime": "Für das Studio ist das {time} ({zone}).",
+  "calls.topicLabel": "Worüber möchten Sie sprechen? (optional)",
+  "calls.submit": "Gespräch bestätigen",
+  "calls.submitting": "Wird gebucht",
+  "calls.error.slot": "Wählen Sie eine Uhrzeit.",
+  "calls.error.taken": "Dieser Termin wurde gerade vergeben — bitte einen anderen wählen.",
+  "calls.error.generic": "Buchung fehlgeschlagen, bitte erneut versuchen.",
+  "calls.confirmed": "Gespräch bestätigt",
+  "calls.summary": "{date} um {time} ({zone})",
+  "calls.emailed": "Die Einladung wurde an {email} gesendet.",
+  "calls.addToCalendar": "Zum Kalender hinzufügen (.ics)",
+  "calls.another": "Weiteren Termin buchen",
+  "validation.required": "Pflichtfeld.",
+  "validation.invalid": "Ungültiger Wert.",
+  "validation.too_long": "Zu lang.",
+  "validation.disposable": "Wegwerfadressen werden nicht akzeptiert — bitte nutzen Sie Ihre übliche E-Mail.",
+  "validation.no_mx": "Diese Domain empfängt keine E-Mails — bitte Adresse prüfen.",
+  "validation.phone": "Französische Nummer erwartet, z. B. 06 12 34 56 78 oder +33 6 12 34 56 78.",
+
+  "realestate.tagline": "Wir finden Ihre Traumimmobilie.",
+  "realestate.count": "{count, plural, one {# Objekt} other {# Objekte}} im Angebot",
+  "realestate.searchPlaceholder": "Suchen (z. B. 'Loft')",
+  "realestate.searchLabel": "Immobilien suchen",
+  "realestate.cityLabel": "Stadt",
+  "realestate.allCities": "Alle Städte",
+  "realestate.typeLabel": "Objektart",
+  "realestate.allTypes": "Alle Arten",
+  "realestate.type.apartment": "Wohnung",
+  "realestate.type.house": "Haus",
+  "realestate.type.studio": "Studio",
+  "realestate.type.loft": "Loft",
+  "realestate.type.land": "Grundstück",
+  "realestate.type.commercial": "Gewerbe",
+  "realestate.bedsLabel": "Schlafzimmer",
+  "realestate.anyBeds": "Schlafzimmer: beliebig",
+  "realestate.sortLabel": "Sortieren nach",
+  "realestate.sort.date": "Neueste",
+  "realestate.sort.price_asc": "Preis aufsteigend",
+  "realestate.sort.price_desc": "Preis absteigend",
+  "realestate.sort.surface": "Größte Fläche",
+  "realestate.listingMeta": "{city} • {beds, plural, =0 {Kein Schlafzimmer} one {# Schlafzimmer} other {# Schlafzimmer}} • {surface, number} m²",
+  "realestate.results": "{count, plural, =0 {Keine Objekte} one {# Objekt gefunden} other {# Objekte gefunden}}",
+  "realestate.noResults": "Keine Ergebnisse — erweitern Sie Ihre Suche.",
+  "realestate.minBudget": "Mindestbudget",
+  "realestate.maxBudget": "Maximales Budget",
+  "realestate.noLimit": "Unbegrenzt",
+  "realestate.minSurface": "Mindestwohnfläche",
+  "realestate.surface": "{surface, number} m²",
+  "realestate.perMonth": "{price} / Monat",
+  "realestate.page": "Seite {page} von {pages}",
+  "realestate.prevPage": "Vorherige Seite",
+  "realestate.nextPage": "Nächste Seite",
+  "realestate.view": "Objekt ansehen",
+  "realestate.back": "← Zurück zu den Ergebnissen",
+  "realestate.photo": "Foto {index} von {total}",
+  "realestate.prevPhoto": "Vorheriges Foto",
+  "realestate.nextPhoto": "Nächstes Foto",
+  "realestate.ref": "Ref. {ref}",
+  "realestate.published": "Inseriert am {date}",
+  "realestate.baths": "{count, plural, one {# Badezimmer} other {# Badezimmer}}",
+  "realestate.agent.title": "Makler kontaktieren",
+  "realestate.agent.message": "Guten Tag, ich interessiere mich für „{title}“ (Ref. {ref}). Können Sie mich kontaktieren?",
+  "realestate.agent.submit": "An den Makler senden",
+
+  "saas.tagline": "Kostenlose Testphase • Optimiertes Onboarding",
+  "saas.satisfaction": "B2B-Zufriedenheit",
+  "saas.trialStatus.none": "Testphase: nicht gestartet",
+  "saas.trialStatus.active": "Testphase: {days, plural, =0 {letzter Tag} one {noch # Tag} other {noch # Tage}}",
+  "saas.trialStatus.expired": "Testphase beendet",
+  "saas.trialStatus.free": "Kostenloses Konto aktiv",
+  "saas.billing": "Abrechnung",
+  "saas.cycle.monthly": "Monatlich",
+  "saas.cycle.annual": "Jährlich",
+  "saas.annualDiscount": "−{percent} bei jährlicher Zahlung",
+  "saas.plans": "Tarife",
+  "saas.free": "Kostenlos",
+  "saas.perSeat": "{price} / Nutzer / Monat",
+  "saas.features": "Funktionen",
+  "saas.feature.contacts": "Kontakte",
+  "saas.feature.pipelines": "Pipelines",
+  "saas.feature.onboarding": "Schritt-für-Schritt-Onboarding",
+  "saas.feature.api": "API & Webhooks",
+  "saas.feature.sso": "SSO / SAML",
+  "saas.feature.uptime": "Garantierte Verfügbarkeit",
+  "saas.unlimited": "Unbegrenzt",
+  "saas.seats": "Nutzer",
+  "saas.billedMonthly": "netto, monatliche Abrechnung",
+  "saas.billedAnnually": "netto, jährliche Abrechnung ({monthly} / Monat)",
+  "saas.savings": "Sie sparen {amount} pro Jahr",
+  "saas.emailPlaceholder": "Geschäftliche E-Mail",
+  "saas.companyLabel": "Unternehmen",
+  "saas.startTrial": "{days}-tägige Testphase starten",
+  "saas.startFree": "Kostenloses Konto erstellen",
+  "saas.error.exists": "Für diese E-Mail gibt es bereits ein Konto.",
+  "saas.error.company": "Unternehmensname erforderlich.",
+  "saas.error.generic": "Registrierung fehlgeschlagen — bitte erneut versuchen.",
+  "saas.accountCreated": "{plan}-Konto für {company} erstellt",
+  "saas.countdown": "Noch {days} T {hours} Std {minutes} Min {seconds} Sek",
+  "saas.trialEnds": "Ende der Testphase: {date}",
+  "saas.reset": "Demo neu starten",
+
+  "contact.emailLabel": "E-Mail-Adresse",
+  "contact.messagePlaceholder": "Nachricht — erzählen Sie uns von Ihrem Projekt, Ihren Zielen und Rahmenbedingungen.",
+  "contact.error.nameRequired": "Name ist erforderlich.",
+  "contact.error.emailInvalid": "Ungültige E-Mail.",
+  "contact.error.consentRequired": "Bitte bestätigen Sie die Einwilligung, um Ihre Anfrage zu senden.",
+  "contact.error.send": "Senden fehlgeschlagen — bitte versuchen Sie es später erneut.",
+  "contact.error.rateLimited": "Zu viele Anfragen — bitte versuchen Sie es in einigen Minuten erneut.",
+  "contact.error.fields": "Bitte prüfen Sie die markierten Felder.",
+  "contact.success": "Danke! Ihre Anfrage wurde gesendet. Wir melden uns innerhalb von 24 Stunden.",
+  "contact.pending": "Ausstehend — {count, plural, one {Ihre Anfrage wird} other {# Anfragen werden}} gesendet, sobald Sie wieder online sind.",
+  "contact.pendingSent": "Wieder online — Ihre ausstehende Anfrage wurde gesendet.",
+  "contact.consentLabel": "Ich bin einverstanden, dass {brand} diese Angaben zur Beantwortung meiner Anfrage verwendet.",
+  "contact.submit": "Anfrage senden",
+  "contact.sending": "Wird gesendet…",
+  "contact.nameLabel": "Vollständiger Name",
+  "contact.companyLabel": "Unternehmen (optional)",
+  "contact.phoneLabel": "Telefon (optional)",
+  "contact.messageLabel": "Nachricht",
+  "contact.honeypotLabel": "Dieses Feld leer lassen",
+
+  "wizard.progress": "Schritt {current} von {total}",
+  "wizard.back": "Zurück",
+  "wizard.next": "Weiter",
+  "wizard.step.project": "Projekt",
+  "wizard.step.pages": "Seiten",
+  "wizard.step.features": "Funktionen",
+  "wizard.step.deadline": "Termin",
+  "wizard.step.budget": "Budget",
+  "wizard.step.contact": "Kontaktdaten",
+  "wizard.question.project": "Welche Art von Website brauchen Sie?",
+  "wizard.question.pages": "Wie viele Seiten ungefähr?",
+  "wizard.question.features": "Welche Funktionen interessieren Sie?",
+  "wizard.question.deadline": "Bis wann brauchen Sie sie?",
+  "wizard.question.budget": "Welches Budget planen Sie?",
+  "wizard.question.contact": "Wie erreichen wir Sie?",
+  "wizard.features.hint": "Mehrfachauswahl möglich, oder keine.",
+  "wizard.project.other": "Etwas anderes",
+  "wizard.pages.1": "Eine Seite",
+  "wizard.pages.2-5": "2 bis 5 Seiten",
+  "wizard.pages.6-10": "6 bis 10 Seiten",
+  "wizard.pages.10+": "Mehr als 10 Seiten",
+  "wizard.feature.booking": "Online-Reservierung",
+  "wizard.feature.listings": "Katalog / Inserate",
+  "wizard.feature.pricing": "Preistabelle",
+  "wizard.feature.blog": "Blog",
+  "wizard.feature.multilingual": "Mehrsprachig",
+  "wizard.feature.ecommerce": "E-Commerce",
+  "wizard.feature.seo": "Erweitertes SEO",
+  "wizard.feature.analytics": "Statistiken",
+  "wizard.deadline.asap": "So schnell wie möglich",
+  "wizard.deadline.1m": "Innerhalb eines Monats",
+  "wizard.deadline.3m": "Innerhalb von drei Monaten",
+  "wizard.deadline.flexible": "Kein fester Termin",
+  "wizard.error.required": "Wählen Sie eine Option, um fortzufahren.",
+
+  "offer.framing.ttc": "inkl. MwSt. — {ht} zzgl. MwSt.",
+
+  "quote.title": "Angebot konfigurieren",
+  "quote.line.base": "Launch-Paket ({count, plural, one {# Seite inklusive} other {# Seiten inklusive}})",
+  "quote.line.extraPages": "Zusätzliche Seiten",
+  "quote.line.languages": "Zusätzliche Sprachen",
+  "quote.line.ecommerce": "Onlineshop",
+  "quote.line.copywriting": "Texterstellung",
+  "quote.line.maintenance": "Monatliche Wartung",
+  "quote.unit.perPage": "{amount} netto / Seite",
+  "quote.unit.perLanguage": "{amount} netto / Sprache",
+  "quote.increase": "Hinzufügen: {label}",
+  "quote.decrease": "Entfernen: {label}",
+  "quote.months": "{count, plural, =0 {Ohne Wartung} one {# Monat} other {# Monate}}",
+  "quote.oneOff": "Einmalzahlung",
+  "quote.monthly": "Monatlich",
+  "quote.perMonth": "{ht} netto / Monat ({ttc} brutto)",
+  "quote.total": "Gesamt über die Laufzeit",
+  "quote.ht": "Summe netto",
+  "quote.vat": "MwSt.",
+  "quote.ttc": "Summe brutto",
+  "quote.attach": "Angebot meiner Anfrage beifügen",
+  "quote.attached": "Angebot Ihrer Anfrage beigefügt ✓",
+  "quote.attachedSummary": "Angebot beigefügt: {amount} netto{months, plural, =0 {} other { + {monthly} netto / Monat × #}}",
+  "quote.detach": "Entfernen",
+  "quote.print": "Drucken / PDF",
+  "quote.doc.title": "Angebot",
+  "quote.doc.date": "Datum: {date}",
+  "quote.doc.ref": "Ref.: {ref}",
+  "quote.doc.validity": "30 Tage gültig",
+  "quote.doc.description": "Bezeichnung",
+  "quote.doc.quantity": "Menge",
+  "quote.doc.unitPrice": "Einzelpreis netto",
+  "quote.doc.amount": "Betrag netto",
+
+  "consent.banner.title": "Ihre Datenschutzeinstellungen",
+  "consent.banner.text": "Mit Ihrer Einwilligung messen wir die Nutzung der Website (ohne Cookies, auf eigenen Servern), um sie zu verbessern. Vor Ihrer Entscheidung wird nichts gesendet; Sie können sie jederzeit in der Fußzeile ändern.",
+  "consent.acceptAll": "Alle akzeptieren",
+  "consent.rejectAll": "Alle ablehnen",
+  "consent.customize": "Anpassen",
+  "consent.save": "Auswahl speichern",
+  "consent.dialogTitle": "Datenschutzeinstellungen",
+  "consent.close": "Schließen",
+  "consent.alwaysOn": "Immer aktiv",
+  "consent.manage": "Datenschutzeinstellungen verwalten",
+  "motion.reduce": "Animationen reduzieren",
+  "cms.preview": "Vorschau: Entwürfe eingeschlossen",
+  "admin.title": "Eingegangene Anfragen",
+  "admin.passwordLabel": "Admin-Passwort",
+  "admin.signIn": "Anmelden",
+  "admin.signOut": "Abmelden",
+  "admin.wrongPassword": "Falsches Passwort.",
+  "admin.rateLimited": "Zu viele Versuche, bitte in {seconds} s erneut versuchen.",
+  "admin.unavailable": "Das Dashboard ist gerade nicht verfügbar.",
+  "admin.loading": "Anfragen werden geladen",
+  "admin.filter.budget": "Budget",
+  "admin.filter.maintenance": "Wartung",
+  "admin.filter.status": "Status",
+  "admin.filter.any": "Alle",
+  "admin.filter.noBudget": "Nicht angegeben",
+  "admin.yes": "Ja",
+  "admin.no": "Nein",
+  "admin.export": "Als CSV exportieren",
+  "admin.empty": "Keine Anfragen für diese Filter.",
+  "admin.status.new": "Neu",
+  "admin.status.contacted": "Kontaktiert",
+  "admin.status.quoted": "Angebot gesendet",
+  "admin.status.won": "Gewonnen",
+  "admin.status.lost": "Verloren",
+  "admin.received": "Eingegangen am {date} • {source}",
+  "admin.score": "Score",
+  "admin.tier.hot": "heiß",
+  "admin.tier.warm": "warm",
+  "admin.tier.cold": "kalt",
+  "admin.quote": "Angebot (netto)",
+  "admin.notes": "Notizen",
+  "admin.noteLabel": "Neue Notiz",
+  "admin.addNote": "Hinzufügen",
+  "admin.updateFailed": "Die Änderung wurde nicht gespeichert.",
+  "consent.category.necessary.label": "Notwendig",
+  "consent.category.necessary.desc": "Für den Betrieb der Website: gewählte Sprache, Formularentwürfe, noch nicht gesendete Anfragen und diese Einstellungen.",
+  "consent.category.analytics.label": "Reichweitenmessung",
+  "consent.category.analytics.desc": "Anonyme Besuchsstatistiken (angesehene Bereiche, Klicks, begonnene Formulare) zur Verbesserung der Website.",
+  "consent.category.marketing.label": "Marketing",
+  "consent.category.marketing.desc": "Werbe- und Retargeting-Tools von Partnern. Derzeit wird keines eingesetzt.",
+
+  "footer.madeWith": "Mit",
+};
+
+export default de;
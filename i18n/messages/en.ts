@@ -0,0 +1,314 @@
+import type { Catalog } from "./fr";
+
+/**
+ * i18n/messages/en.ts
+ * English catalog. Missing keys fall back to French (and are reported in dev).
+ */
+
+const en: Catalog = {
+  "locale.name": "English",
+  "locale.switcher": "Language",
+
+  "nav.ariaLabel": "Main navigation",
+  "nav.toggleMenu": "Toggle menu",
+  "nav.skipToContent": "Skip to content",
+  "theme.switch.light": "Switch to light mode",
+  "theme.switch.dark": "Switch to dark mode",
+
+  "browser.back": "Previous page",
+  "browser.forward": "Next page",
+  "browser.reload": "Reload the demo",
+  "browser.address": "Demo address",
+  "browser.devices": "Device",
+  "browser.device.desktop": "Desktop",
+  "browser.device.tablet": "Tablet",
+  "browser.device.mobile": "Mobile",
+  "browser.frameTitle": "Demo: {title}",
+  "browser.loading": "Loading the demo…",
+
+  "restaurant.tagline": "Fine dining restaurant • Paris",
+  "restaurant.hours": "Open today • {open} - {close}",
+  "restaurant.closedToday": "Closed today",
+  "restaurant.menuTitle": "Tasting menu",
+  "restaurant.menuDetails": "{courses, plural, one {# course} other {# courses}} • {price, number, currency}",
+  "restaurant.pitch": "A VORTEX experience — staging, calls to action and microcopy built to convert.",
+  "restaurant.feature.photo": "Immersive photography",
+  "restaurant.feature.booking": "Book in 2 clicks",
+  "restaurant.feature.mobileCta": "Sticky mobile CTA",
+  "restaurant.viewMenu": "See the menu",
+  "restaurant.gallery": "Gallery",
+  "restaurant.galleryPhoto": "Dining room photo {n}",
+  "restaurant.bookCta": "Book a table",
+
+  "reservation.title": "Book a table",
+  "reservation.nameLabel": "Name",
+  "reservation.people": "{count, plural, one {# guest} other {# guests}}",
+  "reservation.submit": "Book",
+  "reservation.confirmed": "Booking confirmed",
+  "reservation.summary": "Thank you {name} — table for {people} on {date} at {time}.",
+  "reservation.partyLabel": "Number of guests",
+  "reservation.dateLabel": "Date",
+  "reservation.slotsLabel": "Available times",
+  "reservation.loadingSlots": "Loading times…",
+  "reservation.closed": "Closed that day — pick another date.",
+  "reservation.noSlots": "Fully booked that day — pick another date.",
+  "reservation.error.time": "Pick a time.",
+  "reservation.error.full": "That time was just booked — pick another one.",
+  "reservation.error.generic": "Booking failed — check the details.",
+  "reservation.reference": "Ref. {id}",
+  "reservation.addToCalendar": "Add to my calendar (.ics)",
+  "reservation.another": "New booking",
+  "calls.title": "Book a discovery call",
+  "calls.subtitle": "{minutes} minutes to talk about your project, no strings attached.",
+  "calls.zoneLabel": "Time zone",
+  "calls.dayLabel": "Day",
+  "calls.slotsLabel": "Available times",
+  "calls.loading": "Loading availability…",
+  "calls.unavailable": "Online booking is unavailable right now — write to us:",
+  "calls.noSlots": "No free slots in the coming weeks — write to us:",
+  "calls.studioTime": "That's {time} for the studio ({zone}).",
+  "calls.topicLabel": "What would you like to discuss? (optional)",
+  "calls.submit": "Confirm the call",
+  "calls.submitting": "Booking",
+  "calls.error.slot": "Pick a time.",
+  "calls.error.taken": "That slot was just taken — pick another one.",
+  "calls.error.generic": "Booking failed, please try again.",
+  "calls.confirmed": "Call confirmed",
+  "calls.summary": "{date} at {time} ({zone})",
+  "calls.emailed": "The invite was sent to {email}.",
+  "calls.addToCalendar": "Add to my calendar (.ics)",
+  "calls.another": "Book another slot",
+  "validation.required": "This field is required.",
+  "validation.invalid": "Invalid value.",
+  "validation.too_long": "Too long.",
+  "validation.disposable": "Disposable addresses aren't accepted — please use your usual email.",
+  "validation.no_mx": "This domain can't receive email — check the address.",
+  "validation.phone": "A French number is expected, e.g. 06 12 34 56 78 or +33 6 12 34 56 78.",
+
+  "realestate.tagline": "Let's find the perfect home.",
+  "realestate.count": "{count, plural, one {# property} other {# properties}} listed",
+  "realestate.searchPlaceholder": "Search (e.g. 'loft')",
+  "realestate.searchLabel": "Search properties",
+  "realestate.cityLabel": "City",
+  "realestate.allCities": "All cities",
+  "realestate.typeLabel": "Property type",
+  "realestate.allTypes": "All types",
+  "realestate.type.apartment": "Apartment",
+  "realestate.type.house": "House",
+  "realestate.type.studio": "Studio",
+  "realestate.type.loft": "Loft",
+  "realestate.type.land": "Land",
+  "realestate.type.commercial": "Commercial",
+  "realestate.bedsLabel": "Bedrooms",
+  "realestate.anyBeds": "Bedrooms: any",
+  "realestate.sortLabel": "Sort by",
+  "realestate.sort.date": "Newest",
+  "realestate.sort.price_asc": "Price: low to high",
+  "realestate.sort.price_desc": "Price: high to low",
+  "realestate.sort.surface": "Largest first",
+  "realestate.listingMeta": "{city} • {beds, plural, =0 {No bedroom} one {# bedroom} other {# bedrooms}} • {surface, number} m²",
+  "realestate.results": "{count, plural, =0 {No properties} one {# property found} other {# properties found}}",
+  "realestate.noResults": "No results — try widening your search.",
+  "realestate.minBudget": "Minimum budget",
+  "realestate.maxBudget": "Maximum budget",
+  "realestate.noLimit": "No limit",
+  "realestate.minSurface": "Minimum floor area",
+  "realestate.surface": "{surface, number} m²",
+  "realestate.perMonth": "{price} / month",
+  "realestate.page": "Page {page} of {pages}",
+  "realestate.prevPage": "Previous page",
+  "realestate.nextPage": "Next page",
+  "realestate.view": "View property",
+  "realestate.back": "← Back to results",
+  "realestate.photo": "Photo {index} of {total}",
+  "realestate.prevPhoto": "Previous photo",
+  "realestate.nextPhoto": "Next photo",
+  "realestate.ref": "Ref. {ref}",
+  "realestate.published": "Listed on {date}",
+  "realestate.baths": "{count, plural, one {# bathroom} other {# bathrooms}}",
+  "realestate.agent.title": "Contact the agent",
+  "realestate.agent.message": "Hello, I'm interested in “{title}” (ref. {ref}). Could you get back to me?",
+  "realestate.agent.submit": "Send to the agent",
+
+  "saas.tagline": "Free trial • Streamlined onboarding",
+  "saas.satisfaction": "B2B satisfaction",
+  "saas.trialStatus.none": "Trial: not started",
+  "saas.trialStatus.active": "Trial: {days, plural, =0 {last day} one {# day left} other {# days left}}",
+  "saas.trialStatus.expired": "Trial ended",
+  "saas.trialStatus.free": "Free account active",
+  "saas.billing": "Billing",
+  "saas.cycle.monthly": "Monthly",
+  "saas.cycle.annual": "Annual",
+  "saas.annualDiscount": "−{percent} billed annually",
+  "saas.plans": "Plans",
+  "saas.free": "Free",
+  "saas.perSeat": "{price} / user / month",
+  "saas.features": "Features",
+  "saas.feature.contacts": "Contacts",
+  "saas.feature.pipelines": "Pipelines",
+  "saas.feature.onboarding": "Step-by-step onboarding",
+  "saas.feature.api": "API & webhooks",
+  "saas.feature.sso": "SSO / SAML",
+  "saas.feature.uptime": "Guaranteed uptime",
+  "saas.unlimited": "Unlimited",
+  "saas.seats": "Users",
+  "saas.billedMonthly": "excl. VAT, billed monthly",
+  "saas.billedAnnually": "excl. VAT, billed yearly ({monthly} / month)",
+  "saas.savings": "You save {amount} a year",
+  "saas.emailPlaceholder": "Work email",
+  "saas.companyLabel": "Company",
+  "saas.startTrial": "Start the {days}-day trial",
+  "saas.startFree": "Create my free account",
+  "saas.error.exists": "An account already exists for this email.",
+  "saas.error.company": "Company name required.",
+  "saas.error.generic": "Sign-up failed — please try again.",
+  "saas.accountCreated": "{plan} account created for {company}",
+  "saas.countdown": "{days}d {hours}h {minutes}m {seconds}s left",
+  "saas.trialEnds": "Trial ends: {date}",
+  "saas.reset": "Restart the demo",
+
+  "contact.emailLabel": "Email address",
+  "contact.messagePlaceholder": "Message — tell us about your project, goals and constraints.",
+  "contact.error.nameRequired": "Name is required.",
+  "contact.error.emailInvalid": "Invalid email.",
+  "contact.error.consentRequired": "Please tick the consent box to send your request.",
+  "contact.error.send": "Sending failed — please try again later.",
+  "contact.error.rateLimited": "Too many requests — please try again in a few minutes.",
+  "contact.error.fields": "Please check the highlighted fields.",
+  "contact.success": "Thank you! Your request has been sent. We will get back to you within 24h.",
+  "contact.pending": "Pending — {count, plural, one {your request} other {# requests}} will be sent as soon as you are back online.",
+  "contact.pendingSent": "Back online — your pending request has been sent.",
+  "contact.consentLabel": "I agree that {brand} may use this information to answer my request.",
+  "contact.submit": "Send request",
+  "contact.sending": "Sending…",
+  "contact.nameLabel": "Full name",
+  "contact.companyLabel": "Company (optional)",
+  "contact.phoneLabel": "Phone (optional)",
+  "contact.messageLabel": "Message",
+  "contact.honeypotLabel": "Leave this field empty",
+
+  "wizard.progress": "Step {current} of {total}",
+  "wizard.back": "Back",
+  "wizard.next": "Continue",
+  "wizard.step.project": "Project",
+  "wizard.step.pages": "Pages",
+  "wizard.step.features": "Features",
+  "wizard.step.deadline": "Deadline",
+  "wizard.step.budget": "Budget",
+  "wizard.step.contact": "Details",
+  "wizard.question.project": "What kind of site do you need?",
+  "wizard.question.pages": "Roughly how many pages?",
+  "wizard.question.features": "Which features are you interested in?",
+  "wizard.question.deadline": "When do you need it?",
+  "wizard.question.budget": "What budget do you have in mind?",
+  "wizard.question.contact": "How can we reach you?",
+  "wizard.features.hint": "Pick as many as you like, or none.",
+  "wizard.project.other": "Something else",
+  "wizard.pages.1": "A single page",
+  "wizard.pages.2-5": "2 to 5 pages",
+  "wizard.pages.6-10": "6 to 10 pages",
+  "wizard.pages.10+": "More than 10 pages",
+  "wizard.feature.booking": "Online booking",
+  "wizard.feature.listings": "Catalogue / listings",
+  "wizard.feature.pricing": "Pricing table",
+  "wizard.feature.blog": "Blog",
+  "wizard.feature.multilingual": "Multilingual",
+  "wizard.feature.ecommerce": "E-commerce",
+  "wizard.feature.seo": "Advanced SEO",
+  "wizard.feature.analytics": "Analytics",
+  "wizard.deadline.asap": "As soon as possible",
+  "wizard.deadline.1m": "Within a month",
+  "wizard.deadline.3m": "Within three months",
+  "wizard.deadline.flexible": "No fixed date",
+  "wizard.error.required": "Pick an option to continue.",
+
+  "offer.framing.ttc": "incl. VAT — {ht} excl. VAT",
+
+  "quote.title": "Build your quote",
+  "quote.line.base": "Launch package ({count, plural, one {# page included} other {# pages included}})",
+  "quote.line.extraPages": "Extra pages",
+  "quote.line.languages": "Extra languages",
+  "quote.line.ecommerce": "E-commerce shop",
+  "quote.line.copywriting": "Copywriting",
+  "quote.line.maintenance": "Monthly maintenance",
+  "quote.unit.perPage": "{amount} excl. VAT / page",
+  "quote.unit.perLanguage": "{amount} excl. VAT / language",
+  "quote.increase": "Add: {label}",
+  "quote.decrease": "Remove: {label}",
+  "quote.months": "{count, plural, =0 {No maintenance} one {# month} other {# months}}",
+  "quote.oneOff": "One-off payment",
+  "quote.monthly": "Monthly",
+  "quote.perMonth": "{ht} excl. VAT / month ({ttc} incl. VAT)",
+  "quote.total": "Total over the commitment",
+  "quote.ht": "Total excl. VAT",
+  "quote.vat": "VAT",
+  "quote.ttc": "Total incl. VAT",
+  "quote.attach": "Attach this quote to my request",
+  "quote.attached": "Quote attached to your request ✓",
+  "quote.attachedSummary": "Quote attached: {amount} excl. VAT{months, plural, =0 {} other { + {monthly} excl. VAT / month × #}}",
+  "quote.detach": "Remove",
+  "quote.print": "Print / PDF",
+  "quote.doc.title": "Quote",
+  "quote.doc.date": "Date: {date}",
+  "quote.doc.ref": "Ref.: {ref}",
+  "quote.doc.validity": "Valid for 30 days",
+  "quote.doc.description": "Description",
+  "quote.doc.quantity": "Qty",
+  "quote.doc.unitPrice": "Unit price excl. VAT",
+  "quote.doc.amount": "Amount excl. VAT",
+
+  "consent.banner.title": "Your privacy choices",
+  "consent.banner.text": "With your consent, we measure the site's audience (cookieless, on our own servers) to improve it. Nothing is sent before you choose, and you can change your mind at any time from the footer.",
+  "consent.acceptAll": "Accept all",
+  "consent.rejectAll": "Reject all",
+  "consent.customize": "Customise",
+  "consent.save": "Save my choices",
+  "consent.dialogTitle": "Privacy preferences",
+  "consent.close": "Close",
+  "consent.alwaysOn": "Always on",
+  "consent.manage": "Manage my privacy choices",
+  "motion.reduce": "Reduce motion",
+  "cms.preview": "Preview: drafts included",
+  "admin.title": "Received enquiries",
+  "admin.passwordLabel": "Admin password",
+  "admin.signIn": "Sign in",
+  "admin.signOut": "Sign out",
+  "admin.wrongPassword": "Wrong password.",
+  "admin.rateLimited": "Too many attempts, try again in {seconds} s.",
+  "admin.unavailable": "The dashboard is unavailable right now.",
+  "admin.loading": "Loading enquiries",
+  "admin.filter.budget": "Budget",
+  "admin.filter.maintenance": "Maintenance",
+  "admin.filter.status": "Status",
+  "admin.filter.any": "All",
+  "admin.filter.noBudget": "Not specified",
+  "admin.yes": "Yes",
+  "admin.no": "No",
+  "admin.export": "Export as CSV",
+  "admin.empty": "No enquiries match these filters.",
+  "admin.status.new": "New",
+  "admin.status.contacted": "Contacted",
+  "admin.status.quoted": "Quoted",
+  "admin.status.won": "Won",
+  "admin.status.lost": "Lost",
+  "admin.received": "Received {date} • {source}",
+  "admin.score": "Score",
+  "admin.tier.hot": "hot",
+  "admin.tier.warm": "warm",
+  "admin.tier.cold": "cold",
+  "admin.quote": "Quote (excl. VAT)",
+  "admin.notes": "Notes",
+  "admin.noteLabel": "New note",
+  "admin.addNote": "Add",
+  "admin.updateFailed": "The change wasn't saved.",
+  "consent.category.necessary.label": "Necessary",
+  "consent.category.necessary.desc": "Makes the site work: chosen language, form drafts, requests waiting to be sent and these preferences.",
+  "consent.category.analytics.label": "Audience measurement",
+  "consent.category.analytics.desc": "Anonymous visit statistics (sections viewed, clicks, forms started) to improve the site.",
+  "consent.category.marketing.label": "Marketing",
+  "consent.category.marketing.desc": "Partner advertising and retargeting tools. None are used at the moment.",
+
+  "footer.madeWith": "Made with",
+};
+
+export default en;
@@ -0,0 +1,317 @@
+/**
+ * i18n/messages/fr.ts
+ * French catalog — the reference locale. Every key must exist here; other locales fall back to it.
+ * Messages use the ICU subset documented in i18n/format.ts.
+ */
+
+const fr = {
+  "locale.name": "Français",
+  "locale.switcher": "Langue",
+
+  "nav.ariaLabel": "Navigation principale",
+  "nav.toggleMenu": "Ouvrir ou fermer le menu",
+  "nav.skipToContent": "Aller au contenu",
+  "theme.switch.light": "Passer en mode clair",
+  "theme.switch.dark": "Passer en mode sombre",
+
+  "browser.back": "Page précédente",
+  "browser.forward": "Page suivante",
+  "browser.reload": "Recharger la démo",
+  "browser.address": "Adresse de la démo",
+  "browser.devices": "Appareil",
+  "browser.device.desktop": "Ordinateur",
+  "browser.device.tablet": "Tablette",
+  "browser.device.mobile": "Mobile",
+  "browser.frameTitle": "Démo : {title}",
+  "browser.loading": "Chargement de la démo…",
+
+  "restaurant.tagline": "Restaurant gastronomique • Paris",
+  "restaurant.hours": "Ouvert aujourd'hui • {open} - {close}",
+  "restaurant.closedToday": "Fermé aujourd'hui",
+  "restaurant.menuTitle": "Menu dégustation",
+  "restaurant.menuDetails": "{courses, plural, one {# plat} other {# plats}} • {price, number, currency}",
+  "restaurant.pitch": "Expérience signée VORTEX — mise en scène, call to action et microcopy pour convertir.",
+  "restaurant.feature.photo": "Photo immersive",
+  "restaurant.feature.booking": "Réservation en 2 clics",
+  "restaurant.feature.mobileCta": "CTA fixe en bas pour mobile",
+  "restaurant.viewMenu": "Voir menu",
+  "restaurant.gallery": "Galerie",
+  "restaurant.galleryPhoto": "Photo {n} de la salle",
+  "restaurant.bookCta": "Réserver une table",
+
+  "reservation.title": "Réservez une table",
+  "reservation.nameLabel": "Nom",
+  "reservation.people": "{count, plural, one {# personne} other {# personnes}}",
+  "reservation.submit": "Réserver",
+  "reservation.confirmed": "Réservation confirmée",
+  "reservation.summary": "Merci {name} — Table pour {people} le {date} à {time}.",
+  "reservation.partyLabel": "Nombre de convives",
+  "reservation.dateLabel": "Date",
+  "reservation.slotsLabel": "Créneaux disponibles",
+  "reservation.loadingSlots": "Chargement des créneaux…",
+  "reservation.closed": "Fermé ce jour-là — choisissez une autre date.",
+  "reservation.noSlots": "Complet ce jour-là — choisissez une autre date.",
+  "reservation.error.time": "Choisissez un créneau.",
+  "reservation.error.full": "Ce créneau vient d'être complet — choisissez-en un autre.",
+  "reservation.error.generic": "Réservation impossible — vérifiez les informations.",
+  "reservation.reference": "Réf. {id}",
+  "reservation.addToCalendar": "Ajouter à mon agenda (.ics)",
+  "reservation.another": "Nouvelle réservation",
+  "calls.title": "Réserver un appel découverte",
+  "calls.subtitle": "{minutes} minutes pour parler de votre projet, sans engagement.",
+  "calls.zoneLabel": "Fuseau horaire",
+  "calls.dayLabel": "Jour",
+  "calls.slotsLabel": "Horaires disponibles",
+  "calls.loading": "Chargement des disponibilités…",
+  "calls.unavailable": "La réservation en ligne est indisponible pour le moment — écrivez-nous :",
+  "calls.noSlots": "Aucun créneau libre dans les prochaines semaines — écrivez-nous :",
+  "calls.studioTime": "Soit {time} pour le studio ({zone}).",
+  "calls.topicLabel": "Sujet de l'appel (facultatif)",
+  "calls.submit": "Confirmer l'appel",
+  "calls.submitting": "Réservation en cours",
+  "calls.error.slot": "Choisissez un horaire.",
+  "calls.error.taken": "Ce créneau vient d'être pris — choisissez-en un autre.",
+  "calls.error.generic": "Réservation impossible pour le moment, réessayez.",
+  "calls.confirmed": "Appel confirmé",
+  "calls.summary": "{date} à {time} ({zone})",
+  "calls.emailed": "L'invitation a été envoyée à {email}.",
+  "calls.addToCalendar": "Ajouter à mon agenda (.ics)",
+  "calls.another": "Réserver un autre créneau",
+  "validation.required": "Champ requis.",
+  "validation.invalid": "Valeur invalide.",
+  "validation.too_long": "Texte trop long.",
+  "validation.disposable": "Les adresses jetables ne sont pas acceptées — utilisez votre email habituel.",
+  "validation.no_mx": "Ce domaine ne reçoit pas d'emails — vérifiez l'adresse.",
+  "validation.phone": "Numéro français attendu, par exemple 06 12 34 56 78 ou +33 6 12 34 56 78.",
+
+  "realestate.tagline": "Trouvons le bien idéal.",
+  "realestate.count": "{count, plural, one {# bien} other {# biens}} en portefeuille",
+  "realestate.searchPlaceholder": "Rechercher (ex: 'loft')",
+  "realestate.searchLabel": "Rechercher un bien",
+  "realestate.cityLabel": "Ville",
+  "realestate.allCities": "Toutes les villes",
+  "realestate.typeLabel": "Type de bien",
+  "realestate.allTypes": "Tous types",
+  "realestate.type.apartment": "Appartement",
+  "realestate.type.house": "Maison",
+  "realestate.type.studio": "Studio",
+  "realestate.type.loft": "Loft",
+  "realestate.type.land": "Terrain",
+  "realestate.type.commercial": "Local commercial",
+  "realestate.bedsLabel": "Chambres",
+  "realestate.anyBeds": "Chambres : indifférent",
+  "realestate.sortLabel": "Trier par",
+  "realestate.sort.date": "Plus récents",
+  "realestate.sort.price_asc": "Prix croissant",
+  "realestate.sort.price_desc": "Prix décroissant",
+  "realestate.sort.surface": "Plus grande surface",
+  "realestate.listingMeta": "{city} • {beds, plural, =0 {Sans chambre} one {# chambre} other {# chambres}} • {surface, number} m²",
+  "realestate.results": "{count, plural, =0 {Aucun bien} one {# bien trouvé} other {# biens trouvés}}",
+  "realestate.noResults": "Aucun résultat — élargissez votre recherche.",
+  "realestate.minBudget": "Budget minimum",
+  "realestate.maxBudget": "Budget maximum",
+  "realestate.noLimit": "Sans limite",
+  "realestate.minSurface": "Surface minimale",
+  "realestate.surface": "{surface, number} m²",
+  "realestate.perMonth": "{price} / mois",
+  "realestate.page": "Page {page} sur {pages}",
+  "realestate.prevPage": "Page précédente",
+  "realestate.nextPage": "Page suivante",
+  "realestate.view": "Voir le bien",
+  "realestate.back": "← Retour aux résultats",
+  "realestate.photo": "Photo {index} sur {total}",
+  "realestate.prevPhoto": "Photo précédente",
+  "realestate.nextPhoto": "Photo suivante",
+  "realestate.ref": "Réf. {ref}",
+  "realestate.published": "Publié le {date}",
+  "realestate.baths": "{count, plural, one {# salle de bain} other {# salles de bain}}",
+  "realestate.agent.title": "Contacter l'agent",
+  "realestate.agent.message": "Bonjour, je suis intéressé(e) par « {title} » (réf. {ref}). Pouvez-vous me recontacter ?",
+  "realestate.agent.submit": "Envoyer à l'agent",
+
+  "saas.tagline": "Essai gratuit • Onboarding optimisé",
+  "saas.satisfaction": "Satisfaction B2B",
+  "saas.trialStatus.none": "Essai : non démarré",
+  "saas.trialStatus.active": "Essai : {days, plural, =0 {dernier jour} one {# jour restant} other {# jours restants}}",
+  "saas.trialStatus.expired": "Essai terminé",
+  "saas.trialStatus.free": "Compte gratuit actif",
+  "saas.billing": "Facturation",
+  "saas.cycle.monthly": "Mensuel",
+  "saas.cycle.annual": "Annuel",
+  "saas.annualDiscount": "−{percent} en annuel",
+  "saas.plans": "Formules",
+  "saas.free": "Gratuit",
+  "saas.perSeat": "{price} / utilisateur / mois",
+  "saas.features": "Fonctionnalités",
+  "saas.feature.contacts": "Contacts",
+  "saas.feature.pipelines": "Pipelines",
+  "saas.feature.onboarding": "Onboarding step-by-step",
+  "saas.feature.api": "API & webhooks",
+  "saas.feature.sso": "SSO / SAML",
+  "saas.feature.uptime": "Disponibilité garantie",
+  "saas.unlimited": "Illimité",
+  "saas.seats": "Utilisateurs",
+  "saas.billedMonthly": "HT, facturé chaque mois",
+  "saas.billedAnnually": "HT, facturé à l'année (soit {monthly} / mois)",
+  "saas.savings": "Vous économisez {amount} par an",
+  "saas.emailPlaceholder": "Email professionnel",
+  "saas.companyLabel": "Entreprise",
+  "saas.startTrial": "Commencer l'essai {days} jours",
+  "saas.startFree": "Créer mon compte gratuit",
+  "saas.error.exists": "Un compte existe déjà pour cet email.",
+  "saas.error.company": "Nom d'entreprise requis.",
+  "saas.error.generic": "Inscription impossible — réessayez.",
+  "saas.accountCreated": "Compte {plan} créé pour {company}",
+  "saas.countdown": "{days} j {hours} h {minutes} min {seconds} s restants",
+  "saas.trialEnds": "Fin de l'essai : {date}",
+  "saas.reset": "Recommencer la démo",
+
+  "contact.emailLabel": "Adresse email",
+  "contact.messagePlaceholder": "Message — parlez-nous de votre projet, objectifs, contraintes.",
+  "contact.error.nameRequired": "Nom requis.",
+  "contact.error.emailInvalid": "Email invalide.",
+  "contact.error.consentRequired": "Cochez la case de consentement pour envoyer votre demande.",
+  "contact.error.send": "Erreur d'envoi — veuillez réessayer plus tard.",
+  "contact.error.rateLimited": "Trop de demandes — réessayez dans quelques minutes.",
+  "contact.error.fields": "Vérifiez les champs signalés.",
+  "contact.success": "Merci ! Votre demande a été envoyée. Nous vous contactons sous 24h.",
+  "contact.pending": "En attente — {count, plural, one {votre demande sera envoyée} other {# demandes seront envoyées}} dès le retour de la connexion.",
+  "contact.pendingSent": "Connexion rétablie — votre demande en attente a bien été envoyée.",
+  "contact.consentLabel": "J'accepte que {brand} utilise ces informations pour répondre à ma demande.",
+  "contact.submit": "Envoyer la demande",
+  "contact.sending": "Envoi en cours…",
+  "contact.nameLabel": "Nom complet",
+  "contact.companyLabel": "Entreprise (optionnel)",
+  "contact.phoneLabel": "Téléphone (optionnel)",
+  "contact.messageLabel": "Message",
+  "contact.honeypotLabel": "Ne pas remplir ce champ",
+
+  "wizard.progress": "Étape {current} sur {total}",
+  "wizard.back": "Retour",
+  "wizard.next": "Continuer",
+  "wizard.step.project": "Projet",
+  "wizard.step.pages": "Pages",
+  "wizard.step.features": "Fonctionnalités",
+  "wizard.step.deadline": "Délai",
+  "wizard.step.budget": "Budget",
+  "wizard.step.contact": "Coordonnées",
+  "wizard.question.project": "Quel type de site souhaitez-vous ?",
+  "wizard.question.pages": "Combien de pages environ ?",
+  "wizard.question.features": "Quelles fonctionnalités vous intéressent ?",
+  "wizard.question.deadline": "Pour quand en avez-vous besoin ?",
+  "wizard.question.budget": "Quel budget envisagez-vous ?",
+  "wizard.question.contact": "Comment vous recontacter ?",
+  "wizard.features.hint": "Plusieurs choix possibles, ou aucun.",
+  "wizard.project.other": "Autre projet",
+  "wizard.pages.1": "Une page",
+  "wizard.pages.2-5": "2 à 5 pages",
+  "wizard.pages.6-10": "6 à 10 pages",
+  "wizard.pages.10+": "Plus de 10 pages",
+  "wizard.feature.booking": "Réservation en ligne",
+  "wizard.feature.listings": "Catalogue / annonces",
+  "wizard.feature.pricing": "Grille tarifaire",
+  "wizard.feature.blog": "Blog",
+  "wizard.feature.multilingual": "Multilingue",
+  "wizard.feature.ecommerce": "E-commerce",
+  "wizard.feature.seo": "SEO avancé",
+  "wizard.feature.analytics": "Statistiques",
+  "wizard.deadline.asap": "Au plus vite",
+  "wizard.deadline.1m": "Sous un mois",
+  "wizard.deadline.3m": "Sous trois mois",
+  "wizard.deadline.flexible": "Pas de date fixée",
+  "wizard.error.required": "Choisissez une option pour continuer.",
+
+  "offer.framing.ttc": "TTC — soit {ht} HT",
+
+  "quote.title": "Configurez votre devis",
+  "quote.line.base": "Pack de lancement ({count, plural, one {# page incluse} other {# pages incluses}})",
+  "quote.line.extraPages": "Pages supplémentaires",
+  "quote.line.languages": "Langues supplémentaires",
+  "quote.line.ecommerce": "Boutique e-commerce",
+  "quote.line.copywriting": "Rédaction des contenus",
+  "quote.line.maintenance": "Maintenance mensuelle",
+  "quote.unit.perPage": "{amount} HT / page",
+  "quote.unit.perLanguage": "{amount} HT / langue",
+  "quote.increase": "Ajouter : {label}",
+  "quote.decrease": "Retirer : {label}",
+  "quote.months": "{count, plural, =0 {Sans maintenance} one {# mois} other {# mois}}",
+  "quote.oneOff": "Paiement unique",
+  "quote.monthly": "Mensuel",
+  "quote.perMonth": "{ht} HT / mois ({ttc} TTC)",
+  "quote.total": "Total sur l'engagement",
+  "quote.ht": "Total HT",
+  "quote.vat": "TVA",
+  "quote.ttc": "Total TTC",
+  "quote.attach": "Joindre ce devis à ma demande",
+  "quote.attached": "Devis joint à votre demande ✓",
+  "quote.attachedSummary": "Devis joint : {amount} HT{months, plural, =0 {} other { + {monthly} HT / mois × # mois}}",
+  "quote.detach": "Retirer",
+  "quote.print": "Imprimer / PDF",
+  "quote.doc.title": "Devis",
+  "quote.doc.date": "Date : {date}",
+  "quote.doc.ref": "Réf. : {ref}",
+  "quote.doc.validity": "Devis valable 30 jours",
+  "quote.doc.description": "Désignation",
+  "quote.doc.quantity": "Qté",
+  "quote.doc.unitPrice": "Prix unitaire HT",
+  "quote.doc.amount": "Montant HT",
+
+  "consent.banner.title": "Vos choix de confidentialité",
+  "consent.banner.text": "Avec votre accord, nous mesurons l'audience du site (sans cookie, sur nos propres serveurs) pour l'améliorer. Rien n'est envoyé avant votre choix, et vous pouvez le modifier à tout moment en bas de page.",
+  "consent.acceptAll": "Tout accepter",
+  "consent.rejectAll": "Tout refuser",
+  "consent.customize": "Personnaliser",
+  "consent.save": "Enregistrer mes choix",
+  "consent.dialogTitle": "Préférences de confidentialité",
+  "consent.close": "Fermer",
+  "consent.alwaysOn": "Toujours actif",
+  "consent.manage": "Gérer mes choix de confidentialité",
+  "motion.reduce": "Réduire les animations",
+  "cms.preview": "Aperçu : brouillons inclus",
+  "admin.title": "Demandes reçues",
+  "admin.passwordLabel": "Mot de passe administrateur",
+  "admin.signIn": "Se connecter",
+  "admin.signOut": "Se déconnecter",
+  "admin.wrongPassword": "Mot de passe incorrect.",
+  "admin.rateLimited": "Trop de tentatives, réessayez dans {seconds} s.",
+  "admin.unavailable": "Le tableau de bord est indisponible pour le moment.",
+  "admin.loading": "Chargement des demandes",
+  "admin.filter.budget": "Budget",
+  "admin.filter.maintenance": "Maintenance",
+  "admin.filter.status": "Statut",
+  "admin.filter.any": "Tous",
+  "admin.filter.noBudget": "Non précisé",
+  "admin.yes": "Oui",
+  "admin.no": "Non",
+  "admin.export": "Exporter en CSV",
+  "admin.empty": "Aucune demande pour ces filtres.",
+  "admin.status.new": "Nouveau",
+  "admin.status.contacted": "Contacté",
+  "admin.status.quoted": "Devis envoyé",
+  "admin.status.won": "Gagné",
+  "admin.status.lost": "Perdu",
+  "admin.received": "Reçue le {date} • {source}",
+  "admin.score": "Score",
+  "admin.tier.hot": "chaud",
+  "admin.tier.warm": "tiède",
+  "admin.tier.cold": "froid",
+  "admin.quote": "Devis (HT)",
+  "admin.notes": "Notes",
+  "admin.noteLabel": "Nouvelle note",
+  "admin.addNote": "Ajouter",
+  "admin.updateFailed": "La modification n'a pas été enregistrée.",
+  "consent.category.necessary.label": "Nécessaires",
+  "consent.category.necessary.desc": "Fonctionnement du site : langue choisie, brouillons de formulaire, demandes en attente d'envoi et ces préférences.",
+  "consent.category.analytics.label": "Mesure d'audience",
+  "consent.category.analytics.desc": "Statistiques de visite anonymes (sections vues, clics, formulaires commencés) pour améliorer le site.",
+  "consent.category.marketing.label": "Marketing",
+  "consent.category.marketing.desc": "Outils publicitaires et de reciblage de partenaires. Aucun n'est utilisé actuellement.",
+
+  "footer.madeWith": "Fait avec",
+};
+
+export type MessageKey = keyof typeof fr;
+
+export type Catalog = Partial<Record<MessageKey, string>>;
+
+export default fr;
@@ -0,0 +1,150 @@
+import type { Lead } from "./lead";
+
+/**
+ * lib/admin.ts
+ * The leads dashboard at /admin: every lead the contact endpoint received (kept by the lead store,
+ * server/leads/store.ts), moved through the sales pipeline with notes. The API is behind the admin
+ * password, sent as a Bearer token; the page only keeps it for the browser session.
+ */
+
+/** Route section of the dashboard (lib/router.ts); its page is ADMIN_PATH. */
+export const ADMIN_SECTION = "admin";
+
+export const ADMIN_PATH = `/${ADMIN_SECTION}`;
+
+export const ADMIN_LEADS_ENDPOINT = "/api/admin/leads";
+
+export const LEAD_STATUSES = ["new", "contacted", "quoted", "won", "lost"] as const;
+
+export type LeadStatus = (typeof LEAD_STATUSES)[number];
+
+export type LeadNote = {
+  /** ISO 8601 */
+  at: string;
+  text: string;
+};
+
+export type LeadRecord = {
+  lead: Lead;
+  status: LeadStatus;
+  notes: LeadNote[];
+  /** ISO 8601 time of the last status change or note. */
+  updatedAt: string;
+};
+
+export type LeadFilter = {
+  /** A budget option's amount, or "none" for leads that didn't pick one. */
+  budget?: number | "none";
+  maintenance?: boolean;
+  status?: LeadStatus;
+};
+
+/** A status change and/or a note to add. */
+export type LeadUpdate = { id: string; status?: LeadStatus; note?: string };
+
+export type AdminLeadsResponse =
+  | { ok: true; leads: LeadRecord[] }
+  | { ok: true; lead: LeadRecord }
+  | { ok: false; error: "unauthorized" | "rate_limited" | "not_found" | "bad_request"; retryAfter?: number };
+
+export const NOTE_MAX_LENGTH = 2000;
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+
+export const isLeadStatus = (v: unknown): v is LeadStatus => typeof v === "string" && (LEAD_STATUSES as readonly string[]).includes(v);
+
+/** A freshly received lead, at the start of the pipeline. */
+export const newLeadRecord = (lead: Lead): LeadRecord => ({ lead, status: "new", notes: [], updatedAt: lead.createdAt });
+
+/* ---------------------------
+   Filters
+   --------------------------- */
+
+/** Filter from a query string (`?budget=749&maintenance=1&status=new`); unknown values are ignored. */
+export function parseLeadFilter(params: URLSearchParams): LeadFilter {
+  const filter: LeadFilter = {};
+  const budget = params.get("budget");
+  if (budget === "none") filter.budget = "none";
+  else if (budget && /^\d+$/.test(budget)) filter.budget = Number(budget);
+  const maintenance = params.get("maintenance");
+  if (maintenance === "1" || maintenance === "0") filter.maintenance = maintenance === "1";
+  const status = params.get("status");
+  if (isLeadStatus(status)) filter.status = status;
+  return filter;
+}
+
+export function leadFilterQuery(filter: LeadFilter): string {
+  const params = new URLSearchParams();
+  if (filter.budget !== undefined) params.set("budget", String(filter.budget));
+  if (filter.maintenance !== undefined) params.set("maintenance", filter.maintenance ? "1" : "0");
+  if (filter.status) params.set("status", filter.status);
+  const query = params.toString();
+  return query ? `?${query}` : "";
+}
+
+/** Records matching `filter`, newest lead first. */
+export function filterLeads(records: readonly LeadRecord[], filter: LeadFilter): LeadRecord[] {
+  return records
+    .filter(({ lead, status }) => {
+      if (filter.budget === "none" ? lead.budget !== null : filter.budget !== undefined && lead.budget !== filter.budget) return false;
+      if (filter.maintenance !== undefined && lead.maintenance !== filter.maintenance) return false;
+      return !filter.status || status === filter.status;
+    })
+    .sort((a, b) => (a.lead.createdAt < b.lead.createdAt ? 1 : a.lead.createdAt > b.lead.createdAt ? -1 : 0));
+}
+
+/** Leads per status, for the pipeline header. */
+export const countByStatus = (records: readonly LeadRecord[]) =>
+  Object.fromEntries(LEAD_STATUSES.map((s) => [s, records.filter((r) => r.status === s).length])) as Record<LeadStatus, number>;
+
+/* ---------------------------
+   Updates
+   --------------------------- */
+
+export function validateLeadUpdate(input: unknown): LeadUpdate | null {
+  if (!isObject(input) || typeof input.id !== "string" || !input.id) return null;
+  const { status, note } = input;
+  if (status !== undefined && !isLeadStatus(status)) return null;
+  if (note !== undefined && (typeof note !== "string" || !note.trim() || note.length > NOTE_MAX_LENGTH)) return null;
+  if (status === undefined && note === undefined) return null;
+  return { id: input.id, status, note: typeof note === "string" ? note.trim() : undefined };
+}
+
+export function applyLeadUpdate(record: LeadRecord, update: LeadUpdate, now = new Date()): LeadRecord {
+  const at = now.toISOString();
+  return {
+    ...record,
+    status: update.status ?? record.status,
+    notes: update.note ? [...record.notes, { at, text: update.note }] : record.notes,
+    updatedAt: at,
+  };
+}
+
+/* ---------------------------
+   Client
+   --------------------------- */
+
+const authorized = (password: string, init: RequestInit = {}): RequestInit => ({
+  ...init,
+  headers: { Accept: "application/json", Authorization: `Bearer ${password}`, ...init.headers },
+});
+
+export async function fetchLeads(password: string, filter: LeadFilter = {}, fetchImpl: typeof fetch = fetch): Promise<AdminLeadsResponse> {
+  const res = await fetchImpl(`${ADMIN_LEADS_ENDPOINT}${leadFilterQuery(filter)}`, authorized(password));
+  return (await res.json()) as AdminLeadsResponse;
+}
+
+export async function updateLead(password: string, update: LeadUpdate, fetchImpl: typeof fetch = fetch): Promise<AdminLeadsResponse> {
+  const res = await fetchImpl(
+    ADMIN_LEADS_ENDPOINT,
+    authorized(password, { method: "PATCH", headers: { "Content-Type": "application/json" }, body: JSON.stringify(update) })
+  );
+  return (await res.json()) as AdminLeadsResponse;
+}
+
+/** The filtered leads as CSV (one row per lead, notes joined); null when refused. */
+export async function fetchLeadsCsv(password: string, filter: LeadFilter = {}, fetchImpl: typeof fetch = fetch): Promise<Blob | null> {
+  const query = leadFilterQuery(filter);
+  const res = await fetchImpl(`${ADMIN_LEADS_ENDPOINT}${query ? `${query}&` : "?"}format=csv`, authorized(password, { headers: { Accept: "text/csv" } }));
+  return res.ok ? res.blob() : null;
+}
@@ -0,0 +1,282 @@
+/**
+ * lib/analytics.ts
+ * First-party event layer: a handful of named events (section views, CTA clicks, portfolio tabs, form
+ * start/abandon/submit, A/B test exposures), sent through a pluggable transport, and the funnel report
+ * computed from them.
+ *
+ * Privacy: no cookies; the session id is random per page view (the A/B visitor id of lib/experiments.ts
+ * is only kept on the device once analytics is accepted). Nothing leaves the browser before consent is
+ * granted, and Do-Not-Track / Global Privacy Control turn it off.
+ */
+
+export const ANALYTICS_ENDPOINT = "/api/analytics";
+
+export type AnalyticsEventName =
+  | "section_view"
+  | "cta_click"
+  | "portfolio_tab"
+  | "form_start"
+  | "form_abandon"
+  | "form_submit"
+  | "experiment_exposure"
+  | "experiment_conversion";
+
+export const ANALYTICS_EVENTS: readonly AnalyticsEventName[] = [
+  "section_view",
+  "cta_click",
+  "portfolio_tab",
+  "form_start",
+  "form_abandon",
+  "form_submit",
+  "experiment_exposure",
+  "experiment_conversion",
+];
+
+export type EventProps = Record<string, string | number>;
+
+export type AnalyticsEvent = {
+  name: AnalyticsEventName;
+  props: EventProps;
+  /** Page path the event happened on (no query string: it may hold personal search terms). */
+  path: string;
+  session: string;
+  /** ISO 8601 */
+  at: string;
+};
+
+export type ConsentState = "granted" | "denied" | "unknown";
+
+export type AnalyticsTransport = { name: string; send: (events: AnalyticsEvent[]) => Promise<void> | void };
+
+/** 16 hex chars, the visitor id format Matomo expects. */
+export const newSessionId = () => Array.from({ length: 16 }, () => Math.floor(Math.random() * 16).toString(16)).join("");
+
+/** Do-Not-Track or Global Privacy Control set in the browser. */
+export function trackingRefused(nav: Navigator | undefined = typeof navigator === "undefined" ? undefined : navigator): boolean {
+  if (!nav) return false;
+  const gpc = (nav as Navigator & { globalPrivacyControl?: boolean }).globalPrivacyControl;
+  return nav.doNotTrack === "1" || gpc === true;
+}
+
+/* ---------------------------
+   Transports
+   --------------------------- */
+
+export function consoleTransport(log: Pick<Console, "info"> = console): AnalyticsTransport {
+  return { name: "console", send: (events) => events.forEach((e) => log.info(`[analytics] ${e.name}`, e.props)) };
+}
+
+/** Posts batches to our own endpoint (server/analytics.ts); `sendBeacon` survives the page being closed. */
+export function beaconTransport(endpoint = ANALYTICS_ENDPOINT, fetchImpl: typeof fetch = fetch): AnalyticsTransport {
+  return {
+    name: "beacon",
+    async send(events) {
+      const body = JSON.stringify({ events });
+      if (typeof navigator !== "undefined" && navigator.sendBeacon?.(endpoint, body)) return;
+      await fetchImpl(endpoint, { method: "POST", headers: { "Content-Type": "application/json" }, body, keepalive: true });
+    },
+  };
+}
+
+/** Plausible Events API: one request per event, custom props as `props`. */
+export function plausibleTransport({
+  domain,
+  endpoint = "https://plausible.io/api/event",
+  origin = typeof location === "undefined" ? `https://${domain}` : location.origin,
+  fetchImpl = fetch,
+}: {
+  domain: string;
+  endpoint?: string;
+  origin?: string;
+  fetchImpl?: typeof fetch;
+}): AnalyticsTransport {
+  return {
+    name: "plausible",
+    async send(events) {
+      await Promise.all(
+        events.map((e) =>
+          fetchImpl(endpoint, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ name: e.name, url: origin + e.path, domain, props: e.props }),
+            keepalive: true,
+          })
+        )
+      );
+    },
+  };
+}
+
+/** Matomo bulk tracking API; events become Matomo events (category = our event name, action/name from props). */
+export function matomoTransport({ url, siteId, fetchImpl = fetch }: { url: string; siteId: number; fetchImpl?: typeof fetch }): AnalyticsTransport {
+  const base = url.replace(/\/+$/, "");
+  return {
+    name: "matomo",
+    async send(events) {
+      const requests = events.map((e) => {
+        const [action = "", label = ""] = Object.values(e.props).map(String);
+        const params = new URLSearchParams({
+          idsite: String(siteId),
+          rec: "1",
+          url: (typeof location === "undefined" ? "" : location.origin) + e.path,
+          _id: e.session,
+          cdt: e.at,
+          e_c: e.name,
+          e_a: action || e.name,
+        });
+        if (label) params.set("e_n", label);
+        return `?${params}`;
+      });
+      await fetchImpl(`${base}/matomo.php`, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ requests }), keepalive: true });
+    },
+  };
+}
+
+/* ---------------------------
+   Client
+   --------------------------- */
+
+export type Analytics = {
+  track: (name: AnalyticsEventName, props?: EventProps) => void;
+  setConsent: (state: ConsentState) => void;
+  /** Sends whatever is queued now (call it when the page is hidden). */
+  flush: () => void;
+};
+
+export function createAnalytics({
+  transport,
+  consent = "unknown",
+  refused = trackingRefused(),
+  path = () => (typeof location === "undefined" ? "/" : location.pathname),
+  now = () => new Date(),
+  session = newSessionId(),
+  batchDelay = 2000,
+  maxQueue = 100,
+}: {
+  transport: AnalyticsTransport;
+  consent?: ConsentState;
+  /** Do-Not-Track: when set, nothing is ever recorded. */
+  refused?: boolean;
+  path?: () => string;
+  now?: () => Date;
+  session?: string;
+  batchDelay?: number;
+  /** Events kept while consent is unknown; the oldest are dropped beyond that. */
+  maxQueue?: number;
+}): Analytics {
+  let state = consent;
+  let queue: AnalyticsEvent[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    if (state !== "granted" || !queue.length) return;
+    const batch = queue;
+    queue = [];
+    Promise.resolve(transport.send(batch)).catch(() => {
+      // analytics must never break the page; a lost batch is acceptable
+    });
+  };
+
+  return {
+    track(name, props = {}) {
+      if (refused || state === "denied") return;
+      queue.push({ name, props, path: path(), session, at: now().toISOString() });
+      if (queue.length > maxQueue) queue = queue.slice(-maxQueue);
+      if (state === "granted" && !timer) timer = setTimeout(flush, batchDelay);
+    },
+    setConsent(next) {
+      state = next;
+      // events recorded before the choice are sent once it's granted, forgotten otherwise
+      if (next === "granted") flush();
+      else if (next === "denied") queue = [];
+    },
+    flush,
+  };
+}
+
+/* ---------------------------
+   Funnel report
+   --------------------------- */
+
+export type FunnelStep = { id: string; matches: (e: AnalyticsEvent) => boolean };
+
+/** Visit → looked at the work → clicked a CTA → started the contact form → sent it. */
+export const DEFAULT_FUNNEL: FunnelStep[] = [
+  { id: "visit", matches: () => true },
+  { id: "portfolio", matches: (e) => (e.name === "section_view" && e.props.section === "portfolio") || e.name === "portfolio_tab" },
+  { id: "cta", matches: (e) => e.name === "cta_click" },
+  { id: "form_start", matches: (e) => e.name === "form_start" && e.props.form === "contact" },
+  { id: "form_submit", matches: (e) => e.name === "form_submit" && e.props.form === "contact" },
+];
+
+export type FunnelReport = {
+  sessions: number;
+  steps: {
+    id: string;
+    sessions: number;
+    /** Share of all sessions that reached this step (0–1). */
+    rate: number;
+    /** Share of the previous step's sessions that went on to this one (0–1). */
+    stepRate: number;
+  }[];
+  /** Abandoned forms, per form name. */
+  abandons: Record<string, number>;
+};
+
+/** Sessions reaching each step, in order: a step only counts after the previous one in the same session. */
+export function funnelReport(events: AnalyticsEvent[], steps: FunnelStep[] = DEFAULT_FUNNEL): FunnelReport {
+  const sessions = new Map<string, AnalyticsEvent[]>();
+  const abandons: Record<string, number> = {};
+  for (const e of events) {
+    const list = sessions.get(e.session);
+    if (list) list.push(e);
+    else sessions.set(e.session, [e]);
+    if (e.name === "form_abandon") abandons[String(e.props.form)] = (abandons[String(e.props.form)] ?? 0) + 1;
+  }
+
+  const reached = steps.map(() => 0);
+  for (const list of sessions.values()) {
+    list.sort((a, b) => a.at.localeCompare(b.at));
+    let step = 0;
+    for (const e of list) {
+      if (step < steps.length && steps[step].matches(e)) reached[step++]++;
+    }
+  }
+
+  const total = sessions.size;
+  return {
+    sessions: total,
+    steps: steps.map((s, i) => ({
+      id: s.id,
+      sessions: reached[i],
+      rate: total ? reached[i] / total : 0,
+      stepRate: i === 0 ? (total ? reached[0] / total : 0) : reached[i - 1] ? reached[i] / reached[i - 1] : 0,
+    })),
+    abandons,
+  };
+}
+
+/** Validates a batch posted by `beaconTransport`; malformed events are dropped. */
+export function parseEventBatch(input: unknown, maxEvents = 50): AnalyticsEvent[] {
+  const events = typeof input === "object" && input !== null ? (input as { events?: unknown }).events : undefined;
+  if (!Array.isArray(events)) return [];
+  return events.slice(0, maxEvents).flatMap((raw): AnalyticsEvent[] => {
+    if (typeof raw !== "object" || raw === null) return [];
+    const { name, props, path, session, at } = raw as Record<string, unknown>;
+    // conversions are only recorded by the contact endpoint (lib/experiments.ts), never taken from the page
+    if (!(ANALYTICS_EVENTS as readonly unknown[]).includes(name) || name === "experiment_conversion") return [];
+    if (typeof path !== "string" || !path.startsWith("/") || path.length > 200) return [];
+    if (typeof session !== "string" || !/^[0-9a-f]{16}$/.test(session)) return [];
+    if (typeof at !== "string" || Number.isNaN(Date.parse(at))) return [];
+    const cleanProps: EventProps = {};
+    if (typeof props === "object" && props !== null) {
+      for (const [k, v] of Object.entries(props).slice(0, 10)) {
+        if (typeof v === "number" && Number.isFinite(v)) cleanProps[k.slice(0, 40)] = v;
+        else if (typeof v === "string") cleanProps[k.slice(0, 40)] = v.slice(0, 100);
+      }
+    }
+    return [{ name: name as AnalyticsEventName, props: cleanProps, path, session, at: new Date(at).toISOString() }];
+  });
+}
@@ -0,0 +1,274 @@
+import { icsCalendar } from "./ics";
+import { addDays, fromMinutes, isValidDate, nowIn, TIME_RE, toMinutes, weekdayOf, zonedTimeToUtc } from "./time";
+import { FieldErrors, Rule, Schema, email, matches, maxLength, required, validateSchema } from "./validation";
+
+/**
+ * lib/booking.ts
+ * Table-booking engine for restaurant clients: opening hours, table capacities, slot duration and
+ * blackout dates produce the available slots; a booking takes the smallest free table that fits.
+ *
+ * The engine only needs a `BookingStore`, so the same service runs in the browser against the
+ * in-memory store (the portfolio demo) and on the server behind /api/booking with a JSON file
+ * (see server/booking.ts).
+ */
+
+export const BOOKING_ENDPOINT = "/api/booking";
+
+export type BookingConfig = {
+  venue: { name: string; address: string };
+  /** IANA zone the opening hours are expressed in. */
+  timeZone: string;
+  /** Services per weekday (0 = Sunday) as ["HH:MM", "HH:MM"]; an empty list means closed. */
+  openingHours: Record<number, [open: string, close: string][]>;
+  /** Spacing between bookable start times. */
+  slotMinutes: number;
+  /** How long a table is held; the last slot of a service ends at closing time. */
+  durationMinutes: number;
+  tables: { id: string; seats: number }[];
+  /** "YYYY-MM-DD" days with no bookings (holidays, private events). */
+  blackoutDates: string[];
+  maxPartySize: number;
+  maxDaysAhead: number;
+  /** Same-day bookings must start at least this far in the future. */
+  minNoticeMinutes: number;
+};
+
+export type Booking = {
+  id: string;
+  date: string;
+  time: string;
+  partySize: number;
+  name: string;
+  email: string | null;
+  tableId: string;
+  /** ISO 8601 timestamp. */
+  createdAt: string;
+};
+
+export type BookingRequest = { date: string; time: string; partySize: number; name: string; email?: string };
+
+export type BookingErrors = FieldErrors<keyof BookingRequest>;
+
+const calendarDate: Rule = (v) => (!v || isValidDate(v) ? null : "invalid");
+
+/** The fields the visitor fills in, as the reservation form and the service check them. */
+export const BOOKING_SCHEMA: Schema<"date" | "time" | "name" | "email"> = {
+  date: [required, calendarDate],
+  time: [required, matches(TIME_RE)],
+  name: [required, maxLength(120)],
+  email: [maxLength(254), email],
+};
+
+export type Slot = { time: string; available: boolean };
+
+export type DaySlots = { date: string; closed: boolean; slots: Slot[] };
+
+export type BookingResult =
+  | { ok: true; booking: Booking; ics: string }
+  | { ok: false; error: "validation"; fields: BookingErrors }
+  | { ok: false; error: "closed" | "full" };
+
+/** Le Comptoir Vortex, the restaurant shown in the portfolio (12:00–23:00 every day). */
+export const DEMO_BOOKING_CONFIG: BookingConfig = {
+  venue: { name: "Le Comptoir Vortex", address: "12 rue de la Paix, 75002 Paris" },
+  timeZone: "Europe/Paris",
+  openingHours: Object.fromEntries([0, 1, 2, 3, 4, 5, 6].map((d) => [d, [["12:00", "23:00"]]])),
+  slotMinutes: 30,
+  durationMinutes: 90,
+  tables: [
+    { id: "T1", seats: 2 },
+    { id: "T2", seats: 2 },
+    { id: "T3", seats: 4 },
+    { id: "T4", seats: 4 },
+    { id: "T5", seats: 6 },
+    { id: "T6", seats: 8 },
+  ],
+  blackoutDates: ["2026-12-25", "2027-01-01"],
+  maxPartySize: 8,
+  maxDaysAhead: 60,
+  minNoticeMinutes: 60,
+};
+
+/* ---------------------------
+   Store
+   --------------------------- */
+
+export interface BookingStore {
+  forDate: (date: string) => Promise<Booking[]>;
+  /**
+   * Inserts what `decide` returns for the bookings already on `date` (nothing when it returns null).
+   * Implementations must serialize calls so two visitors can't get the same table.
+   */
+  insertIf: (date: string, decide: (existing: Booking[]) => Booking | null) => Promise<Booking | null>;
+}
+
+export function memoryBookingStore(initial: Booking[] = []): BookingStore {
+  const bookings = [...initial];
+  return {
+    forDate: async (date) => bookings.filter((b) => b.date === date),
+    // synchronous between read and write, so already atomic
+    insertIf: async (date, decide) => {
+      const booking = decide(bookings.filter((b) => b.date === date));
+      if (booking) bookings.push(booking);
+      return booking;
+    },
+  };
+}
+
+/* ---------------------------
+   Availability
+   --------------------------- */
+
+/** Start times of every service on `date`, ignoring existing bookings. */
+function serviceStarts(config: BookingConfig, date: string): number[] {
+  if (config.blackoutDates.includes(date)) return [];
+  const starts: number[] = [];
+  for (const [open, close] of config.openingHours[weekdayOf(date)] ?? []) {
+    for (let t = toMinutes(open); t + config.durationMinutes <= toMinutes(close); t += config.slotMinutes) starts.push(t);
+  }
+  return starts;
+}
+
+/** Smallest table seating `partySize` that is free for the whole duration starting at `start`. */
+function freeTable(config: BookingConfig, existing: Booking[], start: number, partySize: number) {
+  const end = start + config.durationMinutes;
+  const taken = new Set(
+    existing.filter((b) => toMinutes(b.time) < end && start < toMinutes(b.time) + config.durationMinutes).map((b) => b.tableId)
+  );
+  return [...config.tables].sort((a, b) => a.seats - b.seats).find((t) => t.seats >= partySize && !taken.has(t.id)) ?? null;
+}
+
+/** Whether `date` is in the bookable window (not past, not too far ahead). */
+function inWindow(config: BookingConfig, date: string, now: Date) {
+  const today = nowIn(config.timeZone, now).date;
+  return date >= today && date <= addDays(today, config.maxDaysAhead);
+}
+
+export function availableSlots(config: BookingConfig, existing: Booking[], date: string, partySize: number, now = new Date()): DaySlots {
+  const starts = inWindow(config, date, now) ? serviceStarts(config, date) : [];
+  const { date: today, minutes } = nowIn(config.timeZone, now);
+  return {
+    date,
+    closed: starts.length === 0,
+    slots: starts.map((t) => ({
+      time: fromMinutes(t),
+      available: (date !== today || t >= minutes + config.minNoticeMinutes) && freeTable(config, existing, t, partySize) !== null,
+    })),
+  };
+}
+
+/* ---------------------------
+   Validation, booking & confirmation
+   --------------------------- */
+
+export function validateBookingRequest(
+  input: unknown,
+  config: BookingConfig
+): { ok: true; value: BookingRequest } | { ok: false; fields: BookingErrors } {
+  const raw = (typeof input === "object" && input !== null ? input : {}) as Record<string, unknown>;
+  const text = (key: string) => (typeof raw[key] === "string" ? (raw[key] as string).trim() : "");
+  const value: BookingRequest = {
+    date: text("date"),
+    time: text("time"),
+    partySize: typeof raw.partySize === "number" ? raw.partySize : Number.NaN,
+    name: text("name"),
+    email: text("email") || undefined,
+  };
+
+  const fields: BookingErrors = validateSchema(BOOKING_SCHEMA, value);
+  // picked from the form's list, bounded by the venue's largest table
+  if (!Number.isInteger(value.partySize) || value.partySize < 1 || value.partySize > config.maxPartySize) fields.partySize = "invalid";
+
+  return Object.keys(fields).length ? { ok: false, fields } : { ok: true, value };
+}
+
+export function bookingIcs(booking: Booking, config: BookingConfig): string {
+  const start = zonedTimeToUtc(booking.date, booking.time, config.timeZone);
+  return icsCalendar([
+    {
+      uid: `${booking.id}@booking.vortex`,
+      start,
+      end: new Date(start.getTime() + config.durationMinutes * 60_000),
+      summary: `${config.venue.name} — ${booking.partySize} pers.`,
+      description: `Réservation ${booking.id} au nom de ${booking.name}`,
+      location: `${config.venue.name}, ${config.venue.address}`,
+      stamp: new Date(booking.createdAt),
+    },
+  ]);
+}
+
+export type BookingService = {
+  slots: (date: string, partySize: number) => Promise<DaySlots>;
+  book: (input: unknown) => Promise<BookingResult>;
+};
+
+export function createBookingService({
+  config,
+  store,
+  now = () => new Date(),
+  newId = () => `B-${Date.now().toString(36).toUpperCase()}${Math.random().toString(36).slice(2, 6).toUpperCase()}`,
+}: {
+  config: BookingConfig;
+  store: BookingStore;
+  now?: () => Date;
+  newId?: () => string;
+}): BookingService {
+  return {
+    async slots(date, partySize) {
+      return availableSlots(config, await store.forDate(date), date, partySize, now());
+    },
+
+    async book(input) {
+      const result = validateBookingRequest(input, config);
+      if (!result.ok) return { ok: false, error: "validation", fields: result.fields };
+      const req = result.value;
+
+      const at = now();
+      const outcome: { refusal: "closed" | "off_grid" | "full" } = { refusal: "full" };
+      const booking = await store.insertIf(req.date, (existing) => {
+        // re-checked inside the store's critical section: the slot list the visitor saw may be stale
+        const day = availableSlots(config, existing, req.date, req.partySize, at);
+        const slot = day.slots.find((s) => s.time === req.time);
+        if (!slot) {
+          outcome.refusal = day.closed ? "closed" : "off_grid";
+          return null;
+        }
+        const table = slot.available ? freeTable(config, existing, toMinutes(req.time), req.partySize) : null;
+        if (!table) return null;
+        return {
+          id: newId(),
+          date: req.date,
+          time: req.time,
+          partySize: req.partySize,
+          name: req.name,
+          email: req.email ?? null,
+          tableId: table.id,
+          createdAt: at.toISOString(),
+        };
+      });
+
+      if (!booking) {
+        const { refusal } = outcome;
+        return refusal === "off_grid" ? { ok: false, error: "validation", fields: { time: "invalid" } } : { ok: false, error: refusal };
+      }
+      return { ok: true, booking, ics: bookingIcs(booking, config) };
+    },
+  };
+}
+
+/** Same service, backed by the /api/booking endpoint. */
+export function httpBookingService(endpoint = BOOKING_ENDPOINT, fetchImpl: typeof fetch = fetch): BookingService {
+  return {
+    async slots(date, partySize) {
+      const res = await fetchImpl(`${endpoint}?${new URLSearchParams({ date, party: String(partySize) })}`);
+      if (!res.ok) throw new Error(`Booking slots failed (${res.status})`);
+      return (await res.json()) as DaySlots;
+    },
+    async book(input) {
+      const res = await fetchImpl(endpoint, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(input) });
+      const body = (await res.json().catch(() => null)) as BookingResult | null;
+      if (!body) throw new Error(`Booking failed (${res.status})`);
+      return body;
+    },
+  };
+}
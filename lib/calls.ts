@@ -0,0 +1,338 @@
+import { icsCalendar } from "./ics";
+import { TIME_RE, addDays, fromMinutes, isValidDate, nowIn, toMinutes, weekdayOf, zonedTimeToUtc } from "./time";
+import { FieldErrors, Schema, email, isValidEmail, maxLength, required, validateSchema } from "./validation";
+
+/**
+ * lib/calls.ts
+ * Discovery calls booked from the contact section: the studio's weekly schedule and its exceptions
+ * (holidays, a day with different hours) give the free call slots; a booking takes one for good and
+ * comes with an .ics invite. No booking SaaS involved.
+ *
+ * The schedule is written in the studio's time zone; slots travel as UTC instants and the page shows
+ * them in the visitor's zone. Like lib/booking.ts, the engine only needs a `CallStore`: the server keeps
+ * calls in a JSON file (server/calls.ts).
+ */
+
+export const CALLS_ENDPOINT = "/api/calls";
+
+type Window = [start: string, end: string];
+
+export type CallSchedule = {
+  /** IANA zone the windows below are expressed in. */
+  timeZone: string;
+  /** Bookable windows per weekday (0 = Sunday) as ["HH:MM", "HH:MM"]; missing or empty means no calls. */
+  weekly: Record<number, Window[]>;
+  /** Days that don't follow the weekly schedule; `windows: []` closes the day. */
+  exceptions: { date: string; windows: Window[] }[];
+  durationMinutes: number;
+  /** Spacing between bookable start times. */
+  slotMinutes: number;
+  /** Free time kept after a call before the next one may start. */
+  bufferMinutes: number;
+  /** Calls must be booked at least this far ahead. */
+  minNoticeMinutes: number;
+  maxDaysAhead: number;
+  organizer: { name: string; email: string };
+  /** Where the call happens, e.g. the studio's video room. */
+  location: string;
+};
+
+export type CallBooking = {
+  id: string;
+  /** ISO 8601 UTC instant. */
+  start: string;
+  name: string;
+  email: string;
+  /** Optional agenda from the prospect. */
+  topic: string | null;
+  /** The visitor's zone, for the confirmation they read. */
+  timeZone: string;
+  /** When the prospect agreed to their details being used (ISO 8601), as for contact leads. */
+  consentAt: string;
+  /** ISO 8601 timestamp. */
+  createdAt: string;
+};
+
+export type CallRequest = { start: string; name: string; email: string; topic?: string; timeZone: string; consentAt: string };
+
+export type CallErrors = FieldErrors<keyof CallRequest>;
+
+/** The fields the visitor types, as the call form and the endpoint check them. */
+export const CALL_SCHEMA: Schema<"name" | "email" | "topic"> = {
+  name: [required, maxLength(120)],
+  email: [required, maxLength(254), email],
+  topic: [maxLength(1000)],
+};
+
+export type CallSlots = {
+  /** Free start instants (ISO 8601 UTC), soonest first. */
+  slots: string[];
+  durationMinutes: number;
+  /** The studio's zone, shown next to the visitor's. */
+  timeZone: string;
+};
+
+export type CallResult =
+  | { ok: true; booking: CallBooking; ics: string; emailed: boolean }
+  | { ok: false; error: "validation"; fields: CallErrors }
+  | { ok: false; error: "taken" };
+
+/** Tuesday to Friday, 10:00–12:00 and 14:00–17:30, Paris time; the studio closes over Christmas. */
+export const STUDIO_CALL_SCHEDULE: CallSchedule = {
+  timeZone: "Europe/Paris",
+  weekly: {
+    2: [["10:00", "12:00"], ["14:00", "17:30"]],
+    3: [["10:00", "12:00"], ["14:00", "17:30"]],
+    4: [["10:00", "12:00"], ["14:00", "17:30"]],
+    5: [["10:00", "12:00"]],
+  },
+  exceptions: [
+    { date: "2026-12-22", windows: [] },
+    { date: "2026-12-23", windows: [] },
+    { date: "2026-12-24", windows: [] },
+    { date: "2026-12-30", windows: [] },
+    { date: "2026-12-31", windows: [] },
+  ],
+  durationMinutes: 20,
+  slotMinutes: 30,
+  bufferMinutes: 10,
+  minNoticeMinutes: 12 * 60,
+  maxDaysAhead: 21,
+  organizer: { name: "VORTEX", email: "hello@vortex.agency" },
+  location: "Visio — le lien est dans l'invitation",
+};
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+
+const isWindow = (w: unknown) => Array.isArray(w) && w.length === 2 && w.every((t) => typeof t === "string" && TIME_RE.test(t)) && w[0] < w[1];
+
+/** Checks a schedule from a config file; every problem is listed. */
+export function validateCallSchedule(input: unknown): { ok: true; value: CallSchedule } | { ok: false; issues: string[] } {
+  if (!isObject(input)) return { ok: false, issues: ["expected an object"] };
+  const issues: string[] = [];
+  try {
+    new Intl.DateTimeFormat("en", { timeZone: String(input.timeZone) });
+  } catch {
+    issues.push(`timeZone: unknown time zone "${input.timeZone}"`);
+  }
+  if (!isObject(input.weekly)) issues.push("weekly: expected windows per weekday");
+  else
+    for (const [day, windows] of Object.entries(input.weekly)) {
+      if (!/^[0-6]$/.test(day)) issues.push(`weekly.${day}: expected a weekday (0 = Sunday … 6 = Saturday)`);
+      if (!Array.isArray(windows) || !windows.every(isWindow)) issues.push(`weekly.${day}: expected [["HH:MM", "HH:MM"], ...]`);
+    }
+  if (!Array.isArray(input.exceptions)) issues.push("exceptions: expected an array");
+  else
+    input.exceptions.forEach((e, i) => {
+      if (!isObject(e) || typeof e.date !== "string" || !isValidDate(e.date) || !Array.isArray(e.windows) || !e.windows.every(isWindow)) {
+        issues.push(`exceptions[${i}]: expected { date: "YYYY-MM-DD", windows: [["HH:MM", "HH:MM"], ...] }`);
+      }
+    });
+  for (const key of ["durationMinutes", "slotMinutes", "maxDaysAhead"] as const) {
+    const v = input[key];
+    if (typeof v !== "number" || !Number.isInteger(v) || v < 1) issues.push(`${key}: expected an integer >= 1`);
+  }
+  for (const key of ["bufferMinutes", "minNoticeMinutes"] as const) {
+    const v = input[key];
+    if (typeof v !== "number" || !Number.isInteger(v) || v < 0) issues.push(`${key}: expected an integer >= 0`);
+  }
+  if (!isObject(input.organizer) || typeof input.organizer.name !== "string" || typeof input.organizer.email !== "string" || !isValidEmail(input.organizer.email)) {
+    issues.push("organizer: expected { name, email }");
+  }
+  if (typeof input.location !== "string" || !input.location.trim()) issues.push("location: expected a non-empty string");
+  return issues.length ? { ok: false, issues } : { ok: true, value: input as CallSchedule };
+}
+
+/* ---------------------------
+   Store
+   --------------------------- */
+
+export interface CallStore {
+  /** Calls starting at or after `from` (ISO 8601). */
+  upcoming: (from: string) => Promise<CallBooking[]>;
+  /**
+   * Inserts what `decide` returns given the calls already booked (nothing when it returns null).
+   * Implementations must serialize calls so two prospects can't book the same slot.
+   */
+  insertIf: (decide: (existing: CallBooking[]) => CallBooking | null) => Promise<CallBooking | null>;
+}
+
+export function memoryCallStore(initial: CallBooking[] = []): CallStore {
+  const calls = [...initial];
+  return {
+    upcoming: async (from) => calls.filter((c) => c.start >= from),
+    // synchronous between read and write, so already atomic
+    insertIf: async (decide) => {
+      const call = decide(calls);
+      if (call) calls.push(call);
+      return call;
+    },
+  };
+}
+
+/* ---------------------------
+   Availability
+   --------------------------- */
+
+const windowsOn = (schedule: CallSchedule, date: string) =>
+  schedule.exceptions.find((e) => e.date === date)?.windows ?? schedule.weekly[weekdayOf(date)] ?? [];
+
+/**
+ * Free start instants from now to `maxDaysAhead` days out: inside a window, after the minimum notice,
+ * and clear (buffer included) of every booked call. Times that don't happen on a switch night are left out.
+ */
+export function availableCallSlots(schedule: CallSchedule, existing: CallBooking[], now = new Date()): string[] {
+  const length = schedule.durationMinutes * 60_000;
+  const buffer = schedule.bufferMinutes * 60_000;
+  const booked = existing.map((c) => Date.parse(c.start));
+  const earliest = now.getTime() + schedule.minNoticeMinutes * 60_000;
+  const today = nowIn(schedule.timeZone, now).date;
+
+  const slots: string[] = [];
+  for (let i = 0; i <= schedule.maxDaysAhead; i++) {
+    const date = addDays(today, i);
+    for (const [open, close] of windowsOn(schedule, date)) {
+      for (let t = toMinutes(open); t + schedule.durationMinutes <= toMinutes(close); t += schedule.slotMinutes) {
+        const start = zonedTimeToUtc(date, fromMinutes(t), schedule.timeZone).getTime();
+        // a time the clocks skip (spring forward) would land on a later slot of the list
+        if (nowIn(schedule.timeZone, new Date(start)).minutes !== t) continue;
+        if (start < earliest) continue;
+        if (booked.some((b) => start < b + length + buffer && b < start + length + buffer)) continue;
+        slots.push(new Date(start).toISOString());
+      }
+    }
+  }
+  return slots;
+}
+
+/* ---------------------------
+   Validation, booking & invite
+   --------------------------- */
+
+const INSTANT_RE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/;
+
+const isTimeZone = (zone: string) => {
+  try {
+    new Intl.DateTimeFormat("en", { timeZone: zone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export function validateCallRequest(input: unknown): { ok: true; value: CallRequest } | { ok: false; fields: CallErrors } {
+  const raw = isObject(input) ? input : {};
+  const text = (key: string) => (typeof raw[key] === "string" ? (raw[key] as string).trim() : "");
+  const value: CallRequest = {
+    start: text("start"),
+    name: text("name"),
+    email: text("email"),
+    topic: text("topic") || undefined,
+    timeZone: text("timeZone"),
+    consentAt: text("consentAt"),
+  };
+
+  const fields: CallErrors = validateSchema(CALL_SCHEMA, value);
+  if (!value.start) fields.start = "required";
+  else if (!INSTANT_RE.test(value.start) || Number.isNaN(Date.parse(value.start))) fields.start = "invalid";
+  if (!value.timeZone || !isTimeZone(value.timeZone)) fields.timeZone = "invalid";
+  if (!value.consentAt) fields.consentAt = "required";
+  else if (Number.isNaN(Date.parse(value.consentAt))) fields.consentAt = "invalid";
+  else value.consentAt = new Date(value.consentAt).toISOString();
+
+  return Object.keys(fields).length ? { ok: false, fields } : { ok: true, value };
+}
+
+/** Invite for both sides: the studio organizes, the prospect attends. */
+export function callIcs(call: CallBooking, schedule: CallSchedule): string {
+  const start = new Date(call.start);
+  return icsCalendar(
+    [
+      {
+        uid: `${call.id}@calls.vortex`,
+        start,
+        end: new Date(start.getTime() + schedule.durationMinutes * 60_000),
+        summary: `Appel découverte ${schedule.organizer.name} — ${call.name}`,
+        description: call.topic ?? undefined,
+        location: schedule.location,
+        organizer: schedule.organizer,
+        attendees: [{ name: call.name, email: call.email }],
+        stamp: new Date(call.createdAt),
+      },
+    ],
+    { method: "REQUEST" }
+  );
+}
+
+export type CallService = {
+  slots: () => Promise<CallSlots>;
+  book: (input: unknown) => Promise<CallResult>;
+};
+
+export function createCallService({
+  schedule,
+  store,
+  now = () => new Date(),
+  newId = () => `C-${Date.now().toString(36).toUpperCase()}${Math.random().toString(36).slice(2, 6).toUpperCase()}`,
+  invite,
+}: {
+  schedule: CallSchedule;
+  store: CallStore;
+  now?: () => Date;
+  newId?: () => string;
+  /** Sends the invite by email; a failure is reported as `emailed: false`, the call stays booked. */
+  invite?: (call: CallBooking, ics: string) => Promise<void>;
+}): CallService {
+  const slotsAt = async (at: Date) => availableCallSlots(schedule, await store.upcoming(new Date(at.getTime() - 86_400_000).toISOString()), at);
+
+  return {
+    async slots() {
+      return { slots: await slotsAt(now()), durationMinutes: schedule.durationMinutes, timeZone: schedule.timeZone };
+    },
+
+    async book(input) {
+      const result = validateCallRequest(input);
+      if (!result.ok) return { ok: false, error: "validation", fields: result.fields };
+      const req = result.value;
+      const start = new Date(req.start).toISOString();
+
+      const at = now();
+      const call = await store.insertIf((existing) => {
+        // re-checked inside the store's critical section: the slots the visitor saw may be stale
+        if (!availableCallSlots(schedule, existing, at).includes(start)) return null;
+        return {
+          id: newId(),
+          start,
+          name: req.name,
+          email: req.email,
+          topic: req.topic ?? null,
+          timeZone: req.timeZone,
+          consentAt: req.consentAt,
+          createdAt: at.toISOString(),
+        };
+      });
+      if (!call) return { ok: false, error: "taken" };
+
+      const ics = callIcs(call, schedule);
+      const emailed = invite ? await invite(call, ics).then(() => true, () => false) : false;
+      return { ok: true, booking: call, ics, emailed };
+    },
+  };
+}
+
+/** Same service, backed by the /api/calls endpoint. */
+export function httpCallService(endpoint = CALLS_ENDPOINT, fetchImpl: typeof fetch = fetch): CallService {
+  return {
+    async slots() {
+      const res = await fetchImpl(endpoint, { headers: { Accept: "application/json" } });
+      if (!res.ok) throw new Error(`Call slots failed (${res.status})`);
+      return (await res.json()) as CallSlots;
+    },
+    async book(input) {
+      const res = await fetchImpl(endpoint, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(input) });
+      const body = (await res.json().catch(() => null)) as CallResult | null;
+      if (!body) throw new Error(`Call booking failed (${res.status})`);
+      return body;
+    },
+  };
+}
@@ -0,0 +1,152 @@
+import { DATE_RE, addDays, isValidDate, nowIn, weekdayOf } from "./time";
+
+/**
+ * lib/capacity.ts
+ * Studio availability from the real project calendar: how many projects the team runs at once, the
+ * projects already committed and the closures give the genuine start dates a new client can get.
+ * CTABox shows those, and a neutral message when the calendar is missing, invalid or stale — never a
+ * made-up number.
+ *
+ * The calendar is a JSON document (see `CapacityCalendar`): served by /api/capacity (server/capacity.ts),
+ * which answers with the computed availability, or hosted as a static file the page computes from.
+ */
+
+export const CAPACITY_ENDPOINT = "/api/capacity";
+
+export type DateRange = {
+  /** "YYYY-MM-DD", inclusive. */
+  start: string;
+  /** "YYYY-MM-DD", inclusive. */
+  end: string;
+};
+
+export type CapacityCalendar = {
+  /** IANA zone "today" is taken in. */
+  timeZone: string;
+  /** Projects the team can run at the same time. */
+  parallelProjects: number;
+  /** Calendar days a launch project occupies a seat. */
+  projectDays: number;
+  /** Days between the first call and the earliest possible start (briefing, content gathering). */
+  leadDays: number;
+  /** Weekdays a project can start on (0 = Sunday … 6 = Saturday). */
+  startWeekdays: number[];
+  /** Committed projects. */
+  projects: DateRange[];
+  /** Periods nobody starts a project (holidays). */
+  closures: DateRange[];
+  /** ISO 8601; a calendar older than `maxAgeDays` is not trusted any more. */
+  updatedAt: string;
+};
+
+export type Availability = {
+  /** Next genuine start dates, "YYYY-MM-DD", soonest first. */
+  startDates: string[];
+  /** Projects that can still start within the next `windowDays`. */
+  slots: number;
+  windowDays: number;
+};
+
+export type CapacityResponse = { ok: true; availability: Availability } | { ok: false; error: "unavailable" | "bad_request" };
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+
+const count = (v: unknown, min: number) => typeof v === "number" && Number.isInteger(v) && v >= min;
+
+function rangeIssues(v: unknown, path: string): string[] {
+  if (!Array.isArray(v)) return [`${path}: expected an array`];
+  return v.flatMap((r, i) =>
+    isObject(r) && typeof r.start === "string" && typeof r.end === "string" && isValidDate(r.start) && isValidDate(r.end) && r.start <= r.end
+      ? []
+      : [`${path}[${i}]: expected { start, end } dates (YYYY-MM-DD, start <= end)`]
+  );
+}
+
+/** Checks an untrusted calendar (JSON file, remote document); every problem is listed. */
+export function validateCapacityCalendar(input: unknown): { ok: true; value: CapacityCalendar } | { ok: false; issues: string[] } {
+  if (!isObject(input)) return { ok: false, issues: ["expected an object"] };
+  const issues: string[] = [];
+  if (typeof input.timeZone !== "string") issues.push("timeZone: expected an IANA time zone");
+  else {
+    try {
+      new Intl.DateTimeFormat("en", { timeZone: input.timeZone });
+    } catch {
+      issues.push(`timeZone: unknown time zone "${input.timeZone}"`);
+    }
+  }
+  if (!count(input.parallelProjects, 1)) issues.push("parallelProjects: expected an integer >= 1");
+  if (!count(input.projectDays, 1)) issues.push("projectDays: expected an integer >= 1");
+  if (!count(input.leadDays, 0)) issues.push("leadDays: expected an integer >= 0");
+  if (!Array.isArray(input.startWeekdays) || !input.startWeekdays.length || !input.startWeekdays.every((d) => count(d, 0) && (d as number) <= 6)) {
+    issues.push("startWeekdays: expected weekday numbers (0 = Sunday … 6 = Saturday)");
+  }
+  issues.push(...rangeIssues(input.projects, "projects"), ...rangeIssues(input.closures, "closures"));
+  if (typeof input.updatedAt !== "string" || Number.isNaN(Date.parse(input.updatedAt))) issues.push("updatedAt: expected an ISO 8601 date");
+  return issues.length ? { ok: false, issues } : { ok: true, value: input as CapacityCalendar };
+}
+
+const inRange = (date: string, r: DateRange) => r.start <= date && date <= r.end;
+
+/**
+ * Start dates a new project could really get: on a start weekday, outside closures, with a seat free for
+ * its whole length. Each start found takes its seat before the next one is looked for, so `slots` counts
+ * projects that can all be taken on, not the same seat several times. Null when the calendar is older than
+ * `maxAgeDays`: out-of-date availability isn't shown.
+ */
+export function computeAvailability(
+  calendar: CapacityCalendar,
+  { now = new Date(), windowDays = 30, maxDates = 3, horizonDays = 180, maxAgeDays = 14 } = {}
+): Availability | null {
+  if (now.getTime() - Date.parse(calendar.updatedAt) > maxAgeDays * 86_400_000) return null;
+
+  const today = nowIn(calendar.timeZone, now).date;
+  const windowEnd = addDays(today, windowDays);
+  const booked = [...calendar.projects];
+  const load = (date: string) => booked.filter((p) => inRange(date, p)).length;
+  const fits = (start: string) => {
+    for (let i = 0; i < calendar.projectDays; i++) if (load(addDays(start, i)) >= calendar.parallelProjects) return false;
+    return true;
+  };
+
+  const startDates: string[] = [];
+  let slots = 0;
+  // tomorrow at the earliest: a start "today" is never genuinely on offer
+  for (let date = addDays(today, Math.max(1, calendar.leadDays)); date <= addDays(today, horizonDays); date = addDays(date, 1)) {
+    if (!calendar.startWeekdays.includes(weekdayOf(date)) || calendar.closures.some((c) => inRange(date, c))) continue;
+    if (date > windowEnd && startDates.length >= maxDates) break;
+    while (fits(date)) {
+      booked.push({ start: date, end: addDays(date, calendar.projectDays - 1) });
+      if (startDates[startDates.length - 1] !== date && startDates.length < maxDates) startDates.push(date);
+      if (date <= windowEnd) slots++;
+    }
+  }
+  return { startDates, slots, windowDays };
+}
+
+const isAvailability = (v: unknown): v is Availability =>
+  isObject(v) &&
+  Array.isArray(v.startDates) &&
+  v.startDates.every((d) => typeof d === "string" && DATE_RE.test(d)) &&
+  count(v.slots, 0) &&
+  count(v.windowDays, 1);
+
+/**
+ * Client side: availability from `source`, either the /api/capacity endpoint (computed availability) or a
+ * static calendar JSON (computed here). Null whenever it can't be trusted — network error, bad document,
+ * stale calendar — so the caller shows its neutral copy.
+ */
+export async function fetchAvailability(
+  source = CAPACITY_ENDPOINT,
+  { fetchImpl = fetch, now = new Date() }: { fetchImpl?: typeof fetch; now?: Date } = {}
+): Promise<Availability | null> {
+  try {
+    const res = await fetchImpl(source, { headers: { Accept: "application/json" } });
+    if (!res.ok) return null;
+    const body: unknown = await res.json();
+    if (isObject(body) && "ok" in body) return body.ok === true && isAvailability(body.availability) ? body.availability : null;
+    const calendar = validateCapacityCalendar(body);
+    return calendar.ok ? computeAvailability(calendar.value, { now }) : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,164 @@
+import type { ComparisonRow, FaqEntry, LocalizedSiteContent, PortfolioCopy, SiteContent, Testimonial } from "../content/schema";
+import { MINI_SITE_KEY_RE } from "../content/schema";
+import { Locale, isLocale } from "../i18n/locales";
+
+/**
+ * lib/cms.ts
+ * Copy the team edits without a deploy: FAQ entries, testimonials, comparison rows and portfolio
+ * descriptions. They are kept as entries in a content source (server/cms/: markdown files in the repo or
+ * a headless CMS), laid over the client's SiteContent at build time (server/prerender.ts) and again in
+ * the browser from /api/content, so a published change shows up on the next page load.
+ *
+ * For a collection that has entries in a locale, the entries replace that locale's list; collections
+ * without entries keep the copy from the content module. Drafts only show in preview mode.
+ */
+
+export const CONTENT_ENDPOINT = "/api/content";
+
+export type Collection = "faq" | "testimonials" | "comparison" | "portfolio";
+
+export const COLLECTIONS: readonly Collection[] = ["faq", "testimonials", "comparison", "portfolio"];
+
+type EntryMeta = {
+  /** Unique within a collection and locale; for "portfolio", the demo's mini-site key. */
+  id: string;
+  locale: Locale;
+  /** Position in the list (ascending); ties are ordered by id. */
+  order: number;
+  draft: boolean;
+};
+
+export type ContentEntry = EntryMeta &
+  (
+    | { collection: "faq"; data: FaqEntry }
+    | { collection: "testimonials"; data: Testimonial }
+    | { collection: "comparison"; data: ComparisonRow }
+    | { collection: "portfolio"; data: PortfolioCopy }
+  );
+
+export type ContentResponse = { ok: true; entries: ContentEntry[]; preview: boolean } | { ok: false; error: "unavailable" | "unauthorized" | "bad_request" };
+
+/* ---------------------------
+   Validation
+   --------------------------- */
+
+export type EntriesImport = { entries: ContentEntry[]; skipped: { index: number; reason: string }[] };
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+
+const text = (v: unknown) => typeof v === "string" && v.trim() !== "";
+
+const REQUIRED: Record<Exclude<Collection, "portfolio">, string[]> = {
+  faq: ["q", "a"],
+  testimonials: ["quote", "author", "avatarColor"],
+  comparison: ["feature", "vortex", "wix", "freelance"],
+};
+
+function dataIssue(collection: Collection, data: Record<string, unknown>): string | null {
+  if (collection !== "portfolio") {
+    const missing = REQUIRED[collection].filter((k) => !text(data[k]));
+    return missing.length ? `missing ${missing.join(", ")}` : null;
+  }
+  if (!text(data.desc)) return "missing desc";
+  const { details } = data;
+  if (details === undefined) return null;
+  const valid = Array.isArray(details) && details.every((b) => isObject(b) && text(b.title) && Array.isArray(b.items) && b.items.length && b.items.every(text));
+  return valid ? null : "details: expected [{ title, items: [...] }]";
+}
+
+/**
+ * Checks untrusted entries (a remote CMS, files edited by hand). Invalid ones are skipped and reported
+ * instead of failing the whole import, as are duplicates of an earlier collection/locale/id.
+ */
+export function parseContentEntries(input: unknown): EntriesImport {
+  const result: EntriesImport = { entries: [], skipped: [] };
+  if (!Array.isArray(input)) {
+    result.skipped.push({ index: -1, reason: "expected an array of entries" });
+    return result;
+  }
+  const seen = new Set<string>();
+  input.forEach((raw, index) => {
+    const skip = (reason: string) => void result.skipped.push({ index, reason });
+    if (!isObject(raw)) return skip("not an object");
+    const { collection, id, locale, order = 0, draft = false, data } = raw;
+    if (!COLLECTIONS.includes(collection as Collection)) return skip(`unknown collection ${String(collection)}`);
+    if (typeof id !== "string" || !id) return skip("missing id");
+    if (collection === "portfolio" && !MINI_SITE_KEY_RE.test(id)) return skip(`id "${id}" is not a mini-site key`);
+    if (!isLocale(locale)) return skip(`unsupported locale ${String(locale)}`);
+    if (typeof order !== "number" || !Number.isFinite(order)) return skip("order: expected a number");
+    if (typeof draft !== "boolean") return skip("draft: expected true or false");
+    if (!isObject(data)) return skip("missing data");
+    const issue = dataIssue(collection as Collection, data);
+    if (issue) return skip(issue);
+    const key = `${collection}/${locale}/${id}`;
+    if (seen.has(key)) return skip(`duplicate ${key}`);
+    seen.add(key);
+    result.entries.push(raw as ContentEntry);
+  });
+  return result;
+}
+
+/* ---------------------------
+   Applying entries
+   --------------------------- */
+
+const byOrder = (a: ContentEntry, b: ContentEntry) => a.order - b.order || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+
+function applyLocale(content: SiteContent, entries: ContentEntry[]): SiteContent {
+  const of = <C extends Collection>(collection: C) =>
+    entries.filter((e): e is Extract<ContentEntry, { collection: C }> => e.collection === collection).sort(byOrder);
+  const faq = of("faq");
+  const testimonials = of("testimonials");
+  const comparison = of("comparison");
+  const portfolio = of("portfolio");
+  return {
+    ...content,
+    faq: faq.length ? { ...content.faq, items: faq.map((e) => e.data) } : content.faq,
+    testimonials: testimonials.length ? { ...content.testimonials, items: testimonials.map((e) => e.data) } : content.testimonials,
+    comparison: comparison.length ? { ...content.comparison, rows: comparison.map((e) => e.data) } : content.comparison,
+    portfolio: portfolio.length
+      ? { ...content.portfolio, copy: { ...content.portfolio.copy, ...Object.fromEntries(portfolio.map((e) => [e.id, e.data])) } }
+      : content.portfolio,
+  };
+}
+
+/**
+ * `content` with the entries laid over each of its locales. Entries for a locale the content doesn't
+ * define are ignored (that locale renders the fallback content, entries included). Drafts are dropped
+ * unless `preview` is set.
+ */
+export function applyContentEntries(content: LocalizedSiteContent, entries: readonly ContentEntry[], { preview = false } = {}): LocalizedSiteContent {
+  const visible = entries.filter((e) => preview || !e.draft);
+  if (!visible.length) return content;
+  const result: LocalizedSiteContent = { ...content };
+  for (const locale of Object.keys(content) as Locale[]) {
+    const own = visible.filter((e) => e.locale === locale);
+    if (own.length) result[locale] = applyLocale(content[locale]!, own);
+  }
+  return result;
+}
+
+/* ---------------------------
+   Client
+   --------------------------- */
+
+/**
+ * Client side: the published entries, or drafts included with a preview token (the `?preview=` of a
+ * preview link). Null on any failure, and the page keeps the copy it was built with.
+ */
+export async function fetchContentEntries({
+  previewToken,
+  fetchImpl = fetch,
+}: { previewToken?: string; fetchImpl?: typeof fetch } = {}): Promise<{ entries: ContentEntry[]; preview: boolean } | null> {
+  try {
+    const res = await fetchImpl(previewToken ? `${CONTENT_ENDPOINT}?preview=1` : CONTENT_ENDPOINT, {
+      headers: { Accept: "application/json", ...(previewToken ? { Authorization: `Bearer ${previewToken}` } : {}) },
+    });
+    if (!res.ok) return null;
+    const body: unknown = await res.json();
+    if (!isObject(body) || body.ok !== true) return null;
+    return { entries: parseContentEntries(body.entries).entries, preview: body.preview === true };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * lib/consent.ts
+ * The visitor's privacy choices (GDPR / ePrivacy): which optional categories they accept, stored on the
+ * device with the version of the consent notice they saw. Bumping CONSENT_VERSION (new purpose, new
+ * vendor) makes every stored choice stale, so the banner asks again.
+ */
+
+export const CONSENT_VERSION = 1;
+
+export const CONSENT_STORAGE_KEY = "vortex.consent";
+
+export type ConsentCategory = "necessary" | "analytics" | "marketing";
+
+/** In display order. "necessary" can't be turned off: the site doesn't work without it. */
+export const CONSENT_CATEGORIES: readonly ConsentCategory[] = ["necessary", "analytics", "marketing"];
+
+export type OptionalCategory = Exclude<ConsentCategory, "necessary">;
+
+export type ConsentPreferences = Record<OptionalCategory, boolean>;
+
+export type ConsentRecord = {
+  version: number;
+  categories: ConsentPreferences;
+  /** ISO 8601, when the visitor made the choice (kept as proof of consent). */
+  decidedAt: string;
+};
+
+export const ALL_GRANTED: ConsentPreferences = { analytics: true, marketing: true };
+export const ALL_DENIED: ConsentPreferences = { analytics: false, marketing: false };
+
+export const makeConsentRecord = (categories: ConsentPreferences, now = new Date()): ConsentRecord => ({
+  version: CONSENT_VERSION,
+  categories: { analytics: categories.analytics === true, marketing: categories.marketing === true },
+  decidedAt: now.toISOString(),
+});
+
+/** Stored choice, or null when there is none, it's malformed, or it was made on an older notice. */
+export function parseConsentRecord(raw: string | null, version = CONSENT_VERSION): ConsentRecord | null {
+  if (!raw) return null;
+  try {
+    const value = JSON.parse(raw) as Partial<ConsentRecord> | null;
+    if (!value || value.version !== version || typeof value.decidedAt !== "string" || Number.isNaN(Date.parse(value.decidedAt))) return null;
+    const categories = value.categories as Partial<ConsentPreferences> | undefined;
+    if (typeof categories?.analytics !== "boolean" || typeof categories.marketing !== "boolean") return null;
+    return { version, categories: { analytics: categories.analytics, marketing: categories.marketing }, decidedAt: value.decidedAt };
+  } catch {
+    return null;
+  }
+}
+
+/** Whether `category` may be used under `record`; without a (current) choice only "necessary" is. */
+export const consentAllows = (record: ConsentRecord | null, category: ConsentCategory) =>
+  category === "necessary" || record?.categories[category] === true;
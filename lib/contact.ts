@@ -0,0 +1,126 @@
+import { ExperimentContext, parseExperimentContext } from "./experiments";
+import { Qualification, parseQualification } from "./qualification";
+import { QuoteConfig, parseQuoteConfig } from "./quote";
+import { FieldErrors, Schema, email, frenchPhone, maxLength, normalizeFrenchPhone, required, validateSchema } from "./validation";
+
+/**
+ * lib/contact.ts
+ * Contact submission payload shared by the contact forms (client) and the /api/contact endpoint (server),
+ * and the schema both validate it with (lib/validation.ts).
+ */
+
+export const CONTACT_ENDPOINT = "/api/contact";
+
+export type ContactSubmission = {
+  name: string;
+  email: string;
+  /** Optional French number; the endpoint stores it as "+33…". Absent from submissions queued before it existed. */
+  phone?: string;
+  company: string;
+  message: string;
+  /** Budget option value from SiteContent.contact.budgets (e.g. "749"). */
+  budget: string;
+  maintenance: boolean;
+  /** UI locale the visitor used, so replies can match it. */
+  locale: string;
+  /** Page section the form was submitted from (e.g. "contact", "realestate-listing"). */
+  source: string;
+  /** Wizard answers; absent for short forms (e.g. contact-the-agent). */
+  qualification?: Qualification | null;
+  /** Configuration from the OfferCard quote configurator, when the visitor attached one. */
+  quote?: QuoteConfig | null;
+  /** ISO 8601 time the visitor ticked the consent box (agreeing to be contacted about this request). */
+  consentAt: string;
+  /** A/B test variants the visitor saw (lib/experiments.ts), only sent when they accepted analytics. */
+  experiments?: ExperimentContext | null;
+  /** Honeypot: always empty for humans. */
+  hp: string;
+};
+
+/** Field → error code. Codes are stable so the client can map them to translated messages. */
+export type ContactErrors = FieldErrors<keyof ContactSubmission>;
+
+export type ContactResponse =
+  | { ok: true }
+  | { ok: false; error: "validation"; fields: ContactErrors }
+  | { ok: false; error: "rate_limited"; retryAfter: number }
+  | { ok: false; error: "bad_request" | "delivery_failed" };
+
+export type ContactField = "name" | "email" | "phone" | "company" | "message" | "budget" | "locale" | "source" | "hp";
+
+/** The text fields, as the forms and the endpoint check them. */
+export const CONTACT_SCHEMA: Schema<ContactField> = {
+  name: [required, maxLength(120)],
+  email: [required, maxLength(254), email],
+  phone: [maxLength(40), frenchPhone],
+  company: [maxLength(160)],
+  message: [maxLength(5000)],
+  budget: [maxLength(20)],
+  locale: [maxLength(10)],
+  source: [maxLength(40)],
+  hp: [maxLength(200)],
+};
+
+/**
+ * Normalises and validates an untrusted payload. Unknown fields are dropped, strings are trimmed.
+ */
+export function validateContactSubmission(
+  input: unknown
+): { ok: true; value: ContactSubmission } | { ok: false; fields: ContactErrors } {
+  const raw = (typeof input === "object" && input !== null ? input : {}) as Record<string, unknown>;
+  const text = (key: ContactField) => (typeof raw[key] === "string" ? (raw[key] as string).trim() : "");
+
+  const value: ContactSubmission = {
+    name: text("name"),
+    email: text("email"),
+    phone: text("phone"),
+    company: text("company"),
+    message: text("message"),
+    budget: text("budget"),
+    maintenance: raw.maintenance === true,
+    locale: text("locale") || "fr",
+    source: text("source") || "contact",
+    qualification: parseQualification(raw.qualification),
+    quote: parseQuoteConfig(raw.quote),
+    consentAt: typeof raw.consentAt === "string" ? raw.consentAt.trim() : "",
+    // attribution data: a malformed value is dropped rather than costing the lead
+    experiments: parseExperimentContext(raw.experiments),
+    hp: text("hp"),
+  };
+
+  const fields: ContactErrors = validateSchema(CONTACT_SCHEMA, value);
+  if (raw.qualification != null && !value.qualification) fields.qualification = "invalid";
+  if (raw.quote != null && !value.quote) fields.quote = "invalid";
+  // stored in one form whatever the visitor typed ("06 12…", "+33 6…")
+  if (value.phone && !fields.phone) value.phone = normalizeFrenchPhone(value.phone) ?? value.phone;
+  if (!value.consentAt) fields.consentAt = "required";
+  else if (Number.isNaN(Date.parse(value.consentAt))) fields.consentAt = "invalid";
+  else value.consentAt = new Date(value.consentAt).toISOString();
+
+  return Object.keys(fields).length ? { ok: false, fields } : { ok: true, value };
+}
+
+/**
+ * Client-side POST to the contact endpoint, classified for the retry queue: network errors, 5xx and
+ * 429 are worth retrying, any other refusal is final.
+ */
+export async function postContact(
+  payload: ContactSubmission,
+  fetchImpl: typeof fetch = fetch
+): Promise<{ status: "sent" } | { status: "retry"; retryAfterMs?: number; response?: ContactResponse | null } | { status: "rejected"; reason: ContactResponse | null }> {
+  let res: Response;
+  try {
+    res = await fetchImpl(CONTACT_ENDPOINT, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+  } catch {
+    return { status: "retry" };
+  }
+  const body: ContactResponse | null = await res.json().catch(() => null);
+  if (body?.ok) return { status: "sent" };
+  if (body?.error === "rate_limited") return { status: "retry", retryAfterMs: body.retryAfter * 1000, response: body };
+  if (res.status >= 500) return { status: "retry", response: body };
+  return { status: "rejected", reason: body };
+}
@@ -0,0 +1,170 @@
+import type { AnalyticsEvent } from "./analytics";
+
+/**
+ * lib/experiments.ts
+ * A/B tests on the site's own copy. A visitor is assigned a variant by hashing their visitor id with the
+ * experiment id, so the same visitor always lands in the same variant (no assignment table to keep) and
+ * variants get traffic in proportion to their weights.
+ *
+ * Exposures are analytics events (`experiment_exposure`, sent by the page); conversions are recorded by
+ * /api/contact when a lead arrives with the visitor's assignments (`experiment_conversion`). The readout
+ * compares each variant with the control using a two-proportion z-test.
+ */
+
+export type ExperimentVariant = {
+  /** URL-safe id; the first variant of an experiment is the control. */
+  id: string;
+  /** Relative share of traffic; 0 switches a variant off. */
+  weight: number;
+};
+
+export type Experiment = { id: string; variants: ExperimentVariant[] };
+
+/** Experiment id → variant id. */
+export type Assignments = Record<string, string>;
+
+/** What a contact submission carries so its conversion can be attributed. */
+export type ExperimentContext = { visitor: string; variants: Assignments };
+
+/**
+ * The tests running on the site. Variant copy lives in the site content (`hero.titleVariants`,
+ * `cta.variants`); a variant a client's content has no copy for is shown, and counted, as the control.
+ */
+export const SITE_EXPERIMENTS: Experiment[] = [
+  { id: "hero-headline", variants: [{ id: "control", weight: 1 }, { id: "outcome", weight: 1 }] },
+  // price shown excl. VAT (control) or incl. VAT first
+  { id: "offer-price", variants: [{ id: "control", weight: 1 }, { id: "ttc", weight: 1 }] },
+  { id: "cta-urgency", variants: [{ id: "control", weight: 1 }, { id: "reassurance", weight: 1 }] },
+];
+
+const ID_RE = /^[a-z][a-z0-9-]{0,31}$/;
+
+const VISITOR_RE = /^[0-9a-f]{16}$/;
+
+/** FNV-1a, mapped to [0, 1). Stable across browsers and the server, unlike Math.random. */
+export function hashUnit(key: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    h ^= key.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0) / 2 ** 32;
+}
+
+/** Variant of `experiment` for `visitor`; the control when every weight is 0. */
+export function assignVariant(experiment: Experiment, visitor: string): string {
+  const [control] = experiment.variants;
+  const total = experiment.variants.reduce((sum, v) => sum + Math.max(0, v.weight), 0);
+  if (!total) return control.id;
+  let point = hashUnit(`${experiment.id}:${visitor}`) * total;
+  for (const v of experiment.variants) {
+    point -= Math.max(0, v.weight);
+    if (point < 0) return v.id;
+  }
+  return control.id;
+}
+
+/** Validates the `experiments` field of an untrusted contact payload; null when absent or malformed. */
+export function parseExperimentContext(input: unknown, maxExperiments = 10): ExperimentContext | null {
+  if (typeof input !== "object" || input === null) return null;
+  const { visitor, variants } = input as Record<string, unknown>;
+  if (typeof visitor !== "string" || !VISITOR_RE.test(visitor)) return null;
+  if (typeof variants !== "object" || variants === null || Array.isArray(variants)) return null;
+  const entries = Object.entries(variants);
+  if (entries.length > maxExperiments || !entries.every(([k, v]) => ID_RE.test(k) && typeof v === "string" && ID_RE.test(v))) return null;
+  return { visitor, variants: Object.fromEntries(entries) as Assignments };
+}
+
+/** One `experiment_conversion` event per experiment the converting visitor was in. */
+export function conversionEvents(context: ExperimentContext, at: string): AnalyticsEvent[] {
+  return Object.entries(context.variants).map(([experiment, variant]) => ({
+    name: "experiment_conversion",
+    props: { experiment, variant, visitor: context.visitor },
+    path: "/",
+    session: context.visitor,
+    at,
+  }));
+}
+
+/* ---------------------------
+   Readout
+   --------------------------- */
+
+export type VariantResult = {
+  id: string;
+  /** Distinct visitors exposed to the variant. */
+  visitors: number;
+  /** Of those, visitors who sent the contact form. */
+  conversions: number;
+  rate: number;
+  /** Relative difference with the control's rate (0.1 = +10%); null for the control or a 0% control. */
+  lift: number | null;
+  /** Two-sided p-value against the control; null for the control or without data on either side. */
+  pValue: number | null;
+  significant: boolean;
+};
+
+export type ExperimentResult = { experiment: string; control: string; variants: VariantResult[] };
+
+/** Standard normal CDF (Abramowitz & Stegun 7.1.26, |error| < 1.5e-7). */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/** Two-sided p-value of a pooled two-proportion z-test. */
+export function twoProportionPValue(c0: number, n0: number, c1: number, n1: number): number | null {
+  if (!n0 || !n1) return null;
+  const pooled = (c0 + c1) / (n0 + n1);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / n0 + 1 / n1));
+  if (!se) return 1;
+  const z = (c1 / n1 - c0 / n0) / se;
+  return 2 * (1 - normalCdf(Math.abs(z)));
+}
+
+/**
+ * Per experiment and variant: visitors exposed, visitors converted, and the significance of the
+ * difference with the control. A conversion only counts for a visitor exposed to that same variant.
+ * The control is the variant listed first in `experiments`, or else the one named "control".
+ */
+export function experimentReport(events: AnalyticsEvent[], { experiments = [], alpha = 0.05 }: { experiments?: Experiment[]; alpha?: number } = {}): ExperimentResult[] {
+  // experiment → variant → visitors
+  const exposed = new Map<string, Map<string, Set<string>>>();
+  const converted = new Map<string, Map<string, Set<string>>>();
+  const add = (index: Map<string, Map<string, Set<string>>>, e: AnalyticsEvent) => {
+    const { experiment, variant, visitor } = e.props;
+    if (typeof experiment !== "string" || typeof variant !== "string" || typeof visitor !== "string") return;
+    const byVariant = index.get(experiment) ?? index.set(experiment, new Map()).get(experiment)!;
+    (byVariant.get(variant) ?? byVariant.set(variant, new Set()).get(variant)!).add(visitor);
+  };
+  for (const e of events) {
+    if (e.name === "experiment_exposure") add(exposed, e);
+    else if (e.name === "experiment_conversion") add(converted, e);
+  }
+
+  return [...exposed].map(([experiment, byVariant]) => {
+    const declared = experiments.find((x) => x.id === experiment)?.variants.map((v) => v.id) ?? [];
+    const ids = [...new Set([...declared, ...byVariant.keys()])];
+    const control = declared[0] ?? (byVariant.has("control") ? "control" : ids[0]);
+    const counts = (id: string) => {
+      const visitors = byVariant.get(id) ?? new Set<string>();
+      const wins = converted.get(experiment)?.get(id) ?? new Set<string>();
+      const conversions = [...wins].filter((v) => visitors.has(v)).length;
+      return { visitors: visitors.size, conversions, rate: visitors.size ? conversions / visitors.size : 0 };
+    };
+    const base = counts(control);
+    return {
+      experiment,
+      control,
+      variants: [control, ...ids.filter((id) => id !== control)].map((id): VariantResult => {
+        const c = counts(id);
+        if (id === control) return { id, ...c, lift: null, pValue: null, significant: false };
+        const pValue = twoProportionPValue(base.conversions, base.visitors, c.conversions, c.visitors);
+        return { id, ...c, lift: base.rate ? c.rate / base.rate - 1 : null, pValue, significant: pValue !== null && pValue < alpha };
+      }),
+    };
+  });
+}
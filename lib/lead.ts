@@ -0,0 +1,105 @@
+import type { Pricing } from "../content/schema";
+import type { ContactSubmission } from "./contact";
+import type { ExperimentContext } from "./experiments";
+import { LeadScore, Qualification, scoreLead } from "./qualification";
+import { PricedQuote, priceQuote } from "./quote";
+
+/**
+ * lib/lead.ts
+ * Typed Lead model — what every delivery sink receives, instead of a flattened message string.
+ */
+
+export type Lead = {
+  id: string;
+  name: string;
+  company: string | null;
+  email: string;
+  /** "+33…", null when the visitor didn't give one (and on leads received before the field existed). */
+  phone: string | null;
+  /** Budget in whole currency units, null when the visitor didn't pick one. */
+  budget: number | null;
+  currency: string;
+  maintenance: boolean;
+  message: string;
+  /** Page section the lead came from (e.g. "contact", "realestate-listing"). */
+  source: string;
+  locale: string;
+  /** Wizard answers and the score computed from them (null for short forms). */
+  qualification: Qualification | null;
+  score: LeadScore | null;
+  /** Attached quote, re-priced server side (null when none was attached). */
+  quote: PricedQuote | null;
+  /** ISO 8601 time the visitor consented to be contacted (the form's consent box). */
+  consentAt: string;
+  /** A/B test variants the visitor saw before sending (null without analytics consent). */
+  experiments: ExperimentContext | null;
+  /** ISO 8601 timestamp of reception. */
+  createdAt: string;
+};
+
+export function leadFromSubmission(
+  s: ContactSubmission,
+  { id, now = new Date(), currency = "EUR", pricing }: { id: string; now?: Date; currency?: string; pricing?: Pricing }
+): Lead {
+  const parsed = Number.parseInt(s.budget, 10);
+  const budget = Number.isFinite(parsed) ? parsed : null;
+  const qualification = s.qualification ?? null;
+  return {
+    id,
+    name: s.name,
+    company: s.company || null,
+    email: s.email,
+    phone: s.phone || null,
+    budget,
+    currency,
+    maintenance: s.maintenance,
+    message: s.message,
+    source: s.source,
+    locale: s.locale,
+    qualification,
+    score: qualification ? scoreLead(qualification, { budget, maintenance: s.maintenance, company: s.company, message: s.message }) : null,
+    quote: s.quote && pricing ? priceQuote(s.quote, pricing) : null,
+    consentAt: s.consentAt,
+    experiments: s.experiments ?? null,
+    createdAt: now.toISOString(),
+  };
+}
+
+/** Human-readable summary, for sinks that only carry text (email, Web3Forms). */
+export function leadSummary(lead: Lead): string {
+  return [
+    lead.message || "(pas de message)",
+    "",
+    `Nom: ${lead.name}`,
+    `Email: ${lead.email}`,
+    `Téléphone: ${lead.phone ?? "—"}`,
+    `Entreprise: ${lead.company ?? "—"}`,
+    `Budget présumé: ${lead.budget === null ? "—" : `${lead.budget} ${lead.currency}`}`,
+    `Maintenance: ${lead.maintenance ? "Oui" : "Non"}`,
+    `Source: ${lead.source}`,
+    ...(lead.qualification
+      ? [
+          `Projet: ${lead.qualification.projectType} — ${lead.qualification.pages} page(s)`,
+          `Fonctionnalités: ${lead.qualification.features.join(", ") || "—"}`,
+          `Délai: ${lead.qualification.deadline}`,
+        ]
+      : []),
+    ...(lead.score ? [`Score: ${lead.score.score}/100 (${lead.score.tier})`] : []),
+    ...(lead.quote
+      ? [
+          `Devis: ${lead.quote.lines.map((l) => `${l.key} ×${l.quantity}`).join(", ")}`,
+          `Devis total: ${lead.quote.oneOff.ht} ${lead.quote.currency} HT` +
+            (lead.quote.config.maintenanceMonths ? ` + ${lead.quote.monthly.ht} ${lead.quote.currency} HT/mois × ${lead.quote.config.maintenanceMonths}` : ""),
+        ]
+      : []),
+    ...(lead.experiments
+      ? [`Tests A/B: ${Object.entries(lead.experiments.variants).map(([experiment, variant]) => `${experiment}=${variant}`).join(", ")}`]
+      : []),
+    `Langue: ${lead.locale}`,
+    `Consentement: ${lead.consentAt}`,
+    `Reçu le: ${lead.createdAt}`,
+    `Réf: ${lead.id}`,
+  ].join("\n");
+}
+
+export const leadSubject = (lead: Lead, brand: string) => `Nouveau lead — ${brand} (${lead.company ?? "sans entreprise"})`;
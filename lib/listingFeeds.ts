@@ -0,0 +1,153 @@
+import { Agent, Listing, PROPERTY_TYPES, PropertyType } from "./listings";
+import { XmlNode, children, child, parseXml, textOf } from "./xml";
+
+/**
+ * lib/listingFeeds.ts
+ * Turns agency feeds into `Listing`s:
+ *
+ * - JSON feed: `{ agent?, listings: [...] }` with entries shaped like `Listing` (see content/listings.ts).
+ * - Kyero XML v3, the XML format most portals and agency CRMs export (`<root><property>…`).
+ *
+ * Invalid entries are skipped and reported instead of failing the whole import.
+ */
+
+export type FeedImport = { listings: Listing[]; skipped: { index: number; reason: string }[] };
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+
+const positive = (v: unknown) => (typeof v === "number" && Number.isFinite(v) && v >= 0 ? v : null);
+
+function parseAgent(v: unknown): Agent | null {
+  if (!isObject(v) || typeof v.name !== "string" || typeof v.email !== "string") return null;
+  return { name: v.name, email: v.email, phone: typeof v.phone === "string" ? v.phone : undefined };
+}
+
+export function importJsonFeed(feed: unknown): FeedImport {
+  const result: FeedImport = { listings: [], skipped: [] };
+  if (!isObject(feed) || !Array.isArray(feed.listings)) {
+    result.skipped.push({ index: -1, reason: "expected { listings: [...] }" });
+    return result;
+  }
+  const defaultAgent = parseAgent(feed.agent);
+
+  feed.listings.forEach((raw, index) => {
+    const skip = (reason: string) => void result.skipped.push({ index, reason });
+    if (!isObject(raw)) return skip("not an object");
+    const { id, ref, title, type, transaction, currency, city, description, publishedAt } = raw;
+    const price = positive(raw.price);
+    const surface = positive(raw.surface);
+    const beds = positive(raw.beds);
+    const agent = parseAgent(raw.agent) ?? defaultAgent;
+
+    if (typeof id !== "string" || !id) return skip("missing id");
+    if (typeof title !== "string" || !title) return skip("missing title");
+    if (typeof city !== "string" || !city) return skip("missing city");
+    if (!PROPERTY_TYPES.includes(type as PropertyType)) return skip(`unknown type ${String(type)}`);
+    if (price === null || surface === null || beds === null) return skip("price, surface and beds must be positive numbers");
+    if (typeof publishedAt !== "string" || Number.isNaN(Date.parse(publishedAt))) return skip("invalid publishedAt");
+    if (!agent) return skip("missing agent");
+
+    result.listings.push({
+      id,
+      ref: typeof ref === "string" && ref ? ref : id,
+      title,
+      type: type as PropertyType,
+      transaction: transaction === "rent" ? "rent" : "sale",
+      price,
+      currency: typeof currency === "string" ? currency : "EUR",
+      city,
+      postcode: typeof raw.postcode === "string" ? raw.postcode : undefined,
+      surface,
+      beds,
+      baths: positive(raw.baths) ?? undefined,
+      description: typeof description === "string" ? description : "",
+      images: Array.isArray(raw.images) ? raw.images.filter((u): u is string => typeof u === "string") : [],
+      agent,
+      publishedAt: new Date(publishedAt).toISOString(),
+    });
+  });
+  return result;
+}
+
+/* ---------------------------
+   Kyero XML v3
+   --------------------------- */
+
+/** Kyero property types → ours; anything unknown is treated as an apartment. */
+const KYERO_TYPES: Record<string, PropertyType> = {
+  apartment: "apartment",
+  flat: "apartment",
+  penthouse: "apartment",
+  duplex: "apartment",
+  studio: "studio",
+  loft: "loft",
+  house: "house",
+  villa: "house",
+  townhouse: "house",
+  "country house": "house",
+  bungalow: "house",
+  land: "land",
+  plot: "land",
+  commercial: "commercial",
+  office: "commercial",
+  "business premises": "commercial",
+};
+
+/** Text in the preferred language, falling back to English then to whatever is there. */
+const localized = (node: XmlNode | undefined, lang: string) =>
+  textOf(node, lang) || textOf(node, "en") || node?.children.find((c) => c.text.trim())?.text.trim() || "";
+
+export function parseKyeroFeed(xml: string, { agent, lang = "fr" }: { agent: Agent; lang?: string }): FeedImport {
+  const result: FeedImport = { listings: [], skipped: [] };
+  const root = child(parseXml(xml), "root");
+  if (!root) {
+    result.skipped.push({ index: -1, reason: "missing <root>" });
+    return result;
+  }
+
+  children(root, "property").forEach((p, index) => {
+    const skip = (reason: string) => void result.skipped.push({ index, reason });
+    const id = textOf(p, "id");
+    const price = Number(textOf(p, "price"));
+    const town = textOf(p, "town");
+    const surface = Number(textOf(child(p, "surface_area"), "built") || 0);
+    const description = localized(child(p, "desc"), lang);
+    const date = textOf(p, "date").replace(" ", "T");
+
+    if (!id) return skip("missing <id>");
+    if (!town) return skip("missing <town>");
+    if (!Number.isFinite(price) || price <= 0) return skip("invalid <price>");
+
+    result.listings.push({
+      id,
+      ref: textOf(p, "ref") || id,
+      // Kyero has no title field: the first sentence of the description stands in for it
+      title: description.split(/[.!\n]/)[0].slice(0, 80) || town,
+      type: KYERO_TYPES[textOf(p, "type").toLowerCase()] ?? "apartment",
+      transaction: textOf(p, "price_freq") === "sale" || !textOf(p, "price_freq") ? "sale" : "rent",
+      price,
+      currency: textOf(p, "currency") || "EUR",
+      city: town,
+      postcode: textOf(p, "postcode") || undefined,
+      surface: Number.isFinite(surface) ? surface : 0,
+      beds: Number(textOf(p, "beds")) || 0,
+      baths: Number(textOf(p, "baths")) || undefined,
+      description,
+      images: children(child(p, "images"), "image")
+        .map((img) => textOf(img, "url"))
+        .filter(Boolean),
+      agent,
+      publishedAt: Number.isNaN(Date.parse(date)) ? new Date(0).toISOString() : new Date(date).toISOString(),
+    });
+  });
+  return result;
+}
+
+/** Downloads a feed and picks the parser from its content type (XML → Kyero, anything else → JSON). */
+export async function fetchListingsFeed(url: string, agent: Agent, fetchImpl: typeof fetch = fetch): Promise<FeedImport> {
+  const res = await fetchImpl(url);
+  if (!res.ok) throw new Error(`Listings feed ${url} answered ${res.status}`);
+  const body = await res.text();
+  const isXml = (res.headers.get("content-type") ?? "").includes("xml") || body.trimStart().startsWith("<");
+  return isXml ? parseKyeroFeed(body, { agent }) : importJsonFeed({ agent, ...JSON.parse(body) });
+}
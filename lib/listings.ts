@@ -0,0 +1,149 @@
+/**
+ * lib/listings.ts
+ * Real-estate listings: model, multi-criteria search, sorting, pagination and the URL form of a
+ * search (so a filtered view can be shared or restored on reload). Feeds are turned into `Listing`s
+ * by lib/listingFeeds.ts.
+ */
+
+export type PropertyType = "apartment" | "house" | "studio" | "loft" | "land" | "commercial";
+
+export const PROPERTY_TYPES: readonly PropertyType[] = ["apartment", "house", "studio", "loft", "land", "commercial"];
+
+export type Agent = { name: string; email: string; phone?: string };
+
+export type Listing = {
+  id: string;
+  /** Agency reference, shown to visitors and quoted in enquiries. */
+  ref: string;
+  title: string;
+  type: PropertyType;
+  transaction: "sale" | "rent";
+  /** Sale price, or monthly rent. */
+  price: number;
+  currency: string;
+  city: string;
+  postcode?: string;
+  /** Living area in m². */
+  surface: number;
+  beds: number;
+  baths?: number;
+  description: string;
+  /** Image URLs, first one is the cover. */
+  images: string[];
+  agent: Agent;
+  /** ISO 8601 date the listing went live. */
+  publishedAt: string;
+};
+
+export type ListingSort = "date" | "price_asc" | "price_desc" | "surface";
+
+export const LISTING_SORTS: readonly ListingSort[] = ["date", "price_asc", "price_desc", "surface"];
+
+export type ListingQuery = {
+  text: string;
+  city: string;
+  type: PropertyType | "";
+  minSurface: number;
+  minPrice: number;
+  /** 0 = no maximum. */
+  maxPrice: number;
+  minBeds: number;
+  sort: ListingSort;
+  /** 1-based. */
+  page: number;
+};
+
+export const DEFAULT_LISTING_QUERY: ListingQuery = {
+  text: "",
+  city: "",
+  type: "",
+  minSurface: 0,
+  minPrice: 0,
+  maxPrice: 0,
+  minBeds: 0,
+  sort: "date",
+  page: 1,
+};
+
+export type ListingPage = { items: Listing[]; total: number; page: number; pages: number };
+
+const normalize = (s: string) => s.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+
+export function matchesQuery(l: Listing, q: ListingQuery): boolean {
+  if (q.city && normalize(l.city) !== normalize(q.city)) return false;
+  if (q.type && l.type !== q.type) return false;
+  if (l.surface < q.minSurface || l.beds < q.minBeds) return false;
+  if (l.price < q.minPrice || (q.maxPrice > 0 && l.price > q.maxPrice)) return false;
+  if (q.text) {
+    const haystack = normalize(`${l.title} ${l.city} ${l.ref} ${l.description}`);
+    return normalize(q.text)
+      .split(/\s+/)
+      .every((word) => haystack.includes(word));
+  }
+  return true;
+}
+
+const COMPARATORS: Record<ListingSort, (a: Listing, b: Listing) => number> = {
+  date: (a, b) => b.publishedAt.localeCompare(a.publishedAt),
+  price_asc: (a, b) => a.price - b.price,
+  price_desc: (a, b) => b.price - a.price,
+  surface: (a, b) => b.surface - a.surface,
+};
+
+export function searchListings(all: Listing[], q: ListingQuery, perPage = 4): ListingPage {
+  const matches = all.filter((l) => matchesQuery(l, q)).sort(COMPARATORS[q.sort]);
+  const pages = Math.max(1, Math.ceil(matches.length / perPage));
+  const page = Math.min(Math.max(1, q.page), pages);
+  return { items: matches.slice((page - 1) * perPage, page * perPage), total: matches.length, page, pages };
+}
+
+/** Distinct cities, for the city filter. */
+export const listingCities = (all: Listing[]) => [...new Set(all.map((l) => l.city))].sort((a, b) => a.localeCompare(b));
+
+/* ---------------------------
+   URL state
+   --------------------------- */
+
+/** Query-string names; short so shared links stay readable. */
+const PARAMS: Record<keyof ListingQuery, string> = {
+  text: "q",
+  city: "city",
+  type: "type",
+  minSurface: "surface",
+  minPrice: "pmin",
+  maxPrice: "pmax",
+  minBeds: "beds",
+  sort: "sort",
+  page: "page",
+};
+
+/** Writes the non-default parts of `q` into `params` (other parameters, e.g. `lang`, are kept). */
+export function writeListingQuery(q: ListingQuery, params: URLSearchParams): URLSearchParams {
+  const out = new URLSearchParams(params);
+  for (const key of Object.keys(PARAMS) as (keyof ListingQuery)[]) {
+    if (q[key] === DEFAULT_LISTING_QUERY[key]) out.delete(PARAMS[key]);
+    else out.set(PARAMS[key], String(q[key]));
+  }
+  return out;
+}
+
+/** Reads a query back, ignoring anything malformed. */
+export function readListingQuery(params: URLSearchParams): ListingQuery {
+  const num = (name: string, fallback: number) => {
+    const v = Number(params.get(name));
+    return params.has(name) && Number.isFinite(v) && v >= 0 ? Math.floor(v) : fallback;
+  };
+  const type = params.get(PARAMS.type) ?? "";
+  const sort = params.get(PARAMS.sort) ?? "";
+  return {
+    text: params.get(PARAMS.text) ?? "",
+    city: params.get(PARAMS.city) ?? "",
+    type: (PROPERTY_TYPES as readonly string[]).includes(type) ? (type as PropertyType) : "",
+    minSurface: num(PARAMS.minSurface, 0),
+    minPrice: num(PARAMS.minPrice, 0),
+    maxPrice: num(PARAMS.maxPrice, 0),
+    minBeds: num(PARAMS.minBeds, 0),
+    sort: (LISTING_SORTS as readonly string[]).includes(sort) ? (sort as ListingSort) : "date",
+    page: Math.max(1, num(PARAMS.page, 1)),
+  };
+}
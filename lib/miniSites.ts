@@ -0,0 +1,73 @@
+import type { ComponentType } from "react";
+import type { DetailBlock, IconName, PortfolioCopy } from "../content/schema";
+import { MINI_SITE_KEY_RE } from "../content/schema";
+import { DEFAULT_LOCALE, Locale, reportMissing } from "../i18n/locales";
+
+/**
+ * lib/miniSites.ts
+ * Registry of the portfolio demos. Each vertical registers itself (key, icon, copy, detail panel,
+ * component loader) and the Portfolio section renders whatever is registered, so adding a hotel or a
+ * law-firm demo is one `registerMiniSite` call next to its component:
+ *
+ *   registerMiniSite({ key: "hotel", icon: "home", copy: { fr: {...}, en: {...} }, load: () => import("./minisites/hotel") });
+ *
+ * Which demos a client shows, and in which order, is `portfolio.minis` in its SiteContent.
+ */
+
+export type MiniSiteCopy = {
+  title: string;
+  /** Short label for the preview tabs. */
+  tab: string;
+  desc: string;
+  /** Blocks of the detail panel shown next to the preview; items may use `{launch}` / `{maintenance}`. */
+  details: DetailBlock[];
+};
+
+export type MiniSiteDefinition = {
+  /** URL-safe identifier, also sent as the project type by the contact wizard. */
+  key: string;
+  icon: IconName;
+  /** Address shown in the preview's URL bar (the demo's own pages are paths under it). */
+  origin: string;
+  /** Copy per locale; missing locales fall back to the default one. */
+  copy: { [L in typeof DEFAULT_LOCALE]: MiniSiteCopy } & Partial<Record<Locale, MiniSiteCopy>>;
+  /** Loaded the first time the demo is opened; a dynamic `import()` keeps it out of the main bundle. */
+  load: () => Promise<{ default: ComponentType }>;
+};
+
+/** A registered demo with its copy resolved for one locale. */
+export type MiniSite = Omit<MiniSiteDefinition, "copy"> & MiniSiteCopy;
+
+const registry = new Map<string, MiniSiteDefinition>();
+
+const warned = new Set<string>();
+
+/** Registering a key again replaces the earlier definition (hot reload re-runs registrations). */
+export function registerMiniSite(def: MiniSiteDefinition) {
+  if (!MINI_SITE_KEY_RE.test(def.key)) throw new Error(`Invalid mini-site key "${def.key}"`);
+  registry.set(def.key, def);
+}
+
+function resolve({ copy, ...def }: MiniSiteDefinition, locale: Locale, edited?: PortfolioCopy): MiniSite {
+  const localized = copy[locale];
+  if (!localized) reportMissing("mini-site copy", locale, def.key);
+  const resolved = { ...def, ...(localized ?? copy[DEFAULT_LOCALE]) };
+  return edited ? { ...resolved, desc: edited.desc, details: edited.details ?? resolved.details } : resolved;
+}
+
+/**
+ * The demos listed in `keys` (a client's `portfolio.minis`), in that order. Keys nobody registered
+ * are skipped with a dev warning rather than breaking the page. `edited` is the content's
+ * `portfolio.copy`: descriptions maintained in the CMS win over the registered ones.
+ */
+export function listMiniSites(keys: readonly string[], locale: Locale, edited: Record<string, PortfolioCopy> = {}): MiniSite[] {
+  return keys.flatMap((key) => {
+    const def = registry.get(key);
+    if (def) return [resolve(def, locale, edited[key])];
+    if (process.env.NODE_ENV !== "production" && !warned.has(key)) {
+      warned.add(key);
+      console.warn(`[portfolio] no mini-site registered for "${key}"`);
+    }
+    return [];
+  });
+}
@@ -0,0 +1,86 @@
+/**
+ * lib/motion.ts
+ * Motion policy: whether the site animates, and how much the background effect may cost. The visitor's
+ * own choice (the footer toggle) wins over the system's `prefers-reduced-motion`; with motion reduced,
+ * entrance animations are skipped and the particle background is drawn once, still.
+ *
+ * The particle budget starts from what the device reports (screen area, memory, cores) and is then
+ * adjusted from measured frame times by `createFrameGovernor`: slow frames shed particles first, then
+ * frame rate.
+ */
+
+export type MotionPreference = "system" | "full" | "reduced";
+
+export const MOTION_STORAGE_KEY = "vortex.motion";
+
+export const parseMotionPreference = (raw: string | null): MotionPreference => (raw === "full" || raw === "reduced" ? raw : "system");
+
+/** Whether to reduce motion, given the visitor's choice and the system setting. */
+export const motionReduced = (preference: MotionPreference, systemReduced: boolean) =>
+  preference === "reduced" || (preference === "system" && systemReduced);
+
+export type MotionBudget = {
+  /** Particles drawn per frame. */
+  particles: number;
+  /** Frame rate cap. */
+  fps: number;
+};
+
+export type DeviceHints = {
+  width: number;
+  height: number;
+  /** `navigator.deviceMemory`, in GiB (Chromium only). */
+  deviceMemory?: number;
+  /** `navigator.hardwareConcurrency`. */
+  cores?: number;
+};
+
+const MIN_PARTICLES = 12;
+
+/** Starting budget: one particle per 45,000 px² of screen, capped lower on small devices. */
+export function initialMotionBudget({ width, height, deviceMemory, cores }: DeviceHints): MotionBudget {
+  const lowEnd = (deviceMemory !== undefined && deviceMemory <= 2) || (cores !== undefined && cores <= 2);
+  const cap = lowEnd ? 40 : deviceMemory !== undefined && deviceMemory <= 4 ? 80 : 140;
+  return {
+    particles: Math.max(MIN_PARTICLES, Math.min(cap, Math.round((width * height) / 45_000))),
+    fps: lowEnd ? 30 : 60,
+  };
+}
+
+export type FrameGovernor = {
+  /** Whether the frame at `now` (ms) should be drawn, given the fps cap. */
+  due: (now: number) => boolean;
+  /** Reports how long drawing a frame took (ms); may lower the budget. */
+  record: (drawMs: number) => void;
+  budget: () => MotionBudget;
+};
+
+/**
+ * Keeps drawing under `share` of the frame interval: after `sampleSize` frames averaging more than that,
+ * a quarter of the particles go; at the minimum, the frame rate drops to 30. The budget only ever goes
+ * down: the background isn't worth oscillating for.
+ */
+export function createFrameGovernor(start: MotionBudget, { sampleSize = 60, share = 0.25 } = {}): FrameGovernor {
+  let budget = { ...start };
+  let last = -Infinity;
+  let total = 0;
+  let frames = 0;
+  return {
+    due(now) {
+      // a little slack so a 60 Hz display isn't halved by rAF jitter
+      if (now - last < 1000 / budget.fps - 2) return false;
+      last = now;
+      return true;
+    },
+    record(drawMs) {
+      total += drawMs;
+      if (++frames < sampleSize) return;
+      const slow = total / frames > (1000 / budget.fps) * share;
+      total = frames = 0;
+      if (!slow) return;
+      if (budget.particles > MIN_PARTICLES) budget = { ...budget, particles: Math.max(MIN_PARTICLES, Math.floor(budget.particles * 0.75)) };
+      else if (budget.fps > 30) budget = { ...budget, fps: 30 };
+    },
+    budget: () => budget,
+  };
+}
@@ -0,0 +1,178 @@
+/**
+ * lib/offlineQueue.ts
+ * Persistent retry queue for outgoing submissions. Entries survive reloads (localStorage by default,
+ * any `QueueStorage` works, e.g. an IndexedDB wrapper), are retried with exponential backoff + jitter,
+ * and flushed as soon as the browser reports it is back online (no retries are scheduled while offline).
+ */
+
+export type QueuedItem<T> = {
+  id: string;
+  payload: T;
+  /** Who queued it (e.g. which form), so each caller only hears about its own items. */
+  tag?: string;
+  attempts: number;
+  createdAt: number;
+  nextAttemptAt: number;
+};
+
+/** What a send attempt tells the queue to do with the item. */
+export type SendOutcome = { status: "sent" } | { status: "retry"; retryAfterMs?: number } | { status: "rejected"; reason?: unknown };
+
+export type QueueEvent<T> =
+  | { type: "change"; size: number }
+  | { type: "sent"; item: QueuedItem<T> }
+  | { type: "rejected"; item: QueuedItem<T>; reason?: unknown };
+
+export interface QueueStorage<T> {
+  load: () => QueuedItem<T>[];
+  save: (items: QueuedItem<T>[]) => void;
+}
+
+export function localStorageQueue<T>(key: string): QueueStorage<T> {
+  return {
+    load() {
+      try {
+        const raw = window.localStorage.getItem(key);
+        return raw ? (JSON.parse(raw) as QueuedItem<T>[]) : [];
+      } catch {
+        return [];
+      }
+    },
+    save(items) {
+      try {
+        if (items.length) window.localStorage.setItem(key, JSON.stringify(items));
+        else window.localStorage.removeItem(key);
+      } catch {
+        // quota or privacy mode: the queue still works for this page view
+      }
+    },
+  };
+}
+
+export type RetryQueue<T> = {
+  enqueue: (payload: T, tag?: string) => QueuedItem<T>;
+  /** Attempts every due item now (no-op while offline). */
+  flush: () => Promise<void>;
+  /** Items waiting, all of them or those queued with `tag`. */
+  size: (tag?: string) => number;
+  subscribe: (listener: (e: QueueEvent<T>) => void) => () => void;
+  /**
+   * Starts listening to `online` and scheduling retries; returns a stop function. Starts are counted:
+   * a queue shared by several callers keeps running until the last of them has stopped it.
+   */
+  start: () => () => void;
+};
+
+export function createRetryQueue<T>({
+  storage,
+  send,
+  baseDelayMs = 2_000,
+  maxDelayMs = 5 * 60_000,
+  now = Date.now,
+  isOnline = () => typeof navigator === "undefined" || navigator.onLine !== false,
+}: {
+  storage: QueueStorage<T>;
+  send: (payload: T) => Promise<SendOutcome>;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  now?: () => number;
+  isOnline?: () => boolean;
+}): RetryQueue<T> {
+  let items = storage.load();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let flushing: Promise<void> | null = null;
+  let starts = 0;
+  const listeners = new Set<(e: QueueEvent<T>) => void>();
+
+  const emit = (e: QueueEvent<T>) => listeners.forEach((l) => l(e));
+  const persist = () => {
+    storage.save(items);
+    emit({ type: "change", size: items.length });
+  };
+
+  const backoff = (attempts: number) => {
+    const exp = Math.min(maxDelayMs, baseDelayMs * 2 ** Math.max(0, attempts - 1));
+    return exp / 2 + Math.random() * (exp / 2);
+  };
+
+  const schedule = () => {
+    if (timer) clearTimeout(timer);
+    timer = undefined;
+    // offline, due items stay due: polling for them would spin; the `online` listener takes over
+    if (!starts || !items.length || !isOnline()) return;
+    const next = Math.min(...items.map((i) => i.nextAttemptAt));
+    timer = setTimeout(() => void queue.flush(), Math.max(0, next - now()));
+  };
+
+  async function runFlush() {
+    for (const item of items.filter((i) => i.nextAttemptAt <= now())) {
+      if (!isOnline()) break;
+      let outcome: SendOutcome;
+      try {
+        outcome = await send(item.payload);
+      } catch {
+        outcome = { status: "retry" };
+      }
+      item.attempts++;
+      if (outcome.status === "retry") {
+        item.nextAttemptAt = now() + Math.max(outcome.retryAfterMs ?? 0, backoff(item.attempts));
+      } else {
+        items = items.filter((i) => i.id !== item.id);
+        emit(outcome.status === "sent" ? { type: "sent", item } : { type: "rejected", item, reason: outcome.reason });
+      }
+      persist();
+    }
+  }
+
+  const onOnline = () => {
+    // the stored backoff was computed while offline; retry right away
+    items.forEach((i) => (i.nextAttemptAt = now()));
+    void queue.flush();
+  };
+
+  const queue: RetryQueue<T> = {
+    enqueue(payload, tag) {
+      const t = now();
+      const item: QueuedItem<T> = {
+        id: `${t.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        payload,
+        ...(tag === undefined ? {} : { tag }),
+        attempts: 0,
+        createdAt: t,
+        nextAttemptAt: t + backoff(1),
+      };
+      items.push(item);
+      persist();
+      schedule();
+      return item;
+    },
+    flush() {
+      if (!flushing) {
+        flushing = runFlush().finally(() => {
+          flushing = null;
+          schedule();
+        });
+      }
+      return flushing;
+    },
+    size: (tag) => (tag === undefined ? items.length : items.filter((i) => i.tag === tag).length),
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    start() {
+      if (starts++ === 0) window.addEventListener("online", onOnline);
+      void queue.flush();
+      let stopped = false;
+      return () => {
+        if (stopped) return;
+        stopped = true;
+        if (--starts > 0) return;
+        window.removeEventListener("online", onOnline);
+        if (timer) clearTimeout(timer);
+        timer = undefined;
+      };
+    },
+  };
+  return queue;
+}
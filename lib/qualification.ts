@@ -0,0 +1,85 @@
+import { MINI_SITE_KEY_RE } from "../content/schema";
+
+/**
+ * lib/qualification.ts
+ * Lead qualification collected by the contact wizard, and the lead score derived from it.
+ * The client shows the score for transparency; the server recomputes it from the raw answers.
+ */
+
+/** The key of a portfolio demo (lib/miniSites.ts) the project resembles, or "other". */
+export type ProjectType = string;
+
+export type PageRange = "1" | "2-5" | "6-10" | "10+";
+
+export const PAGE_RANGES: readonly PageRange[] = ["1", "2-5", "6-10", "10+"];
+
+export type Feature = "booking" | "listings" | "pricing" | "blog" | "multilingual" | "ecommerce" | "seo" | "analytics";
+
+export const FEATURES: readonly Feature[] = ["booking", "listings", "pricing", "blog", "multilingual", "ecommerce", "seo", "analytics"];
+
+export type Deadline = "asap" | "1m" | "3m" | "flexible";
+
+export const DEADLINES: readonly Deadline[] = ["asap", "1m", "3m", "flexible"];
+
+export type Qualification = {
+  projectType: ProjectType;
+  pages: PageRange;
+  features: Feature[];
+  deadline: Deadline;
+};
+
+export type LeadTier = "hot" | "warm" | "cold";
+
+export type LeadScore = {
+  /** 0–100 */
+  score: number;
+  tier: LeadTier;
+  /** Points per factor, so sales can see why a lead scored the way it did. */
+  factors: Record<string, number>;
+};
+
+const BUDGET_POINTS: [min: number, points: number][] = [
+  [3000, 30],
+  [1500, 22],
+  [1, 12],
+];
+
+const DEADLINE_POINTS: Record<Deadline, number> = { asap: 20, "1m": 16, "3m": 10, flexible: 5 };
+
+/** Rough minimum budget a page range needs; asking for more pages than the budget covers lowers the fit. */
+const PAGES_MIN_BUDGET: Record<PageRange, number> = { "1": 0, "2-5": 1500, "6-10": 3000, "10+": 3000 };
+
+export function scoreLead(
+  q: Qualification,
+  extra: { budget: number | null; maintenance: boolean; company: string; message: string }
+): LeadScore {
+  const budget = extra.budget ?? 0;
+  const factors: Record<string, number> = {
+    budget: BUDGET_POINTS.find(([min]) => budget >= min)?.[1] ?? 0,
+    deadline: DEADLINE_POINTS[q.deadline],
+    projectType: q.projectType === "other" ? 5 : 10,
+    scopeFit: budget >= PAGES_MIN_BUDGET[q.pages] ? 10 : -5,
+    features: Math.min(15, q.features.length * 3),
+    maintenance: extra.maintenance ? 10 : 0,
+    company: extra.company.trim() ? 5 : 0,
+    brief: extra.message.trim().length >= 80 ? 5 : 0,
+  };
+  const score = Math.max(0, Math.min(100, Object.values(factors).reduce((a, b) => a + b, 0)));
+  return { score, tier: score >= 65 ? "hot" : score >= 40 ? "warm" : "cold", factors };
+}
+
+/** Validates untrusted qualification answers (server side); returns null when absent or malformed. */
+export function parseQualification(input: unknown): Qualification | null {
+  if (typeof input !== "object" || input === null) return null;
+  const raw = input as Record<string, unknown>;
+  const has = <T extends string>(list: readonly T[], v: unknown): v is T => typeof v === "string" && (list as readonly string[]).includes(v);
+  if (typeof raw.projectType !== "string" || !MINI_SITE_KEY_RE.test(raw.projectType)) return null;
+  if (!has(PAGE_RANGES, raw.pages) || !has(DEADLINES, raw.deadline)) return null;
+  if (!Array.isArray(raw.features) || !raw.features.every((f) => has(FEATURES, f))) return null;
+  return {
+    projectType: raw.projectType,
+    pages: raw.pages,
+    features: Array.from(new Set(raw.features as Feature[])),
+    deadline: raw.deadline,
+  };
+}
@@ -0,0 +1,160 @@
+import type { Pricing } from "../content/schema";
+
+/**
+ * lib/quote.ts
+ * Quote configurator maths, shared by the OfferCard (live totals, printable quote) and the contact
+ * endpoint, which re-prices the configuration it receives instead of trusting client totals.
+ */
+
+export type QuoteConfig = {
+  /** Pages beyond the ones included in the launch package. */
+  extraPages: number;
+  /** Languages on top of the main one. */
+  extraLanguages: number;
+  ecommerce: boolean;
+  copywriting: boolean;
+  /** Maintenance commitment; 0 means none. */
+  maintenanceMonths: number;
+};
+
+export const DEFAULT_QUOTE: QuoteConfig = { extraPages: 0, extraLanguages: 0, ecommerce: false, copywriting: false, maintenanceMonths: 0 };
+
+export const QUOTE_LIMITS = { extraPages: 30, extraLanguages: 5, maintenanceMonths: 36 };
+
+export type QuoteLineKey = "base" | "extraPages" | "languages" | "ecommerce" | "copywriting" | "maintenance";
+
+export type QuoteLine = {
+  key: QuoteLineKey;
+  quantity: number;
+  unitPrice: number;
+  /**
+   * quantity × unitPrice, excl. VAT. For the recurring maintenance line, quantity is the committed months
+   * and unitPrice the monthly price, so this is the whole commitment; the per-month figure is `monthly`.
+   */
+  amount: number;
+  recurring: boolean;
+};
+
+export type Totals = { ht: number; vat: number; ttc: number };
+
+export type PricedQuote = {
+  config: QuoteConfig;
+  currency: string;
+  vatRate: number;
+  lines: QuoteLine[];
+  oneOff: Totals;
+  /** Per month, while the maintenance commitment runs. */
+  monthly: Totals;
+  /** One-off plus every committed month. */
+  total: Totals;
+};
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+const totals = (ht: number, vatRate: number): Totals => {
+  const vat = round(ht * vatRate);
+  return { ht: round(ht), vat, ttc: round(ht + vat) };
+};
+
+export function priceQuote(config: QuoteConfig, pricing: Pricing): PricedQuote {
+  const { addOns } = pricing;
+  const pages = pricing.includedPages + config.extraPages;
+  const line = (key: QuoteLineKey, quantity: number, unitPrice: number, recurring = false): QuoteLine => ({
+    key,
+    quantity,
+    unitPrice,
+    amount: round(quantity * unitPrice),
+    recurring,
+  });
+
+  const lines = [
+    line("base", 1, pricing.launch),
+    line("extraPages", config.extraPages, addOns.extraPage),
+    line("languages", config.extraLanguages, addOns.language),
+    line("ecommerce", config.ecommerce ? 1 : 0, addOns.ecommerce),
+    line("copywriting", config.copywriting ? pages : 0, addOns.copywriting),
+    line("maintenance", config.maintenanceMonths, pricing.maintenance, true),
+  ].filter((l) => l.quantity > 0);
+
+  const oneOffHt = lines.filter((l) => !l.recurring).reduce((sum, l) => sum + l.amount, 0);
+  const monthlyHt = config.maintenanceMonths > 0 ? pricing.maintenance : 0;
+  return {
+    config,
+    currency: pricing.currency,
+    vatRate: pricing.vatRate,
+    lines,
+    oneOff: totals(oneOffHt, pricing.vatRate),
+    monthly: totals(monthlyHt, pricing.vatRate),
+    total: totals(oneOffHt + monthlyHt * config.maintenanceMonths, pricing.vatRate),
+  };
+}
+
+/** Validates an untrusted configuration (server side); returns null when absent or out of range. */
+export function parseQuoteConfig(input: unknown): QuoteConfig | null {
+  if (typeof input !== "object" || input === null) return null;
+  const raw = input as Record<string, unknown>;
+  const count = (v: unknown, max: number) => (typeof v === "number" && Number.isInteger(v) && v >= 0 && v <= max ? v : null);
+  const extraPages = count(raw.extraPages, QUOTE_LIMITS.extraPages);
+  const extraLanguages = count(raw.extraLanguages, QUOTE_LIMITS.extraLanguages);
+  const maintenanceMonths = count(raw.maintenanceMonths, QUOTE_LIMITS.maintenanceMonths);
+  if (extraPages === null || extraLanguages === null || maintenanceMonths === null) return null;
+  if (typeof raw.ecommerce !== "boolean" || typeof raw.copywriting !== "boolean") return null;
+  return { extraPages, extraLanguages, ecommerce: raw.ecommerce, copywriting: raw.copywriting, maintenanceMonths };
+}
+
+/* ---------------------------
+   Printable quote
+   --------------------------- */
+
+export type QuoteDocumentText = {
+  title: string;
+  brand: { name: string; email: string; phone: string };
+  /** Already formatted (date, reference, validity…). */
+  meta: string[];
+  lineLabel: (line: QuoteLine) => string;
+  money: (amount: number) => string;
+  labels: { description: string; quantity: string; unitPrice: string; amount: string; oneOff: string; monthly: string; total: string; ht: string; vat: string; ttc: string };
+};
+
+const escapeHtml = (s: string) => s.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+
+/**
+ * Standalone HTML quote, laid out for printing (the browser's "Save as PDF" produces the PDF).
+ * All copy comes in already translated so this stays free of i18n.
+ */
+export function renderQuoteDocument(quote: PricedQuote, text: QuoteDocumentText): string {
+  const e = escapeHtml;
+  const { labels, money } = text;
+  const row = (cells: string[], tag = "td") => `<tr>${cells.map((c, i) => `<${tag}${i ? ' class="num"' : ""}>${c}</${tag}>`).join("")}</tr>`;
+  const totalsBlock = (title: string, t: Totals) =>
+    `<table class="totals"><caption>${e(title)}</caption>` +
+    row([e(labels.ht), e(money(t.ht))]) +
+    row([e(`${labels.vat} (${Math.round(quote.vatRate * 1000) / 10} %)`), e(money(t.vat))]) +
+    row([`<strong>${e(labels.ttc)}</strong>`, `<strong>${e(money(t.ttc))}</strong>`]) +
+    `</table>`;
+
+  return `<!doctype html>
+<html><head><meta charset="utf-8"><title>${e(text.title)}</title>
+<style>
+  body { font: 14px/1.5 system-ui, sans-serif; color: #111; max-width: 760px; margin: 40px auto; padding: 0 24px; }
+  header { display: flex; justify-content: space-between; border-bottom: 2px solid #111; padding-bottom: 12px; }
+  table { width: 100%; border-collapse: collapse; margin-top: 24px; }
+  th, td { padding: 6px 8px; border-bottom: 1px solid #ddd; text-align: left; }
+  .num { text-align: right; }
+  .totals { width: 320px; margin-left: auto; }
+  caption { text-align: left; font-weight: 700; padding-bottom: 4px; }
+  @media print { body { margin: 0 auto; } }
+</style></head>
+<body>
+<header>
+  <div><h1>${e(text.brand.name)}</h1><div>${e(text.brand.email)} — ${e(text.brand.phone)}</div></div>
+  <div class="num"><h2>${e(text.title)}</h2>${text.meta.map((m) => `<div>${e(m)}</div>`).join("")}</div>
+</header>
+<table>
+  <thead>${row([labels.description, labels.quantity, labels.unitPrice, labels.amount].map(e), "th")}</thead>
+  <tbody>${quote.lines.map((l) => row([e(text.lineLabel(l)), String(l.quantity), e(money(l.unitPrice)), e(money(l.amount))])).join("")}</tbody>
+</table>
+${totalsBlock(labels.oneOff, quote.oneOff)}
+${quote.config.maintenanceMonths > 0 ? totalsBlock(labels.monthly, quote.monthly) + totalsBlock(labels.total, quote.total) : ""}
+</body></html>`;
+}
@@ -0,0 +1,48 @@
+/**
+ * lib/router.ts
+ * URL form of "where we are" on the one-page site: a section (`#portfolio`) and an optional sub-path
+ * inside it (`#portfolio/saas`). The same route can come as a path (`/portfolio/saas?beds=3`) when the
+ * host rewrites unknown paths to the app. The query string is left alone: it belongs to whatever the
+ * route opens (e.g. the listing filters of lib/listings.ts).
+ */
+
+export type Route = { section: string | null; sub: string | null };
+
+export const EMPTY_ROUTE: Route = { section: null, sub: null };
+
+type UrlParts = { pathname: string; search: string; hash: string };
+
+const SEGMENT_RE = /^[a-z][a-z0-9-]{0,31}$/i;
+
+function parseSegments(raw: string): Route | null {
+  const [section, sub, ...rest] = raw.split("/").filter(Boolean);
+  if (!section || !SEGMENT_RE.test(section) || rest.length || (sub !== undefined && !SEGMENT_RE.test(sub))) return null;
+  return { section, sub: sub ?? null };
+}
+
+/** Path of the app relative to `base`, e.g. "portfolio/saas" for "/site/portfolio/saas" and base "/site/". */
+const relativePath = (pathname: string, base: string) => (pathname.startsWith(base) ? pathname.slice(base.length) : "");
+
+/**
+ * Reads the route from a URL. A hash with a sub-path wins; a plain anchor (`#portfolio`) on a path
+ * route to the same section keeps the path's sub-path, so in-page links don't reset it.
+ */
+export function parseRoute({ pathname, hash }: UrlParts, base = "/"): Route {
+  const fromHash = hash.length > 1 ? parseSegments(decodeURIComponent(hash.slice(1))) : null;
+  const fromPath = parseSegments(relativePath(pathname, base));
+  if (fromHash?.sub || !fromPath) return fromHash ?? EMPTY_ROUTE;
+  if (!fromHash || fromHash.section === fromPath.section) return fromPath;
+  return fromHash;
+}
+
+export const sameRoute = (a: Route, b: Route) => a.section === b.section && a.sub === b.sub;
+
+/**
+ * URL for `route`, written the same way as the current one: as a path when the page was opened
+ * through a path route (the host evidently serves those), as a hash otherwise. The query string is kept.
+ */
+export function formatRoute(route: Route, current: UrlParts, base = "/"): string {
+  const segments = [route.section, route.sub].filter(Boolean).join("/");
+  if (parseSegments(relativePath(current.pathname, base))) return `${base}${segments}${current.search}`;
+  return `${current.pathname}${current.search}${segments ? `#${segments}` : ""}`;
+}
@@ -0,0 +1,259 @@
+import { FieldErrors, Schema, email, maxLength, required, validateSchema } from "./validation";
+
+/**
+ * lib/saas.ts
+ * Pricing catalog and trial signup for SaaS clients: plans priced per seat, monthly or annual billing
+ * (annual gets a discount), a feature matrix, and trial accounts with an expiry date.
+ *
+ * Like the booking engine, the trial service only needs a store: the portfolio demo runs it in the
+ * browser on localStorage (`localTrialStore`), a real client points `httpTrialApi` at its backend.
+ */
+
+export const TRIAL_ENDPOINT = "/api/trial";
+
+export type BillingCycle = "monthly" | "annual";
+
+/** Feature rows of the matrix; each has a `saas.feature.<id>` label in the i18n catalogs. */
+export type SaasFeatureId = "contacts" | "pipelines" | "onboarding" | "api" | "sso" | "uptime";
+
+export type SaasFeature = { id: SaasFeatureId; kind: "flag" | "count" | "percent" };
+
+/** `"unlimited"` for counts without a cap. */
+export type FeatureValue = boolean | number | "unlimited";
+
+export type SaasPlan = {
+  id: string;
+  name: string;
+  /** Per seat and per month, excl. VAT, before the annual discount. */
+  monthlyPerSeat: number;
+  minSeats: number;
+  maxSeats: number | null;
+  /** Paid plans start with a trial; free ones don't need one. */
+  trial: boolean;
+  highlight?: boolean;
+  features: Partial<Record<SaasFeatureId, FeatureValue>>;
+};
+
+export type SaasCatalog = {
+  currency: string;
+  /** e.g. 0.2 for "2 months free" style pricing. */
+  annualDiscount: number;
+  trialDays: number;
+  features: SaasFeature[];
+  plans: SaasPlan[];
+};
+
+/** VORTEX CRM, the SaaS shown in the portfolio. */
+export const DEMO_SAAS_CATALOG: SaasCatalog = {
+  currency: "EUR",
+  annualDiscount: 0.2,
+  trialDays: 14,
+  features: [
+    { id: "contacts", kind: "count" },
+    { id: "pipelines", kind: "count" },
+    { id: "onboarding", kind: "flag" },
+    { id: "api", kind: "flag" },
+    { id: "sso", kind: "flag" },
+    { id: "uptime", kind: "percent" },
+  ],
+  plans: [
+    {
+      id: "free",
+      name: "Free",
+      monthlyPerSeat: 0,
+      minSeats: 1,
+      maxSeats: 3,
+      trial: false,
+      features: { contacts: 1000, pipelines: 1, onboarding: true, api: false, sso: false, uptime: 99.5 },
+    },
+    {
+      id: "pro",
+      name: "Pro",
+      monthlyPerSeat: 19,
+      minSeats: 1,
+      maxSeats: 50,
+      trial: true,
+      highlight: true,
+      features: { contacts: 50000, pipelines: 10, onboarding: true, api: true, sso: false, uptime: 99.9 },
+    },
+    {
+      id: "enterprise",
+      name: "Enterprise",
+      monthlyPerSeat: 49,
+      minSeats: 10,
+      maxSeats: null,
+      trial: true,
+      features: { contacts: "unlimited", pipelines: "unlimited", onboarding: true, api: true, sso: true, uptime: 99.99 },
+    },
+  ],
+};
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+export const clampSeats = (plan: SaasPlan, seats: number) =>
+  Math.max(plan.minSeats, plan.maxSeats === null ? Math.floor(seats) : Math.min(plan.maxSeats, Math.floor(seats)));
+
+export type PlanPrice = {
+  /** Effective price per seat and per month, after the annual discount. */
+  perSeatMonthly: number;
+  /** What one month costs for every seat. */
+  monthlyTotal: number;
+  /** Charged each billing period (a month, or a year up front). */
+  billed: number;
+  /** Saved per year compared to paying monthly. */
+  annualSavings: number;
+};
+
+export function planPrice(plan: SaasPlan, cycle: BillingCycle, seats: number, catalog: SaasCatalog): PlanPrice {
+  const n = clampSeats(plan, seats);
+  const discount = cycle === "annual" ? catalog.annualDiscount : 0;
+  const perSeatMonthly = round(plan.monthlyPerSeat * (1 - discount));
+  const monthlyTotal = round(perSeatMonthly * n);
+  return {
+    perSeatMonthly,
+    monthlyTotal,
+    billed: cycle === "annual" ? round(monthlyTotal * 12) : monthlyTotal,
+    annualSavings: round(plan.monthlyPerSeat * n * 12 * discount),
+  };
+}
+
+/* ---------------------------
+   Trial accounts
+   --------------------------- */
+
+export type TrialAccount = {
+  id: string;
+  email: string;
+  company: string;
+  planId: string;
+  seats: number;
+  cycle: BillingCycle;
+  createdAt: string;
+  /** null for free plans, which never expire. */
+  trialEndsAt: string | null;
+};
+
+export type TrialRequest = { email: string; company: string; planId: string; seats: number; cycle: BillingCycle };
+
+export type TrialErrors = FieldErrors<keyof TrialRequest>;
+
+/** The signup form's fields, as the form and the trial service check them. */
+export const TRIAL_SCHEMA: Schema<"email" | "company"> = {
+  email: [required, maxLength(254), email],
+  company: [required, maxLength(160)],
+};
+
+export type TrialResult =
+  | { ok: true; account: TrialAccount }
+  | { ok: false; error: "validation"; fields: TrialErrors }
+  | { ok: false; error: "already_exists" };
+
+export interface TrialStore {
+  findByEmail: (email: string) => Promise<TrialAccount | null>;
+  insert: (account: TrialAccount) => Promise<void>;
+}
+
+export function memoryTrialStore(): TrialStore {
+  const accounts: TrialAccount[] = [];
+  return {
+    findByEmail: async (email) => accounts.find((a) => a.email === email) ?? null,
+    insert: async (account) => void accounts.push(account),
+  };
+}
+
+/** Mock backend for the demo: accounts survive reloads in localStorage. */
+export function localTrialStore(key = "vortex.saas.accounts"): TrialStore {
+  const load = (): TrialAccount[] => {
+    try {
+      return JSON.parse(window.localStorage.getItem(key) ?? "[]") as TrialAccount[];
+    } catch {
+      return [];
+    }
+  };
+  return {
+    findByEmail: async (email) => load().find((a) => a.email === email) ?? null,
+    insert: async (account) => {
+      try {
+        window.localStorage.setItem(key, JSON.stringify([...load(), account]));
+      } catch {
+        // storage unavailable: the account only lives for this page view
+      }
+    },
+  };
+}
+
+export function validateTrialRequest(input: unknown, catalog: SaasCatalog): { ok: true; value: TrialRequest } | { ok: false; fields: TrialErrors } {
+  const raw = (typeof input === "object" && input !== null ? input : {}) as Record<string, unknown>;
+  const text = (key: string) => (typeof raw[key] === "string" ? (raw[key] as string).trim() : "");
+  const plan = catalog.plans.find((p) => p.id === raw.planId);
+  const value: TrialRequest = {
+    email: text("email").toLowerCase(),
+    company: text("company"),
+    planId: text("planId"),
+    seats: typeof raw.seats === "number" ? raw.seats : Number.NaN,
+    cycle: raw.cycle === "annual" ? "annual" : "monthly",
+  };
+
+  const fields: TrialErrors = validateSchema(TRIAL_SCHEMA, value);
+  if (!plan) fields.planId = "invalid";
+  else if (!Number.isInteger(value.seats) || clampSeats(plan, value.seats) !== value.seats) fields.seats = "invalid";
+
+  return Object.keys(fields).length ? { ok: false, fields } : { ok: true, value };
+}
+
+export type TrialApi = { createTrial: (input: unknown) => Promise<TrialResult> };
+
+export function createTrialService({
+  catalog,
+  store,
+  now = () => new Date(),
+  newId = () => `acc_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+}: {
+  catalog: SaasCatalog;
+  store: TrialStore;
+  now?: () => Date;
+  newId?: () => string;
+}): TrialApi {
+  return {
+    async createTrial(input) {
+      const result = validateTrialRequest(input, catalog);
+      if (!result.ok) return { ok: false, error: "validation", fields: result.fields };
+      const req = result.value;
+      if (await store.findByEmail(req.email)) return { ok: false, error: "already_exists" };
+
+      const plan = catalog.plans.find((p) => p.id === req.planId)!;
+      const at = now();
+      const account: TrialAccount = {
+        id: newId(),
+        ...req,
+        createdAt: at.toISOString(),
+        trialEndsAt: plan.trial ? new Date(at.getTime() + catalog.trialDays * 86_400_000).toISOString() : null,
+      };
+      await store.insert(account);
+      return { ok: true, account };
+    },
+  };
+}
+
+export function httpTrialApi(endpoint = TRIAL_ENDPOINT, fetchImpl: typeof fetch = fetch): TrialApi {
+  return {
+    async createTrial(input) {
+      const res = await fetchImpl(endpoint, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(input) });
+      const body = (await res.json().catch(() => null)) as TrialResult | null;
+      if (!body) throw new Error(`Trial signup failed (${res.status})`);
+      return body;
+    },
+  };
+}
+
+/** Time left before `trialEndsAt`, split for display; `expired` once it's in the past. */
+export function trialRemaining(trialEndsAt: string, now = new Date()) {
+  const ms = Math.max(0, Date.parse(trialEndsAt) - now.getTime());
+  return {
+    expired: ms === 0,
+    days: Math.floor(ms / 86_400_000),
+    hours: Math.floor(ms / 3_600_000) % 24,
+    minutes: Math.floor(ms / 60_000) % 60,
+    seconds: Math.floor(ms / 1000) % 60,
+  };
+}
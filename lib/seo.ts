@@ -0,0 +1,182 @@
+import type { SiteContent } from "../content/schema";
+
+/**
+ * lib/seo.ts
+ * What search engines and social networks read: the <head> tags of a page (title, description,
+ * canonical, OpenGraph, Twitter card), the JSON-LD graph (Organization, Offer, FAQPage, Review), and the
+ * sitemap.xml / robots.txt written by the prerender (server/prerender.ts).
+ *
+ * Tags are plain data so the same list is rendered to HTML on the server and applied to `document.head`
+ * in the browser (App.tsx `useHead`).
+ */
+
+export type PageMeta = {
+  title: string;
+  description: string;
+  /** Path of the page's canonical URL, e.g. "/" or "/portfolio/saas". */
+  path: string;
+};
+
+export type HeadTag =
+  | { tag: "title"; text: string }
+  | { tag: "meta"; attrs: Record<string, string> }
+  | { tag: "link"; attrs: Record<string, string> }
+  | { tag: "script"; attrs: Record<string, string>; text: string };
+
+/** Copy strings may hold ICU placeholders (`{launch}`); the caller passes its formatter. */
+type Format = (message: string) => string;
+
+const OG_LOCALES: Record<string, string> = { fr: "fr_FR", en: "en_GB", de: "de_DE" };
+
+/** Absolute URL for a path or URL, on `siteUrl`. */
+export const absoluteUrl = (siteUrl: string, pathOrUrl: string) => new URL(pathOrUrl, `${siteUrl.replace(/\/+$/, "")}/`).toString();
+
+export function headTags(meta: PageMeta, content: SiteContent, locale: string, format: Format = (s) => s): HeadTag[] {
+  const { seo, brand } = content;
+  const url = absoluteUrl(seo.siteUrl, meta.path);
+  const image = absoluteUrl(seo.siteUrl, seo.image);
+  const name = (key: string, value: string): HeadTag => ({ tag: "meta", attrs: { name: key, content: value } });
+  const property = (key: string, value: string): HeadTag => ({ tag: "meta", attrs: { property: key, content: value } });
+  return [
+    { tag: "title", text: meta.title },
+    name("description", meta.description),
+    { tag: "link", attrs: { rel: "canonical", href: url } },
+    property("og:type", "website"),
+    property("og:site_name", brand.name),
+    property("og:title", meta.title),
+    property("og:description", meta.description),
+    property("og:url", url),
+    property("og:image", image),
+    property("og:locale", OG_LOCALES[locale] ?? locale),
+    name("twitter:card", "summary_large_image"),
+    name("twitter:title", meta.title),
+    name("twitter:description", meta.description),
+    name("twitter:image", image),
+    ...(seo.twitter ? [name("twitter:site", seo.twitter)] : []),
+    { tag: "script", attrs: { type: "application/ld+json" }, text: JSON.stringify(structuredData(content, locale, format)) },
+  ];
+}
+
+/**
+ * JSON-LD graph: the agency (Organization), the launch package (Offer, excl. VAT as priced in
+ * `pricing`), the FAQ (FAQPage) and the testimonials (Review of the Organization).
+ */
+export function structuredData(content: SiteContent, locale: string, format: Format = (s) => s) {
+  const { seo, brand, pricing, hero, faq, testimonials } = content;
+  const org = `${absoluteUrl(seo.siteUrl, "/")}#organization`;
+  return {
+    "@context": "https://schema.org",
+    "@graph": [
+      {
+        "@type": "Organization",
+        "@id": org,
+        name: brand.name,
+        description: brand.tagline,
+        url: absoluteUrl(seo.siteUrl, "/"),
+        logo: absoluteUrl(seo.siteUrl, seo.image),
+        email: brand.email,
+        telephone: brand.phoneHref,
+      },
+      {
+        "@type": "Offer",
+        name: hero.package.name,
+        description: format(hero.package.summary),
+        url: absoluteUrl(seo.siteUrl, "/#offres"),
+        price: pricing.launch.toFixed(2),
+        priceCurrency: pricing.currency,
+        priceSpecification: {
+          "@type": "UnitPriceSpecification",
+          price: pricing.launch.toFixed(2),
+          priceCurrency: pricing.currency,
+          valueAddedTaxIncluded: false,
+        },
+        availability: "https://schema.org/InStock",
+        seller: { "@id": org },
+      },
+      ...(faq.items.length
+        ? [
+            {
+              "@type": "FAQPage",
+              inLanguage: locale,
+              mainEntity: faq.items.map((item) => ({
+                "@type": "Question",
+                name: format(item.q),
+                acceptedAnswer: { "@type": "Answer", text: format(item.a) },
+              })),
+            },
+          ]
+        : []),
+      ...testimonials.items.map((item) => ({
+        "@type": "Review",
+        inLanguage: locale,
+        reviewBody: format(item.quote),
+        // "Clara — Le Comptoir": the person, then their business
+        author: { "@type": "Person", name: item.author.split(/\s+—\s+/)[0] },
+        itemReviewed: { "@id": org },
+      })),
+    ],
+  };
+}
+
+/* ---------------------------
+   HTML rendering (server)
+   --------------------------- */
+
+const escapeHtml = (s: string) => s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const attributes = (attrs: Record<string, string>) =>
+  Object.entries(attrs)
+    .map(([k, v]) => ` ${k}="${escapeHtml(v)}"`)
+    .join("");
+
+/**
+ * Tags as HTML for the prerendered page. Each carries `data-head` so the browser-side manager replaces
+ * them instead of adding duplicates.
+ */
+export function renderHeadTags(tags: HeadTag[]): string {
+  return tags
+    .map((t) => {
+      if (t.tag === "title") return `<title data-head>${escapeHtml(t.text)}</title>`;
+      // JSON inside <script>: only "</" could end it early
+      if (t.tag === "script") return `<script data-head${attributes(t.attrs)}>${t.text.replace(/<\//g, "<\\/")}</script>`;
+      return `<${t.tag} data-head${attributes(t.attrs)}>`;
+    })
+    .join("\n");
+}
+
+/* ---------------------------
+   sitemap.xml / robots.txt
+   --------------------------- */
+
+export type SitemapEntry = {
+  /** Absolute URL. */
+  loc: string;
+  /** Same page in other languages: hreflang → absolute URL. */
+  alternates?: Record<string, string>;
+  /** "YYYY-MM-DD" */
+  lastmod?: string;
+};
+
+export function sitemapXml(entries: SitemapEntry[]): string {
+  const body = entries
+    .map((e) =>
+      [
+        "  <url>",
+        `    <loc>${escapeHtml(e.loc)}</loc>`,
+        ...(e.lastmod ? [`    <lastmod>${e.lastmod}</lastmod>`] : []),
+        ...Object.entries(e.alternates ?? {}).map(([lang, href]) => `    <xhtml:link rel="alternate" hreflang="${lang}" href="${escapeHtml(href)}"/>`),
+        "  </url>",
+      ].join("\n")
+    )
+    .join("\n");
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">
+${body}
+</urlset>
+`;
+}
+
+/** Crawlers may read everything but the API; the sitemap is announced. */
+export function robotsTxt(siteUrl: string, disallow: string[] = ["/api/"]): string {
+  return ["User-agent: *", "Allow: /", ...disallow.map((p) => `Disallow: ${p}`), "", `Sitemap: ${absoluteUrl(siteUrl, "/sitemap.xml")}`, ""].join("\n");
+}
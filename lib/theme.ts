@@ -0,0 +1,154 @@
+/**
+ * lib/theme.ts
+ * Design tokens: the accent, text and surface colors of a color scheme, the card and control radii and
+ * the accent glow, exposed to the page as CSS custom properties (`--vx-*`) by App's ThemeProvider. Colors
+ * are given as "R G B" channels so components add their own alpha: `text-[rgb(var(--vx-fg)/60%)]`.
+ *
+ * A client brand is a `createTheme({ accent, ... })` away; every theme has a dark and a light scheme.
+ */
+
+export type ColorScheme = "dark" | "light";
+
+/** The visitor's choice; "system" follows `prefers-color-scheme`. */
+export type ThemePreference = ColorScheme | "system";
+
+export const THEME_STORAGE_KEY = "vortex.theme";
+
+export const parseThemePreference = (raw: string | null): ThemePreference => (raw === "dark" || raw === "light" ? raw : "system");
+
+/** Colors as "#rrggbb". */
+export type Palette = {
+  /** Buttons, highlights, icons. */
+  accent: string;
+  /** Accent used as text and borders; must stay readable on `bg`. */
+  accentSoft: string;
+  /** End of accent gradients. */
+  accentDeep: string;
+  /** Text on an accent background. */
+  onAccent: string;
+  /** Text, and the tint of borders and hovers. */
+  fg: string;
+  /** Cards and panels, laid over the background with some transparency. */
+  surface: string;
+  /** Page background, top to bottom. */
+  bg: string;
+  bgDeep: string;
+  /** Status text: errors, confirmations, pending work. */
+  danger: string;
+  success: string;
+  warning: string;
+};
+
+export type Theme = {
+  name: string;
+  dark: Palette;
+  light: Palette;
+  radius: {
+    /** Cards and sections (px). */
+    card: number;
+    /** Buttons and fields (px). */
+    control: number;
+  };
+};
+
+export const DEFAULT_THEME: Theme = {
+  name: "vortex",
+  dark: {
+    accent: "#00f2ff",
+    accentSoft: "#67e8f9",
+    accentDeep: "#0891b2",
+    onAccent: "#000000",
+    fg: "#ffffff",
+    surface: "#000000",
+    bg: "#05060b",
+    bgDeep: "#000000",
+    danger: "#f87171",
+    success: "#86efac",
+    warning: "#fcd34d",
+  },
+  light: {
+    accent: "#00c8d7",
+    accentSoft: "#0e7490",
+    accentDeep: "#0891b2",
+    onAccent: "#000000",
+    fg: "#0b1220",
+    surface: "#ffffff",
+    bg: "#f5f9fc",
+    bgDeep: "#e6eef4",
+    danger: "#b91c1c",
+    success: "#15803d",
+    warning: "#b45309",
+  },
+  radius: { card: 24, control: 12 },
+};
+
+const HEX_RE = /^#([0-9a-f]{6})$/i;
+
+/** "#00f2ff" → "0 242 255", the form the `--vx-*` color variables take. */
+export function hexToChannels(hex: string): string {
+  const m = HEX_RE.exec(hex);
+  if (!m) throw new Error(`theme: expected a #rrggbb color, got "${hex}"`);
+  const n = parseInt(m[1], 16);
+  return `${(n >> 16) & 255} ${(n >> 8) & 255} ${n & 255}`;
+}
+
+/** `a` moved towards `b` by `amount` (0–1), as "#rrggbb". */
+export function mixHex(a: string, b: string, amount: number): string {
+  const [ca, cb] = [hexToChannels(a), hexToChannels(b)].map((c) => c.split(" ").map(Number));
+  return `#${ca.map((v, i) => Math.round(v + (cb[i] - v) * amount).toString(16).padStart(2, "0")).join("")}`;
+}
+
+export type BrandTheme = {
+  name: string;
+  /** Accent of both schemes; its soft and deep shades are derived unless given. */
+  accent: string;
+  accentSoft?: string;
+  accentDeep?: string;
+  dark?: Partial<Palette>;
+  light?: Partial<Palette>;
+  radius?: Partial<Theme["radius"]>;
+};
+
+/**
+ * A client theme on top of `base`: the brand accent everywhere, scheme overrides last. Throws on a
+ * malformed color, so a broken client theme fails at startup rather than rendering invisible text.
+ */
+export function createTheme(brand: BrandTheme, base: Theme = DEFAULT_THEME): Theme {
+  const { accent } = brand;
+  // soft: lighter on dark backgrounds, darker (readable as text) on light ones
+  const dark = { accent, accentSoft: brand.accentSoft ?? mixHex(accent, "#ffffff", 0.4), accentDeep: brand.accentDeep ?? mixHex(accent, "#000000", 0.35) };
+  const light = { accent, accentSoft: brand.accentSoft ?? mixHex(accent, "#000000", 0.45), accentDeep: brand.accentDeep ?? mixHex(accent, "#000000", 0.35) };
+  const theme: Theme = {
+    name: brand.name,
+    dark: { ...base.dark, ...dark, ...brand.dark },
+    light: { ...base.light, ...light, ...brand.light },
+    radius: { ...base.radius, ...brand.radius },
+  };
+  for (const scheme of ["dark", "light"] as const) Object.values(theme[scheme]).forEach(hexToChannels);
+  return theme;
+}
+
+const VARIABLES: Record<keyof Palette, string> = {
+  accent: "--vx-accent",
+  accentSoft: "--vx-accent-soft",
+  accentDeep: "--vx-accent-deep",
+  onAccent: "--vx-on-accent",
+  fg: "--vx-fg",
+  surface: "--vx-surface",
+  bg: "--vx-bg",
+  bgDeep: "--vx-bg-deep",
+  danger: "--vx-danger",
+  success: "--vx-success",
+  warning: "--vx-warning",
+};
+
+/** The CSS custom properties of `theme` in `scheme`, for a `style` attribute. */
+export function themeVariables(theme: Theme, scheme: ColorScheme): Record<string, string> {
+  const palette = theme[scheme];
+  return {
+    ...Object.fromEntries((Object.keys(VARIABLES) as (keyof Palette)[]).map((k) => [VARIABLES[k], hexToChannels(palette[k])])),
+    "--vx-radius-card": `${theme.radius.card}px`,
+    "--vx-radius-control": `${theme.radius.control}px`,
+    "--vx-shadow-glow": `0 8px 30px rgb(${hexToChannels(palette.accent)} / ${scheme === "dark" ? 0.06 : 0.18})`,
+  };
+}
@@ -0,0 +1,85 @@
+/**
+ * lib/time.ts
+ * Calendar helpers working on plain "YYYY-MM-DD" dates and "HH:MM" wall-clock times in a named IANA
+ * time zone, so schedules read the same on the server and in any visitor's browser.
+ */
+
+export const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+export const TIME_RE = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const toMinutes = (time: string) => Number(time.slice(0, 2)) * 60 + Number(time.slice(3, 5));
+
+export const fromMinutes = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+
+export function isValidDate(date: string): boolean {
+  if (!DATE_RE.test(date)) return false;
+  const d = new Date(`${date}T00:00:00Z`);
+  return !Number.isNaN(d.getTime()) && d.toISOString().startsWith(date);
+}
+
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/** 0 = Sunday … 6 = Saturday. */
+export const weekdayOf = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+const DAY_MS = 24 * 60 * 60_000;
+
+const partsCache = new Map<string, Intl.DateTimeFormat>();
+
+/** Wall-clock fields of an instant in `timeZone`. */
+function wallClock(ms: number, timeZone: string) {
+  let fmt = partsCache.get(timeZone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    partsCache.set(timeZone, fmt);
+  }
+  const p = Object.fromEntries(fmt.formatToParts(new Date(ms)).map((x) => [x.type, x.value]));
+  return { date: `${p.year}-${p.month}-${p.day}`, minutes: Number(p.hour) * 60 + Number(p.minute), seconds: Number(p.second) };
+}
+
+/** Offset of `timeZone` from UTC at instant `ms`, in milliseconds. */
+function offsetAt(ms: number, timeZone: string): number {
+  const w = wallClock(ms, timeZone);
+  const asUtc = Date.parse(`${w.date}T00:00:00Z`) + w.minutes * 60_000 + w.seconds * 1000;
+  return asUtc - Math.floor(ms / 1000) * 1000;
+}
+
+/**
+ * The instant a wall-clock date/time happens in `timeZone` (DST-aware). A time skipped by a spring-forward
+ * switch lands as far past it as it was past the switch (02:30 → 03:30); a time that happens twice on a
+ * fall-back night is its first occurrence. Both regardless of which side of UTC the zone is on.
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const guess = Date.parse(`${date}T${time}:00Z`);
+  const minutes = toMinutes(time);
+  // the offsets a day either side of the wall-clock time: the ones before and after any switch that night
+  const [before, after] = [guess - DAY_MS, guess + DAY_MS].map((ms) => guess - offsetAt(ms, timeZone));
+  const matches = (ms: number) => {
+    const w = wallClock(ms, timeZone);
+    return w.date === date && w.minutes === minutes;
+  };
+  if (matches(before)) return new Date(matches(after) ? Math.min(before, after) : before);
+  if (matches(after)) return new Date(after);
+  // in the gap: keep the offset from before the switch, which moves the time forward by the gap's length
+  return new Date(before);
+}
+
+/** Today's date and the minutes elapsed since midnight, as seen in `timeZone`. */
+export function nowIn(timeZone: string, now: Date = new Date()): { date: string; minutes: number } {
+  const { date, minutes } = wallClock(now.getTime(), timeZone);
+  return { date, minutes };
+}
@@ -0,0 +1,121 @@
+/**
+ * lib/validation.ts
+ * Form validation shared by the page and the API: a schema lists the rules of each field, the forms run
+ * it to show an error next to each field, the endpoints run the same schema on what they receive.
+ *
+ * Errors are stable codes, translated by the page. Checks that need the network (disposable address
+ * providers, a domain that can't receive mail) run on the server: the page asks /api/validate/email
+ * while the visitor types, the contact endpoint asks again before accepting a lead.
+ */
+
+export type FieldError = "required" | "invalid" | "too_long" | "disposable" | "no_mx";
+
+export type FieldErrors<K extends PropertyKey> = Partial<Record<K, FieldError>>;
+
+/** One check of a field's value; null when it passes. */
+export type Rule = (value: string) => FieldError | null;
+
+export type Schema<K extends string> = Record<K, readonly Rule[]>;
+
+/* ---------------------------
+   Rules
+   --------------------------- */
+
+/** Every rule but `required` lets an empty value through, so optional fields only check what was typed. */
+export const required: Rule = (v) => (v.trim() ? null : "required");
+
+export const maxLength =
+  (max: number): Rule =>
+  (v) =>
+    v.length > max ? "too_long" : null;
+
+export const matches =
+  (re: RegExp): Rule =>
+  (v) =>
+    !v || re.test(v) ? null : "invalid";
+
+// one @, no spaces, a dot in the domain and no empty label ("a@b..fr", "a@.fr")
+const EMAIL_RE = /^[^\s@]+@[^\s@.]+(\.[^\s@.]+)+$/;
+
+export const isValidEmail = (e: string) => e.length <= 254 && EMAIL_RE.test(e);
+
+export const email: Rule = (v) => (!v || isValidEmail(v) ? null : "invalid");
+
+export const frenchPhone: Rule = (v) => (!v || normalizeFrenchPhone(v) ? null : "invalid");
+
+/** The first error of each field (fields of `only` when given), in the schema's order. */
+export function validateSchema<K extends string>(schema: Schema<K>, values: Partial<Record<K, string>>, only?: readonly K[]): FieldErrors<K> {
+  const errors: FieldErrors<K> = {};
+  for (const key of only ?? (Object.keys(schema) as K[])) {
+    for (const rule of schema[key]) {
+      const error = rule(values[key] ?? "");
+      if (error) {
+        errors[key] = error;
+        break;
+      }
+    }
+  }
+  return errors;
+}
+
+export const hasErrors = (errors: FieldErrors<PropertyKey>) => Object.keys(errors).length > 0;
+
+/* ---------------------------
+   French phone numbers
+   --------------------------- */
+
+// Overseas departments with a country code of their own (Réunion and Mayotte, Guadeloupe, French
+// Guiana, Martinique) and the national prefixes of their numbers, which otherwise look metropolitan
+const OVERSEAS_PREFIXES: Record<string, string[]> = {
+  "262": ["262", "269", "639", "692", "693"],
+  "590": ["590", "690", "691"],
+  "594": ["594", "694"],
+  "596": ["596", "696", "697"],
+};
+
+const FRENCH_CALLING_CODES = ["33", ...Object.keys(OVERSEAS_PREFIXES)];
+
+// a national number without its 0, with the calling code it's reached at
+const withCallingCode = (national: string) =>
+  `+${Object.keys(OVERSEAS_PREFIXES).find((c) => OVERSEAS_PREFIXES[c].includes(national.slice(0, 3))) ?? "33"}${national}`;
+
+/**
+ * "06 12 34 56 78", "06.12.34.56.78", "+33 6 12 34 56 78", "+33 (0)6…" or "0033 6…" as "+33612345678",
+ * the form leads are stored in; null when it isn't a French number.
+ */
+export function normalizeFrenchPhone(raw: string): string | null {
+  const compact = raw.trim().replace(/\(0\)/, "").replace(/[\s.\-/]/g, "");
+  if (/^0[1-9]\d{8}$/.test(compact)) return withCallingCode(compact.slice(1));
+  const international = compact.replace(/^00/, "+");
+  if (!/^\+\d+$/.test(international)) return null;
+  const code = FRENCH_CALLING_CODES.find((c) => international.startsWith(`+${c}`));
+  if (!code) return null;
+  const national = international.slice(code.length + 1).replace(/^0/, "");
+  if (!/^[1-9]\d{8}$/.test(national)) return null;
+  // an overseas number dialled with +33 ("+33 692…") is stored like its national form ("0692…")
+  return code === "33" ? withCallingCode(national) : `+${code}${national}`;
+}
+
+/* ---------------------------
+   Email checks on the server
+   --------------------------- */
+
+export const EMAIL_CHECK_ENDPOINT = "/api/validate/email";
+
+export type EmailCheckResponse = { ok: true; error: "disposable" | "no_mx" | null } | { ok: false; error: "bad_request" | "rate_limited" };
+
+/**
+ * Asks the server whether `address` can be used (a disposable provider, a domain without mail servers).
+ * Resolves to null when the check can't be made: the endpoint checks again anyway, and an unreachable
+ * check shouldn't block a visitor.
+ */
+export async function checkEmail(address: string, { signal, fetchImpl = fetch }: { signal?: AbortSignal; fetchImpl?: typeof fetch } = {}): Promise<"disposable" | "no_mx" | null> {
+  if (!isValidEmail(address)) return null;
+  try {
+    const res = await fetchImpl(`${EMAIL_CHECK_ENDPOINT}?email=${encodeURIComponent(address)}`, { headers: { Accept: "application/json" }, signal });
+    const body = (await res.json()) as EmailCheckResponse;
+    return body.ok ? body.error : null;
+  } catch {
+    return null;
+  }
+}
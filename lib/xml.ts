@@ -0,0 +1,84 @@
+/**
+ * lib/xml.ts
+ * Small, dependency-free XML reader for data feeds (elements, attributes, text, CDATA, entities).
+ * No DTDs, namespaces are kept as part of the name. Works the same in Node and the browser.
+ */
+
+export type XmlNode = { name: string; attrs: Record<string, string>; children: XmlNode[]; text: string };
+
+export class XmlParseError extends Error {
+  offset: number;
+  constructor(message: string, offset: number) {
+    super(`${message} (at offset ${offset})`);
+    this.name = "XmlParseError";
+    this.offset = offset;
+  }
+}
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+
+const decode = (s: string) =>
+  s.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (m, e: string) =>
+    e[0] === "#" ? String.fromCodePoint(e[1].toLowerCase() === "x" ? parseInt(e.slice(2), 16) : Number(e.slice(1))) : ENTITIES[e] ?? m
+  );
+
+export function parseXml(source: string): XmlNode {
+  const root: XmlNode = { name: "#document", attrs: {}, children: [], text: "" };
+  const stack = [root];
+  let i = 0;
+
+  /** Offset just past the next `marker`; throws when the markup is cut short. */
+  const after = (marker: string, from: number) => {
+    const at = source.indexOf(marker, from);
+    if (at === -1) throw new XmlParseError(`Expected "${marker}"`, from);
+    return at + marker.length;
+  };
+
+  while (i < source.length) {
+    const lt = source.indexOf("<", i);
+    const text = source.slice(i, lt === -1 ? source.length : lt);
+    if (text.trim()) stack[stack.length - 1].text += decode(text);
+    if (lt === -1) break;
+    i = lt;
+
+    if (source.startsWith("<!--", i)) {
+      i = after("-->", i);
+    } else if (source.startsWith("<![CDATA[", i)) {
+      const end = after("]]>", i);
+      stack[stack.length - 1].text += source.slice(i + 9, end - 3);
+      i = end;
+    } else if (source.startsWith("<?", i) || source.startsWith("<!", i)) {
+      i = after(">", i);
+    } else if (source.startsWith("</", i)) {
+      const end = after(">", i);
+      const name = source.slice(i + 2, end - 1).trim();
+      const open = stack.pop();
+      if (!open || open.name !== name) throw new XmlParseError(`Unexpected </${name}>`, i);
+      i = end;
+    } else {
+      const end = after(">", i);
+      const raw = source.slice(i + 1, end - 1);
+      const selfClosing = raw.endsWith("/");
+      const body = selfClosing ? raw.slice(0, -1) : raw;
+      const name = body.match(/^[^\s/>]+/)?.[0];
+      if (!name) throw new XmlParseError("Missing tag name", i);
+      const attrs: Record<string, string> = {};
+      for (const m of body.slice(name.length).matchAll(/([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) attrs[m[1]] = decode(m[3] ?? m[4]);
+      const node: XmlNode = { name, attrs, children: [], text: "" };
+      stack[stack.length - 1].children.push(node);
+      if (!selfClosing) stack.push(node);
+      i = end;
+    }
+  }
+
+  if (stack.length > 1) throw new XmlParseError(`Unclosed <${stack[stack.length - 1].name}>`, source.length);
+  return root;
+}
+
+/** First child element called `name`, if any. */
+export const child = (node: XmlNode | undefined, name: string) => node?.children.find((c) => c.name === name);
+
+export const children = (node: XmlNode | undefined, name: string) => node?.children.filter((c) => c.name === name) ?? [];
+
+/** Trimmed text of the first `name` child ("" when absent). */
+export const textOf = (node: XmlNode | undefined, name: string) => child(node, name)?.text.trim() ?? "";
@@ -0,0 +1,442 @@
+import React, { FormEvent, useEffect, useMemo, useRef, useState } from "react";
+import {
+  ContactConsent,
+  Field,
+  Honeypot,
+  Spinner,
+  SubmitStatusMessages,
+  useContactSubmission,
+  useFieldErrors,
+  useFormTracking,
+  useMiniBrowser,
+} from "../App";
+import { demoListingsFeed } from "../content/listings";
+import { useI18n } from "../i18n";
+import { CONTACT_SCHEMA, ContactSubmission } from "../lib/contact";
+import { importJsonFeed } from "../lib/listingFeeds";
+import {
+  DEFAULT_LISTING_QUERY,
+  LISTING_SORTS,
+  Listing,
+  ListingQuery,
+  ListingSort,
+  PROPERTY_TYPES,
+  PropertyType,
+  listingCities,
+  readListingQuery,
+  searchListings,
+  writeListingQuery,
+} from "../lib/listings";
+
+/**
+ * minisites/realEstate.tsx
+ * Portfolio demo of a real-estate agency: listings search with filters in the URL, listing pages and an
+ * enquiry form going through /api/contact. Registered in App.tsx, loaded the first time it's opened.
+ */
+
+/* ---------------------------
+   Real-Estate MiniSite
+   - Listings from the demo JSON feed (content/listings.ts), search state mirrored in the URL
+   --------------------------- */
+
+const demoListings = importJsonFeed(demoListingsFeed).listings;
+
+const LISTINGS_PER_PAGE = 4;
+
+/** Page of a listing in the preview's URL bar. */
+const listingPath = (l: Listing) => `/annonces/${l.ref.toLowerCase()}`;
+
+/** Search query + opened listing, read from and written back to the query string. */
+function useListingUrlState() {
+  const read = () => {
+    if (typeof window === "undefined") return { query: DEFAULT_LISTING_QUERY, listingId: null };
+    const params = new URLSearchParams(window.location.search);
+    return { query: readListingQuery(params), listingId: params.get("listing") };
+  };
+  const [state, setState] = useState(read);
+
+  // Back/forward between a listing and the results
+  useEffect(() => {
+    const onPop = () => setState(read());
+    window.addEventListener("popstate", onPop);
+    return () => window.removeEventListener("popstate", onPop);
+  }, []);
+
+  const write = (next: { query: ListingQuery; listingId: string | null }, push: boolean) => {
+    setState(next);
+    const params = writeListingQuery(next.query, new URLSearchParams(window.location.search));
+    if (next.listingId) params.set("listing", next.listingId);
+    else params.delete("listing");
+    const search = params.toString();
+    const url = `${window.location.pathname}${search ? `?${search}` : ""}${window.location.hash}`;
+    if (push) window.history.pushState(window.history.state, "", url);
+    else window.history.replaceState(window.history.state, "", url);
+  };
+
+  return {
+    query: state.query,
+    listingId: state.listingId,
+    // any filter change goes back to the first page
+    setFilters: (patch: Partial<ListingQuery>) => write({ query: { ...state.query, page: 1, ...patch }, listingId: null }, false),
+    open: (id: string | null) => write({ query: state.query, listingId: id }, true),
+  };
+}
+
+const RealEstateMiniSite: React.FC = () => {
+  const { t, formatCurrency, formatNumber } = useI18n();
+  const { query, listingId, setFilters, open } = useListingUrlState();
+  const cities = useMemo(() => listingCities(demoListings), []);
+  const results = searchListings(demoListings, query, LISTINGS_PER_PAGE);
+  const opened = listingId ? demoListings.find((l) => l.id === listingId) : undefined;
+
+  // The preview's URL bar shows the opened listing; its back/forward buttons open and close listings
+  const browser = useMiniBrowser();
+  const openedPath = opened ? listingPath(opened) : "/";
+  const seenPath = useRef(browser.path);
+  useEffect(() => browser.navigate(openedPath), [openedPath]);
+  useEffect(() => {
+    if (browser.path === seenPath.current) return;
+    seenPath.current = browser.path;
+    const target = demoListings.find((l) => listingPath(l) === browser.path);
+    if ((target?.id ?? null) !== listingId) open(target?.id ?? null);
+  }, [browser.path]);
+  const price = (l: Listing) => {
+    const amount = formatCurrency(l.price, l.currency);
+    return l.transaction === "rent" ? t("realestate.perMonth", { price: amount }) : amount;
+  };
+
+  const selectClass = "rounded-[var(--vx-radius-control)] p-2 bg-[rgb(var(--vx-surface)/10%)] border border-[rgb(var(--vx-fg)/6%)] text-sm";
+
+  return (
+    <main className="bg-[#06151a] text-[rgb(var(--vx-fg))] min-h-screen">
+      <div className="p-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <div className="text-lg font-extrabold">Agence VORTEX Immo</div>
+            <div className="text-xs text-[rgb(var(--vx-fg)/60%)]">{t("realestate.tagline")}</div>
+          </div>
+          <div className="text-sm text-[rgb(var(--vx-fg)/70%)]">{t("realestate.count", { count: demoListings.length })}</div>
+        </div>
+
+        {opened ? (
+          <ListingDetail listing={opened} price={price(opened)} onBack={() => open(null)} />
+        ) : (
+          <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div className="md:col-span-2 p-2">
+              <div className="flex flex-wrap gap-2 items-center">
+                <input
+                  className="flex-1 min-w-[140px] rounded-[var(--vx-radius-control)] p-2 bg-[rgb(var(--vx-surface)/10%)] border border-[rgb(var(--vx-fg)/6%)]"
+                  type="search"
+                  placeholder={t("realestate.searchPlaceholder")}
+                  aria-label={t("realestate.searchLabel")}
+                  value={query.text}
+                  onChange={(e) => setFilters({ text: e.target.value })}
+                />
+                <select aria-label={t("realestate.cityLabel")} className={selectClass} value={query.city} onChange={(e) => setFilters({ city: e.target.value })}>
+                  <option value="">{t("realestate.allCities")}</option>
+                  {cities.map((c) => (
+                    <option key={c} value={c}>
+                      {c}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  aria-label={t("realestate.typeLabel")}
+                  className={selectClass}
+                  value={query.type}
+                  onChange={(e) => setFilters({ type: e.target.value as PropertyType | "" })}
+                >
+                  <option value="">{t("realestate.allTypes")}</option>
+                  {PROPERTY_TYPES.map((type) => (
+                    <option key={type} value={type}>
+                      {t(`realestate.type.${type}`)}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  aria-label={t("realestate.bedsLabel")}
+                  className={selectClass}
+                  value={query.minBeds}
+                  onChange={(e) => setFilters({ minBeds: Number(e.target.value) })}
+                >
+                  <option value={0}>{t("realestate.anyBeds")}</option>
+                  <option value={1}>1+</option>
+                  <option value={2}>2+</option>
+                  <option value={3}>3+</option>
+                  <option value={4}>4+</option>
+                </select>
+                <select
+                  aria-label={t("realestate.sortLabel")}
+                  className={selectClass}
+                  value={query.sort}
+                  onChange={(e) => setFilters({ sort: e.target.value as ListingSort })}
+                >
+                  {LISTING_SORTS.map((s) => (
+                    <option key={s} value={s}>
+                      {t(`realestate.sort.${s}`)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="mt-2 text-xs text-[rgb(var(--vx-fg)/60%)]" aria-live="polite">
+                {t("realestate.results", { count: results.total })}
+              </div>
+
+              <div className="mt-2 space-y-3">
+                {results.items.map((r) => (
+                  <button
+                    key={r.id}
+                    type="button"
+                    onClick={() => open(r.id)}
+                    aria-label={`${t("realestate.view")} — ${r.title}`}
+                    className="w-full text-left rounded-[var(--vx-radius-control)] p-3 bg-[rgb(var(--vx-surface)/20%)] border border-[rgb(var(--vx-fg)/6%)] flex items-center gap-3 hover:border-[rgb(var(--vx-accent-soft)/30%)]"
+                  >
+                    {r.images[0] && <img src={r.images[0]} alt="" className="w-16 h-12 rounded-md object-cover flex-shrink-0" loading="lazy" />}
+                    <div className="flex-1 min-w-0">
+                      <div className="font-bold truncate">{r.title}</div>
+                      <div className="text-sm text-[rgb(var(--vx-fg)/60%)]">{t("realestate.listingMeta", { city: r.city, beds: r.beds, surface: r.surface })}</div>
+                    </div>
+                    <div className="text-right">
+                      <div className="text-sm text-[rgb(var(--vx-accent-soft))] font-bold">
+                        {r.transaction === "rent" ? price(r) : formatNumber(r.price, { style: "currency", currency: r.currency, notation: "compact" })}
+                      </div>
+                      <div className="text-xs text-[rgb(var(--vx-fg)/60%)]">{t("realestate.view")}</div>
+                    </div>
+                  </button>
+                ))}
+                {results.total === 0 && <div className="text-[rgb(var(--vx-fg)/60%)]">{t("realestate.noResults")}</div>}
+              </div>
+
+              {results.pages > 1 && (
+                <nav className="mt-3 flex items-center justify-between text-sm" aria-label={t("realestate.page", { page: results.page, pages: results.pages })}>
+                  <button
+                    type="button"
+                    disabled={results.page <= 1}
+                    onClick={() => setFilters({ page: results.page - 1 })}
+                    className="px-3 py-1 rounded-md border border-[rgb(var(--vx-fg)/6%)] disabled:opacity-40"
+                  >
+                    {t("realestate.prevPage")}
+                  </button>
+                  <span className="text-[rgb(var(--vx-fg)/60%)]">{t("realestate.page", { page: results.page, pages: results.pages })}</span>
+                  <button
+                    type="button"
+                    disabled={results.page >= results.pages}
+                    onClick={() => setFilters({ page: results.page + 1 })}
+                    className="px-3 py-1 rounded-md border border-[rgb(var(--vx-fg)/6%)] disabled:opacity-40"
+                  >
+                    {t("realestate.nextPage")}
+                  </button>
+                </nav>
+              )}
+            </div>
+
+            <div className="rounded-[var(--vx-radius-control)] p-3 bg-[rgb(var(--vx-surface)/25%)] border border-[rgb(var(--vx-fg)/6%)] space-y-3">
+              <div>
+                <div className="text-sm text-[rgb(var(--vx-fg)/60%)]">{t("realestate.minBudget")}</div>
+                <input
+                  type="range"
+                  aria-label={t("realestate.minBudget")}
+                  min={0}
+                  max={1500000}
+                  step={10000}
+                  value={query.minPrice}
+                  onChange={(e) => setFilters({ minPrice: Number(e.target.value) })}
+                  className="w-full mt-2 accent-[rgb(var(--vx-accent-soft))]"
+                />
+                <div className="text-sm font-bold mt-1">{formatCurrency(query.minPrice)}</div>
+              </div>
+              <div>
+                <div className="text-sm text-[rgb(var(--vx-fg)/60%)]">{t("realestate.maxBudget")}</div>
+                <input
+                  type="range"
+                  aria-label={t("realestate.maxBudget")}
+                  min={50000}
+                  max={2000000}
+                  step={10000}
+                  // 0 means "no maximum" and sits at the far right of the slider
+                  value={query.maxPrice || 2000000}
+                  onChange={(e) => setFilters({ maxPrice: Number(e.target.value) >= 2000000 ? 0 : Number(e.target.value) })}
+                  className="w-full mt-2 accent-[rgb(var(--vx-accent-soft))]"
+                />
+                <div className="text-sm font-bold mt-1">{query.maxPrice ? formatCurrency(query.maxPrice) : t("realestate.noLimit")}</div>
+              </div>
+              <div>
+                <div className="text-sm text-[rgb(var(--vx-fg)/60%)]">{t("realestate.minSurface")}</div>
+                <input
+                  type="range"
+                  aria-label={t("realestate.minSurface")}
+                  min={0}
+                  max={200}
+                  step={5}
+                  value={query.minSurface}
+                  onChange={(e) => setFilters({ minSurface: Number(e.target.value) })}
+                  className="w-full mt-2 accent-[rgb(var(--vx-accent-soft))]"
+                />
+                <div className="text-sm font-bold mt-1">{t("realestate.surface", { surface: query.minSurface })}</div>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+};
+
+const ListingDetail: React.FC<{ listing: Listing; price: string; onBack: () => void }> = ({ listing, price, onBack }) => {
+  const { t, locale } = useI18n();
+  const [photo, setPhoto] = useState(0);
+  const total = listing.images.length;
+  const published = new Intl.DateTimeFormat(locale, { dateStyle: "medium" }).format(new Date(listing.publishedAt));
+
+  return (
+    <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-3">
+      <div className="md:col-span-2 p-2">
+        <button type="button" onClick={onBack} className="text-sm text-[rgb(var(--vx-fg)/60%)] hover:text-[rgb(var(--vx-fg))]">
+          {t("realestate.back")}
+        </button>
+
+        {total > 0 && (
+          <div className="mt-2" role="group" aria-roledescription="carousel" aria-label={listing.title}>
+            <div className="relative">
+              <img
+                src={listing.images[photo]}
+                alt={t("realestate.photo", { index: photo + 1, total })}
+                className="w-full h-44 object-cover rounded-[var(--vx-radius-control)]"
+              />
+              {total > 1 && (
+                <>
+                  <button
+                    type="button"
+                    aria-label={t("realestate.prevPhoto")}
+                    onClick={() => setPhoto((p) => (p - 1 + total) % total)}
+                    className="absolute left-2 top-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-[rgb(var(--vx-surface)/50%)]"
+                  >
+                    ‹
+                  </button>
+                  <button
+                    type="button"
+                    aria-label={t("realestate.nextPhoto")}
+                    onClick={() => setPhoto((p) => (p + 1) % total)}
+                    className="absolute right-2 top-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-[rgb(var(--vx-surface)/50%)]"
+                  >
+                    ›
+                  </button>
+                </>
+              )}
+            </div>
+            <div className="mt-2 flex gap-2 overflow-x-auto">
+              {listing.images.map((src, i) => (
+                <button
+                  key={src}
+                  type="button"
+                  onClick={() => setPhoto(i)}
+                  aria-label={t("realestate.photo", { index: i + 1, total })}
+                  aria-current={i === photo}
+                  className={`flex-shrink-0 rounded-md overflow-hidden border ${i === photo ? "border-[rgb(var(--vx-accent-soft))]" : "border-transparent"}`}
+                >
+                  <img src={src} alt="" className="w-14 h-10 object-cover" />
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="mt-3 flex items-start justify-between gap-3">
+          <div>
+            <div className="font-extrabold">{listing.title}</div>
+            <div className="text-sm text-[rgb(var(--vx-fg)/60%)]">{t("realestate.listingMeta", { city: listing.city, beds: listing.beds, surface: listing.surface })}</div>
+          </div>
+          <div className="text-lg font-black text-[rgb(var(--vx-accent-soft))]">{price}</div>
+        </div>
+        <div className="mt-2 text-sm text-[rgb(var(--vx-fg)/70%)]">{listing.description}</div>
+        <div className="mt-2 text-xs text-[rgb(var(--vx-fg)/50%)] flex flex-wrap gap-3">
+          <span>{t(`realestate.type.${listing.type}`)}</span>
+          {listing.baths !== undefined && <span>{t("realestate.baths", { count: listing.baths })}</span>}
+          <span>{t("realestate.ref", { ref: listing.ref })}</span>
+          <span>{t("realestate.published", { date: published })}</span>
+        </div>
+      </div>
+
+      <div className="rounded-[var(--vx-radius-control)] p-3 bg-[rgb(var(--vx-surface)/25%)] border border-[rgb(var(--vx-fg)/6%)]">
+        <div className="text-sm font-bold">{t("realestate.agent.title")}</div>
+        <div className="text-xs text-[rgb(var(--vx-fg)/60%)] mt-1">
+          {listing.agent.name}
+          {listing.agent.phone && ` • ${listing.agent.phone}`}
+        </div>
+        <AgentContactForm key={listing.id} listing={listing} />
+      </div>
+    </div>
+  );
+};
+
+/** Short enquiry form; goes through the same /api/contact pipeline as the main wizard. */
+const AgentContactForm: React.FC<{ listing: Listing }> = ({ listing }) => {
+  const { t, locale } = useI18n();
+  const initial = { name: "", email: "", phone: "", message: t("realestate.agent.message", { title: listing.title, ref: listing.ref }) };
+  const [form, setForm] = useState(initial);
+  const fields = useFieldErrors(CONTACT_SCHEMA, form);
+  const { submit, status, setError } = useContactSubmission("realestate-agent", fields.showErrors);
+  const [hp, setHp] = useState("");
+  const [consentAt, setConsentAt] = useState<string | null>(null);
+  const tracking = useFormTracking("listing_enquiry");
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!fields.validate(["name", "email", "phone", "message"])) return setError(t("contact.error.fields"));
+    if (!consentAt) return setError(t("contact.error.consentRequired"));
+    const payload: ContactSubmission = {
+      ...form,
+      company: "",
+      budget: "",
+      maintenance: false,
+      locale,
+      source: `realestate-listing:${listing.ref}`,
+      consentAt,
+      hp,
+    };
+    if (await submit(payload)) {
+      tracking.submitted();
+      setForm(initial);
+      setConsentAt(null);
+    }
+  };
+
+  const inputClass = "w-full rounded-[var(--vx-radius-control)] p-2 bg-[rgb(var(--vx-surface)/10%)] border border-[rgb(var(--vx-fg)/6%)] text-sm";
+
+  return (
+    <form onSubmit={handleSubmit} onInput={tracking.start} className="mt-3 space-y-2" noValidate>
+      <Honeypot value={hp} onChange={setHp} />
+      <Field label={t("contact.nameLabel")} error={fields.message("name")}>
+        <input className={inputClass} autoComplete="name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+      </Field>
+      <Field label={t("contact.emailLabel")} error={fields.message("email")}>
+        <input
+          type="email"
+          className={inputClass}
+          autoComplete="email"
+          value={form.email}
+          onChange={(e) => setForm({ ...form, email: e.target.value })}
+          onBlur={() => fields.checkEmailField("email")}
+        />
+      </Field>
+      <Field label={t("contact.phoneLabel")} error={fields.message("phone")}>
+        <input type="tel" className={inputClass} autoComplete="tel" value={form.phone} onChange={(e) => setForm({ ...form, phone: e.target.value })} />
+      </Field>
+      <Field label={t("contact.messageLabel")} error={fields.message("message")}>
+        <textarea className={`${inputClass} min-h-[80px]`} value={form.message} onChange={(e) => setForm({ ...form, message: e.target.value })} />
+      </Field>
+      <ContactConsent consentAt={consentAt} onChange={setConsentAt} />
+      <SubmitStatusMessages status={status} />
+      <button
+        type="submit"
+        disabled={status.loading}
+        className="w-full inline-flex justify-center items-center gap-2 rounded-[var(--vx-radius-control)] py-2 bg-gradient-to-r from-[rgb(var(--vx-accent))] to-[rgb(var(--vx-accent-soft))] text-[rgb(var(--vx-on-accent))] font-bold text-sm"
+      >
+        {status.loading ? <Spinner label={t("contact.sending")} /> : t("realestate.agent.submit")}
+      </button>
+    </form>
+  );
+};
+
+export default RealEstateMiniSite;
@@ -0,0 +1,314 @@
+import React, { FormEvent, useEffect, useId, useMemo, useRef, useState } from "react";
+import { CheckCircle } from "lucide-react";
+import { Field, useFieldErrors, useMotion } from "../App";
+import { useI18n } from "../i18n";
+import { BOOKING_SCHEMA, Booking, BookingService, DEMO_BOOKING_CONFIG, DaySlots, createBookingService, memoryBookingStore } from "../lib/booking";
+import { addDays, nowIn, weekdayOf } from "../lib/time";
+
+/**
+ * minisites/restaurant.tsx
+ * Portfolio demo of a restaurant site: menu, gallery and a table booking form running the real booking
+ * engine (lib/booking.ts) on an in-memory store. Registered in App.tsx, loaded the first time it's opened.
+ */
+
+/* ---------------------------
+   Restaurant MiniSite
+   - Simulated scrollable site with reservation form
+   --------------------------- */
+
+const RestaurantMiniSite: React.FC = () => {
+  const { t } = useI18n();
+  const { openingHours, blackoutDates, timeZone } = DEMO_BOOKING_CONFIG;
+  const today = nowIn(timeZone).date;
+  const services = blackoutDates.includes(today) ? [] : openingHours[weekdayOf(today)] ?? [];
+  const reservationRef = useRef<HTMLDivElement>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const [galleryOpen, setGalleryOpen] = useState(false);
+  const galleryId = useId();
+  const { reduced } = useMotion();
+  const scrollBehavior: ScrollBehavior = reduced ? "auto" : "smooth";
+  const showMenu = () => {
+    menuRef.current?.scrollIntoView({ behavior: scrollBehavior });
+    menuRef.current?.focus({ preventScroll: true });
+  };
+  return (
+    <main className="bg-[#071018] text-[rgb(var(--vx-fg))] min-h-screen">
+      <div className="p-4 pb-24 md:pb-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <div className="text-lg font-extrabold">Le Comptoir Vortex</div>
+            <div className="text-xs text-[rgb(var(--vx-fg)/60%)]">{t("restaurant.tagline")}</div>
+          </div>
+          <div className="text-sm text-[rgb(var(--vx-fg)/70%)]">
+            {services.length ? t("restaurant.hours", { open: services[0][0], close: services[services.length - 1][1] }) : t("restaurant.closedToday")}
+          </div>
+        </div>
+
+        <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-3">
+          <div className="md:col-span-2 rounded-[16px] overflow-hidden bg-gradient-to-b from-[rgb(var(--vx-surface)/40%)] to-[rgb(var(--vx-surface)/10%)] p-3">
+            <div ref={menuRef} tabIndex={-1} className="h-36 bg-[linear-gradient(90deg,#001219,transparent)] rounded-[var(--vx-radius-control)] flex items-end p-4 outline-none">
+              <div>
+                <div className="text-xl font-bold">{t("restaurant.menuTitle")}</div>
+                <div className="text-sm text-[rgb(var(--vx-fg)/60%)]">{t("restaurant.menuDetails", { courses: 6, price: 65 })}</div>
+              </div>
+            </div>
+
+            <div className="mt-4 text-sm">
+              <div className="text-[rgb(var(--vx-fg)/70%)]">{t("restaurant.pitch")}</div>
+              <ul className="mt-3 space-y-1 text-[rgb(var(--vx-fg)/60%)]">
+                <li>• {t("restaurant.feature.photo")}</li>
+                <li>• {t("restaurant.feature.booking")}</li>
+                <li>• {t("restaurant.feature.mobileCta")}</li>
+              </ul>
+            </div>
+          </div>
+
+          <div ref={reservationRef} className="rounded-[16px] p-3 bg-[rgb(var(--vx-surface)/25%)] border border-[rgb(var(--vx-fg)/6%)]">
+            <ReservationSimulator />
+          </div>
+        </div>
+
+        <div className="mt-4 flex gap-3">
+          <button type="button" onClick={showMenu} className="px-4 py-2 rounded-lg bg-[rgb(var(--vx-accent)/10%)] border border-[rgb(var(--vx-accent)/20%)] text-[rgb(var(--vx-accent-soft))] font-bold">
+            {t("restaurant.viewMenu")}
+          </button>
+          <button
+            type="button"
+            aria-expanded={galleryOpen}
+            aria-controls={galleryId}
+            onClick={() => setGalleryOpen(!galleryOpen)}
+            className="px-4 py-2 rounded-lg bg-[rgb(var(--vx-fg)/3%)]"
+          >
+            {t("restaurant.gallery")}
+          </button>
+        </div>
+        <div id={galleryId} hidden={!galleryOpen} className="mt-3 grid grid-cols-3 gap-2">
+          {["#0b3a4a", "#3a2a12", "#1d1233"].map((color, i) => (
+            <div
+              key={color}
+              role="img"
+              aria-label={t("restaurant.galleryPhoto", { n: i + 1 })}
+              className="h-20 rounded-[10px]"
+              style={{ background: `linear-gradient(135deg, ${color}, #071018)` }}
+            />
+          ))}
+        </div>
+      </div>
+
+      {/* Mobile only: the booking CTA stays at the bottom of the screen */}
+      <div className="md:hidden fixed inset-x-0 bottom-0 p-3 bg-[#071018]/95 border-t border-[rgb(var(--vx-fg)/10%)]">
+        <button
+          type="button"
+          onClick={() => reservationRef.current?.scrollIntoView({ behavior: scrollBehavior })}
+          className="w-full py-3 rounded-[var(--vx-radius-control)] bg-gradient-to-r from-[rgb(var(--vx-accent))] to-[rgb(var(--vx-accent-soft))] text-[rgb(var(--vx-on-accent))] font-bold"
+        >
+          {t("restaurant.bookCta")}
+        </button>
+      </div>
+    </main>
+  );
+};
+
+/* ---------------------------
+   Reservation Simulator (inside mini-site)
+   - Runs the real booking engine (lib/booking.ts) against an in-memory store
+   --------------------------- */
+
+let demoBookingService: BookingService | null = null;
+
+/** In-browser service for the demo, seeded so tonight's 20:00 service is visibly full. */
+const getDemoBookingService = () => {
+  if (!demoBookingService) {
+    const today = nowIn(DEMO_BOOKING_CONFIG.timeZone).date;
+    const seed: Booking[] = DEMO_BOOKING_CONFIG.tables.map((table, i) => ({
+      id: `SEED-${i}`,
+      date: today,
+      time: "20:00",
+      partySize: table.seats,
+      name: "—",
+      email: null,
+      tableId: table.id,
+      createdAt: new Date().toISOString(),
+    }));
+    demoBookingService = createBookingService({ config: DEMO_BOOKING_CONFIG, store: memoryBookingStore(seed) });
+  }
+  return demoBookingService;
+};
+
+const ReservationSimulator: React.FC = () => {
+  const { t, locale } = useI18n();
+  const config = DEMO_BOOKING_CONFIG;
+  const today = useMemo(() => nowIn(config.timeZone).date, [config]);
+  const [name, setName] = useState("");
+  const [people, setPeople] = useState(2);
+  const [date, setDate] = useState(today);
+  const [time, setTime] = useState("");
+  const [day, setDay] = useState<DaySlots | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [confirmed, setConfirmed] = useState<{ booking: Booking; ics: string } | null>(null);
+  const fields = useFieldErrors(BOOKING_SCHEMA, { date, time, name });
+  const timeErrorId = useId();
+
+  // Reload availability whenever the day or party size changes
+  useEffect(() => {
+    let cancelled = false;
+    setDay(null);
+    getDemoBookingService()
+      .slots(date, people)
+      .then((d) => {
+        if (cancelled) return;
+        setDay(d);
+        setTime((current) => (d.slots.some((s) => s.time === current && s.available) ? current : ""));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [date, people, confirmed]);
+
+  const icsUrl = useMemo(() => (confirmed ? URL.createObjectURL(new Blob([confirmed.ics], { type: "text/calendar" })) : null), [confirmed]);
+  useEffect(() => () => void (icsUrl && URL.revokeObjectURL(icsUrl)), [icsUrl]);
+
+  const formatDay = (d: string) => new Intl.DateTimeFormat(locale, { dateStyle: "medium", timeZone: "UTC" }).format(new Date(`${d}T00:00:00Z`));
+
+  const handleBook = async (e: FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (!fields.validate()) return;
+    setLoading(true);
+    try {
+      const result = await getDemoBookingService().book({ date, time, partySize: people, name });
+      if (result.ok) return setConfirmed({ booking: result.booking, ics: result.ics });
+      if (result.error === "validation") {
+        fields.showErrors(result.fields);
+        // the party size comes from the list, not from a field the visitor can get wrong
+        if (result.fields.partySize) setError(t("reservation.error.generic"));
+      } else setError(result.error === "full" ? t("reservation.error.full") : t("reservation.closed"));
+      // someone else may have taken the slot: refresh the list
+      setDay(await getDemoBookingService().slots(date, people));
+      setTime("");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const available = day?.slots.filter((s) => s.available) ?? [];
+
+  return (
+    <div>
+      {!confirmed ? (
+        <>
+          <div className="text-sm text-[rgb(var(--vx-fg)/70%)] mb-2">{t("reservation.title")}</div>
+          <form onSubmit={handleBook} className="space-y-2" noValidate>
+            <Field label={t("reservation.nameLabel")} error={fields.message("name")}>
+              <input
+                className="w-full rounded-[var(--vx-radius-control)] p-2 bg-[rgb(var(--vx-surface)/10%)] border border-[rgb(var(--vx-fg)/6%)] text-[rgb(var(--vx-fg))]"
+                autoComplete="name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </Field>
+            <div className="flex gap-2">
+              <Field label={t("reservation.partyLabel")} className="flex-1">
+                <select
+                  className="w-full rounded-[var(--vx-radius-control)] p-2 bg-[rgb(var(--vx-surface)/10%)] border border-[rgb(var(--vx-fg)/6%)]"
+                  value={people}
+                  onChange={(e) => setPeople(Number(e.target.value))}
+                >
+                  {Array.from({ length: config.maxPartySize }, (_, i) => i + 1).map((n) => (
+                    <option value={n} key={n}>
+                      {t("reservation.people", { count: n })}
+                    </option>
+                  ))}
+                </select>
+              </Field>
+              <Field label={t("reservation.dateLabel")} className="w-36" error={fields.message("date")}>
+                <input
+                  type="date"
+                  className="w-full rounded-[var(--vx-radius-control)] p-2 bg-[rgb(var(--vx-surface)/10%)] border border-[rgb(var(--vx-fg)/6%)]"
+                  value={date}
+                  min={today}
+                  max={addDays(today, config.maxDaysAhead)}
+                  onChange={(e) => e.target.value && setDate(e.target.value)}
+                />
+              </Field>
+            </div>
+
+            {/* not a Field: a group of buttons can't sit in a <label> */}
+            <div
+              role="radiogroup"
+              aria-label={t("reservation.slotsLabel")}
+              aria-invalid={fields.errors.time ? true : undefined}
+              aria-describedby={fields.errors.time ? timeErrorId : undefined}
+              className="grid grid-cols-4 gap-1 max-h-28 overflow-auto"
+            >
+              {!day && <div className="col-span-4 text-xs text-[rgb(var(--vx-fg)/50%)]">{t("reservation.loadingSlots")}</div>}
+              {day?.closed && <div className="col-span-4 text-xs text-[rgb(var(--vx-fg)/50%)]">{t("reservation.closed")}</div>}
+              {day && !day.closed && available.length === 0 && <div className="col-span-4 text-xs text-[rgb(var(--vx-fg)/50%)]">{t("reservation.noSlots")}</div>}
+              {day?.slots.map((s) => (
+                <button
+                  key={s.time}
+                  type="button"
+                  role="radio"
+                  aria-checked={time === s.time}
+                  disabled={!s.available}
+                  onClick={() => setTime(s.time)}
+                  className={`rounded-md py-1 text-xs border ${time === s.time ? "bg-[rgb(var(--vx-accent)/20%)] border-[rgb(var(--vx-accent-soft)/40%)]" : "border-[rgb(var(--vx-fg)/6%)]"} disabled:opacity-30 disabled:line-through`}
+                >
+                  {s.time}
+                </button>
+              ))}
+            </div>
+            {fields.errors.time && (
+              <p id={timeErrorId} className="text-xs text-[rgb(var(--vx-danger))]">
+                {fields.message("time")}
+              </p>
+            )}
+
+            {error && (
+              <div role="alert" className="text-xs text-[rgb(var(--vx-danger))]">
+                {error}
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={loading}
+              className="w-full rounded-[var(--vx-radius-control)] py-2 bg-gradient-to-r from-[rgb(var(--vx-accent))] to-[rgb(var(--vx-accent-soft))] text-[rgb(var(--vx-on-accent))] font-bold"
+            >
+              {t("reservation.submit")}
+            </button>
+          </form>
+        </>
+      ) : (
+        <div className="text-center">
+          <CheckCircle size={40} className="text-[rgb(var(--vx-accent))]" />
+          <div className="mt-2 font-bold">{t("reservation.confirmed")}</div>
+          <div className="text-sm text-[rgb(var(--vx-fg)/70%)] mt-1">
+            {t("reservation.summary", { name: confirmed.booking.name, people: confirmed.booking.partySize, date: formatDay(confirmed.booking.date), time: confirmed.booking.time })}
+          </div>
+          <div className="text-xs text-[rgb(var(--vx-fg)/50%)] mt-1">{t("reservation.reference", { id: confirmed.booking.id })}</div>
+          <div className="mt-3 flex flex-col gap-2">
+            {icsUrl && (
+              <a href={icsUrl} download={`reservation-${confirmed.booking.id}.ics`} className="text-sm text-[rgb(var(--vx-accent-soft))] underline">
+                {t("reservation.addToCalendar")}
+              </a>
+            )}
+            <button
+              type="button"
+              onClick={() => {
+                setConfirmed(null);
+                setTime("");
+              }}
+              className="text-xs text-[rgb(var(--vx-fg)/60%)] hover:text-[rgb(var(--vx-fg))]"
+            >
+              {t("reservation.another")}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RestaurantMiniSite;
@@ -0,0 +1,315 @@
+import React, { FormEvent, useEffect, useState } from "react";
+import { Field, Stepper, useFieldErrors, useFormTracking } from "../App";
+import { useI18n } from "../i18n";
+import {
+  BillingCycle,
+  DEMO_SAAS_CATALOG,
+  FeatureValue,
+  SaasFeature,
+  SaasPlan,
+  TRIAL_SCHEMA,
+  TrialAccount,
+  TrialApi,
+  clampSeats,
+  createTrialService,
+  localTrialStore,
+  planPrice,
+  trialRemaining,
+} from "../lib/saas";
+
+/**
+ * minisites/saas.tsx
+ * Portfolio demo of a SaaS product page: pricing table, seat and billing-cycle pricing and a trial
+ * signup against a mock API kept in localStorage. Registered in App.tsx, loaded the first time it's opened.
+ */
+
+/* ---------------------------
+   SaaS MiniSite
+   - Pricing table from DEMO_SAAS_CATALOG, trial signup against the mock API (localStorage)
+   --------------------------- */
+
+let demoTrialApi: TrialApi | null = null;
+
+const getDemoTrialApi = () => (demoTrialApi ??= createTrialService({ catalog: DEMO_SAAS_CATALOG, store: localTrialStore() }));
+
+const SAAS_TRIAL_KEY = "vortex.saas.trial";
+
+/** The visitor's own trial account, remembered across reloads. */
+function useTrialAccount(): [TrialAccount | null, (a: TrialAccount | null) => void] {
+  const [account, setAccount] = useState<TrialAccount | null>(() => {
+    if (typeof window === "undefined") return null;
+    try {
+      return JSON.parse(window.localStorage.getItem(SAAS_TRIAL_KEY) ?? "null") as TrialAccount | null;
+    } catch {
+      return null;
+    }
+  });
+  const update = (a: TrialAccount | null) => {
+    setAccount(a);
+    try {
+      if (a) window.localStorage.setItem(SAAS_TRIAL_KEY, JSON.stringify(a));
+      else window.localStorage.removeItem(SAAS_TRIAL_KEY);
+    } catch {
+      // storage unavailable: the account only lives for this page view
+    }
+  };
+  return [account, update];
+}
+
+/** Re-renders every second while a countdown is on screen. */
+function useNow(active: boolean) {
+  const [now, setNow] = useState(() => new Date());
+  useEffect(() => {
+    if (!active) return;
+    const id = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(id);
+  }, [active]);
+  return now;
+}
+
+const SaaSMiniSite: React.FC = () => {
+  const catalog = DEMO_SAAS_CATALOG;
+  const { t, formatCurrency, formatNumber } = useI18n();
+  const [planId, setPlanId] = useState(catalog.plans.find((p) => p.highlight)?.id ?? catalog.plans[0].id);
+  const [cycle, setCycle] = useState<BillingCycle>("monthly");
+  const [seats, setSeats] = useState(3);
+  const [account, setAccount] = useTrialAccount();
+  const now = useNow(Boolean(account?.trialEndsAt));
+
+  const plan = catalog.plans.find((p) => p.id === planId) ?? catalog.plans[0];
+  const planSeats = clampSeats(plan, seats);
+  const price = planPrice(plan, cycle, planSeats, catalog);
+  const money = (n: number) => formatCurrency(n, catalog.currency);
+
+  const featureValue = (kind: SaasFeature["kind"], v: FeatureValue | undefined) => {
+    if (v === undefined || v === false) return "—";
+    if (v === true) return "✓";
+    if (v === "unlimited") return t("saas.unlimited");
+    return kind === "percent" ? formatNumber(v / 100, { style: "percent", maximumFractionDigits: 2 }) : formatNumber(v);
+  };
+
+  const remaining = account?.trialEndsAt ? trialRemaining(account.trialEndsAt, now) : null;
+
+  return (
+    <main className="bg-[#08111a] text-[rgb(var(--vx-fg))] min-h-screen">
+      <div className="p-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <div className="text-lg font-extrabold">VORTEX CRM</div>
+            <div className="text-xs text-[rgb(var(--vx-fg)/60%)]">{t("saas.tagline")}</div>
+          </div>
+
+          <div className="text-sm text-right">
+            <div className="text-sm text-[rgb(var(--vx-fg)/70%)]">{t("saas.satisfaction")}</div>
+            <div className="text-xs text-[rgb(var(--vx-fg)/50%)]" aria-live="polite">
+              {!account
+                ? t("saas.trialStatus.none")
+                : !remaining
+                  ? t("saas.trialStatus.free")
+                  : remaining.expired
+                    ? t("saas.trialStatus.expired")
+                    : t("saas.trialStatus.active", { days: remaining.days })}
+            </div>
+          </div>
+        </div>
+
+        <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-3">
+          <div className="md:col-span-2 rounded-[var(--vx-radius-control)] p-3 bg-[rgb(var(--vx-surface)/20%)] border border-[rgb(var(--vx-fg)/6%)]">
+            <div className="flex items-center justify-between gap-3">
+              <div className="inline-flex rounded-[10px] bg-[rgb(var(--vx-surface)/20%)] p-1" role="group" aria-label={t("saas.billing")}>
+                {(["monthly", "annual"] as const).map((c) => (
+                  <button
+                    key={c}
+                    type="button"
+                    aria-pressed={cycle === c}
+                    onClick={() => setCycle(c)}
+                    className={`px-3 py-1 rounded-[8px] text-xs ${cycle === c ? "bg-[rgb(var(--vx-fg)/10%)] text-[rgb(var(--vx-fg))]" : "text-[rgb(var(--vx-fg)/60%)]"}`}
+                  >
+                    {t(`saas.cycle.${c}`)}
+                  </button>
+                ))}
+              </div>
+              <span className="text-xs text-[rgb(var(--vx-accent-soft))]">{t("saas.annualDiscount", { percent: formatNumber(catalog.annualDiscount, { style: "percent" }) })}</span>
+            </div>
+
+            <div className="mt-3 grid grid-cols-3 gap-2" role="radiogroup" aria-label={t("saas.plans")}>
+              {catalog.plans.map((p) => {
+                const pp = planPrice(p, cycle, clampSeats(p, seats), catalog);
+                return (
+                  <button
+                    key={p.id}
+                    type="button"
+                    role="radio"
+                    aria-checked={p.id === plan.id}
+                    onClick={() => setPlanId(p.id)}
+                    className={`rounded-[10px] p-2 text-left border ${p.id === plan.id ? "bg-[rgb(var(--vx-fg)/6%)] border-[rgb(var(--vx-accent-soft)/40%)]" : "bg-[rgb(var(--vx-surface)/10%)] border-[rgb(var(--vx-fg)/6%)]"}`}
+                  >
+                    <div className="text-sm font-bold">{p.name}</div>
+                    <div className="text-xs text-[rgb(var(--vx-fg)/60%)]">
+                      {p.monthlyPerSeat === 0 ? t("saas.free") : t("saas.perSeat", { price: money(pp.perSeatMonthly) })}
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+
+            <div className="mt-3 overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-[rgb(var(--vx-fg)/50%)] text-left">
+                    <th className="py-1 pr-2 font-normal">{t("saas.features")}</th>
+                    {catalog.plans.map((p) => (
+                      <th key={p.id} className={`py-1 px-2 text-center ${p.id === plan.id ? "text-[rgb(var(--vx-accent-soft))]" : "font-normal"}`}>
+                        {p.name}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {catalog.features.map((f) => (
+                    <tr key={f.id} className="border-t border-[rgb(var(--vx-fg)/4%)]">
+                      <td className="py-1 pr-2 text-[rgb(var(--vx-fg)/70%)]">{t(`saas.feature.${f.id}`)}</td>
+                      {catalog.plans.map((p) => (
+                        <td key={p.id} className="py-1 px-2 text-center text-[rgb(var(--vx-fg)/70%)]">
+                          {featureValue(f.kind, p.features[f.id])}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="rounded-[var(--vx-radius-control)] p-3 bg-[rgb(var(--vx-surface)/25%)] border border-[rgb(var(--vx-fg)/6%)] space-y-3">
+            <div className="flex items-center justify-between text-sm">
+              <span>{t("saas.seats")}</span>
+              <Stepper
+                label={t("saas.seats")}
+                value={planSeats}
+                min={plan.minSeats}
+                max={plan.maxSeats ?? 999}
+                onChange={setSeats}
+              />
+            </div>
+            <div className="text-sm">
+              <div className="text-2xl font-black text-[rgb(var(--vx-accent-soft))]">{money(price.billed)}</div>
+              <div className="text-xs text-[rgb(var(--vx-fg)/60%)]">
+                {cycle === "annual" ? t("saas.billedAnnually", { monthly: money(price.monthlyTotal) }) : t("saas.billedMonthly")}
+              </div>
+              {price.annualSavings > 0 && <div className="text-xs text-[rgb(var(--vx-success))]">{t("saas.savings", { amount: money(price.annualSavings) })}</div>}
+            </div>
+
+            {account ? (
+              <TrialSummary account={account} remaining={remaining} onReset={() => setAccount(null)} />
+            ) : (
+              <TrialSignupForm plan={plan} seats={planSeats} cycle={cycle} onCreated={setAccount} />
+            )}
+          </div>
+        </div>
+      </div>
+    </main>
+  );
+};
+
+const TrialSignupForm: React.FC<{ plan: SaasPlan; seats: number; cycle: BillingCycle; onCreated: (a: TrialAccount) => void }> = ({
+  plan,
+  seats,
+  cycle,
+  onCreated,
+}) => {
+  const { t } = useI18n();
+  const [email, setEmail] = useState("");
+  const [company, setCompany] = useState("");
+  const fields = useFieldErrors(TRIAL_SCHEMA, { email, company });
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const tracking = useFormTracking("trial");
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (!fields.validate()) return;
+    setLoading(true);
+    try {
+      const result = await getDemoTrialApi().createTrial({ email, company, planId: plan.id, seats, cycle });
+      if (result.ok) {
+        tracking.submitted();
+        return onCreated(result.account);
+      }
+      if (result.error === "already_exists") return setError(t("saas.error.exists"));
+      fields.showErrors(result.fields);
+      // plan and seats come from the pricing table, not from a field the visitor can fix
+      if (!result.fields.email && !result.fields.company) setError(t("saas.error.generic"));
+    } catch {
+      setError(t("saas.error.generic"));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} onInput={tracking.start} className="space-y-2" noValidate>
+      <Field label={t("contact.emailLabel")} error={fields.message("email")}>
+        <input
+          type="email"
+          autoComplete="email"
+          placeholder={t("saas.emailPlaceholder")}
+          className="w-full rounded-[10px] p-2 bg-[rgb(var(--vx-surface)/10%)] border border-[rgb(var(--vx-fg)/6%)] text-sm"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+        />
+      </Field>
+      <Field label={t("saas.companyLabel")} error={fields.message("company")}>
+        <input
+          autoComplete="organization"
+          className="w-full rounded-[10px] p-2 bg-[rgb(var(--vx-surface)/10%)] border border-[rgb(var(--vx-fg)/6%)] text-sm"
+          value={company}
+          onChange={(e) => setCompany(e.target.value)}
+        />
+      </Field>
+      {error && (
+        <div role="alert" className="text-xs text-[rgb(var(--vx-danger))]">
+          {error}
+        </div>
+      )}
+      <button
+        type="submit"
+        disabled={loading}
+        aria-busy={loading}
+        className="w-full px-3 py-2 rounded-lg bg-[rgb(var(--vx-accent)/10%)] border border-[rgb(var(--vx-accent)/20%)] text-[rgb(var(--vx-accent-soft))] font-bold text-sm"
+      >
+        {plan.trial ? t("saas.startTrial", { days: DEMO_SAAS_CATALOG.trialDays }) : t("saas.startFree")}
+      </button>
+    </form>
+  );
+};
+
+const TrialSummary: React.FC<{ account: TrialAccount; remaining: ReturnType<typeof trialRemaining> | null; onReset: () => void }> = ({
+  account,
+  remaining,
+  onReset,
+}) => {
+  const { t, locale } = useI18n();
+  const plan = DEMO_SAAS_CATALOG.plans.find((p) => p.id === account.planId);
+  return (
+    <div className="rounded-[10px] p-3 bg-[rgb(var(--vx-accent)/5%)] border border-[rgb(var(--vx-accent-soft)/20%)] text-sm space-y-1">
+      <div className="font-bold">{t("saas.accountCreated", { plan: plan?.name ?? account.planId, company: account.company })}</div>
+      {remaining && account.trialEndsAt && (
+        <>
+          <div className="font-mono text-[rgb(var(--vx-accent-soft))]" aria-live="off">
+            {remaining.expired ? t("saas.trialStatus.expired") : t("saas.countdown", { days: remaining.days, hours: remaining.hours, minutes: remaining.minutes, seconds: remaining.seconds })}
+          </div>
+          <div className="text-xs text-[rgb(var(--vx-fg)/60%)]">
+            {t("saas.trialEnds", { date: new Intl.DateTimeFormat(locale, { dateStyle: "long", timeStyle: "short" }).format(new Date(account.trialEndsAt)) })}
+          </div>
+        </>
+      )}
+      <button type="button" onClick={onReset} className="text-xs text-[rgb(var(--vx-fg)/60%)] hover:text-[rgb(var(--vx-fg))]">
+        {t("saas.reset")}
+      </button>
+    </div>
+  );
+};
+
+export default SaaSMiniSite;
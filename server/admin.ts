@@ -0,0 +1,67 @@
+import { AdminLeadsResponse, LeadRecord, applyLeadUpdate, filterLeads, parseLeadFilter, validateLeadUpdate } from "../lib/admin";
+import { Handler, clientIp, json, readJson, sameSecret } from "./http";
+import { CSV_COLUMNS, LeadStore, csvCell } from "./leads";
+import { RateLimiter, createRateLimiter } from "./rateLimit";
+
+/**
+ * server/admin.ts
+ * GET   /api/admin/leads?budget=&maintenance=&status=  — the stored leads, filtered (`&format=csv` for a download)
+ * PATCH /api/admin/leads                               — `{ id, status?, note? }`: moves a lead in the pipeline, adds a note
+ *
+ * Behind the admin password (Bearer). Every request counts against a per-IP limit, so an IP over it is
+ * refused whatever password it sends; without a password configured the dashboard is closed.
+ */
+
+/** Pipeline columns first, then the same columns as the CSV lead log (server/leads/file.ts). */
+export function leadRecordsCsv(records: LeadRecord[]): string {
+  const columns: Record<string, (r: LeadRecord) => unknown> = {
+    status: (r) => r.status,
+    updatedAt: (r) => r.updatedAt,
+    notes: (r) => r.notes.map((n) => `[${n.at}] ${n.text}`).join("\n"),
+    ...Object.fromEntries(Object.entries(CSV_COLUMNS).map(([k, get]) => [k, (r: LeadRecord) => get(r.lead)])),
+  };
+  const rows = records.map((r) => Object.values(columns).map((get) => csvCell(get(r))).join(","));
+  return [Object.keys(columns).join(","), ...rows].join("\n") + "\n";
+}
+
+export function createAdminLeadsHandler({
+  store,
+  password,
+  rateLimiter = createRateLimiter({ max: 60 }),
+  trustProxy = false,
+  now = () => new Date(),
+}: {
+  store: LeadStore;
+  password: string | undefined;
+  /** Counts every request, signed in or not: a guess that lands past the limit isn't even checked. */
+  rateLimiter?: RateLimiter;
+  trustProxy?: boolean;
+  now?: () => Date;
+}): Handler {
+  const reply = (body: AdminLeadsResponse, status = 200, headers?: Record<string, string>) => json(body, status, headers);
+
+  return async (req, ctx) => {
+    const { allowed, retryAfter } = rateLimiter.hit(clientIp(req, ctx, trustProxy));
+    if (!allowed) return reply({ ok: false, error: "rate_limited", retryAfter }, 429, { "Retry-After": String(retryAfter) });
+    if (!password || !sameSecret(req.headers.get("authorization") ?? "", `Bearer ${password}`)) return reply({ ok: false, error: "unauthorized" }, 401);
+
+    if (req.method === "GET") {
+      const params = new URL(req.url).searchParams;
+      const leads = filterLeads(await store.all(), parseLeadFilter(params));
+      if (params.get("format") !== "csv") return reply({ ok: true, leads });
+      return new Response(leadRecordsCsv(leads), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="leads-${now().toISOString().slice(0, 10)}.csv"`,
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    if (req.method !== "PATCH") return reply({ ok: false, error: "bad_request" }, 405, { Allow: "GET, PATCH" });
+    const update = validateLeadUpdate(await readJson(req));
+    if (!update) return reply({ ok: false, error: "bad_request" }, 400);
+    const lead = await store.update(update.id, (record) => applyLeadUpdate(record, update, now()));
+    return lead ? reply({ ok: true, lead }) : reply({ ok: false, error: "not_found" }, 404);
+  };
+}
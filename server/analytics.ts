@@ -0,0 +1,126 @@
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { AnalyticsEvent, funnelReport, parseEventBatch } from "../lib/analytics";
+import { Experiment, experimentReport } from "../lib/experiments";
+import { Handler, clientIp, json, readJson, sameSecret } from "./http";
+import { RateLimiter, createRateLimiter } from "./rateLimit";
+
+/**
+ * server/analytics.ts
+ * POST /api/analytics        — event batches from `beaconTransport` (lib/analytics.ts), answered with 204
+ * GET  /api/analytics/funnel — funnel report, for the site owner (Bearer token, ?from=&to= ISO dates)
+ * GET  /api/analytics/experiments — A/B test readout (lib/experiments.ts), same token and date filters
+ *
+ * Events are kept as JSON Lines; no IP address or user agent is stored.
+ */
+
+export const FUNNEL_ENDPOINT = "/api/analytics/funnel";
+export const EXPERIMENTS_ENDPOINT = "/api/analytics/experiments";
+
+export interface EventStore {
+  append: (events: AnalyticsEvent[]) => Promise<void>;
+  all: () => Promise<AnalyticsEvent[]>;
+}
+
+export function memoryEventStore(): EventStore {
+  const events: AnalyticsEvent[] = [];
+  return { append: async (batch) => void events.push(...batch), all: async () => [...events] };
+}
+
+export function jsonlEventStore(path: string): EventStore {
+  // serialise writes so concurrent batches never interleave lines
+  let queue: Promise<void> = Promise.resolve();
+  return {
+    append(batch) {
+      const next = queue.then(async () => {
+        await mkdir(dirname(path), { recursive: true });
+        await appendFile(path, batch.map((e) => JSON.stringify(e) + "\n").join(""), "utf8");
+      });
+      queue = next.catch(() => undefined);
+      return next;
+    },
+    async all() {
+      await queue;
+      try {
+        const text = await readFile(path, "utf8");
+        return text
+          .split("\n")
+          .filter(Boolean)
+          .map((line) => JSON.parse(line) as AnalyticsEvent);
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+        throw err;
+      }
+    },
+  };
+}
+
+export function createAnalyticsHandler({
+  store,
+  rateLimiter = createRateLimiter({ max: 120 }),
+  trustProxy = false,
+}: {
+  store: EventStore;
+  rateLimiter?: RateLimiter;
+  trustProxy?: boolean;
+}): Handler {
+  return async (req, ctx) => {
+    if (req.method !== "POST") return json({ ok: false, error: "bad_request" }, 405, { Allow: "POST" });
+    // the browser already refuses to send when DNT/GPC is on; this covers other clients
+    if (req.headers.get("dnt") === "1" || req.headers.get("sec-gpc") === "1") return new Response(null, { status: 204 });
+
+    const { allowed, retryAfter } = rateLimiter.hit(clientIp(req, ctx, trustProxy));
+    if (!allowed) return json({ ok: false, error: "rate_limited", retryAfter }, 429, { "Retry-After": String(retryAfter) });
+
+    const body = await readJson(req, 32 * 1024);
+    if (body === undefined) return json({ ok: false, error: "bad_request" }, 400);
+    const events = parseEventBatch(body);
+    if (events.length) await store.append(events);
+    return new Response(null, { status: 204 });
+  };
+}
+
+export type ReportHandlerOptions = {
+  store: EventStore;
+  token: string | undefined;
+  /** Counts every request before the token is checked, so guessing it is as slow as the limit. */
+  rateLimiter?: RateLimiter;
+  trustProxy?: boolean;
+};
+
+/** GET handler for a report over the stored events, behind the owner's Bearer token. */
+function reportHandler(
+  { store, token, rateLimiter = createRateLimiter({ max: 30 }), trustProxy = false }: ReportHandlerOptions,
+  build: (events: AnalyticsEvent[]) => unknown
+): Handler {
+  return async (req, ctx) => {
+    if (req.method !== "GET") return json({ ok: false, error: "bad_request" }, 405, { Allow: "GET" });
+    const { allowed, retryAfter } = rateLimiter.hit(clientIp(req, ctx, trustProxy));
+    if (!allowed) return json({ ok: false, error: "rate_limited", retryAfter }, 429, { "Retry-After": String(retryAfter) });
+    // no token configured: the report is not exposed at all
+    if (!token || !sameSecret(req.headers.get("authorization") ?? "", `Bearer ${token}`)) return json({ ok: false, error: "unauthorized" }, 401);
+
+    const params = new URL(req.url).searchParams;
+    const from = params.get("from");
+    const to = params.get("to");
+    // `to` is inclusive: "2026-10-19" keeps every event of that day
+    const events = (await store.all()).filter((e) => (!from || e.at >= from) && (!to || e.at.slice(0, to.length) <= to));
+    return json({ ok: true, report: build(events) });
+  };
+}
+
+export function createFunnelHandler(options: ReportHandlerOptions): Handler {
+  return reportHandler(options, (events) => funnelReport(events));
+}
+
+/** `experiments` (the definitions the page runs) fixes which variant is the control and lists variants nobody saw yet. */
+export function createExperimentsHandler({
+  experiments,
+  alpha,
+  ...options
+}: ReportHandlerOptions & {
+  experiments?: Experiment[];
+  alpha?: number;
+}): Handler {
+  return reportHandler(options, (events) => experimentReport(events, { experiments, alpha }));
+}
@@ -0,0 +1,66 @@
+import { Booking, BookingResult, BookingService, BookingStore } from "../lib/booking";
+import { isValidDate } from "../lib/time";
+import { Handler, clientIp, json, readJson } from "./http";
+import { jsonFileStore } from "./jsonFile";
+import { RateLimiter, createRateLimiter } from "./rateLimit";
+
+/**
+ * server/booking.ts
+ * GET  /api/booking?date=YYYY-MM-DD&party=N — available slots for that day
+ * POST /api/booking                         — books a table, answers with the booking and its .ics
+ *
+ * Bookings live in a JSON file (no external service); `memoryBookingStore` works too for tests.
+ */
+
+/** Bookings in a JSON file (server/jsonFile.ts). */
+export function jsonFileBookingStore(path: string): BookingStore {
+  const file = jsonFileStore<Booking>(path);
+  return {
+    forDate: async (date) => (await file.read()).filter((b) => b.date === date),
+    insertIf: (date, decide) =>
+      file.transaction(async (all, save) => {
+        const booking = decide(all.filter((b) => b.date === date));
+        if (booking) await save([...all, booking]);
+        return booking;
+      }),
+  };
+}
+
+export type BookingHandlerOptions = {
+  service: BookingService;
+  rateLimiter?: RateLimiter;
+  trustProxy?: boolean;
+  log?: Pick<Console, "info">;
+};
+
+export function createBookingHandler({
+  service,
+  rateLimiter = createRateLimiter({ max: 10 }),
+  trustProxy = false,
+  log = console,
+}: BookingHandlerOptions): Handler {
+  return async (req, ctx) => {
+    if (req.method === "GET") {
+      const params = new URL(req.url).searchParams;
+      const date = params.get("date") ?? "";
+      const party = Number(params.get("party") ?? 2);
+      if (!isValidDate(date) || !Number.isInteger(party) || party < 1) return json({ ok: false, error: "bad_request" }, 400);
+      return json(await service.slots(date, party));
+    }
+
+    if (req.method !== "POST") return json({ ok: false, error: "bad_request" }, 405, { Allow: "GET, POST" });
+
+    const { allowed, retryAfter } = rateLimiter.hit(clientIp(req, ctx, trustProxy));
+    if (!allowed) return json({ ok: false, error: "rate_limited", retryAfter }, 429, { "Retry-After": String(retryAfter) });
+
+    const body = await readJson(req);
+    if (body === undefined) return json({ ok: false, error: "bad_request" }, 400);
+
+    const result: BookingResult = await service.book(body);
+    if (result.ok) {
+      log.info(`[booking] ${result.booking.id} ${result.booking.date} ${result.booking.time} × ${result.booking.partySize} → ${result.booking.tableId}`);
+      return json(result, 201);
+    }
+    return json(result, result.error === "validation" ? 422 : 409);
+  };
+}
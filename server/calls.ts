@@ -0,0 +1,96 @@
+import { readFileSync } from "node:fs";
+import { CallBooking, CallResult, CallSchedule, CallService, CallStore, STUDIO_CALL_SCHEDULE, validateCallSchedule } from "../lib/calls";
+import { ConfigError } from "./errors";
+import { Handler, clientIp, json, readJson } from "./http";
+import { jsonFileStore } from "./jsonFile";
+import type { SmtpTransport } from "./leads";
+import { RateLimiter, createRateLimiter } from "./rateLimit";
+
+/**
+ * server/calls.ts
+ * GET  /api/calls — free discovery-call slots (UTC instants) from the studio's schedule
+ * POST /api/calls — books one, answers with the call and its .ics invite (emailed too when SMTP is set up)
+ *
+ * Calls live in a JSON file; the schedule is lib/calls.ts `STUDIO_CALL_SCHEDULE` unless a JSON file
+ * replaces it (same shape, checked at startup).
+ */
+
+/** The schedule in `path`, or the default one when there's no such file. Throws ConfigError when invalid. */
+export function callScheduleFromFile(path: string | undefined, fallback: CallSchedule = STUDIO_CALL_SCHEDULE): CallSchedule {
+  if (!path) return fallback;
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf8"));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return fallback;
+    throw new ConfigError(`Call schedule ${path} is not readable JSON: ${err}`);
+  }
+  const schedule = validateCallSchedule(raw);
+  if (!schedule.ok) throw new ConfigError(`Invalid call schedule ${path}:\n- ${schedule.issues.join("\n- ")}`);
+  return schedule.value;
+}
+
+/** Calls in a JSON file (server/jsonFile.ts). */
+export function jsonFileCallStore(path: string): CallStore {
+  const file = jsonFileStore<CallBooking>(path);
+  return {
+    upcoming: async (from) => (await file.read()).filter((c) => c.start >= from),
+    insertIf: (decide) =>
+      file.transaction(async (all, save) => {
+        const call = decide(all);
+        if (call) await save([...all, call]);
+        return call;
+      }),
+  };
+}
+
+/** Emails the invite to the prospect, with the studio in copy so the call lands in its calendar too. */
+export function smtpCallInvites({ transport, from, schedule }: { transport: SmtpTransport; from: string; schedule: CallSchedule }) {
+  return async (call: CallBooking, ics: string) => {
+    const when = new Intl.DateTimeFormat("fr-FR", { dateStyle: "full", timeStyle: "short", timeZone: call.timeZone }).format(new Date(call.start));
+    await transport.sendMail({
+      from,
+      to: `${call.name} <${call.email}>`,
+      cc: schedule.organizer.email,
+      replyTo: schedule.organizer.email,
+      subject: `Appel découverte ${schedule.organizer.name} — ${when}`,
+      text: [
+        `Bonjour ${call.name},`,
+        "",
+        `Votre appel découverte de ${schedule.durationMinutes} minutes est confirmé : ${when} (${call.timeZone}).`,
+        `Lieu : ${schedule.location}`,
+        "",
+        "L'invitation est jointe ; ajoutez-la à votre agenda.",
+      ].join("\n"),
+      attachments: [{ filename: "appel-decouverte.ics", content: ics, contentType: "text/calendar; method=REQUEST" }],
+    });
+  };
+}
+
+export type CallsHandlerOptions = {
+  service: CallService;
+  rateLimiter?: RateLimiter;
+  trustProxy?: boolean;
+  log?: Pick<Console, "info">;
+};
+
+export function createCallsHandler({ service, rateLimiter = createRateLimiter({ max: 5 }), trustProxy = false, log = console }: CallsHandlerOptions): Handler {
+  return async (req, ctx) => {
+    if (req.method === "GET") return json(await service.slots());
+
+    if (req.method !== "POST") return json({ ok: false, error: "bad_request" }, 405, { Allow: "GET, POST" });
+
+    const { allowed, retryAfter } = rateLimiter.hit(clientIp(req, ctx, trustProxy));
+    if (!allowed) return json({ ok: false, error: "rate_limited", retryAfter }, 429, { "Retry-After": String(retryAfter) });
+
+    const body = await readJson(req);
+    if (body === undefined) return json({ ok: false, error: "bad_request" }, 400);
+
+    const result: CallResult = await service.book(body);
+    if (result.ok) {
+      log.info(`[calls] ${result.booking.id} ${result.booking.start} ${result.booking.email}${result.emailed ? " (invite sent)" : ""}`);
+      return json(result, 201);
+    }
+    return json(result, result.error === "validation" ? 422 : 409);
+  };
+}
@@ -0,0 +1,64 @@
+import { readFile } from "node:fs/promises";
+import { CapacityResponse, computeAvailability, validateCapacityCalendar } from "../lib/capacity";
+import { Handler, json } from "./http";
+
+/**
+ * server/capacity.ts
+ * GET /api/capacity — genuine availability computed from the studio's project calendar (lib/capacity.ts).
+ * Answers 503 "unavailable" when the calendar is missing, invalid or stale, and the page falls back to
+ * its neutral copy. The calendar is a JSON file kept up to date by the team, e.g.:
+ *
+ *   { "timeZone": "Europe/Paris", "parallelProjects": 2, "projectDays": 10, "leadDays": 7,
+ *     "startWeekdays": [1], "projects": [{ "start": "2026-11-02", "end": "2026-11-13" }],
+ *     "closures": [{ "start": "2026-12-21", "end": "2027-01-03" }], "updatedAt": "2026-10-19" }
+ */
+
+/** Reads the calendar document; undefined when the file doesn't exist. */
+export function jsonFileCapacitySource(path: string): () => Promise<unknown> {
+  return async () => {
+    try {
+      return JSON.parse(await readFile(path, "utf8"));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw err;
+    }
+  };
+}
+
+export function createCapacityHandler({
+  load,
+  now = () => new Date(),
+  log = console,
+}: {
+  load: () => Promise<unknown>;
+  now?: () => Date;
+  log?: Pick<Console, "warn">;
+}): Handler {
+  const reply = (body: CapacityResponse, status = 200, headers?: Record<string, string>) => json(body, status, headers);
+
+  return async (req) => {
+    if (req.method !== "GET") return reply({ ok: false, error: "bad_request" }, 405, { Allow: "GET" });
+
+    let raw: unknown;
+    try {
+      raw = await load();
+    } catch (err) {
+      log.warn(`[capacity] calendar unreadable: ${err}`);
+      return reply({ ok: false, error: "unavailable" }, 503);
+    }
+    if (raw === undefined) return reply({ ok: false, error: "unavailable" }, 503);
+
+    const calendar = validateCapacityCalendar(raw);
+    if (!calendar.ok) {
+      log.warn(`[capacity] invalid calendar:\n- ${calendar.issues.join("\n- ")}`);
+      return reply({ ok: false, error: "unavailable" }, 503);
+    }
+    const availability = computeAvailability(calendar.value, { now: now() });
+    if (!availability) {
+      log.warn(`[capacity] calendar last updated ${calendar.value.updatedAt}, too old to be shown`);
+      return reply({ ok: false, error: "unavailable" }, 503);
+    }
+    // availability only moves when the calendar file does; a few minutes of caching is harmless
+    return reply({ ok: true, availability }, 200, { "Cache-Control": "public, max-age=300" });
+  };
+}
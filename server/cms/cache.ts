@@ -0,0 +1,57 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { parseContentEntries } from "../../lib/cms";
+import type { ContentSource, SourceLoad } from "./types";
+
+/**
+ * server/cms/cache.ts
+ * Keeps the last good load of the published entries, in memory for `maxAgeMs` and in a JSON file. The
+ * site then doesn't call the CMS on every request, and a build or a server start with the CMS down
+ * uses the last snapshot instead of failing (or losing the edited copy). Preview loads are never cached.
+ */
+
+type Snapshot = { savedAt: string; entries: unknown };
+
+export function cachedSource(
+  source: ContentSource,
+  {
+    file,
+    maxAgeMs = 60_000,
+    now = Date.now,
+    log = console,
+  }: { file: string; maxAgeMs?: number; now?: () => number; log?: Pick<Console, "warn"> }
+): ContentSource {
+  let memory: { at: number; load: SourceLoad } | null = null;
+
+  const readSnapshot = async (): Promise<SourceLoad | null> => {
+    try {
+      const snapshot = JSON.parse(await readFile(file, "utf8")) as Snapshot;
+      return { entries: parseContentEntries(snapshot.entries).entries, skipped: [] };
+    } catch {
+      return null;
+    }
+  };
+
+  return {
+    name: `${source.name} (cached)`,
+    async load({ preview }) {
+      if (preview) return source.load({ preview });
+      if (memory && now() - memory.at < maxAgeMs) return memory.load;
+      try {
+        const load = await source.load({ preview: false });
+        memory = { at: now(), load };
+        const snapshot: Snapshot = { savedAt: new Date(now()).toISOString(), entries: load.entries };
+        await mkdir(dirname(file), { recursive: true });
+        await writeFile(file, JSON.stringify(snapshot), "utf8");
+        return load;
+      } catch (err) {
+        const stale = memory?.load ?? (await readSnapshot());
+        if (!stale) throw err;
+        log.warn(`[cms] ${source.name} failed, serving the last snapshot: ${err instanceof Error ? err.message : err}`);
+        // retried once the cache would have expired anyway, not on every request
+        memory = { at: now(), load: stale };
+        return stale;
+      }
+    },
+  };
+}
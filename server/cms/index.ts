@@ -0,0 +1,10 @@
+/**
+ * server/cms/index.ts
+ * Content sources for the CMS-edited copy (lib/cms.ts): markdown files that work offline, or a headless
+ * CMS behind `remoteSource`, either one usually wrapped in `cachedSource`.
+ */
+
+export { ContentSourceError, type ContentSource, type SourceLoad } from "./types";
+export { markdownSource, parseFrontmatter } from "./markdown";
+export { remoteSource } from "./remote";
+export { cachedSource } from "./cache";
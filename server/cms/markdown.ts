@@ -0,0 +1,122 @@
+import { readFile, readdir } from "node:fs/promises";
+import { join } from "node:path";
+import { COLLECTIONS, Collection, parseContentEntries } from "../../lib/cms";
+import { LOCALES } from "../../i18n/locales";
+import type { ContentSource, SourceLoad } from "./types";
+
+/**
+ * server/cms/markdown.ts
+ * Entries kept as markdown files with a frontmatter header, one file per entry under
+ * `<dir>/<collection>/<locale>/<id>.md`. Works offline and is edited like any file in the repo:
+ *
+ *   content/cms/faq/fr/inclus.md            question (the answer is the body)
+ *   content/cms/testimonials/fr/clara.md    author, avatarColor (the quote is the body)
+ *   content/cms/comparison/fr/seo.md        feature, vortex, wix, freelance
+ *   content/cms/portfolio/fr/saas.md        the description is the body; "## Title" + "- item" lists become details
+ *
+ * Every file may set `order` (position in the list) and `draft: true` (shown in preview only). The
+ * frontmatter is `key: value` lines: strings, quoted or not, numbers and true/false.
+ *
+ *   ---
+ *   question: "Combien de révisions sont incluses ?"
+ *   order: 2
+ *   ---
+ *   Nous incluons 2 révisions principales durant la phase de validation.
+ */
+
+type Frontmatter = Record<string, string | number | boolean>;
+
+/** Splits a markdown file into its frontmatter and body; throws on a malformed header line. */
+export function parseFrontmatter(source: string): { attributes: Frontmatter; body: string } {
+  const m = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/.exec(source.replace(/^\uFEFF/, ""));
+  if (!m) return { attributes: {}, body: source };
+  const attributes: Frontmatter = {};
+  m[1].split(/\r?\n/).forEach((line, i) => {
+    if (!line.trim() || line.trimStart().startsWith("#")) return;
+    const field = /^([A-Za-z][\w-]*):\s*(.*)$/.exec(line);
+    if (!field) throw new Error(`frontmatter line ${i + 1}: expected "key: value"`);
+    const raw = field[2].trim();
+    if (/^"(?:[^"\\]|\\.)*"$/.test(raw)) attributes[field[1]] = JSON.parse(raw);
+    else if (/^'.*'$/.test(raw)) attributes[field[1]] = raw.slice(1, -1).replace(/''/g, "'");
+    else if (raw === "true" || raw === "false") attributes[field[1]] = raw === "true";
+    else if (/^-?\d+(\.\d+)?$/.test(raw)) attributes[field[1]] = Number(raw);
+    else attributes[field[1]] = raw;
+  });
+  return { attributes, body: m[2] };
+}
+
+/** Paragraphs as plain text: lines of a paragraph joined, paragraphs separated by a blank line. */
+const paragraphs = (md: string) =>
+  md
+    .split(/\n\s*\n/)
+    .map((p) => p.replace(/\s*\n\s*/g, " ").trim())
+    .filter(Boolean)
+    .join("\n\n");
+
+/** Portfolio body: the text before the first "## " heading, then one detail block per heading. */
+function portfolioData(body: string) {
+  const [intro, ...sections] = body.split(/^##\s+/m);
+  const details = sections.map((section) => {
+    const [title, ...lines] = section.split(/\r?\n/);
+    const items = lines.flatMap((l) => {
+      const item = /^\s*[-*]\s+(.*)$/.exec(l);
+      return item ? [item[1].trim()] : [];
+    });
+    return { title: title.trim(), items };
+  });
+  return { desc: paragraphs(intro), ...(details.length ? { details } : {}) };
+}
+
+function entryData(collection: Collection, attributes: Frontmatter, body: string): Record<string, unknown> {
+  switch (collection) {
+    case "faq":
+      return { q: attributes.question, a: paragraphs(body) };
+    case "testimonials":
+      return { quote: paragraphs(body), author: attributes.author, avatarColor: attributes.avatarColor };
+    case "comparison":
+      return { feature: attributes.feature, vortex: attributes.vortex, wix: attributes.wix, freelance: attributes.freelance };
+    case "portfolio":
+      return portfolioData(body);
+  }
+}
+
+const listDir = async (dir: string) => {
+  try {
+    return await readdir(dir);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw err;
+  }
+};
+
+/** Reads the entries under `dir`; a missing directory (or collection) just has no entries. */
+export function markdownSource({ dir }: { dir: string }): ContentSource {
+  return {
+    name: "markdown",
+    async load({ preview }): Promise<SourceLoad> {
+      const result: SourceLoad = { entries: [], skipped: [] };
+      const raws: unknown[] = [];
+      const refs: string[] = [];
+      for (const collection of COLLECTIONS) {
+        for (const locale of LOCALES) {
+          const folder = join(dir, collection, locale);
+          for (const file of (await listDir(folder)).filter((f) => f.endsWith(".md")).sort()) {
+            const ref = join(folder, file);
+            try {
+              const { attributes, body } = parseFrontmatter(await readFile(ref, "utf8"));
+              const { order = 0, draft = false } = attributes;
+              raws.push({ collection, id: file.slice(0, -3), locale, order, draft, data: entryData(collection, attributes, body) });
+              refs.push(ref);
+            } catch (err) {
+              result.skipped.push({ ref, reason: err instanceof Error ? err.message : String(err) });
+            }
+          }
+        }
+      }
+      const parsed = parseContentEntries(raws);
+      result.entries = parsed.entries.filter((e) => preview || !e.draft);
+      result.skipped.push(...parsed.skipped.map(({ index, reason }) => ({ ref: refs[index], reason })));
+      return result;
+    },
+  };
+}
@@ -0,0 +1,59 @@
+import { parseContentEntries } from "../../lib/cms";
+import { ContentSource, ContentSourceError, SourceLoad } from "./types";
+
+/**
+ * server/cms/remote.ts
+ * Entries from a headless CMS over HTTP. The endpoint answers a JSON array of documents (or
+ * `{ entries: [...] }`); `map` turns one of the CMS's documents into an entry (`{ collection, id,
+ * locale, order, draft, data }`, see lib/cms.ts), so connecting another CMS is writing that function.
+ *
+ * Published entries are read with `token`; preview (drafts) sends `?preview=1` with `previewToken`,
+ * the way most CMSs separate their delivery and preview APIs.
+ */
+
+export function remoteSource({
+  name = "remote",
+  url,
+  token,
+  previewToken,
+  map = (doc) => doc,
+  fetchImpl = fetch,
+  timeoutMs = 5000,
+}: {
+  name?: string;
+  url: string;
+  token?: string;
+  previewToken?: string;
+  map?: (doc: unknown) => unknown;
+  fetchImpl?: typeof fetch;
+  timeoutMs?: number;
+}): ContentSource {
+  return {
+    name,
+    async load({ preview }): Promise<SourceLoad> {
+      if (preview && !previewToken) throw new ContentSourceError(name, "preview needs a preview token");
+      const target = new URL(url);
+      if (preview) target.searchParams.set("preview", "1");
+      const bearer = preview ? previewToken : token;
+      let res: Response;
+      try {
+        res = await fetchImpl(target, {
+          headers: { Accept: "application/json", ...(bearer ? { Authorization: `Bearer ${bearer}` } : {}) },
+          signal: AbortSignal.timeout(timeoutMs),
+        });
+      } catch (err) {
+        throw new ContentSourceError(name, `unreachable: ${err instanceof Error ? err.message : err}`);
+      }
+      if (!res.ok) throw new ContentSourceError(name, `HTTP ${res.status}`);
+      const body: unknown = await res.json().catch(() => undefined);
+      const docs = Array.isArray(body) ? body : (body as { entries?: unknown } | undefined)?.entries;
+      if (!Array.isArray(docs)) throw new ContentSourceError(name, "expected an array of entries");
+
+      const parsed = parseContentEntries(docs.map(map));
+      return {
+        entries: parsed.entries.filter((e) => preview || !e.draft),
+        skipped: parsed.skipped.map(({ index, reason }) => ({ ref: `#${index}`, reason })),
+      };
+    },
+  };
+}
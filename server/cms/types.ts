@@ -0,0 +1,26 @@
+import type { ContentEntry } from "../../lib/cms";
+
+/**
+ * server/cms/types.ts
+ * Contract every content source implements (markdown files, a headless CMS).
+ */
+
+export type SourceLoad = {
+  entries: ContentEntry[];
+  /** Entries left out, with where they came from (file path, "#index" in a remote response). */
+  skipped: { ref: string; reason: string }[];
+};
+
+export interface ContentSource {
+  /** Stable name used in logs (e.g. "markdown", "remote"). */
+  name: string;
+  /** Every entry of the source, drafts included when `preview` is set. Throws when unreachable. */
+  load: (options: { preview: boolean }) => Promise<SourceLoad>;
+}
+
+export class ContentSourceError extends Error {
+  constructor(source: string, detail: string) {
+    super(`[${source}] ${detail}`);
+    this.name = "ContentSourceError";
+  }
+}
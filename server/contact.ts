@@ -0,0 +1,85 @@
+import { randomUUID } from "node:crypto";
+import type { Pricing } from "../content/schema";
+import vortexContent from "../content/vortex";
+import { ContactResponse, validateContactSubmission } from "../lib/contact";
+import { conversionEvents } from "../lib/experiments";
+import { leadFromSubmission } from "../lib/lead";
+import type { EventStore } from "./analytics";
+import { Handler, clientIp, json, readJson } from "./http";
+import { LeadAdapter, deliverLead } from "./leads";
+import { RateLimiter, createRateLimiter } from "./rateLimit";
+import type { EmailChecker } from "./validation";
+
+/**
+ * server/contact.ts
+ * POST /api/contact — validates the payload (the schema of lib/contact.ts, then the email checks of
+ * server/validation.ts), enforces per-IP rate limits, drops honeypot hits, turns the submission into a
+ * Lead and fans it out to every configured adapter. Secrets (API keys, SMTP
+ * credentials, webhook secrets) never reach the bundle.
+ *
+ * The visitor gets a success as soon as one sink accepted the lead; failed sinks are logged. A delivered
+ * lead that carries A/B assignments is recorded as a conversion in the analytics store.
+ */
+
+export type ContactHandlerOptions = {
+  adapters: LeadAdapter[];
+  rateLimiter?: RateLimiter;
+  /** Honour X-Forwarded-For (only behind a proxy you control). */
+  trustProxy?: boolean;
+  /** Prices attached quotes are re-computed with (defaults to the site content's). */
+  pricing?: Pricing;
+  currency?: string;
+  /** Where `experiment_conversion` events go (the analytics event store); no attribution without it. */
+  conversions?: EventStore;
+  /** Refuses disposable addresses and domains that take no mail; skipped without it. */
+  emailCheck?: EmailChecker;
+  log?: Pick<Console, "error" | "info" | "warn">;
+};
+
+export function createContactHandler({
+  adapters,
+  rateLimiter = createRateLimiter(),
+  trustProxy = false,
+  pricing = vortexContent.fr.pricing,
+  currency = pricing.currency,
+  conversions,
+  emailCheck,
+  log = console,
+}: ContactHandlerOptions): Handler {
+  const reply = (body: ContactResponse, status = 200, headers?: Record<string, string>) => json(body, status, headers);
+
+  return async (req, ctx) => {
+    if (req.method !== "POST") return reply({ ok: false, error: "bad_request" }, 405, { Allow: "POST" });
+
+    const { allowed, retryAfter } = rateLimiter.hit(clientIp(req, ctx, trustProxy));
+    if (!allowed) return reply({ ok: false, error: "rate_limited", retryAfter }, 429, { "Retry-After": String(retryAfter) });
+
+    const body = await readJson(req);
+    if (body === undefined) return reply({ ok: false, error: "bad_request" }, 400);
+
+    const result = validateContactSubmission(body);
+    if (!result.ok) return reply({ ok: false, error: "validation", fields: result.fields }, 422);
+
+    // Bots get the same answer as humans so they don't learn about the trap
+    if (result.value.hp) {
+      log.info("[contact] honeypot hit, submission dropped");
+      return reply({ ok: true });
+    }
+
+    const emailError = emailCheck && (await emailCheck(result.value.email));
+    if (emailError) return reply({ ok: false, error: "validation", fields: { email: emailError } }, 422);
+
+    const lead = leadFromSubmission(result.value, { id: randomUUID(), currency, pricing });
+    const report = await deliverLead(lead, adapters);
+    for (const f of report.failed) log.warn(`[contact] lead ${lead.id} not delivered to ${f.adapter}: ${f.error}`);
+
+    if (report.delivered.length === 0) {
+      log.error(`[contact] lead ${lead.id} lost — every adapter failed`, lead);
+      return reply({ ok: false, error: "delivery_failed" }, 502);
+    }
+    if (conversions && lead.experiments) {
+      await conversions.append(conversionEvents(lead.experiments, lead.createdAt)).catch((err) => log.warn(`[contact] conversion of lead ${lead.id} not recorded: ${err}`));
+    }
+    return reply({ ok: true });
+  };
+}
@@ -0,0 +1,40 @@
+import { ContentResponse } from "../lib/cms";
+import type { ContentSource } from "./cms";
+import { Handler, json, sameSecret } from "./http";
+
+/**
+ * server/content.ts
+ * GET /api/content — the CMS-edited entries (lib/cms.ts) the page lays over its built-in copy.
+ * `?preview=1` with the site's preview token as Bearer includes drafts; that answer is never cached.
+ * Answers 503 "unavailable" when the source fails, and the page keeps the copy it was built with.
+ */
+
+export function createContentHandler({
+  source,
+  previewToken,
+  log = console,
+}: {
+  source: ContentSource;
+  /** Secret of the preview links (`?preview=<token>` on a page); without one, preview is off. */
+  previewToken: string | undefined;
+  log?: Pick<Console, "warn">;
+}): Handler {
+  const reply = (body: ContentResponse, status = 200, headers?: Record<string, string>) => json(body, status, headers);
+
+  return async (req) => {
+    if (req.method !== "GET") return reply({ ok: false, error: "bad_request" }, 405, { Allow: "GET" });
+    const preview = new URL(req.url).searchParams.has("preview");
+    if (preview && (!previewToken || !sameSecret(req.headers.get("authorization") ?? "", `Bearer ${previewToken}`))) {
+      return reply({ ok: false, error: "unauthorized" }, 401);
+    }
+
+    try {
+      const { entries, skipped } = await source.load({ preview });
+      for (const s of skipped) log.warn(`[cms] skipped ${s.ref}: ${s.reason}`);
+      return reply({ ok: true, entries, preview }, 200, preview ? {} : { "Cache-Control": "public, max-age=60" });
+    } catch (err) {
+      log.warn(`[cms] ${source.name} unavailable: ${err instanceof Error ? err.message : err}`);
+      return reply({ ok: false, error: "unavailable" }, 503);
+    }
+  };
+}
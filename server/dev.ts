@@ -0,0 +1,126 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { Readable } from "node:stream";
+import { ADMIN_LEADS_ENDPOINT } from "../lib/admin";
+import { ANALYTICS_ENDPOINT } from "../lib/analytics";
+import { BOOKING_ENDPOINT, DEMO_BOOKING_CONFIG, createBookingService } from "../lib/booking";
+import { CALLS_ENDPOINT, createCallService } from "../lib/calls";
+import { CAPACITY_ENDPOINT } from "../lib/capacity";
+import { CONTENT_ENDPOINT } from "../lib/cms";
+import { CONTACT_ENDPOINT } from "../lib/contact";
+import { SITE_EXPERIMENTS } from "../lib/experiments";
+import { DEMO_SAAS_CATALOG, TRIAL_ENDPOINT, createTrialService, memoryTrialStore } from "../lib/saas";
+import { EMAIL_CHECK_ENDPOINT } from "../lib/validation";
+import { createAdminLeadsHandler } from "./admin";
+import {
+  EXPERIMENTS_ENDPOINT,
+  FUNNEL_ENDPOINT,
+  createAnalyticsHandler,
+  createExperimentsHandler,
+  createFunnelHandler,
+  jsonlEventStore,
+} from "./analytics";
+import { createBookingHandler, jsonFileBookingStore } from "./booking";
+import { callScheduleFromFile, createCallsHandler, jsonFileCallStore } from "./calls";
+import { createCapacityHandler, jsonFileCapacitySource } from "./capacity";
+import { adaptersFromEnv, callInvitesFromEnv, contentSourceFromEnv, smtpTransportFromEnv } from "./config";
+import { createContactHandler } from "./contact";
+import { createContentHandler } from "./content";
+import type { Handler } from "./http";
+import { jsonFileLeadStore } from "./leads";
+import { createTrialHandler } from "./trial";
+import { createEmailChecker, createEmailCheckHandler } from "./validation";
+
+/**
+ * server/dev.ts
+ * Minimal Node server exposing the API routes, for local development next to the front-end dev server
+ * (proxy `/api` to it). Leads go to the stub adapter unless LEAD_SINKS says otherwise, and are always kept
+ * in LEADS_STORE_FILE (./data/leads.json) for the /admin dashboard, which needs ADMIN_PASSWORD; bookings are
+ * kept in BOOKINGS_FILE (./data/bookings.json by default), analytics events in ANALYTICS_FILE
+ * (./data/analytics.jsonl), along with the A/B conversions of contact submissions; the funnel and A/B
+ * reports need ANALYTICS_REPORT_TOKEN. The studio's project calendar is read from CAPACITY_FILE
+ * (./data/capacity.json); without it the CTA shows its neutral copy. The CMS-edited copy comes from the
+ * source configured in server/config.ts; preview links need PREVIEW_TOKEN. Discovery calls are kept in
+ * CALLS_FILE (./data/calls.json), on the schedule of CALL_SCHEDULE_FILE if set; their invites are emailed
+ * when SMTP_URL and LEAD_MAIL_FROM are set, through the same transport as LEAD_SINKS=smtp.
+ * Contact emails are checked against disposable providers and the domain's DNS, which needs network access
+ * (without it the check passes).
+ *
+ *   npx tsx server/dev.ts        # PORT=8787 by default
+ */
+
+const analyticsStore = jsonlEventStore(process.env.ANALYTICS_FILE ?? "./data/analytics.jsonl");
+
+const leadStore = jsonFileLeadStore(process.env.LEADS_STORE_FILE ?? "./data/leads.json");
+
+const emailCheck = createEmailChecker();
+
+const smtpTransport = smtpTransportFromEnv();
+
+const callSchedule = callScheduleFromFile(process.env.CALL_SCHEDULE_FILE);
+
+const routes: Record<string, Handler> = {
+  [CONTACT_ENDPOINT]: createContactHandler({ adapters: [...adaptersFromEnv(process.env, { smtpTransport }), leadStore], conversions: analyticsStore, emailCheck }),
+  [EMAIL_CHECK_ENDPOINT]: createEmailCheckHandler({ check: emailCheck }),
+  [ADMIN_LEADS_ENDPOINT]: createAdminLeadsHandler({ store: leadStore, password: process.env.ADMIN_PASSWORD }),
+  [BOOKING_ENDPOINT]: createBookingHandler({
+    service: createBookingService({
+      config: DEMO_BOOKING_CONFIG,
+      store: jsonFileBookingStore(process.env.BOOKINGS_FILE ?? "./data/bookings.json"),
+    }),
+  }),
+  [TRIAL_ENDPOINT]: createTrialHandler({
+    service: createTrialService({ catalog: DEMO_SAAS_CATALOG, store: memoryTrialStore() }),
+  }),
+  [CALLS_ENDPOINT]: createCallsHandler({
+    service: createCallService({
+      schedule: callSchedule,
+      store: jsonFileCallStore(process.env.CALLS_FILE ?? "./data/calls.json"),
+      invite: callInvitesFromEnv(callSchedule, process.env, { smtpTransport }),
+    }),
+  }),
+  [CAPACITY_ENDPOINT]: createCapacityHandler({ load: jsonFileCapacitySource(process.env.CAPACITY_FILE ?? "./data/capacity.json") }),
+  [CONTENT_ENDPOINT]: createContentHandler({ source: contentSourceFromEnv(), previewToken: process.env.PREVIEW_TOKEN }),
+  [ANALYTICS_ENDPOINT]: createAnalyticsHandler({ store: analyticsStore }),
+  [FUNNEL_ENDPOINT]: createFunnelHandler({ store: analyticsStore, token: process.env.ANALYTICS_REPORT_TOKEN }),
+  [EXPERIMENTS_ENDPOINT]: createExperimentsHandler({
+    store: analyticsStore,
+    token: process.env.ANALYTICS_REPORT_TOKEN,
+    experiments: SITE_EXPERIMENTS,
+  }),
+};
+
+/** Adapts a Node request to a Fetch API Request; the body is streamed, for readJson to stop at its limit. */
+function toRequest(req: IncomingMessage): Request {
+  const headers = new Headers();
+  for (const [k, v] of Object.entries(req.headers)) if (typeof v === "string") headers.set(k, v);
+  const hasBody = req.method !== "GET" && req.method !== "HEAD";
+  return new Request(`http://${req.headers.host ?? "localhost"}${req.url ?? "/"}`, {
+    method: req.method,
+    headers,
+    body: hasBody ? (Readable.toWeb(req) as ReadableStream<Uint8Array>) : undefined,
+    duplex: "half",
+  } as RequestInit);
+}
+
+async function send(res: ServerResponse, response: Response) {
+  res.writeHead(response.status, Object.fromEntries(response.headers));
+  res.end(Buffer.from(await response.arrayBuffer()));
+}
+
+export function startDevServer(port = Number(process.env.PORT ?? 8787)) {
+  const server = createServer(async (req, res) => {
+    const path = new URL(req.url ?? "/", "http://localhost").pathname;
+    const handler = routes[path];
+    if (!handler) return send(res, new Response("Not found", { status: 404 }));
+    try {
+      await send(res, await handler(toRequest(req), { ip: req.socket.remoteAddress }));
+    } catch (err) {
+      console.error(err);
+      await send(res, new Response("Internal error", { status: 500 }));
+    }
+  });
+  server.listen(port, () => console.info(`[dev] API listening on http://localhost:${port}`));
+  return server;
+}
+
+if (process.argv[1]?.endsWith("dev.ts")) startDevServer();
@@ -0,0 +1,12 @@
+/**
+ * server/errors.ts
+ * Errors shared across server modules.
+ */
+
+/** Missing or invalid server configuration; thrown at startup, never per request. */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
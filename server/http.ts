@@ -0,0 +1,66 @@
+import { timingSafeEqual } from "node:crypto";
+
+/**
+ * server/http.ts
+ * Framework-agnostic plumbing: handlers take a Fetch API `Request` and return a `Response`, so they run
+ * unchanged on Node (see server/dev.ts), edge runtimes and serverless platforms.
+ */
+
+export type RequestContext = {
+  /** Remote address as seen by the runtime (socket address on Node). */
+  ip?: string;
+};
+
+export type Handler = (req: Request, ctx?: RequestContext) => Promise<Response>;
+
+export const json = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json; charset=utf-8", "Cache-Control": "no-store", ...headers },
+  });
+
+/**
+ * Client IP for rate limiting. `X-Forwarded-For` is only honoured when `trustProxy` is set, otherwise
+ * any client could pick its own bucket.
+ */
+export function clientIp(req: Request, ctx: RequestContext = {}, trustProxy = false): string {
+  if (trustProxy) {
+    const forwarded = req.headers.get("x-forwarded-for")?.split(",")[0]?.trim();
+    if (forwarded) return forwarded;
+  }
+  return ctx.ip ?? "unknown";
+}
+
+/**
+ * Reads a JSON body, refusing anything larger than `maxBytes`: the stream is read chunk by chunk and
+ * cancelled as soon as it goes past the limit, whatever Content-Length claimed. Returns `undefined`
+ * when unreadable.
+ */
+export async function readJson(req: Request, maxBytes = 16 * 1024): Promise<unknown> {
+  const declared = Number(req.headers.get("content-length") ?? 0);
+  if (declared > maxBytes || !req.body) return undefined;
+  const reader = req.body.getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+  let size = 0;
+  try {
+    for (let read = await reader.read(); !read.done; read = await reader.read()) {
+      size += read.value.byteLength;
+      if (size > maxBytes) {
+        await reader.cancel();
+        return undefined;
+      }
+      text += decoder.decode(read.value, { stream: true });
+    }
+    return JSON.parse(text + decoder.decode());
+  } catch {
+    return undefined;
+  }
+}
+
+/** Constant-time comparison of a secret the client sent (e.g. an Authorization header) with the expected one. */
+export function sameSecret(given: string, expected: string) {
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
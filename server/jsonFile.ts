@@ -0,0 +1,48 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+/**
+ * server/jsonFile.ts
+ * A list of records kept as one JSON file, the base of the local stores (bookings, calls, leads): no
+ * database to run, fine for the volumes of a single site.
+ */
+
+export type JsonFileStore<T> = {
+  /** Every record; none while the file doesn't exist. */
+  read: () => Promise<T[]>;
+  /**
+   * Runs `fn` with the records; what it passes to `save` replaces the file. Calls are serialized, so
+   * nothing else reads or writes between its read and its write.
+   */
+  transaction: <R>(fn: (records: T[], save: (records: T[]) => Promise<void>) => Promise<R>) => Promise<R>;
+};
+
+/** Whole-file JSON store; reads and writes are serialized and the file is replaced atomically. */
+export function jsonFileStore<T>(path: string): JsonFileStore<T> {
+  let queue: Promise<unknown> = Promise.resolve();
+  const serial = <R>(fn: () => Promise<R>): Promise<R> => {
+    const next = queue.then(fn);
+    queue = next.catch(() => undefined);
+    return next;
+  };
+
+  const load = async (): Promise<T[]> => {
+    try {
+      return JSON.parse(await readFile(path, "utf8")) as T[];
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw err;
+    }
+  };
+
+  const save = async (records: T[]) => {
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(`${path}.tmp`, JSON.stringify(records, null, 2), "utf8");
+    await rename(`${path}.tmp`, path);
+  };
+
+  return {
+    read: () => serial(load),
+    transaction: (fn) => serial(async () => fn(await load(), save)),
+  };
+}
@@ -0,0 +1,61 @@
+import type { Lead } from "../../lib/lead";
+import { DeliveryError, LeadAdapter } from "./types";
+
+/**
+ * server/leads/crm.ts
+ * CRM-style JSON API (contact + deal). The default mapping fits most REST CRMs; pass `mapLead` to
+ * match a specific one. The lead id is sent as Idempotency-Key so retries don't create duplicates.
+ */
+
+export const defaultCrmMapping = (lead: Lead) => ({
+  contact: { name: lead.name, email: lead.email, phone: lead.phone ?? null, company: lead.company, language: lead.locale },
+  deal: {
+    title: `Site web — ${lead.company ?? lead.name}`,
+    // a configured quote is a firmer figure than the budget bracket
+    amount: lead.quote?.oneOff.ht ?? lead.budget,
+    currency: lead.currency,
+    recurring: lead.quote?.config.maintenanceMonths
+      ? { label: "maintenance", interval: "month", amount: lead.quote.monthly.ht, count: lead.quote.config.maintenanceMonths }
+      : lead.maintenance
+        ? { label: "maintenance", interval: "month" }
+        : null,
+  },
+  quote: lead.quote,
+  note: lead.message,
+  qualification: lead.qualification,
+  score: lead.score?.score ?? null,
+  tier: lead.score?.tier ?? null,
+  source: lead.source,
+  consentAt: lead.consentAt,
+  experiments: lead.experiments?.variants ?? null,
+  createdAt: lead.createdAt,
+  externalId: lead.id,
+});
+
+export function crmAdapter({
+  url,
+  apiKey,
+  mapLead = defaultCrmMapping,
+  fetchImpl = fetch,
+}: {
+  url: string;
+  apiKey: string;
+  mapLead?: (lead: Lead) => unknown;
+  fetchImpl?: typeof fetch;
+}): LeadAdapter {
+  return {
+    name: "crm",
+    async deliver(lead) {
+      const res = await fetchImpl(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${apiKey}`,
+          "Idempotency-Key": lead.id,
+        },
+        body: JSON.stringify(mapLead(lead)),
+      });
+      if (!res.ok) throw new DeliveryError("crm", `HTTP ${res.status}`);
+    },
+  };
+}
@@ -0,0 +1,75 @@
+import { appendFile, mkdir, stat } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { Lead } from "../../lib/lead";
+import type { LeadAdapter } from "./types";
+
+/**
+ * server/leads/file.ts
+ * Append-only local log, as JSON Lines (one lead per line) or CSV (header written on first use).
+ * Handy as a safety net next to remote sinks.
+ */
+
+export const CSV_COLUMNS: Record<string, (lead: Lead) => unknown> = {
+  id: (l) => l.id,
+  createdAt: (l) => l.createdAt,
+  name: (l) => l.name,
+  company: (l) => l.company,
+  email: (l) => l.email,
+  budget: (l) => l.budget,
+  currency: (l) => l.currency,
+  maintenance: (l) => l.maintenance,
+  source: (l) => l.source,
+  locale: (l) => l.locale,
+  message: (l) => l.message,
+  // new columns go last, so rows appended to an existing log still line up with its header
+  projectType: (l) => l.qualification?.projectType,
+  pages: (l) => l.qualification?.pages,
+  features: (l) => l.qualification?.features.join(" "),
+  deadline: (l) => l.qualification?.deadline,
+  score: (l) => l.score?.score,
+  tier: (l) => l.score?.tier,
+  quoteOneOffHt: (l) => l.quote?.oneOff.ht,
+  quoteMonthlyHt: (l) => l.quote?.monthly.ht,
+  quoteMonths: (l) => l.quote?.config.maintenanceMonths,
+  consentAt: (l) => l.consentAt,
+  experiments: (l) => l.experiments && Object.entries(l.experiments.variants).map(([experiment, variant]) => `${experiment}=${variant}`).join(" "),
+  phone: (l) => l.phone,
+};
+
+/**
+ * One CSV cell, quoted when needed. Text starting like a formula (`=`, `+`, `-`, `@`, tab, carriage
+ * return) gets a leading `'`, so a spreadsheet shows what the visitor typed instead of running it;
+ * a phone number reads "'+33612345678". Numbers are written as is.
+ */
+export const csvCell = (v: unknown) => {
+  const raw = v === null || v === undefined ? "" : String(v);
+  const s = typeof v !== "number" && /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+const exists = (path: string) =>
+  stat(path).then(
+    () => true,
+    () => false
+  );
+
+export function fileAdapter({ path, format = "jsonl" }: { path: string; format?: "jsonl" | "csv" }): LeadAdapter {
+  // serialise writes so concurrent leads never interleave lines
+  let queue: Promise<void> = Promise.resolve();
+
+  const write = async (lead: Lead) => {
+    await mkdir(dirname(path), { recursive: true });
+    if (format === "jsonl") return appendFile(path, JSON.stringify(lead) + "\n", "utf8");
+    const header = (await exists(path)) ? "" : Object.keys(CSV_COLUMNS).join(",") + "\n";
+    await appendFile(path, header + Object.values(CSV_COLUMNS).map((get) => csvCell(get(lead))).join(",") + "\n", "utf8");
+  };
+
+  return {
+    name: `file:${format}`,
+    deliver(lead) {
+      const next = queue.then(() => write(lead));
+      queue = next.catch(() => undefined);
+      return next;
+    },
+  };
+}
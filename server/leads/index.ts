@@ -0,0 +1,50 @@
+import type { Lead } from "../../lib/lead";
+import type { LeadAdapter } from "./types";
+
+/**
+ * server/leads/index.ts
+ * Lead delivery fan-out. Every configured adapter gets the lead; a failing sink is retried, then
+ * reported, but never prevents the others from receiving it.
+ */
+
+export type DeliveryReport = {
+  leadId: string;
+  delivered: string[];
+  failed: { adapter: string; error: string }[];
+};
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+async function withRetries(adapter: LeadAdapter, lead: Lead, attempts: number, backoffMs: number) {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await adapter.deliver(lead);
+    } catch (err) {
+      if (attempt >= attempts) throw err;
+      await sleep(backoffMs * 2 ** (attempt - 1));
+    }
+  }
+}
+
+export async function deliverLead(
+  lead: Lead,
+  adapters: LeadAdapter[],
+  { attempts = 2, backoffMs = 250 }: { attempts?: number; backoffMs?: number } = {}
+): Promise<DeliveryReport> {
+  const results = await Promise.allSettled(adapters.map((a) => withRetries(a, lead, attempts, backoffMs)));
+  const report: DeliveryReport = { leadId: lead.id, delivered: [], failed: [] };
+  results.forEach((r, i) => {
+    if (r.status === "fulfilled") report.delivered.push(adapters[i].name);
+    else report.failed.push({ adapter: adapters[i].name, error: r.reason instanceof Error ? r.reason.message : String(r.reason) });
+  });
+  return report;
+}
+
+export { DeliveryError, type LeadAdapter } from "./types";
+export { web3formsAdapter } from "./web3forms";
+export { smtpAdapter, type SmtpTransport } from "./smtp";
+export { webhookAdapter, signPayload, verifySignature } from "./webhook";
+export { fileAdapter, csvCell, CSV_COLUMNS } from "./file";
+export { crmAdapter } from "./crm";
+export { createStubAdapter, type StubAdapter } from "./stub";
+export { jsonFileLeadStore, type LeadStore } from "./store";
@@ -0,0 +1,37 @@
+import { Lead, leadSubject, leadSummary } from "../../lib/lead";
+import type { LeadAdapter } from "./types";
+
+/**
+ * server/leads/smtp.ts
+ * Email through any SMTP transport (bring your own, e.g. `nodemailer.createTransport(...)`).
+ * The full lead is attached as JSON so the inbox keeps structured data.
+ */
+
+/** Subset of a nodemailer transporter. */
+export type SmtpTransport = {
+  sendMail: (message: {
+    from: string;
+    to: string;
+    cc?: string;
+    replyTo?: string;
+    subject: string;
+    text: string;
+    attachments?: { filename: string; content: string; contentType?: string }[];
+  }) => Promise<unknown>;
+};
+
+export function smtpAdapter({ transport, from, to, brand = "VORTEX" }: { transport: SmtpTransport; from: string; to: string; brand?: string }): LeadAdapter {
+  return {
+    name: "smtp",
+    async deliver(lead: Lead) {
+      await transport.sendMail({
+        from,
+        to,
+        replyTo: `${lead.name} <${lead.email}>`,
+        subject: leadSubject(lead, brand),
+        text: leadSummary(lead),
+        attachments: [{ filename: `lead-${lead.id}.json`, content: JSON.stringify(lead, null, 2), contentType: "application/json" }],
+      });
+    },
+  };
+}
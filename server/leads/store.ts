@@ -0,0 +1,37 @@
+import { LeadRecord, newLeadRecord } from "../../lib/admin";
+import { jsonFileStore } from "../jsonFile";
+import type { LeadAdapter } from "./types";
+
+/**
+ * server/leads/store.ts
+ * Local lead store: a sink like the others (every lead the contact endpoint accepts lands here), that the
+ * /admin dashboard also reads and updates (server/admin.ts). One JSON file, no external service.
+ */
+
+export interface LeadStore extends LeadAdapter {
+  all: () => Promise<LeadRecord[]>;
+  /** Replaces the record of lead `id` with `change(record)`; null when there's no such lead. */
+  update: (id: string, change: (record: LeadRecord) => LeadRecord) => Promise<LeadRecord | null>;
+}
+
+/** Lead records in a JSON file (server/jsonFile.ts). */
+export function jsonFileLeadStore(path: string): LeadStore {
+  const file = jsonFileStore<LeadRecord>(path);
+  return {
+    name: "store",
+    deliver: (lead) =>
+      file.transaction(async (records, save) => {
+        // a retried delivery must not list the lead twice
+        if (!records.some((r) => r.lead.id === lead.id)) await save([...records, newLeadRecord(lead)]);
+      }),
+    all: file.read,
+    update: (id, change) =>
+      file.transaction(async (records, save) => {
+        const index = records.findIndex((r) => r.lead.id === id);
+        if (index < 0) return null;
+        const updated = change(records[index]);
+        await save(records.map((r, i) => (i === index ? updated : r)));
+        return updated;
+      }),
+  };
+}
@@ -0,0 +1,33 @@
+import type { Lead } from "../../lib/lead";
+import { DeliveryError, LeadAdapter } from "./types";
+
+/**
+ * server/leads/stub.ts
+ * In-memory adapter for local development and tests.
+ */
+
+export type StubAdapter = LeadAdapter & {
+  delivered: Lead[];
+  /** Make the next deliveries fail, to exercise error paths. */
+  failNext: (count?: number) => void;
+};
+
+export function createStubAdapter({ name = "stub", log = false } = {}): StubAdapter {
+  let failures = 0;
+  const stub: StubAdapter = {
+    name,
+    delivered: [],
+    failNext(count = 1) {
+      failures = count;
+    },
+    async deliver(lead) {
+      if (failures > 0) {
+        failures--;
+        throw new DeliveryError(name, "simulated failure");
+      }
+      stub.delivered.push(lead);
+      if (log) console.info(`[${name}] lead`, lead);
+    },
+  };
+  return stub;
+}
@@ -0,0 +1,19 @@
+import type { Lead } from "../../lib/lead";
+
+/**
+ * server/leads/types.ts
+ * Contract every lead sink implements.
+ */
+
+export interface LeadAdapter {
+  /** Stable name used in logs and delivery reports (e.g. "webhook", "file"). */
+  name: string;
+  deliver: (lead: Lead) => Promise<void>;
+}
+
+export class DeliveryError extends Error {
+  constructor(adapter: string, detail: string) {
+    super(`[${adapter}] ${detail}`);
+    this.name = "DeliveryError";
+  }
+}
@@ -0,0 +1,36 @@
+import { Lead, leadSubject, leadSummary } from "../../lib/lead";
+import { DeliveryError, LeadAdapter } from "./types";
+
+/**
+ * server/leads/web3forms.ts
+ * Web3Forms email relay. Only carries text, so structured fields are rendered into the message.
+ */
+
+export function web3formsAdapter({
+  accessKey,
+  brand = "VORTEX",
+  fetchImpl = fetch,
+}: {
+  accessKey: string;
+  brand?: string;
+  fetchImpl?: typeof fetch;
+}): LeadAdapter {
+  return {
+    name: "web3forms",
+    async deliver(lead: Lead) {
+      const res = await fetchImpl("https://api.web3forms.com/submit", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Accept: "application/json" },
+        body: JSON.stringify({
+          access_key: accessKey,
+          subject: leadSubject(lead, brand),
+          from_name: lead.name,
+          name: lead.name,
+          email: lead.email,
+          message: leadSummary(lead),
+        }),
+      });
+      if (!res.ok) throw new DeliveryError("web3forms", `HTTP ${res.status}: ${await res.text()}`);
+    },
+  };
+}
@@ -0,0 +1,55 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type { Lead } from "../../lib/lead";
+import { DeliveryError, LeadAdapter } from "./types";
+
+/**
+ * server/leads/webhook.ts
+ * Generic webhook. The body is signed with HMAC-SHA256 over `${timestamp}.${body}` and sent as
+ * `X-Lead-Signature: t=<unix seconds>,v1=<hex digest>` so receivers can check origin and freshness.
+ */
+
+export const signPayload = (secret: string, timestamp: number, body: string) =>
+  createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+
+/** Receiver-side check; rejects signatures older than `toleranceSec`. */
+export function verifySignature(secret: string, header: string, body: string, { toleranceSec = 300, now = Date.now() } = {}): boolean {
+  const parts = Object.fromEntries(header.split(",").map((p) => p.split("=", 2) as [string, string]));
+  const timestamp = Number(parts.t);
+  if (!parts.v1 || !Number.isFinite(timestamp)) return false;
+  if (Math.abs(now / 1000 - timestamp) > toleranceSec) return false;
+  const expected = Buffer.from(signPayload(secret, timestamp, body), "hex");
+  const given = Buffer.from(parts.v1, "hex");
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+export function webhookAdapter({
+  url,
+  secret,
+  headers = {},
+  fetchImpl = fetch,
+  now = Date.now,
+}: {
+  url: string;
+  secret: string;
+  headers?: Record<string, string>;
+  fetchImpl?: typeof fetch;
+  now?: () => number;
+}): LeadAdapter {
+  return {
+    name: "webhook",
+    async deliver(lead: Lead) {
+      const body = JSON.stringify({ type: "lead.created", lead });
+      const timestamp = Math.floor(now() / 1000);
+      const res = await fetchImpl(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-Lead-Signature": `t=${timestamp},v1=${signPayload(secret, timestamp, body)}`,
+          ...headers,
+        },
+        body,
+      });
+      if (!res.ok) throw new DeliveryError("webhook", `HTTP ${res.status}`);
+    },
+  };
+}
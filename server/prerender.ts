@@ -0,0 +1,140 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { createElement } from "react";
+import { renderToString } from "react-dom/server";
+import App, { HeadCollector, SSR_GLOBAL, SsrPayload } from "../App";
+import { LocalizedSiteContent, resolveSiteContent, validateLocalizedSiteContent } from "../content/schema";
+import vortexContent from "../content/vortex";
+import { DEFAULT_LOCALE, LOCALES, localizedUrl } from "../i18n";
+import { ADMIN_PATH } from "../lib/admin";
+import type { ContentEntry } from "../lib/cms";
+import { listMiniSites } from "../lib/miniSites";
+import { EMPTY_ROUTE, Route } from "../lib/router";
+import { SitemapEntry, absoluteUrl, renderHeadTags, robotsTxt, sitemapXml } from "../lib/seo";
+import { DEFAULT_THEME, Theme } from "../lib/theme";
+import type { ContentSource } from "./cms";
+import { contentSourceFromEnv } from "./config";
+
+/**
+ * server/prerender.ts
+ * Static build of the site: every page (home, one per portfolio demo) rendered to HTML in the default
+ * language with its head tags, plus sitemap.xml and robots.txt. The page hydrates it (`mountApp`); a
+ * visitor in another language gets it rendered in theirs (`?lang=` URLs, listed as alternates).
+ *
+ *   npx tsx server/prerender.ts --template dist/index.html --out dist
+ *
+ * The template is the front-end build's index.html, with an empty `<div id="root"></div>`. The
+ * CMS-edited copy (lib/cms.ts) is read once from the content source and baked into every page; the
+ * source's cache (server/cms/cache.ts) keeps builds working when the CMS is down.
+ */
+
+export type PrerenderedPage = { path: string; html: string };
+
+const ROOT_RE = /<div id="root">\s*<\/div>/;
+
+/** Route of each prerendered path: the home page and the demos, as path routes (lib/router.ts). */
+export function prerenderRoutes(content: LocalizedSiteContent): { path: string; route: Route }[] {
+  const minis = listMiniSites(resolveSiteContent(content, DEFAULT_LOCALE).portfolio.minis, DEFAULT_LOCALE);
+  return [
+    { path: "/", route: EMPTY_ROUTE },
+    ...minis.map((m) => ({ path: `/portfolio/${m.key}`, route: { section: "portfolio", sub: m.key } })),
+  ];
+}
+
+/** Renders `path` into `template`: app markup, head tags, hreflang alternates and the hydration payload. */
+export function renderPage(
+  template: string,
+  content: LocalizedSiteContent,
+  path: string,
+  route: Route,
+  theme: Theme = DEFAULT_THEME,
+  entries: ContentEntry[] = []
+): string {
+  if (!ROOT_RE.test(template)) throw new Error('prerender: the template needs an empty <div id="root"></div>');
+  const head: HeadCollector = { tags: [] };
+  const app = renderToString(createElement(App, { content, locale: DEFAULT_LOCALE, route, head, theme, entries }));
+
+  const url = absoluteUrl(resolveSiteContent(content, DEFAULT_LOCALE).seo.siteUrl, path);
+  // same links as the i18n layer adds in the browser, which replaces them (`data-i18n`)
+  const alternates = [...LOCALES, "x-default" as const]
+    .map((l) => `<link rel="alternate" hreflang="${l}" href="${localizedUrl(l === "x-default" ? DEFAULT_LOCALE : l, url)}" data-i18n>`)
+    .join("\n");
+  const payload: SsrPayload = { locale: DEFAULT_LOCALE, route, ...(entries.length ? { entries } : {}) };
+  const script = `<script>window.${SSR_GLOBAL}=${JSON.stringify(payload).replace(/</g, "\\u003c")}</script>`;
+
+  return template
+    .replace(/<html([^>]*)\blang="[^"]*"/, `<html$1lang="${DEFAULT_LOCALE}"`)
+    .replace(/<title>[\s\S]*?<\/title>\s*/, "")
+    .replace("</head>", () => `${renderHeadTags(head.tags)}\n${alternates}\n</head>`)
+    .replace(ROOT_RE, () => `<div id="root">${app}</div>\n${script}`);
+}
+
+export function prerenderPages(
+  template: string,
+  content: LocalizedSiteContent = vortexContent,
+  theme: Theme = DEFAULT_THEME,
+  entries: ContentEntry[] = []
+): PrerenderedPage[] {
+  const validated = validateLocalizedSiteContent(content);
+  return prerenderRoutes(validated).map(({ path, route }) => ({ path, html: renderPage(template, validated, path, route, theme, entries) }));
+}
+
+/** Every prerendered page, with its translations as alternates. */
+export function sitemapEntries(content: LocalizedSiteContent, now = new Date()): SitemapEntry[] {
+  const { siteUrl } = resolveSiteContent(content, DEFAULT_LOCALE).seo;
+  const lastmod = now.toISOString().slice(0, 10);
+  return prerenderRoutes(content).map(({ path }) => {
+    const loc = absoluteUrl(siteUrl, path);
+    return { loc, lastmod, alternates: Object.fromEntries(LOCALES.map((l) => [l, localizedUrl(l, loc)])) };
+  });
+}
+
+/** Writes `<out>/<path>/index.html` for each page, sitemap.xml and robots.txt. */
+export async function prerenderSite({
+  templateFile,
+  outDir,
+  content = vortexContent,
+  theme = DEFAULT_THEME,
+  source,
+  now = new Date(),
+  log = console,
+}: {
+  templateFile: string;
+  outDir: string;
+  content?: LocalizedSiteContent;
+  /** Same theme the page mounts with, or hydration repaints it. */
+  theme?: Theme;
+  /** Where the CMS-edited copy comes from; without one, the pages carry the content module's copy. */
+  source?: ContentSource;
+  now?: Date;
+  log?: Pick<Console, "warn">;
+}): Promise<string[]> {
+  const template = await readFile(templateFile, "utf8");
+  const loaded = source ? await source.load({ preview: false }) : { entries: [], skipped: [] };
+  for (const s of loaded.skipped) log.warn(`[prerender] CMS entry skipped, ${s.ref}: ${s.reason}`);
+  const pages = prerenderPages(template, content, theme, loaded.entries);
+  for (const page of pages) {
+    const dir = join(outDir, page.path);
+    await mkdir(dir, { recursive: true });
+    await writeFile(join(dir, "index.html"), page.html, "utf8");
+  }
+  const { siteUrl } = resolveSiteContent(content, DEFAULT_LOCALE).seo;
+  await writeFile(join(outDir, "sitemap.xml"), sitemapXml(sitemapEntries(content, now)), "utf8");
+  await writeFile(join(outDir, "robots.txt"), robotsTxt(siteUrl, ["/api/", ADMIN_PATH]), "utf8");
+  return pages.map((p) => p.path);
+}
+
+if (process.argv[1]?.endsWith("prerender.ts")) {
+  const arg = (name: string, fallback: string) => {
+    const i = process.argv.indexOf(`--${name}`);
+    return i > 0 && process.argv[i + 1] ? process.argv[i + 1] : fallback;
+  };
+  const outDir = arg("out", "dist");
+  prerenderSite({ templateFile: arg("template", join(outDir, "index.html")), outDir, source: contentSourceFromEnv() }).then(
+    (paths) => console.info(`[prerender] ${paths.length} pages written to ${outDir}: ${paths.join(", ")}`),
+    (err) => {
+      console.error(err);
+      process.exitCode = 1;
+    }
+  );
+}
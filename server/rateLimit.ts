@@ -0,0 +1,33 @@
+/**
+ * server/rateLimit.ts
+ * In-memory sliding-window rate limiter keyed by client (IP).
+ * Good enough for a single instance; swap for a shared store when running several.
+ */
+
+export type RateLimiter = {
+  /** Records a hit for `key` and says whether it is allowed; `retryAfter` is in seconds. */
+  hit: (key: string) => { allowed: boolean; retryAfter: number };
+};
+
+export function createRateLimiter({ windowMs = 10 * 60_000, max = 5, now = Date.now } = {}): RateLimiter {
+  const hits = new Map<string, number[]>();
+
+  return {
+    hit(key) {
+      const t = now();
+      const recent = (hits.get(key) ?? []).filter((ts) => t - ts < windowMs);
+      if (recent.length >= max) {
+        hits.set(key, recent);
+        return { allowed: false, retryAfter: Math.ceil((recent[0] + windowMs - t) / 1000) };
+      }
+      recent.push(t);
+      hits.set(key, recent);
+
+      // opportunistic cleanup so the map doesn't grow with one-off visitors
+      if (hits.size > 10_000) {
+        for (const [k, list] of hits) if (!list.some((ts) => t - ts < windowMs)) hits.delete(k);
+      }
+      return { allowed: true, retryAfter: 0 };
+    },
+  };
+}
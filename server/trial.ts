@@ -0,0 +1,33 @@
+import { TrialApi } from "../lib/saas";
+import { Handler, clientIp, json, readJson } from "./http";
+import { RateLimiter, createRateLimiter } from "./rateLimit";
+
+/**
+ * server/trial.ts
+ * POST /api/trial — creates a trial account with the service from lib/saas.ts (201), refuses an
+ * email that already has one (409). The store is up to the deployment; dev uses memory.
+ */
+
+export function createTrialHandler({
+  service,
+  rateLimiter = createRateLimiter(),
+  trustProxy = false,
+}: {
+  service: TrialApi;
+  rateLimiter?: RateLimiter;
+  trustProxy?: boolean;
+}): Handler {
+  return async (req, ctx) => {
+    if (req.method !== "POST") return json({ ok: false, error: "bad_request" }, 405, { Allow: "POST" });
+
+    const { allowed, retryAfter } = rateLimiter.hit(clientIp(req, ctx, trustProxy));
+    if (!allowed) return json({ ok: false, error: "rate_limited", retryAfter }, 429, { "Retry-After": String(retryAfter) });
+
+    const body = await readJson(req);
+    if (body === undefined) return json({ ok: false, error: "bad_request" }, 400);
+
+    const result = await service.createTrial(body);
+    if (result.ok) return json(result, 201);
+    return json(result, result.error === "validation" ? 422 : 409);
+  };
+}
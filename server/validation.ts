@@ -0,0 +1,137 @@
+import { resolve4, resolve6, resolveMx } from "node:dns/promises";
+import { EmailCheckResponse, isValidEmail } from "../lib/validation";
+import { Handler, clientIp, json } from "./http";
+import { RateLimiter, createRateLimiter } from "./rateLimit";
+
+/**
+ * server/validation.ts
+ * The email checks of lib/validation.ts that need the server: throwaway-address providers and domains
+ * that can't receive mail (no MX record, nor an address to fall back to). The contact endpoint runs
+ * them before accepting a lead; GET /api/validate/email lets the page warn while the visitor types.
+ *
+ * A check that can't be made (DNS timeout, resolver down) passes: a lead is worth more than a clean list.
+ */
+
+/** Well-known disposable address providers; subdomains count too. */
+export const DISPOSABLE_DOMAINS: ReadonlySet<string> = new Set([
+  "10minutemail.com",
+  "discard.email",
+  "dispostable.com",
+  "emailondeck.com",
+  "fakeinbox.com",
+  "getairmail.com",
+  "getnada.com",
+  "guerrillamail.com",
+  "guerrillamail.net",
+  "jetable.org",
+  "mailcatch.com",
+  "maildrop.cc",
+  "mailinator.com",
+  "mailnesia.com",
+  "mintemail.com",
+  "mohmal.com",
+  "mytemp.email",
+  "sharklasers.com",
+  "spamgourmet.com",
+  "temp-mail.org",
+  "tempail.com",
+  "tempmail.com",
+  "tempr.email",
+  "throwawaymail.com",
+  "trashmail.com",
+  "yopmail.com",
+  "yopmail.fr",
+]);
+
+export type EmailChecker = (address: string) => Promise<"disposable" | "no_mx" | null>;
+
+export type Resolver = {
+  resolveMx: typeof resolveMx;
+  resolve4: typeof resolve4;
+  resolve6: typeof resolve6;
+};
+
+// the domain doesn't exist, or has no record of that type: an answer, unlike a timeout
+const isNoRecord = (err: unknown) => ["ENOTFOUND", "ENODATA"].includes((err as NodeJS.ErrnoException).code ?? "");
+
+export function createEmailChecker({
+  disposable = DISPOSABLE_DOMAINS,
+  resolver = { resolveMx, resolve4, resolve6 },
+  timeoutMs = 3000,
+  cacheMs = 60 * 60_000,
+  now = Date.now,
+}: {
+  disposable?: ReadonlySet<string>;
+  resolver?: Resolver;
+  timeoutMs?: number;
+  /** How long a domain's answer is reused. */
+  cacheMs?: number;
+  now?: () => number;
+} = {}): EmailChecker {
+  const cache = new Map<string, { mail: boolean; at: number }>();
+
+  const acceptsMail = async (domain: string): Promise<boolean> => {
+    try {
+      const mx = await resolver.resolveMx(domain);
+      // a lone "." exchange is a null MX (RFC 7505): the domain says it takes no mail
+      return mx.some((r) => r.exchange !== "" && r.exchange !== ".");
+    } catch (err) {
+      if (!isNoRecord(err)) throw err;
+    }
+    // without MX, mail goes to the domain's own address (RFC 5321 §5.1)
+    for (const lookup of [resolver.resolve4, resolver.resolve6]) {
+      try {
+        if ((await lookup(domain)).length) return true;
+      } catch (err) {
+        if (!isNoRecord(err)) throw err;
+      }
+    }
+    return false;
+  };
+
+  return async (address) => {
+    const domain = address.slice(address.lastIndexOf("@") + 1).toLowerCase();
+    const labels = domain.split(".");
+    if (labels.some((_, i) => disposable.has(labels.slice(i).join(".")))) return "disposable";
+
+    const cached = cache.get(domain);
+    if (cached && now() - cached.at < cacheMs) return cached.mail ? null : "no_mx";
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<null>((resolve) => (timer = setTimeout(() => resolve(null), timeoutMs)));
+    try {
+      const mail = await Promise.race([acceptsMail(domain), timeout]);
+      if (mail === null) return null;
+      if (cache.size >= 1000) cache.clear();
+      cache.set(domain, { mail, at: now() });
+      return mail ? null : "no_mx";
+    } catch {
+      return null;
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+}
+
+export type EmailCheckHandlerOptions = {
+  check: EmailChecker;
+  rateLimiter?: RateLimiter;
+  /** Honour X-Forwarded-For (only behind a proxy you control). */
+  trustProxy?: boolean;
+};
+
+/** GET /api/validate/email?email=… */
+export function createEmailCheckHandler({ check, rateLimiter = createRateLimiter({ windowMs: 60_000, max: 30 }), trustProxy = false }: EmailCheckHandlerOptions): Handler {
+  const reply = (body: EmailCheckResponse, status = 200, headers?: Record<string, string>) => json(body, status, headers);
+
+  return async (req, ctx) => {
+    if (req.method !== "GET") return reply({ ok: false, error: "bad_request" }, 405, { Allow: "GET" });
+
+    const { allowed, retryAfter } = rateLimiter.hit(clientIp(req, ctx, trustProxy));
+    if (!allowed) return reply({ ok: false, error: "rate_limited" }, 429, { "Retry-After": String(retryAfter) });
+
+    const address = new URL(req.url).searchParams.get("email")?.trim() ?? "";
+    if (!isValidEmail(address)) return reply({ ok: false, error: "bad_request" }, 400);
+    return reply({ ok: true, error: await check(address) });
+  };
+}
@@ -0,0 +1,202 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import axe from "axe-core";
+import { DOMWindow, JSDOM, VirtualConsole } from "jsdom";
+import { ComponentType, ReactElement, act, createElement } from "react";
+import { createRoot } from "react-dom/client";
+import { renderToString } from "react-dom/server";
+import App from "../App";
+import vortexContent from "../content/vortex";
+import { I18nProvider, LOCALES, Locale } from "../i18n";
+import { ADMIN_SECTION, LeadRecord, newLeadRecord } from "../lib/admin";
+import { CALLS_ENDPOINT, STUDIO_CALL_SCHEDULE, createCallService, memoryCallStore } from "../lib/calls";
+import { EMPTY_ROUTE, Route } from "../lib/router";
+import { makeLead } from "./fixtures";
+
+/**
+ * Accessibility: axe-core over the server-rendered pages (every section, each locale, the admin sign-in)
+ * and over what only shows once mounted in a browser-like DOM: the consent banner, each step of the
+ * contact wizard, the call booking form, the portfolio demos and the admin dashboard.
+ * jsdom has no layout, so color-contrast is off: it needs a real browser.
+ *
+ *   npm run test:a11y
+ */
+
+const AXE_OPTIONS: axe.RunOptions = { rules: { "color-contrast": { enabled: false } } };
+
+type Violation = { id: string; help: string; nodes: string[] };
+
+async function audit(dom: JSDOM, within?: string): Promise<Violation[]> {
+  dom.window.eval(axe.source);
+  // options are left out: the time-zone list alone has hundreds and makes axe crawl in jsdom, while
+  // the selects holding them are still checked
+  const { violations } = await (dom.window as unknown as { axe: typeof axe }).axe.run({ include: [within ?? "html"], exclude: ["option"] }, AXE_OPTIONS);
+  // copied out of the page's realm, so assertion diffs compare plain objects
+  return Array.from(violations, (v) => ({ id: v.id, help: v.help, nodes: Array.from(v.nodes, (n) => n.html.slice(0, 160)) }));
+}
+
+const page = (lang: string, body: string) => `<!doctype html><html lang="${lang}"><head><title>VORTEX</title></head><body>${body}</body></html>`;
+
+const quiet = () => {
+  const console = new VirtualConsole();
+  console.on("jsdomError", () => {
+    // "not implemented" notices (canvas, scrolling): no layout or drawing here
+  });
+  return console;
+};
+
+const renderPage = (locale: Locale, route: Route) =>
+  new JSDOM(page(locale, `<div id="root">${renderToString(createElement(App, { content: vortexContent, locale, route }))}</div>`), {
+    runScripts: "outside-only",
+    virtualConsole: quiet(),
+  });
+
+for (const locale of LOCALES) {
+  test(`home page, every section (${locale})`, async () => {
+    assert.deepEqual(await audit(renderPage(locale, EMPTY_ROUTE)), []);
+  });
+}
+
+test("admin sign-in", async () => {
+  assert.deepEqual(await audit(renderPage("fr", { section: ADMIN_SECTION, sub: "" })), []);
+});
+
+test("the audit catches an unlabeled field", async () => {
+  const dom = new JSDOM(page("fr", `<main><form><input type="text"></form></main>`), { runScripts: "outside-only" });
+  assert.deepEqual((await audit(dom)).map((v) => v.id), ["label"]);
+});
+
+/* ---------------------------
+   Client-rendered forms
+   --------------------------- */
+
+/**
+ * A jsdom window as the global browser environment, for components that only show their forms once
+ * mounted (slots loaded, leads fetched). Returns the cleanup.
+ */
+function installDom(url: string, fetchImpl: typeof fetch): { dom: JSDOM; uninstall: () => void } {
+  const dom = new JSDOM(page("fr", `<div id="root"></div>`), { url, runScripts: "outside-only", pretendToBeVisual: true, virtualConsole: quiet() });
+  const { window } = dom;
+  window.matchMedia = (query: string) =>
+    ({ matches: false, media: query, addEventListener() {}, removeEventListener() {}, addListener() {}, removeListener() {} }) as unknown as MediaQueryList;
+  const globals = globalThis as Record<string, unknown>;
+  const added = Object.getOwnPropertyNames(window).filter((key) => !(key in globals) && !key.startsWith("_"));
+  for (const key of added) globals[key] = (window as unknown as Record<string, unknown>)[key];
+  const previousFetch = globals.fetch;
+  Object.assign(globals, { fetch: fetchImpl, IS_REACT_ACT_ENVIRONMENT: true });
+  return {
+    dom,
+    uninstall() {
+      for (const key of [...added, "IS_REACT_ACT_ENVIRONMENT"]) delete globals[key];
+      globals.fetch = previousFetch;
+      window.close();
+    },
+  };
+}
+
+const notFound: typeof fetch = async () => new Response(JSON.stringify({ ok: false, error: "not_found" }), { status: 404 });
+
+/**
+ * Mounts `element` in a fresh DOM at `url`, lets its effects settle and audits it. `rendered` are
+ * selectors that must all match by then, so the audit isn't run on a loading state.
+ */
+async function auditMounted(
+  element: ReactElement,
+  rendered: string[],
+  {
+    url = "https://vortex.example/",
+    fetchImpl = notFound,
+    setup,
+    interact,
+    shown = [],
+    within,
+  }: {
+    url?: string;
+    fetchImpl?: typeof fetch;
+    /** Runs before mounting (storage the page reads on load). */
+    setup?: (window: DOMWindow) => void;
+    /** Runs once mounted, before the audit (submitting a form to show its errors). */
+    interact?: (document: Document) => void;
+    /** Selectors that must match once `interact` has run (the errors it brings up). */
+    shown?: string[];
+    /** Audits only this part of the page. */
+    within?: string;
+  } = {}
+) {
+  const { dom, uninstall } = installDom(url, fetchImpl);
+  try {
+    setup?.(dom.window);
+    const root = createRoot(dom.window.document.getElementById("root")!);
+    await act(async () => root.render(element));
+    // a second turn: data fetched in the first one renders its forms
+    await act(async () => new Promise((resolve) => setTimeout(resolve, 20)));
+    for (const selector of rendered) assert.ok(dom.window.document.querySelector(selector), `nothing matches ${selector}`);
+    if (interact) await act(async () => interact(dom.window.document));
+    for (const selector of shown) assert.ok(dom.window.document.querySelector(selector), `nothing matches ${selector}`);
+    const violations = await audit(dom, within);
+    await act(async () => root.unmount());
+    return violations;
+  } finally {
+    uninstall();
+  }
+}
+
+const demo = async (path: string) => ((await import(path)) as { default: ComponentType }).default;
+
+const inI18n = (Demo: ComponentType) => createElement(I18nProvider, { initialLocale: "fr" }, createElement(Demo));
+
+test("restaurant demo and its booking form, with its errors", async () => {
+  const Restaurant = await demo("../minisites/restaurant");
+  assert.deepEqual(await auditMounted(inI18n(Restaurant), ['[role="radiogroup"] button']), []);
+  const violations = await auditMounted(inI18n(Restaurant), ['[role="radiogroup"] button'], {
+    // no name, no time picked
+    interact: (document) => document.querySelector('[role="radiogroup"]')!.closest("form")!.requestSubmit(),
+    shown: ['input[autocomplete="name"][aria-invalid="true"][aria-describedby]', '[role="radiogroup"][aria-invalid="true"][aria-describedby]'],
+  });
+  assert.deepEqual(violations, []);
+});
+
+test("real-estate demo: search, then a listing and its enquiry form", async () => {
+  const RealEstate = await demo("../minisites/realEstate");
+  assert.deepEqual(await auditMounted(inI18n(RealEstate), ['input[type="search"]']), []);
+  assert.deepEqual(await auditMounted(inI18n(RealEstate), ["form textarea"], { url: "https://vortex.example/?listing=vx-1001" }), []);
+});
+
+test("SaaS demo and its trial form", async () => {
+  assert.deepEqual(await auditMounted(inI18n(await demo("../minisites/saas")), ['form input[type="email"]']), []);
+});
+
+test("home page once mounted: consent banner, contact wizard, call booking", async () => {
+  // the discovery-call card asks /api/calls for its slots
+  const calls = createCallService({ schedule: STUDIO_CALL_SCHEDULE, store: memoryCallStore() });
+  const api: typeof fetch = async (input, init) =>
+    String(input) === CALLS_ENDPOINT ? new Response(JSON.stringify(await calls.slots()), { headers: { "Content-Type": "application/json" } }) : notFound(input, init);
+  const violations = await auditMounted(createElement(App, { content: vortexContent, locale: "fr" }), ['[role="region"] button', "#contact form", 'form option[value="Europe/Paris"]'], {
+    fetchImpl: api,
+  });
+  assert.deepEqual(violations, []);
+});
+
+test("contact wizard, every step, and its errors", async () => {
+  for (let step = 0; step < 6; step++) {
+    const violations = await auditMounted(createElement(App, { content: vortexContent, locale: "fr" }), [`#contact [aria-valuenow="${step + 1}"]`], {
+      // the wizard resumes the autosaved draft (App.tsx useDraft) at its step
+      setup: (window) => window.localStorage.setItem("vortex.contact.wizard.contact", JSON.stringify({ step })),
+      interact: (document) => document.querySelector<HTMLFormElement>("#contact form")!.requestSubmit(),
+      within: "#contact",
+    });
+    assert.deepEqual(violations, [], `step ${step + 1}`);
+  }
+});
+
+test("admin dashboard: filters, leads and the note form", async () => {
+  const record: LeadRecord = { ...newLeadRecord(makeLead()), notes: [{ at: "2026-03-03T09:00:00.000Z", text: "Rappeler jeudi" }] };
+  const leads: typeof fetch = async () => new Response(JSON.stringify({ ok: true, leads: [record] }), { headers: { "Content-Type": "application/json" } });
+  const violations = await auditMounted(createElement(App, { content: vortexContent, locale: "fr", route: { section: ADMIN_SECTION, sub: "" } }), ["main li form input"], {
+    url: "https://vortex.example/admin",
+    fetchImpl: leads,
+    // signed in for this browser session (App.tsx ADMIN_SESSION_KEY)
+    setup: (window) => window.sessionStorage.setItem("vortex.admin", "secret"),
+  });
+  assert.deepEqual(violations, []);
+});
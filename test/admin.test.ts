@@ -0,0 +1,126 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { test } from "node:test";
+import { AdminLeadsResponse, LeadRecord } from "../lib/admin";
+import { createAdminLeadsHandler, leadRecordsCsv } from "../server/admin";
+import { jsonFileLeadStore } from "../server/leads/store";
+import { createRateLimiter } from "../server/rateLimit";
+import { makeLead } from "./fixtures";
+
+const PASSWORD = "correct horse battery staple";
+const URL_BASE = "http://localhost/api/admin/leads";
+
+const request = (query = "", { password = PASSWORD, method = "GET", body }: { password?: string; method?: string; body?: unknown } = {}) =>
+  new Request(`${URL_BASE}${query}`, {
+    method,
+    headers: { Authorization: `Bearer ${password}`, "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+/** A handler over a fresh lead store holding three leads; `run` gets it and removes the store after. */
+async function withAdmin(run: (handler: ReturnType<typeof createAdminLeadsHandler>) => Promise<void>, max = 60) {
+  const dir = await mkdtemp(join(tmpdir(), "admin-"));
+  try {
+    const store = jsonFileLeadStore(join(dir, "leads.json"));
+    await store.deliver(makeLead({ id: "lead-1", budget: 749, maintenance: false, createdAt: "2026-03-01T09:00:00.000Z" }));
+    await store.deliver(makeLead({ id: "lead-2", budget: 1490, maintenance: true, createdAt: "2026-03-02T09:00:00.000Z" }));
+    await store.deliver(makeLead({ id: "lead-3", budget: null, maintenance: true, createdAt: "2026-03-03T09:00:00.000Z" }));
+    const handler = createAdminLeadsHandler({
+      store,
+      password: PASSWORD,
+      rateLimiter: createRateLimiter({ max }),
+      now: () => new Date("2026-03-04T10:00:00.000Z"),
+    });
+    await run(handler);
+  } finally {
+    await rm(dir, { recursive: true });
+  }
+}
+
+const ids = async (res: Response) => ((await res.json()) as { leads: LeadRecord[] }).leads.map((r) => r.lead.id);
+
+test("a wrong or missing password is refused, and the dashboard is closed without one configured", async () => {
+  await withAdmin(async (handler) => {
+    assert.equal((await handler(request("", { password: "guess" }), { ip: "1.2.3.4" })).status, 401);
+    assert.equal((await handler(new Request(URL_BASE), { ip: "1.2.3.4" })).status, 401);
+    assert.equal((await handler(request(), { ip: "1.2.3.4" })).status, 200);
+  });
+  const closed = createAdminLeadsHandler({ store: jsonFileLeadStore(join(tmpdir(), "admin-unused.json")), password: undefined });
+  assert.equal((await closed(request(), { ip: "1.2.3.4" })).status, 401);
+});
+
+test("an IP over the limit is refused even with the right password", async () => {
+  await withAdmin(async (handler) => {
+    for (let i = 0; i < 3; i++) assert.equal((await handler(request("", { password: `guess-${i}` }), { ip: "1.2.3.4" })).status, 401);
+    const res = await handler(request(), { ip: "1.2.3.4" });
+    assert.equal(res.status, 429);
+    assert.ok(Number(res.headers.get("retry-after")) > 0);
+    assert.equal(((await res.json()) as AdminLeadsResponse).ok, false);
+    // other addresses keep their own count
+    assert.equal((await handler(request(), { ip: "5.6.7.8" })).status, 200);
+  }, 3);
+});
+
+test("leads are listed newest first, filtered by budget and maintenance", async () => {
+  await withAdmin(async (handler) => {
+    assert.deepEqual(await ids(await handler(request())), ["lead-3", "lead-2", "lead-1"]);
+    assert.deepEqual(await ids(await handler(request("?budget=749"))), ["lead-1"]);
+    assert.deepEqual(await ids(await handler(request("?budget=none"))), ["lead-3"]);
+    assert.deepEqual(await ids(await handler(request("?maintenance=1"))), ["lead-3", "lead-2"]);
+    assert.deepEqual(await ids(await handler(request("?maintenance=0"))), ["lead-1"]);
+    assert.deepEqual(await ids(await handler(request("?budget=1490&maintenance=1"))), ["lead-2"]);
+    assert.deepEqual(await ids(await handler(request("?budget=1490&maintenance=0"))), []);
+    // unknown values don't filter
+    assert.deepEqual(await ids(await handler(request("?budget=beaucoup&maintenance=oui"))), ["lead-3", "lead-2", "lead-1"]);
+
+    const csv = await handler(request("?maintenance=1&format=csv"));
+    assert.match(csv.headers.get("content-type") ?? "", /^text\/csv/);
+    assert.equal(csv.headers.get("content-disposition"), 'attachment; filename="leads-2026-03-04.csv"');
+    assert.equal((await csv.text()).trimEnd().split("\n").length, 3);
+  });
+});
+
+test("PATCH moves a lead in the pipeline and appends notes", async () => {
+  await withAdmin(async (handler) => {
+    const patch = (body: unknown) => handler(request("", { method: "PATCH", body }));
+
+    const res = await patch({ id: "lead-2", status: "contacted", note: "  Rappeler jeudi  " });
+    assert.equal(res.status, 200);
+    const { lead } = (await res.json()) as { lead: LeadRecord };
+    assert.equal(lead.status, "contacted");
+    assert.deepEqual(lead.notes, [{ at: "2026-03-04T10:00:00.000Z", text: "Rappeler jeudi" }]);
+    assert.equal(lead.updatedAt, "2026-03-04T10:00:00.000Z");
+
+    await patch({ id: "lead-2", note: "Devis envoyé" });
+    const [stored] = ((await (await handler(request("?status=contacted"))).json()) as { leads: LeadRecord[] }).leads;
+    assert.equal(stored.lead.id, "lead-2");
+    assert.deepEqual(stored.notes.map((n) => n.text), ["Rappeler jeudi", "Devis envoyé"]);
+
+    assert.equal((await patch({ id: "lead-9", status: "won" })).status, 404);
+    for (const bad of [{ id: "lead-2", status: "signed" }, { id: "lead-2", note: "   " }, { id: "lead-2" }, { status: "won" }]) {
+      assert.equal((await patch(bad)).status, 400, JSON.stringify(bad));
+    }
+    assert.equal((await handler(request("", { method: "DELETE" }))).status, 405);
+  });
+});
+
+test("the CSV export writes cells a visitor controls as text, not formulas", () => {
+  const csv = leadRecordsCsv([
+    {
+      lead: makeLead({ name: "=cmd|'/C calc'!A0", company: "@Atelier", phone: "+33612345678", message: "-1+1" }),
+      status: "new",
+      notes: [{ at: "2026-03-02T10:00:00.000Z", text: "=rappeler" }],
+      updatedAt: "2026-03-02T10:00:00.000Z",
+    },
+  ]);
+  const [header, row] = csv.trimEnd().split("\n");
+  const cells = Object.fromEntries(header.split(",").map((column, i) => [column, row.split(",")[i]]));
+  assert.equal(cells.name, "'=cmd|'/C calc'!A0");
+  assert.equal(cells.company, "'@Atelier");
+  assert.equal(cells.phone, "'+33612345678");
+  assert.equal(cells.message, "'-1+1");
+  assert.equal(cells.notes, "[2026-03-02T10:00:00.000Z] =rappeler");
+  assert.equal(cells.budget, "749");
+});
@@ -0,0 +1,109 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { AnalyticsEvent, ConsentState, createAnalytics, funnelReport, trackingRefused } from "../lib/analytics";
+import { createExperimentsHandler, createFunnelHandler, memoryEventStore } from "../server/analytics";
+import { createRateLimiter } from "../server/rateLimit";
+
+function setup({ consent, refused = false }: { consent?: ConsentState; refused?: boolean } = {}) {
+  const sent: AnalyticsEvent[][] = [];
+  const analytics = createAnalytics({
+    transport: { name: "test", send: (events) => void sent.push(events) },
+    consent,
+    refused,
+    path: () => "/",
+    now: () => new Date("2026-10-19T08:00:00Z"),
+    session: "s1",
+    // batches only leave on flush() in these tests
+    batchDelay: 60_000,
+    maxQueue: 3,
+  });
+  return { analytics, sent, names: () => sent.flat().map((e) => e.name) };
+}
+
+test("nothing is sent while consent is unknown; the last events go once it's granted", () => {
+  const { analytics, sent, names } = setup();
+  analytics.track("section_view", { section: "home" });
+  analytics.track("cta_click", { cta: "hero" });
+  analytics.track("portfolio_tab", { tab: "saas" });
+  analytics.track("form_start", { form: "contact" });
+  analytics.flush();
+  assert.deepEqual(sent, []);
+
+  analytics.setConsent("granted");
+  assert.deepEqual(names(), ["cta_click", "portfolio_tab", "form_start"]);
+  analytics.track("form_submit", { form: "contact" });
+  analytics.flush();
+  assert.deepEqual(names(), ["cta_click", "portfolio_tab", "form_start", "form_submit"]);
+});
+
+test("a refusal forgets what was held and records nothing after", () => {
+  const { analytics, sent } = setup();
+  analytics.track("section_view", { section: "home" });
+  analytics.setConsent("denied");
+  analytics.track("cta_click");
+  analytics.setConsent("granted");
+  analytics.flush();
+  assert.deepEqual(sent, []);
+});
+
+test("consent back to unknown holds events again", () => {
+  const { analytics, names } = setup({ consent: "granted" });
+  analytics.track("section_view", { section: "home" });
+  analytics.flush();
+  analytics.setConsent("unknown");
+  analytics.track("cta_click");
+  analytics.flush();
+  assert.deepEqual(names(), ["section_view"]);
+});
+
+test("Do-Not-Track and Global Privacy Control turn recording off, whatever the consent", () => {
+  const { analytics, sent } = setup({ consent: "granted", refused: true });
+  analytics.track("section_view", { section: "home" });
+  analytics.flush();
+  assert.deepEqual(sent, []);
+  assert.equal(trackingRefused({ doNotTrack: "1" } as Navigator), true);
+  assert.equal(trackingRefused({ doNotTrack: null, globalPrivacyControl: true } as unknown as Navigator), true);
+  assert.equal(trackingRefused({ doNotTrack: "0" } as Navigator), false);
+});
+
+test("the funnel only counts a step after the previous one in the same session", () => {
+  const event = (session: string, name: AnalyticsEvent["name"], props = {}): AnalyticsEvent => ({ name, props, path: "/", session, at: "2026-10-19T08:00:00Z" });
+  const report = funnelReport([
+    event("a", "section_view", { section: "home" }),
+    event("a", "portfolio_tab", { tab: "saas" }),
+    event("a", "cta_click"),
+    event("a", "form_start", { form: "contact" }),
+    event("b", "cta_click"),
+    event("b", "section_view", { section: "portfolio" }),
+  ]);
+  assert.equal(report.sessions, 2);
+  assert.deepEqual(
+    report.steps.map((s) => [s.id, s.sessions]),
+    [
+      ["visit", 2],
+      ["portfolio", 2],
+      ["cta", 1],
+      ["form_start", 1],
+      ["form_submit", 0],
+    ]
+  );
+});
+
+test("reports need the owner's token, and an IP over the limit is refused whatever it sends", async () => {
+  const store = memoryEventStore();
+  await store.append([{ name: "section_view", props: { section: "home" }, path: "/", session: "a", at: "2026-10-19T08:00:00Z" }]);
+  const get = (token: string) => new Request("http://localhost/api/analytics/funnel", { headers: { Authorization: `Bearer ${token}` } });
+
+  const funnel = createFunnelHandler({ store, token: "owner-token", rateLimiter: createRateLimiter({ max: 3 }) });
+  assert.equal((await funnel(get("owner-token"), { ip: "1.2.3.4" })).status, 200);
+  assert.equal((await funnel(get("guess-1"), { ip: "1.2.3.4" })).status, 401);
+  assert.equal((await funnel(get("guess-2"), { ip: "1.2.3.4" })).status, 401);
+  const limited = await funnel(get("owner-token"), { ip: "1.2.3.4" });
+  assert.equal(limited.status, 429);
+  assert.ok(Number(limited.headers.get("retry-after")) > 0);
+  assert.equal((await funnel(get("owner-token"), { ip: "5.6.7.8" })).status, 200);
+
+  // without a token configured, nothing is exposed
+  const closed = createExperimentsHandler({ store, token: undefined });
+  assert.equal((await closed(get("undefined"), { ip: "1.2.3.4" })).status, 401);
+});
@@ -0,0 +1,99 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { test } from "node:test";
+import { Booking, BookingStore, DEMO_BOOKING_CONFIG, availableSlots, createBookingService, memoryBookingStore } from "../lib/booking";
+import { jsonFileBookingStore } from "../server/booking";
+
+// Monday 19 October 2026, 10:00 in Paris; the restaurant opens 12:00–23:00 every day
+const NOW = new Date("2026-10-19T08:00:00Z");
+const DATE = "2026-10-20";
+
+const booking = (time: string, tableId: string, overrides: Partial<Booking> = {}): Booking => ({
+  id: `B-${tableId}-${time}`,
+  date: DATE,
+  time,
+  partySize: 2,
+  name: "Clara Martin",
+  email: null,
+  tableId,
+  createdAt: NOW.toISOString(),
+  ...overrides,
+});
+
+const request = (overrides: Record<string, unknown> = {}) => ({ date: DATE, time: "20:00", partySize: 2, name: "Clara Martin", ...overrides });
+
+let ids = 0;
+const service = (store: BookingStore = memoryBookingStore()) =>
+  createBookingService({ config: DEMO_BOOKING_CONFIG, store, now: () => NOW, newId: () => `B-${++ids}` });
+
+test("slots run every 30 minutes until the last one that ends at closing time", () => {
+  const { closed, slots } = availableSlots(DEMO_BOOKING_CONFIG, [], DATE, 2, NOW);
+  assert.equal(closed, false);
+  assert.equal(slots[0].time, "12:00");
+  assert.equal(slots.at(-1)?.time, "21:30");
+  assert.equal(slots.length, 20);
+  assert.ok(slots.every((s) => s.available));
+});
+
+test("a table is held for 90 minutes: overlapping starts are full, the first one after is free", () => {
+  // the only table for 8 is taken at 19:00
+  const day = availableSlots(DEMO_BOOKING_CONFIG, [booking("19:00", "T6", { partySize: 8 })], DATE, 8, NOW);
+  const available = (time: string) => day.slots.find((s) => s.time === time)?.available;
+  assert.equal(available("17:30"), true);
+  assert.equal(available("18:00"), false);
+  assert.equal(available("20:00"), false);
+  assert.equal(available("20:30"), true);
+  // smaller parties still fit elsewhere
+  assert.ok(availableSlots(DEMO_BOOKING_CONFIG, [booking("19:00", "T6")], DATE, 6, NOW).slots.every((s) => s.available));
+});
+
+test("same-day slots need an hour's notice, past and far-off days are closed", () => {
+  const today = availableSlots(DEMO_BOOKING_CONFIG, [], "2026-10-19", 2, new Date("2026-10-19T11:10:00Z"));
+  assert.deepEqual(
+    today.slots.filter((s) => s.available).map((s) => s.time).slice(0, 2),
+    ["14:30", "15:00"]
+  );
+  assert.equal(availableSlots(DEMO_BOOKING_CONFIG, [], "2026-10-18", 2, NOW).closed, true);
+  assert.equal(availableSlots(DEMO_BOOKING_CONFIG, [], "2026-12-18", 2, NOW).closed, false);
+  assert.equal(availableSlots(DEMO_BOOKING_CONFIG, [], "2026-12-19", 2, NOW).closed, true);
+});
+
+test("books the smallest free table that seats the party", async () => {
+  const store = memoryBookingStore([booking("20:00", "T3")]);
+  const result = await service(store).book(request({ partySize: 3 }));
+  assert.equal(result.ok && result.booking.tableId, "T4");
+  const couple = await service(store).book(request());
+  assert.equal(couple.ok && couple.booking.tableId, "T1");
+});
+
+test("refuses blackout days, off-grid times and bad input", async () => {
+  assert.deepEqual(await service().book(request({ date: "2026-12-25" })), { ok: false, error: "closed" });
+  assert.deepEqual(await service().book(request({ time: "20:15" })), { ok: false, error: "validation", fields: { time: "invalid" } });
+  assert.deepEqual(await service().book(request({ time: "22:00" })), { ok: false, error: "validation", fields: { time: "invalid" } });
+  assert.deepEqual(await service().book(request({ partySize: 9, name: " " })), {
+    ok: false,
+    error: "validation",
+    fields: { partySize: "invalid", name: "required" },
+  });
+  assert.deepEqual(await service().book(request({ date: "2026-02-30", time: "8h", name: "x".repeat(121), email: "clara@" })), {
+    ok: false,
+    error: "validation",
+    fields: { date: "invalid", time: "invalid", name: "too_long", email: "invalid" },
+  });
+});
+
+test("two visitors racing for the last table: one gets it, the other is told it's full", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "bookings-"));
+  try {
+    for (const store of [memoryBookingStore(), jsonFileBookingStore(join(dir, "bookings.json"))]) {
+      const book = service(store).book;
+      const results = await Promise.all([book(request({ partySize: 7 })), book(request({ partySize: 8, time: "19:30" }))]);
+      assert.deepEqual(results.map((r) => r.ok || r.error).sort(), ["full", true]);
+      assert.equal((await store.forDate(DATE)).length, 1);
+    }
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,182 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { test } from "node:test";
+import { CallBooking, CallSchedule, CallStore, STUDIO_CALL_SCHEDULE, availableCallSlots, createCallService, memoryCallStore } from "../lib/calls";
+import { fromMinutes, nowIn } from "../lib/time";
+import { jsonFileCallStore } from "../server/calls";
+import { callInvitesFromEnv } from "../server/config";
+import type { SmtpTransport } from "../server/leads";
+
+// Monday 19 October 2026, 10:00 in Paris (summer time until the 25th); calls run Tuesday to Friday
+const NOW = new Date("2026-10-19T08:00:00Z");
+
+const call = (start: string, overrides: Partial<CallBooking> = {}): CallBooking => ({
+  id: `C-${start}`,
+  start,
+  name: "Clara Martin",
+  email: "clara@example.com",
+  topic: null,
+  timeZone: "Europe/Paris",
+  consentAt: NOW.toISOString(),
+  createdAt: NOW.toISOString(),
+  ...overrides,
+});
+
+/** The slots of `date` as Paris wall-clock times. */
+const parisTimes = (slots: string[], date: string) =>
+  slots.map((s) => nowIn("Europe/Paris", new Date(s))).filter((w) => w.date === date).map((w) => fromMinutes(w.minutes));
+
+const TUESDAY = ["10:00", "10:30", "11:00", "11:30", "14:00", "14:30", "15:00", "15:30", "16:00", "16:30", "17:00"];
+
+test("slots fill the weekly windows, up to the last one that ends before closing", () => {
+  const slots = availableCallSlots(STUDIO_CALL_SCHEDULE, [], NOW);
+  assert.equal(slots[0], "2026-10-20T08:00:00.000Z");
+  assert.deepEqual(parisTimes(slots, "2026-10-20"), TUESDAY);
+  assert.deepEqual(parisTimes(slots, "2026-10-23"), ["10:00", "10:30", "11:00", "11:30"]);
+  // no calls on Mondays and weekends
+  for (const date of ["2026-10-19", "2026-10-24", "2026-10-25", "2026-10-26"]) assert.deepEqual(parisTimes(slots, date), [], date);
+  assert.deepEqual(slots, [...slots].sort());
+});
+
+test("slots keep their wall-clock times across the autumn switch, and stop after maxDaysAhead", () => {
+  const slots = availableCallSlots(STUDIO_CALL_SCHEDULE, [], NOW);
+  // 10:00 in Paris is 08:00 UTC in summer time, 09:00 UTC in winter time
+  assert.ok(slots.includes("2026-10-27T09:00:00.000Z"));
+  assert.deepEqual(parisTimes(slots, "2026-10-27"), TUESDAY);
+  assert.deepEqual(parisTimes(slots, "2026-11-09"), []);
+  assert.deepEqual(parisTimes(slots, "2026-11-10"), []);
+  assert.deepEqual(parisTimes(availableCallSlots({ ...STUDIO_CALL_SCHEDULE, maxDaysAhead: 22 }, [], NOW), "2026-11-10"), TUESDAY);
+});
+
+test("a window across a switch night lists each instant once, in order", () => {
+  const night: CallSchedule = { ...STUDIO_CALL_SCHEDULE, weekly: { 0: [["01:00", "04:00"]] }, exceptions: [], minNoticeMinutes: 0 };
+  // 02:00–03:00 happens twice: the slots inside it are its first occurrence
+  assert.deepEqual(
+    availableCallSlots(night, [], NOW).filter((s) => s.startsWith("2026-10-24T2") || s.startsWith("2026-10-25")),
+    ["2026-10-24T23:00:00.000Z", "2026-10-24T23:30:00.000Z", "2026-10-25T00:00:00.000Z", "2026-10-25T00:30:00.000Z", "2026-10-25T02:00:00.000Z", "2026-10-25T02:30:00.000Z"]
+  );
+  // 02:00–03:00 doesn't happen: no call there
+  const spring = availableCallSlots(night, [], new Date("2027-03-22T08:00:00Z")).filter((s) => s.startsWith("2027-03-28"));
+  assert.deepEqual(spring, ["2027-03-28T00:00:00.000Z", "2027-03-28T00:30:00.000Z", "2027-03-28T01:00:00.000Z", "2027-03-28T01:30:00.000Z"]);
+  assert.deepEqual(parisTimes(spring, "2027-03-28"), ["01:00", "01:30", "03:00", "03:30"]);
+});
+
+test("exceptions close a day or give it other hours", () => {
+  const schedule: CallSchedule = {
+    ...STUDIO_CALL_SCHEDULE,
+    exceptions: [
+      { date: "2026-10-20", windows: [] },
+      { date: "2026-10-21", windows: [["09:00", "09:30"]] },
+      { date: "2026-10-26", windows: [["16:00", "17:00"]] },
+    ],
+  };
+  const slots = availableCallSlots(schedule, [], NOW);
+  assert.deepEqual(parisTimes(slots, "2026-10-20"), []);
+  assert.deepEqual(parisTimes(slots, "2026-10-21"), ["09:00"]);
+  // a Monday opened for the afternoon
+  assert.deepEqual(parisTimes(slots, "2026-10-26"), ["16:00", "16:30"]);
+  assert.deepEqual(parisTimes(slots, "2026-10-27"), TUESDAY);
+  // the studio's Christmas closure
+  const december = availableCallSlots(STUDIO_CALL_SCHEDULE, [], new Date("2026-12-18T08:00:00Z"));
+  for (const date of ["2026-12-22", "2026-12-23", "2026-12-24", "2026-12-30", "2026-12-31"]) assert.deepEqual(parisTimes(december, date), [], date);
+  assert.deepEqual(parisTimes(december, "2026-12-29"), TUESDAY);
+});
+
+test("calls need the minimum notice", () => {
+  // Tuesday 20 October, 09:00 in Paris: 12 hours ahead is 21:00, after the day's last window
+  const slots = availableCallSlots(STUDIO_CALL_SCHEDULE, [], new Date("2026-10-20T07:00:00Z"));
+  assert.deepEqual(parisTimes(slots, "2026-10-20"), []);
+  assert.equal(slots[0], "2026-10-21T08:00:00.000Z");
+  // Tuesday, 03:00: 15:00 is the first slot far enough ahead
+  assert.deepEqual(parisTimes(availableCallSlots(STUDIO_CALL_SCHEDULE, [], new Date("2026-10-20T01:00:00Z")), "2026-10-20"), ["15:00", "15:30", "16:00", "16:30", "17:00"]);
+});
+
+test("a booked call keeps the buffer free on both sides", () => {
+  const schedule: CallSchedule = { ...STUDIO_CALL_SCHEDULE, slotMinutes: 10 };
+  // Wednesday 21 October, 15:00 in Paris; 20 minutes plus 10 of buffer
+  const booked = [call("2026-10-21T13:00:00.000Z")];
+  const around = (s: CallSchedule) => parisTimes(availableCallSlots(s, booked, NOW), "2026-10-21").filter((t) => t >= "14:20" && t <= "15:40");
+  assert.deepEqual(around(schedule), ["14:20", "14:30", "15:30", "15:40"]);
+  assert.deepEqual(around({ ...schedule, bufferMinutes: 0 }), ["14:20", "14:30", "14:40", "15:20", "15:30", "15:40"]);
+});
+
+test("booking takes the slot: the same start can't be booked twice", async () => {
+  let ids = 0;
+  const service = createCallService({ schedule: STUDIO_CALL_SCHEDULE, store: memoryCallStore(), now: () => NOW, newId: () => `C-${++ids}` });
+  const request = { start: "2026-10-21T08:00:00.000Z", name: "Clara Martin", email: "clara@example.com", timeZone: "America/New_York", consentAt: NOW.toISOString() };
+
+  const first = await service.book(request);
+  assert.equal(first.ok, true);
+  assert.ok(first.ok && first.ics.includes("UID:C-1@calls.vortex"));
+  assert.equal((await service.slots()).slots.includes(request.start), false);
+  assert.deepEqual(await service.book({ ...request, name: "Marc" }), { ok: false, error: "taken" });
+  // a start that was never offered: a Monday, off the half-hour grid, past the notice
+  for (const start of ["2026-10-26T09:00:00.000Z", "2026-10-21T08:10:00.000Z", "2026-10-19T12:00:00.000Z"]) {
+    assert.deepEqual(await service.book({ ...request, start }), { ok: false, error: "taken" }, start);
+  }
+  assert.deepEqual(await service.book({ ...request, start: "demain", email: "clara", timeZone: "Mars/Olympus", consentAt: "" }), {
+    ok: false,
+    error: "validation",
+    fields: { email: "invalid", start: "invalid", timeZone: "invalid", consentAt: "required" },
+  });
+  assert.deepEqual(await service.book({ ...request, start: "2026-10-21T08:30:00.000Z", consentAt: "hier" }), { ok: false, error: "validation", fields: { consentAt: "invalid" } });
+});
+
+test("two prospects racing for the same slot: one books it, the other is told it's taken", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "calls-"));
+  try {
+    const path = join(dir, "calls.json");
+    const stores: [string, CallStore][] = [
+      ["memory", memoryCallStore()],
+      ["json file", jsonFileCallStore(path)],
+    ];
+    for (const [name, store] of stores) {
+      let ids = 0;
+      const service = createCallService({ schedule: STUDIO_CALL_SCHEDULE, store, now: () => NOW, newId: () => `C-${++ids}` });
+      const results = await Promise.all(
+        ["Clara", "Marc", "Ines"].map((who) => service.book({ start: "2026-10-22T12:30:00.000Z", name: who, email: `${who.toLowerCase()}@example.com`, timeZone: "Europe/Paris", consentAt: NOW.toISOString() }))
+      );
+      assert.equal(results.filter((r) => r.ok).length, 1, name);
+      assert.equal(results.filter((r) => !r.ok && r.error === "taken").length, 2, name);
+      assert.equal((await store.upcoming(NOW.toISOString())).length, 1, name);
+    }
+    assert.equal((JSON.parse(await readFile(path, "utf8")) as CallBooking[]).length, 1);
+  } finally {
+    await rm(dir, { recursive: true });
+  }
+});
+
+test("with a transport and LEAD_MAIL_FROM the invite is emailed; a failed send still books the call", async () => {
+  const sent: Parameters<SmtpTransport["sendMail"]>[0][] = [];
+  const transport: SmtpTransport = { sendMail: async (message) => void sent.push(message) };
+  const env = { LEAD_MAIL_FROM: "studio@example.com" };
+  assert.equal(callInvitesFromEnv(STUDIO_CALL_SCHEDULE, env), undefined);
+  assert.equal(callInvitesFromEnv(STUDIO_CALL_SCHEDULE, {}, { smtpTransport: transport }), undefined);
+
+  const request = { start: "2026-10-21T08:00:00.000Z", name: "Clara Martin", email: "clara@example.com", timeZone: "Europe/Paris", consentAt: NOW.toISOString() };
+  const service = createCallService({
+    schedule: STUDIO_CALL_SCHEDULE,
+    store: memoryCallStore(),
+    now: () => NOW,
+    invite: callInvitesFromEnv(STUDIO_CALL_SCHEDULE, env, { smtpTransport: transport }),
+  });
+  const booked = await service.book(request);
+  assert.ok(booked.ok && booked.emailed);
+  assert.equal(booked.booking.consentAt, NOW.toISOString());
+  assert.equal(sent.length, 1);
+  assert.equal(sent[0].from, "studio@example.com");
+  assert.equal(sent[0].to, "Clara Martin <clara@example.com>");
+  assert.equal(sent[0].attachments?.[0].content, booked.ics);
+
+  const failing = createCallService({
+    schedule: STUDIO_CALL_SCHEDULE,
+    store: memoryCallStore(),
+    now: () => NOW,
+    invite: callInvitesFromEnv(STUDIO_CALL_SCHEDULE, env, { smtpTransport: { sendMail: () => Promise.reject(new Error("ECONNREFUSED")) } }),
+  });
+  const unsent = await failing.book(request);
+  assert.ok(unsent.ok && !unsent.emailed);
+  assert.equal((await failing.slots()).slots.includes(request.start), false);
+});
@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { test } from "node:test";
+import { realEstateCopy, restaurantCopy, saasCopy } from "../content/miniSites";
+import vortexContent from "../content/vortex";
+import { LOCALES } from "../i18n/locales";
+import { applyContentEntries } from "../lib/cms";
+import { markdownSource } from "../server/cms/markdown";
+
+const REGISTERED_COPY = { restaurant: restaurantCopy, realestate: realEstateCopy, saas: saasCopy };
+
+test("the shipped markdown all loads and reproduces the copy of the content modules", async () => {
+  const { entries, skipped } = await markdownSource({ dir: "content/cms" }).load({ preview: false });
+  assert.deepEqual(skipped, []);
+
+  const applied = applyContentEntries(vortexContent, entries);
+  for (const locale of LOCALES) {
+    const content = vortexContent[locale]!;
+    const counts = Object.fromEntries(["faq", "testimonials", "comparison", "portfolio"].map((c) => [c, entries.filter((e) => e.collection === c && e.locale === locale).length]));
+    assert.deepEqual(counts, { faq: content.faq.items.length, testimonials: content.testimonials.items.length, comparison: content.comparison.rows.length, portfolio: content.portfolio.minis.length }, locale);
+
+    const { portfolio, ...rest } = applied[locale]!;
+    const { portfolio: original, ...originalRest } = content;
+    assert.deepEqual(rest, originalRest, locale);
+    assert.deepEqual(portfolio.minis, original.minis);
+    for (const [key, copy] of Object.entries(REGISTERED_COPY)) {
+      const { desc, details } = copy[locale]!;
+      assert.deepEqual(portfolio.copy?.[key], { desc, details }, `${locale} ${key}`);
+    }
+  }
+});
+
+test("drafts load in preview only, and a file with a malformed header is skipped", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "vortex-cms-"));
+  try {
+    await mkdir(join(dir, "faq", "fr"), { recursive: true });
+    await writeFile(join(dir, "faq", "fr", "a.md"), '---\nquestion: "Publiée ?"\norder: 2\n---\nOui,\nsur deux lignes.\n\nEt un second paragraphe.\n');
+    await writeFile(join(dir, "faq", "fr", "b.md"), "---\nquestion: Brouillon\ndraft: true\norder: 1\n---\nPas encore.\n");
+    await writeFile(join(dir, "faq", "fr", "c.md"), "---\nquestion Sans deux-points\n---\nJamais lue.\n");
+
+    const published = await markdownSource({ dir }).load({ preview: false });
+    assert.deepEqual(
+      published.entries.map((e) => [e.id, e.data]),
+      [["a", { q: "Publiée ?", a: "Oui, sur deux lignes.\n\nEt un second paragraphe." }]],
+    );
+    assert.deepEqual(
+      published.skipped.map((s) => s.ref),
+      [join(dir, "faq", "fr", "c.md")],
+    );
+
+    const preview = await markdownSource({ dir }).load({ preview: true });
+    assert.deepEqual(
+      applyContentEntries(vortexContent, preview.entries, { preview: true }).fr.faq.items.map((e) => e.q),
+      ["Brouillon", "Publiée ?"],
+    );
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
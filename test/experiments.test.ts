@@ -0,0 +1,96 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { AnalyticsEvent } from "../lib/analytics";
+import { Experiment, assignVariant, experimentReport, parseExperimentContext, twoProportionPValue } from "../lib/experiments";
+
+const visitorId = (i: number) => i.toString(16).padStart(16, "0");
+
+const event = (name: "experiment_exposure" | "experiment_conversion", visitor: string, variant: string, experiment = "hero-headline"): AnalyticsEvent => ({
+  name,
+  props: { experiment, variant, visitor },
+  path: "/",
+  session: visitor,
+  at: "2026-10-19T08:00:00Z",
+});
+
+/** `visitors` exposed to `variant`, the first `conversions` of them converted. */
+const arm = (variant: string, visitors: number, conversions: number, offset: number) =>
+  Array.from({ length: visitors }, (_, i) => [
+    event("experiment_exposure", visitorId(offset + i), variant),
+    ...(i < conversions ? [event("experiment_conversion", visitorId(offset + i), variant)] : []),
+  ]).flat();
+
+test("two-proportion z-test p-values", () => {
+  // 10% vs 13% on 1000 visitors each: z ≈ 2.10
+  assert.ok(Math.abs(twoProportionPValue(100, 1000, 130, 1000)! - 0.0355) < 5e-4);
+  // same data, other way round
+  assert.equal(twoProportionPValue(130, 1000, 100, 1000), twoProportionPValue(100, 1000, 130, 1000));
+  // 10% vs 11%: well within noise
+  assert.ok(Math.abs(twoProportionPValue(100, 1000, 110, 1000)! - 0.4657) < 5e-4);
+  assert.ok(Math.abs(twoProportionPValue(50, 100, 50, 100)! - 1) < 1e-6);
+  // nobody or everybody converted on both sides: no difference to measure
+  assert.equal(twoProportionPValue(0, 100, 0, 100), 1);
+  assert.equal(twoProportionPValue(100, 100, 50, 50), 1);
+  assert.equal(twoProportionPValue(0, 0, 3, 10), null);
+});
+
+test("assignment is sticky and follows the weights", () => {
+  const experiment: Experiment = { id: "cta-urgency", variants: [{ id: "control", weight: 3 }, { id: "reassurance", weight: 1 }] };
+  const visitors = Array.from({ length: 20_000 }, (_, i) => visitorId(i * 7919));
+  assert.deepEqual(visitors.slice(0, 50).map((v) => assignVariant(experiment, v)), visitors.slice(0, 50).map((v) => assignVariant(experiment, v)));
+  const share = visitors.filter((v) => assignVariant(experiment, v) === "reassurance").length / visitors.length;
+  assert.ok(Math.abs(share - 0.25) < 0.02, `reassurance got ${share}`);
+
+  const off: Experiment = { id: "cta-urgency", variants: [{ id: "control", weight: 0 }, { id: "reassurance", weight: 1 }] };
+  assert.ok(visitors.slice(0, 200).every((v) => assignVariant(off, v) === "reassurance"));
+  const none: Experiment = { id: "cta-urgency", variants: [{ id: "control", weight: 0 }, { id: "reassurance", weight: 0 }] };
+  assert.equal(assignVariant(none, visitors[0]), "control");
+});
+
+test("experiment context from an untrusted payload", () => {
+  const visitor = visitorId(42);
+  assert.deepEqual(parseExperimentContext({ visitor, variants: { "hero-headline": "outcome" } }), { visitor, variants: { "hero-headline": "outcome" } });
+  assert.equal(parseExperimentContext({ visitor: "not-hex", variants: {} }), null);
+  assert.equal(parseExperimentContext({ visitor, variants: ["outcome"] }), null);
+  assert.equal(parseExperimentContext({ visitor, variants: { "Hero Headline": "outcome" } }), null);
+  assert.equal(parseExperimentContext({ visitor, variants: { "hero-headline": 1 } }), null);
+  assert.equal(parseExperimentContext({ visitor, variants: { a: "x", b: "x", c: "x" } }, 2), null);
+  assert.equal(parseExperimentContext(undefined), null);
+});
+
+test("the readout compares each variant with the control", () => {
+  const [result] = experimentReport([...arm("outcome", 1000, 130, 0), ...arm("control", 1000, 100, 1000)], {
+    experiments: [{ id: "hero-headline", variants: [{ id: "control", weight: 1 }, { id: "outcome", weight: 1 }] }],
+  });
+  assert.equal(result.control, "control");
+  const [control, outcome] = result.variants;
+  assert.deepEqual(control, { id: "control", visitors: 1000, conversions: 100, rate: 0.1, lift: null, pValue: null, significant: false });
+  assert.equal(outcome.id, "outcome");
+  assert.equal(outcome.conversions, 130);
+  assert.ok(Math.abs(outcome.lift! - 0.3) < 1e-9);
+  assert.equal(outcome.significant, true);
+  // a stricter threshold: same data, no longer significant
+  const strict = experimentReport([...arm("outcome", 1000, 130, 0), ...arm("control", 1000, 100, 1000)], { alpha: 0.01 });
+  assert.equal(strict[0].variants[1].significant, false);
+});
+
+test("a conversion only counts for a visitor exposed to that variant, once", () => {
+  const a = visitorId(1);
+  const b = visitorId(2);
+  const [result] = experimentReport([
+    event("experiment_exposure", a, "control"),
+    event("experiment_exposure", a, "control"),
+    event("experiment_conversion", a, "control"),
+    event("experiment_conversion", a, "control"),
+    // converted without an exposure on record
+    event("experiment_conversion", b, "control"),
+    event("experiment_exposure", b, "outcome"),
+  ]);
+  assert.deepEqual(
+    result.variants.map((v) => [v.id, v.visitors, v.conversions]),
+    [
+      ["control", 1, 1],
+      ["outcome", 1, 0],
+    ]
+  );
+});
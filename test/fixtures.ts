@@ -0,0 +1,23 @@
+import type { Lead } from "../lib/lead";
+
+/** A lead as the contact endpoint builds it; override what a test is about. */
+export const makeLead = (overrides: Partial<Lead> = {}): Lead => ({
+  id: "lead-1",
+  name: "Clara Martin",
+  company: "Atelier Martin",
+  email: "clara@example.com",
+  phone: null,
+  budget: 749,
+  currency: "EUR",
+  maintenance: false,
+  message: "Un site vitrine pour l'atelier.",
+  source: "contact",
+  locale: "fr",
+  qualification: null,
+  score: null,
+  quote: null,
+  consentAt: "2026-03-02T09:00:00.000Z",
+  experiments: null,
+  createdAt: "2026-03-02T09:00:05.000Z",
+  ...overrides,
+});
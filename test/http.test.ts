@@ -0,0 +1,34 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { readJson } from "../server/http";
+
+const post = (body: BodyInit, headers: Record<string, string> = {}) => new Request("http://localhost/api", { method: "POST", body, headers, duplex: "half" } as RequestInit);
+
+test("the body limit counts bytes, not characters", async () => {
+  // "é" is one character, two bytes in UTF-8: 21 characters, 31 bytes
+  const body = JSON.stringify({ name: "é".repeat(10) });
+  assert.equal(new TextEncoder().encode(body).byteLength, 31);
+  assert.deepEqual(await readJson(post(body), 31), { name: "é".repeat(10) });
+  assert.equal(await readJson(post(body), 30), undefined);
+  assert.equal(await readJson(post(body, { "content-length": "100000" })), undefined);
+  assert.equal(await readJson(post("{not json")), undefined);
+  assert.equal(await readJson(new Request("http://localhost/api")), undefined);
+});
+
+test("a body past the limit stops being read, whatever Content-Length said", async () => {
+  let pulled = 0;
+  let cancelled = false;
+  const chunk = new TextEncoder().encode(`"${"a".repeat(1022)}"`);
+  const endless = new ReadableStream<Uint8Array>({
+    pull: (controller) => {
+      pulled++;
+      controller.enqueue(chunk);
+    },
+    cancel: () => {
+      cancelled = true;
+    },
+  });
+  assert.equal(await readJson(post(endless, { "content-length": "10" }), 4 * 1024), undefined);
+  assert.ok(cancelled);
+  assert.ok(pulled <= 6, `${pulled} chunks read`);
+});
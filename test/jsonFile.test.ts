@@ -0,0 +1,34 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { test } from "node:test";
+import { jsonFileStore } from "../server/jsonFile";
+
+test("a missing file reads as no records; transactions run one after the other", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "json-file-"));
+  try {
+    const path = join(dir, "nested", "counts.json");
+    const file = jsonFileStore<number>(path);
+    assert.deepEqual(await file.read(), []);
+
+    // each one reads what the previous one wrote: none is lost
+    await Promise.all(
+      Array.from({ length: 10 }, (_, i) =>
+        file.transaction(async (records, save) => {
+          await new Promise((resolve) => setTimeout(resolve, 1));
+          await save([...records, i]);
+        })
+      )
+    );
+    assert.deepEqual(await file.read(), [0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    assert.deepEqual(JSON.parse(await readFile(path, "utf8")), [0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    assert.deepEqual(await readdir(join(dir, "nested")), ["counts.json"]);
+
+    // a failed transaction writes nothing and doesn't block the next one
+    await assert.rejects(file.transaction(async () => Promise.reject(new Error("boom"))));
+    assert.equal(await file.transaction(async (records) => records.length), 10);
+  } finally {
+    await rm(dir, { recursive: true });
+  }
+});
@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { test } from "node:test";
+import { CSV_COLUMNS, csvCell, fileAdapter } from "../server/leads/file";
+import { makeLead } from "./fixtures";
+
+// the columns of the first CSV logs; whatever is added comes after them
+const FIRST_COLUMNS = ["id", "createdAt", "name", "company", "email", "budget", "currency", "maintenance", "source", "locale", "message"];
+
+const columns = Object.keys(CSV_COLUMNS);
+
+test("columns are only ever appended, in the order they were added", () => {
+  assert.deepEqual(columns, [
+    ...FIRST_COLUMNS,
+    "projectType",
+    "pages",
+    "features",
+    "deadline",
+    "score",
+    "tier",
+    "quoteOneOffHt",
+    "quoteMonthlyHt",
+    "quoteMonths",
+    "consentAt",
+    "experiments",
+    "phone",
+  ]);
+});
+
+test("the CSV log writes its header once and quotes cells that need it", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "leads-"));
+  try {
+    const path = join(dir, "leads.csv");
+    const sink = fileAdapter({ path, format: "csv" });
+    await sink.deliver(makeLead({ message: 'Bonjour, "urgent"\nmerci' }));
+    await sink.deliver(makeLead({ id: "lead-2" }));
+    const csv = await readFile(path, "utf8");
+    assert.ok(csv.startsWith(`${columns.join(",")}\nlead-1,`));
+    assert.equal(csv.split(columns.join(",")).length, 2);
+    assert.ok(csv.includes('"Bonjour, ""urgent""\nmerci"'));
+    assert.ok(csv.includes("\nlead-2,"));
+  } finally {
+    await rm(dir, { recursive: true });
+  }
+});
+
+test("cells starting like a spreadsheet formula are written as text", () => {
+  assert.equal(csvCell('=HYPERLINK("http://evil.example","clic")'), `"'=HYPERLINK(""http://evil.example"",""clic"")"`);
+  assert.equal(csvCell("+33612345678"), "'+33612345678");
+  assert.equal(csvCell("-2+3"), "'-2+3");
+  assert.equal(csvCell("@SUM(A1:A2)"), "'@SUM(A1:A2)");
+  assert.equal(csvCell("\t=1+1"), "'\t=1+1");
+  assert.equal(csvCell("\r=1+1"), `"'\r=1+1"`);
+  // numbers, and text with a sign further in, stay as they are
+  assert.equal(csvCell(-5), "-5");
+  assert.equal(csvCell("Clara = cliente"), "Clara = cliente");
+  assert.equal(csvCell(null), "");
+});
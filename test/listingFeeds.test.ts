@@ -0,0 +1,127 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { parseKyeroFeed } from "../lib/listingFeeds";
+import { XmlParseError, child, parseXml, textOf } from "../lib/xml";
+
+const agent = { name: "Agence du Port", email: "contact@agenceduport.fr" };
+
+const property = (fields: string) => `<property>${fields}</property>`;
+
+const feed = (...properties: string[]) => `<?xml version="1.0" encoding="UTF-8"?>
+<!-- exported by the agency's CRM -->
+<root>
+  <kyero><feed_version>3</feed_version></kyero>
+  ${properties.join("\n")}
+</root>`;
+
+const VILLA = property(`
+  <id>K-1042</id>
+  <date>2026-09-14 12:00:00</date>
+  <ref>VP-42</ref>
+  <price>685000</price>
+  <currency>EUR</currency>
+  <price_freq>sale</price_freq>
+  <type>Villa</type>
+  <town>Sète</town>
+  <postcode>34200</postcode>
+  <beds>4</beds>
+  <baths>2</baths>
+  <surface_area><built>162</built><plot>900</plot></surface_area>
+  <desc>
+    <en>Villa with a sea view. Quiet street.</en>
+    <fr><![CDATA[Villa <b>vue mer</b>. Rue calme & arborée.]]></fr>
+  </desc>
+  <images>
+    <image id="1"><url>https://cdn.example.com/k1042/1.jpg</url></image>
+    <image id="2"><url>https://cdn.example.com/k1042/2.jpg</url></image>
+  </images>`);
+
+test("parses elements, attributes, entities, CDATA and comments", () => {
+  const doc = parseXml(`<?xml version="1.0"?><!-- note --><a x="1" y='&quot;2&quot;'><b>Tom &amp; Jerry &#233;&#x2014;</b><c/><d><![CDATA[<raw> & kept]]></d></a>`);
+  const a = child(doc, "a");
+  assert.deepEqual(a?.attrs, { x: "1", y: '"2"' });
+  assert.equal(textOf(a, "b"), "Tom & Jerry é—");
+  assert.deepEqual(child(a, "c"), { name: "c", attrs: {}, children: [], text: "" });
+  assert.equal(textOf(a, "d"), "<raw> & kept");
+});
+
+test("reports broken markup with its offset", () => {
+  assert.throws(() => parseXml("<a><b></a>"), (err) => err instanceof XmlParseError && err.offset === 6);
+  assert.throws(() => parseXml("<a><b>"), /Unclosed <b>/);
+  assert.throws(() => parseXml("<a><!-- never closed"), /Expected "-->"/);
+});
+
+test("maps a Kyero property to a listing", () => {
+  const { listings, skipped } = parseKyeroFeed(feed(VILLA), { agent });
+  assert.deepEqual(skipped, []);
+  assert.deepEqual(listings, [
+    {
+      id: "K-1042",
+      ref: "VP-42",
+      title: "Villa <b>vue mer</b>",
+      type: "house",
+      transaction: "sale",
+      price: 685000,
+      currency: "EUR",
+      city: "Sète",
+      postcode: "34200",
+      surface: 162,
+      beds: 4,
+      baths: 2,
+      description: "Villa <b>vue mer</b>. Rue calme & arborée.",
+      images: ["https://cdn.example.com/k1042/1.jpg", "https://cdn.example.com/k1042/2.jpg"],
+      agent,
+      publishedAt: listings[0].publishedAt,
+    },
+  ]);
+  assert.ok(listings[0].publishedAt.startsWith("2026-09-14"));
+});
+
+test("falls back to English, then to any language, then to the town", () => {
+  const title = (desc: string, lang = "fr") =>
+    parseKyeroFeed(feed(property(`<id>1</id><price>900</price><town>Nîmes</town>${desc}`)), { agent, lang }).listings[0].title;
+  assert.equal(title("<desc><en>Bright flat! Near the arena.</en></desc>"), "Bright flat");
+  assert.equal(title("<desc><es>Piso luminoso.</es></desc>"), "Piso luminoso");
+  assert.equal(title("<desc><en>Bright flat.</en><de>Helle Wohnung.</de></desc>", "de"), "Helle Wohnung");
+  assert.equal(title(""), "Nîmes");
+});
+
+test("rentals, unknown types and missing optional fields get defaults", () => {
+  const [listing] = parseKyeroFeed(
+    feed(property(`<id>R-7</id><price>1150</price><price_freq>month</price_freq><type>Castle</type><town>Montpellier</town>`)),
+    { agent }
+  ).listings;
+  assert.equal(listing.ref, "R-7");
+  assert.equal(listing.transaction, "rent");
+  assert.equal(listing.type, "apartment");
+  assert.equal(listing.currency, "EUR");
+  assert.equal(listing.surface, 0);
+  assert.equal(listing.beds, 0);
+  assert.equal(listing.baths, undefined);
+  assert.deepEqual(listing.images, []);
+  assert.equal(listing.publishedAt, new Date(0).toISOString());
+});
+
+test("skips invalid properties and keeps the rest", () => {
+  const { listings, skipped } = parseKyeroFeed(
+    feed(
+      property(`<price>1000</price><town>Agde</town>`),
+      VILLA,
+      property(`<id>2</id><price>1000</price>`),
+      property(`<id>3</id><price>sur demande</price><town>Agde</town>`),
+      property(`<id>4</id><price>0</price><town>Agde</town>`)
+    ),
+    { agent }
+  );
+  assert.deepEqual(listings.map((l) => l.id), ["K-1042"]);
+  assert.deepEqual(skipped, [
+    { index: 0, reason: "missing <id>" },
+    { index: 2, reason: "missing <town>" },
+    { index: 3, reason: "invalid <price>" },
+    { index: 4, reason: "invalid <price>" },
+  ]);
+});
+
+test("a document without <root> imports nothing", () => {
+  assert.deepEqual(parseKyeroFeed("<properties/>", { agent }), { listings: [], skipped: [{ index: -1, reason: "missing <root>" }] });
+});
@@ -0,0 +1,125 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, test } from "node:test";
+import { QueuedItem, QueueStorage, SendOutcome, createRetryQueue } from "../lib/offlineQueue";
+
+const memoryStorage = <T>(initial: QueuedItem<T>[] = []): QueueStorage<T> => {
+  let saved = initial;
+  return { load: () => saved, save: (items) => void (saved = items) };
+};
+
+const due = (id: string): QueuedItem<string> => ({ id, payload: id, attempts: 1, createdAt: 0, nextAttemptAt: 0 });
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// start() listens to the browser's `online` event
+let page: EventTarget;
+beforeEach(() => {
+  page = new EventTarget();
+  Object.assign(globalThis, { window: page });
+});
+afterEach(() => {
+  delete (globalThis as { window?: unknown }).window;
+});
+
+test("offline, due items wait for the online event instead of being polled", async () => {
+  let online = false;
+  let checks = 0;
+  const sent: string[] = [];
+  const queue = createRetryQueue<string>({
+    storage: memoryStorage([due("a"), due("b")]),
+    send: async (payload): Promise<SendOutcome> => (sent.push(payload), { status: "sent" }),
+    isOnline: () => (checks++, online),
+  });
+  const stop = queue.start();
+  try {
+    await sleep(100);
+    assert.ok(checks <= 3, `isOnline checked ${checks} times while offline`);
+    assert.deepEqual(sent, []);
+    assert.equal(queue.size(), 2);
+
+    online = true;
+    page.dispatchEvent(new Event("online"));
+    await sleep(20);
+    assert.deepEqual(sent, ["a", "b"]);
+    assert.equal(queue.size(), 0);
+  } finally {
+    stop();
+  }
+});
+
+test("a retry is rescheduled with backoff, at least the server's retry-after", async () => {
+  let t = 1_000;
+  const queue = createRetryQueue<string>({
+    storage: memoryStorage([due("a")]),
+    send: async () => ({ status: "retry", retryAfterMs: 60_000 }),
+    now: () => t,
+    isOnline: () => true,
+  });
+  await queue.flush();
+  assert.equal(queue.size(), 1);
+  const events: string[] = [];
+  queue.subscribe((e) => events.push(e.type));
+  await queue.flush(); // not due yet
+  assert.deepEqual(events, []);
+  t += 60_000;
+  await queue.flush();
+  assert.deepEqual(events, ["change"]);
+});
+
+test("sent and rejected items leave the queue; a thrown send is retried", async () => {
+  const outcomes: Record<string, SendOutcome | Error> = { ok: { status: "sent" }, bad: { status: "rejected", reason: 422 }, net: new Error("offline") };
+  const queue = createRetryQueue<string>({
+    storage: memoryStorage([due("ok"), due("bad"), due("net")]),
+    send: async (p) => {
+      const o = outcomes[p];
+      if (o instanceof Error) throw o;
+      return o;
+    },
+    isOnline: () => true,
+  });
+  const events: string[] = [];
+  queue.subscribe((e) => e.type !== "change" && events.push(`${e.type}:${e.item.id}`));
+  await queue.flush();
+  assert.deepEqual(events, ["sent:ok", "rejected:bad"]);
+  assert.equal(queue.size(), 1);
+});
+
+test("a queue started by two callers keeps retrying until both have stopped", async () => {
+  let fail = true;
+  const sent: string[] = [];
+  const queue = createRetryQueue<string>({
+    storage: memoryStorage<string>(),
+    send: async (payload): Promise<SendOutcome> => (fail ? { status: "retry" } : (sent.push(payload), { status: "sent" })),
+    baseDelayMs: 10,
+    maxDelayMs: 10,
+    isOnline: () => true,
+  });
+  const stopWizard = queue.start();
+  const stopAgentForm = queue.start();
+  stopAgentForm();
+  // a second call of the same stop function doesn't count twice
+  stopAgentForm();
+
+  queue.enqueue("a");
+  fail = false;
+  await sleep(50);
+  assert.deepEqual(sent, ["a"]);
+
+  stopWizard();
+  queue.enqueue("b");
+  await sleep(50);
+  assert.deepEqual(sent, ["a"]);
+  assert.equal(queue.size(), 1);
+});
+
+test("items keep the tag they were queued with, to count and report them per caller", async () => {
+  const queue = createRetryQueue<string>({ storage: memoryStorage<string>(), send: async () => ({ status: "sent" }), now: () => 0, baseDelayMs: 0, isOnline: () => true });
+  queue.enqueue("a", "wizard:contact");
+  queue.enqueue("b", "realestate-agent");
+  queue.enqueue("c");
+  assert.deepEqual([queue.size(), queue.size("wizard:contact"), queue.size("realestate-agent")], [3, 1, 1]);
+  const sent: string[] = [];
+  queue.subscribe((e) => e.type === "sent" && sent.push(`${e.item.tag}:${e.item.payload}`));
+  await queue.flush();
+  assert.deepEqual(sent, ["wizard:contact:a", "realestate-agent:b", "undefined:c"]);
+});
@@ -0,0 +1,18 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import vortexContent from "../content/vortex";
+import { EMPTY_ROUTE } from "../lib/router";
+import { renderPage } from "../server/prerender";
+
+const TEMPLATE = '<!doctype html><html lang="en"><head><meta charset="utf-8"><title>Vite</title></head><body><div id="root"></div></body></html>';
+
+test("head tags are inserted as written, replacement patterns included", () => {
+  // `$&`, `` $` `` and `$'` mean something to String.replace
+  const description = "Sites à 990 $ : $& $` $' compris";
+  const content = { ...vortexContent, fr: { ...vortexContent.fr!, seo: { ...vortexContent.fr!.seo, description } } };
+  const html = renderPage(TEMPLATE, content, "/", EMPTY_ROUTE);
+
+  assert.ok(html.includes(`<meta data-head name="twitter:description" content="Sites à 990 $ : $&amp; $\` $' compris">`));
+  assert.equal(html.match(/<\/head>/g)?.length, 1);
+  assert.ok(html.startsWith('<!doctype html><html lang="fr"><head><meta charset="utf-8">'));
+});
@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { Pricing } from "../content/schema";
+import { validateContactSubmission } from "../lib/contact";
+import { leadFromSubmission } from "../lib/lead";
+import { DEFAULT_QUOTE, parseQuoteConfig, priceQuote } from "../lib/quote";
+
+const PRICING: Pricing = {
+  currency: "EUR",
+  vatRate: 0.2,
+  launch: 749,
+  includedPages: 1,
+  maintenance: 49,
+  addOns: { extraPage: 120, language: 290, ecommerce: 990, copywriting: 80 },
+};
+
+test("the launch package alone", () => {
+  const quote = priceQuote(DEFAULT_QUOTE, PRICING);
+  assert.deepEqual(quote.lines.map((l) => l.key), ["base"]);
+  assert.deepEqual(quote.oneOff, { ht: 749, vat: 149.8, ttc: 898.8 });
+  assert.deepEqual(quote.monthly, { ht: 0, vat: 0, ttc: 0 });
+  assert.deepEqual(quote.total, quote.oneOff);
+});
+
+test("add-ons, copywriting on every page, and maintenance over the commitment", () => {
+  const quote = priceQuote({ extraPages: 3, extraLanguages: 1, ecommerce: true, copywriting: true, maintenanceMonths: 12 }, PRICING);
+  const amounts = Object.fromEntries(quote.lines.map((l) => [l.key, l.amount]));
+  // copywriting covers the included page and the 3 extra ones
+  assert.deepEqual(amounts, { base: 749, extraPages: 360, languages: 290, ecommerce: 990, copywriting: 320, maintenance: 588 });
+  assert.equal(quote.oneOff.ht, 2709);
+  assert.equal(quote.monthly.ht, 49);
+  // the maintenance line is the whole commitment, not one month
+  assert.equal(quote.lines.find((l) => l.key === "maintenance")!.amount, quote.monthly.ht * 12);
+  assert.deepEqual(quote.total, { ht: 3297, vat: 659.4, ttc: 3956.4 });
+});
+
+test("configurations out of range or of the wrong type are refused", () => {
+  assert.deepEqual(parseQuoteConfig({ ...DEFAULT_QUOTE, extraPages: 2 }), { ...DEFAULT_QUOTE, extraPages: 2 });
+  assert.equal(parseQuoteConfig(null), null);
+  assert.equal(parseQuoteConfig({ ...DEFAULT_QUOTE, extraPages: -1 }), null);
+  assert.equal(parseQuoteConfig({ ...DEFAULT_QUOTE, extraPages: 1.5 }), null);
+  assert.equal(parseQuoteConfig({ ...DEFAULT_QUOTE, maintenanceMonths: 37 }), null);
+  assert.equal(parseQuoteConfig({ ...DEFAULT_QUOTE, ecommerce: "yes" }), null);
+});
+
+test("the endpoint re-prices the attached configuration and ignores client totals", () => {
+  const result = validateContactSubmission({
+    name: "Clara",
+    email: "clara@example.com",
+    consentAt: "2026-03-02T09:00:00Z",
+    quote: { ...DEFAULT_QUOTE, extraPages: 2, oneOff: { ht: 1 }, lines: [] },
+  });
+  assert.ok(result.ok);
+  const lead = leadFromSubmission(result.value, { id: "lead-1", pricing: PRICING });
+  assert.deepEqual(lead.quote?.config, { ...DEFAULT_QUOTE, extraPages: 2 });
+  assert.equal(lead.quote?.oneOff.ht, 749 + 2 * 120);
+});
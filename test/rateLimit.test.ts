@@ -0,0 +1,49 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createRateLimiter } from "../server/rateLimit";
+
+const clock = (start = 0) => {
+  let t = start;
+  return { now: () => t, advance: (ms: number) => void (t += ms) };
+};
+
+test("allows `max` hits per window, then refuses with the seconds until the oldest hit expires", () => {
+  const c = clock();
+  const limiter = createRateLimiter({ windowMs: 60_000, max: 3, now: c.now });
+  for (let i = 0; i < 3; i++) {
+    assert.deepEqual(limiter.hit("1.2.3.4"), { allowed: true, retryAfter: 0 });
+    c.advance(10_000);
+  }
+  assert.deepEqual(limiter.hit("1.2.3.4"), { allowed: false, retryAfter: 30 });
+});
+
+test("the window slides: a hit is allowed again once the oldest one is out of it", () => {
+  const c = clock();
+  const limiter = createRateLimiter({ windowMs: 60_000, max: 2, now: c.now });
+  limiter.hit("a");
+  c.advance(30_000);
+  limiter.hit("a");
+  assert.equal(limiter.hit("a").allowed, false);
+  c.advance(30_000);
+  assert.equal(limiter.hit("a").allowed, true);
+  assert.equal(limiter.hit("a").allowed, false);
+});
+
+test("refused hits don't extend the wait", () => {
+  const c = clock();
+  const limiter = createRateLimiter({ windowMs: 60_000, max: 1, now: c.now });
+  limiter.hit("a");
+  for (let i = 0; i < 5; i++) {
+    c.advance(10_000);
+    assert.equal(limiter.hit("a").allowed, false);
+  }
+  c.advance(10_000);
+  assert.equal(limiter.hit("a").allowed, true);
+});
+
+test("keys are counted separately", () => {
+  const limiter = createRateLimiter({ max: 1, now: () => 0 });
+  assert.equal(limiter.hit("a").allowed, true);
+  assert.equal(limiter.hit("a").allowed, false);
+  assert.equal(limiter.hit("b").allowed, true);
+});
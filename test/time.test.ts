@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { addDays, fromMinutes, isValidDate, nowIn, weekdayOf, zonedTimeToUtc } from "../lib/time";
+
+const utc = (date: string, time: string, zone: string) => zonedTimeToUtc(date, time, zone).toISOString();
+
+test("standard and summer time", () => {
+  assert.equal(utc("2026-01-15", "10:00", "Europe/Paris"), "2026-01-15T09:00:00.000Z");
+  assert.equal(utc("2026-07-15", "10:00", "Europe/Paris"), "2026-07-15T08:00:00.000Z");
+  assert.equal(utc("2026-07-15", "10:00", "America/New_York"), "2026-07-15T14:00:00.000Z");
+  assert.equal(utc("2026-07-15", "10:00", "Australia/Sydney"), "2026-07-15T00:00:00.000Z");
+  assert.equal(utc("2026-07-15", "10:00", "UTC"), "2026-07-15T10:00:00.000Z");
+});
+
+test("around the spring-forward switch (Paris, 29 March 2026, 02:00 → 03:00)", () => {
+  assert.equal(utc("2026-03-29", "01:59", "Europe/Paris"), "2026-03-29T00:59:00.000Z");
+  assert.equal(utc("2026-03-29", "03:00", "Europe/Paris"), "2026-03-29T01:00:00.000Z");
+  // 02:00–02:59 don't exist that night: they move forward by the hour the clocks skip
+  assert.equal(utc("2026-03-29", "02:00", "Europe/Paris"), "2026-03-29T01:00:00.000Z");
+  assert.equal(utc("2026-03-29", "02:30", "Europe/Paris"), "2026-03-29T01:30:00.000Z");
+});
+
+test("around the fall-back switch (Paris, 25 October 2026, 03:00 → 02:00)", () => {
+  assert.equal(utc("2026-10-25", "01:30", "Europe/Paris"), "2026-10-24T23:30:00.000Z");
+  assert.equal(utc("2026-10-25", "03:30", "Europe/Paris"), "2026-10-25T02:30:00.000Z");
+  // 02:00–02:59 happen twice that night: the first time counts
+  assert.equal(utc("2026-10-25", "02:00", "Europe/Paris"), "2026-10-25T00:00:00.000Z");
+  assert.equal(utc("2026-10-25", "02:30", "Europe/Paris"), "2026-10-25T00:30:00.000Z");
+});
+
+test("New York and Sydney switches", () => {
+  assert.equal(utc("2026-03-08", "01:30", "America/New_York"), "2026-03-08T06:30:00.000Z");
+  assert.equal(utc("2026-03-08", "02:30", "America/New_York"), "2026-03-08T07:30:00.000Z");
+  assert.equal(utc("2026-03-08", "03:30", "America/New_York"), "2026-03-08T07:30:00.000Z");
+  assert.equal(utc("2026-11-01", "00:30", "America/New_York"), "2026-11-01T04:30:00.000Z");
+  assert.equal(utc("2026-11-01", "01:30", "America/New_York"), "2026-11-01T05:30:00.000Z");
+  assert.equal(utc("2026-11-01", "03:00", "America/New_York"), "2026-11-01T08:00:00.000Z");
+  // southern hemisphere: summer time ends in April, starts in October
+  assert.equal(utc("2026-04-05", "01:00", "Australia/Sydney"), "2026-04-04T14:00:00.000Z");
+  assert.equal(utc("2026-04-05", "02:30", "Australia/Sydney"), "2026-04-04T15:30:00.000Z");
+  assert.equal(utc("2026-04-05", "04:00", "Australia/Sydney"), "2026-04-04T18:00:00.000Z");
+  assert.equal(utc("2026-10-04", "02:30", "Australia/Sydney"), "2026-10-03T16:30:00.000Z");
+  assert.equal(utc("2026-10-04", "03:30", "Australia/Sydney"), "2026-10-03T16:30:00.000Z");
+});
+
+test("every wall-clock time of a switch day reads back the same, or an hour later in the gap", () => {
+  for (const [zone, date] of [
+    ["Europe/Paris", "2026-03-29"],
+    ["Europe/Paris", "2026-10-25"],
+    ["America/New_York", "2026-03-08"],
+    ["America/New_York", "2026-11-01"],
+    ["Australia/Sydney", "2026-04-05"],
+    ["Australia/Sydney", "2026-10-04"],
+  ]) {
+    for (let m = 0; m < 24 * 60; m += 15) {
+      const time = fromMinutes(m);
+      const back = nowIn(zone, zonedTimeToUtc(date, time, zone));
+      const skipped = back.minutes === m + 60 && back.date === date;
+      assert.ok((back.date === date && back.minutes === m) || skipped, `${zone} ${date} ${time} read back as ${back.date} ${fromMinutes(back.minutes)}`);
+    }
+  }
+});
+
+test("calendar helpers", () => {
+  assert.equal(isValidDate("2028-02-29"), true);
+  assert.equal(isValidDate("2026-02-29"), false);
+  assert.equal(isValidDate("2026-2-1"), false);
+  assert.equal(addDays("2026-12-31", 1), "2027-01-01");
+  assert.equal(addDays("2026-03-01", -1), "2026-02-28");
+  assert.equal(weekdayOf("2026-10-19"), 1);
+  assert.equal(fromMinutes(9 * 60 + 5), "09:05");
+});
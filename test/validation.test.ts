@@ -0,0 +1,142 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { CONTACT_SCHEMA } from "../lib/contact";
+import { Schema, email, frenchPhone, hasErrors, isValidEmail, matches, maxLength, normalizeFrenchPhone, required, validateSchema } from "../lib/validation";
+import { Resolver, createEmailChecker } from "../server/validation";
+
+test("French numbers are stored as +33 followed by the nine digits", () => {
+  for (const raw of ["06 12 34 56 78", "06.12.34.56.78", "06-12-34-56-78", "06/12/34/56/78", " 0612345678 ", "+33 6 12 34 56 78", "+33 (0)6 12 34 56 78", "+330612345678", "0033 6 12 34 56 78", "00 33 6 12 34 56 78"]) {
+    assert.equal(normalizeFrenchPhone(raw), "+33612345678", raw);
+  }
+  assert.equal(normalizeFrenchPhone("01 23 45 67 89"), "+33123456789");
+  assert.equal(normalizeFrenchPhone("09 70 12 34 56"), "+33970123456");
+});
+
+test("overseas numbers get their own calling code, however they are written", () => {
+  const cases: [string, string][] = [
+    ["0262 12 34 56", "+262262123456"],
+    ["0692 12 34 56", "+262692123456"],
+    ["0639 12 34 56", "+262639123456"],
+    ["0590 12 34 56", "+590590123456"],
+    ["0690 12 34 56", "+590690123456"],
+    ["0594 12 34 56", "+594594123456"],
+    ["0694 12 34 56", "+594694123456"],
+    ["0596 12 34 56", "+596596123456"],
+    ["0697 12 34 56", "+596697123456"],
+    ["+262 692 12 34 56", "+262692123456"],
+    ["+262 (0)692 12 34 56", "+262692123456"],
+    ["00262 262 12 34 56", "+262262123456"],
+    ["+590 690 12 34 56", "+590690123456"],
+    ["+33 6 92 12 34 56", "+262692123456"],
+    ["+33 5 96 12 34 56", "+596596123456"],
+  ];
+  for (const [raw, stored] of cases) assert.equal(normalizeFrenchPhone(raw), stored, raw);
+});
+
+test("anything else isn't a French number", () => {
+  for (const raw of ["", "six", "06 12 34 56 7", "06 12 34 56 789", "00 12 34 56 78", "6 12 34 56 78", "0612345678a", "+33 6 12 34 56 78 9", "+33 0 6 12", "+44 20 7946 0958", "+1 212 555 0199", "0044 20 7946 0958", "++33612345678"]) {
+    assert.equal(normalizeFrenchPhone(raw), null, raw);
+  }
+});
+
+test("rules pass empty values but required, and each field reports its first error", () => {
+  assert.equal(required("  "), "required");
+  assert.equal(maxLength(3)("abcd"), "too_long");
+  assert.equal(maxLength(3)("abc"), null);
+  assert.equal(matches(/^\d+$/)("12a"), "invalid");
+  for (const rule of [maxLength(0), matches(/^\d+$/), email, frenchPhone]) assert.equal(rule(""), null);
+
+  assert.equal(isValidEmail("clara@atelier-martin.fr"), true);
+  for (const bad of ["clara", "clara@", "@atelier.fr", "clara@atelier", "clara@atelier..fr", "clara@.fr", "cla ra@atelier.fr", "clara@@atelier.fr", `${"a".repeat(250)}@b.fr`]) {
+    assert.equal(isValidEmail(bad), false, bad);
+  }
+
+  const schema: Schema<"code" | "note"> = { code: [required, maxLength(4), matches(/^\d+$/)], note: [maxLength(5)] };
+  assert.deepEqual(validateSchema(schema, {}), { code: "required" });
+  assert.deepEqual(validateSchema(schema, { code: "12345a", note: "trop long" }), { code: "too_long", note: "too_long" });
+  assert.deepEqual(validateSchema(schema, { code: "12a" }), { code: "invalid" });
+  assert.deepEqual(validateSchema<"code" | "note">(schema, { code: "12345a", note: "trop long" }, ["note"]), { note: "too_long" });
+  assert.equal(hasErrors(validateSchema(schema, { code: "1234" })), false);
+
+  assert.deepEqual(validateSchema(CONTACT_SCHEMA, { name: "Clara", email: "clara@example.com", phone: "06 12 34 56" }), { phone: "invalid" });
+  assert.deepEqual(validateSchema(CONTACT_SCHEMA, { name: "Clara", email: "clara@example.com", phone: "+33 6 12 34 56 78" }), {});
+});
+
+/* ---------------------------
+   Email checker
+   --------------------------- */
+
+const dnsError = (code: string) => Object.assign(new Error(`query ${code}`), { code });
+
+/** A resolver answering from `zones`: a record list, or the error code the lookup fails with. */
+function fakeResolver(zones: Record<string, { mx?: { exchange: string; priority: number }[] | string; a?: string[] | string; aaaa?: string[] | string }>) {
+  const lookups: string[] = [];
+  const answer =
+    <T>(type: "mx" | "a" | "aaaa") =>
+    async (domain: string): Promise<T[]> => {
+      lookups.push(`${type} ${domain}`);
+      const records = zones[domain]?.[type] ?? (zones[domain] ? "ENODATA" : "ENOTFOUND");
+      if (typeof records === "string") throw dnsError(records);
+      return records as T[];
+    };
+  const resolver = { resolveMx: answer("mx"), resolve4: answer("a"), resolve6: answer("aaaa") } as unknown as Resolver;
+  return { resolver, lookups };
+}
+
+test("disposable providers are refused before any lookup, subdomains included", async () => {
+  const { resolver, lookups } = fakeResolver({});
+  const check = createEmailChecker({ resolver });
+  assert.equal(await check("x@yopmail.com"), "disposable");
+  assert.equal(await check("x@eu.Mailinator.com"), "disposable");
+  assert.deepEqual(lookups, []);
+  // a name that only ends like one isn't
+  assert.equal(await check("x@notmailinator.com"), "no_mx");
+});
+
+test("a domain takes mail through its MX records, or its own address without any", async () => {
+  const { resolver } = fakeResolver({
+    "atelier.fr": { mx: [{ exchange: "mx.atelier.fr", priority: 10 }] },
+    "nomail.fr": { mx: [{ exchange: ".", priority: 0 }], a: ["192.0.2.1"] },
+    "direct.fr": { a: ["192.0.2.2"] },
+    "v6only.fr": { a: [], aaaa: ["2001:db8::1"] },
+    "parked.fr": {},
+  });
+  const check = createEmailChecker({ resolver });
+  assert.equal(await check("clara@atelier.fr"), null);
+  // a null MX says so explicitly, whatever the A record
+  assert.equal(await check("clara@nomail.fr"), "no_mx");
+  assert.equal(await check("clara@direct.fr"), null);
+  assert.equal(await check("clara@v6only.fr"), null);
+  assert.equal(await check("clara@parked.fr"), "no_mx");
+  assert.equal(await check("clara@nowhere.invalid"), "no_mx");
+});
+
+test("a check that can't be made lets the address through and isn't cached", async () => {
+  const failing = fakeResolver({ "atelier.fr": { mx: "ESERVFAIL" } });
+  assert.equal(await createEmailChecker({ resolver: failing.resolver })("clara@atelier.fr"), null);
+
+  let answered = 0;
+  const slow = {
+    resolveMx: () => (answered++ ? Promise.resolve([]) : new Promise(() => {})),
+    resolve4: async () => [],
+    resolve6: async () => [],
+  } as unknown as Resolver;
+  const check = createEmailChecker({ resolver: slow, timeoutMs: 20 });
+  assert.equal(await check("clara@slow.fr"), null);
+  // asked again next time: this answer is "no MX, no address"
+  assert.equal(await check("clara@slow.fr"), "no_mx");
+});
+
+test("a domain's answer is reused until cacheMs has passed", async () => {
+  let clock = 0;
+  const { resolver, lookups } = fakeResolver({ "atelier.fr": { mx: [{ exchange: "mx.atelier.fr", priority: 10 }] } });
+  const check = createEmailChecker({ resolver, cacheMs: 1000, now: () => clock });
+  await check("clara@atelier.fr");
+  await check("marc@ATELIER.fr");
+  clock = 999;
+  await check("ines@atelier.fr");
+  assert.deepEqual(lookups, ["mx atelier.fr"]);
+  clock = 1000;
+  await check("clara@atelier.fr");
+  assert.deepEqual(lookups, ["mx atelier.fr", "mx atelier.fr"]);
+});
@@ -0,0 +1,48 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { signPayload, verifySignature, webhookAdapter } from "../server/leads/webhook";
+import { makeLead } from "./fixtures";
+
+const SECRET = "whsec_test";
+const NOW = Date.UTC(2026, 2, 2, 9, 0, 0);
+
+/** Delivers a lead to a fake receiver and returns what it got. */
+async function deliver() {
+  let received: { headers: Headers; body: string } | null = null;
+  const fetchImpl = (async (_url: string, init: RequestInit) => {
+    received = { headers: new Headers(init.headers), body: String(init.body) };
+    return new Response(null, { status: 204 });
+  }) as typeof fetch;
+  await webhookAdapter({ url: "https://hooks.example.com/leads", secret: SECRET, fetchImpl, now: () => NOW }).deliver(makeLead());
+  return received!;
+}
+
+test("the signature header verifies against the body the receiver got", async () => {
+  const { headers, body } = await deliver();
+  const header = headers.get("X-Lead-Signature")!;
+  assert.match(header, /^t=\d+,v1=[0-9a-f]{64}$/);
+  assert.equal(verifySignature(SECRET, header, body, { now: NOW }), true);
+  assert.equal(JSON.parse(body).lead.id, "lead-1");
+});
+
+test("a tampered body, another secret or a stale timestamp fail verification", async () => {
+  const { headers, body } = await deliver();
+  const header = headers.get("X-Lead-Signature")!;
+  assert.equal(verifySignature(SECRET, header, body.replace("Clara", "Clare"), { now: NOW }), false);
+  assert.equal(verifySignature("another", header, body, { now: NOW }), false);
+  assert.equal(verifySignature(SECRET, header, body, { now: NOW + 301_000 }), false);
+  assert.equal(verifySignature(SECRET, header, body, { now: NOW + 299_000 }), true);
+});
+
+test("malformed headers are refused", () => {
+  const t = NOW / 1000;
+  assert.equal(verifySignature(SECRET, "", "{}", { now: NOW }), false);
+  assert.equal(verifySignature(SECRET, `t=${t}`, "{}", { now: NOW }), false);
+  assert.equal(verifySignature(SECRET, `t=abc,v1=${signPayload(SECRET, t, "{}")}`, "{}", { now: NOW }), false);
+  assert.equal(verifySignature(SECRET, `t=${t},v1=abcd`, "{}", { now: NOW }), false);
+});
+
+test("a refusal from the receiver is a delivery error", async () => {
+  const fetchImpl = (async () => new Response("nope", { status: 500 })) as unknown as typeof fetch;
+  await assert.rejects(webhookAdapter({ url: "https://hooks.example.com/leads", secret: SECRET, fetchImpl }).deliver(makeLead()), /HTTP 500/);
+});